@@ -0,0 +1,20 @@
+-- Create payment_events table for idempotent payment webhook processing
+CREATE TABLE IF NOT EXISTS "payment_events" (
+	"id" text PRIMARY KEY NOT NULL,
+	"provider" text NOT NULL,
+	"type" text NOT NULL,
+	"provider_type" text NOT NULL,
+	"payment_intent_id" text,
+	"order_id" uuid,
+	"result" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$ BEGIN
+ ALTER TABLE "payment_events" ADD CONSTRAINT "payment_events_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "payment_events_order_idx" ON "payment_events" ("order_id");
+CREATE INDEX IF NOT EXISTS "payment_events_payment_intent_idx" ON "payment_events" ("payment_intent_id");
@@ -0,0 +1,12 @@
+-- Record the promotion applied to an order and the discount it gave
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "discount" numeric(10, 2) DEFAULT '0' NOT NULL;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "promotion_id" uuid;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "promotion_code" text;
+
+DO $$ BEGIN
+ ALTER TABLE "orders" ADD CONSTRAINT "orders_promotion_id_promotions_id_fk" FOREIGN KEY ("promotion_id") REFERENCES "promotions"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "orders_promotion_idx" ON "orders" ("promotion_id");
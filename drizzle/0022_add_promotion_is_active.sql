@@ -0,0 +1,2 @@
+-- Allow promotions to be paused without deleting them
+ALTER TABLE "promotions" ADD COLUMN IF NOT EXISTS "is_active" boolean DEFAULT true NOT NULL;
@@ -0,0 +1,20 @@
+-- Admin-managed tax rates by country/region and product tax category
+CREATE TABLE IF NOT EXISTS "tax_rates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"country" varchar(2) NOT NULL,
+	"region" text,
+	"tax_category" text DEFAULT 'standard' NOT NULL,
+	"rate" numeric(6, 5) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "tax_rates_location_idx" ON "tax_rates" ("country", "region");
+
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "tax_category" text DEFAULT 'standard' NOT NULL;
+
+-- Keep charging the previous flat 8% for US orders until rates are configured
+INSERT INTO "tax_rates" ("name", "country", "region", "tax_category", "rate")
+SELECT 'United States sales tax', 'US', NULL, 'standard', 0.08
+WHERE NOT EXISTS (SELECT 1 FROM "tax_rates");
@@ -0,0 +1,72 @@
+-- Shipping zones, per-zone rates and product weights
+CREATE TABLE IF NOT EXISTS "shipping_zones" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "shipping_zone_locations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"zone_id" uuid NOT NULL,
+	"country" varchar(2) NOT NULL,
+	"region" text
+);
+
+CREATE TABLE IF NOT EXISTS "shipping_rates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"zone_id" uuid NOT NULL,
+	"method" text NOT NULL,
+	"name" text NOT NULL,
+	"rate_type" text DEFAULT 'flat' NOT NULL,
+	"amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"tiers" jsonb,
+	"free_over" numeric(10, 2),
+	"is_active" boolean DEFAULT true NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$ BEGIN
+ ALTER TABLE "shipping_zone_locations" ADD CONSTRAINT "shipping_zone_locations_zone_id_shipping_zones_id_fk" FOREIGN KEY ("zone_id") REFERENCES "shipping_zones"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "shipping_rates" ADD CONSTRAINT "shipping_rates_zone_id_shipping_zones_id_fk" FOREIGN KEY ("zone_id") REFERENCES "shipping_zones"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "shipping_zone_locations_zone_idx" ON "shipping_zone_locations" ("zone_id");
+CREATE INDEX IF NOT EXISTS "shipping_zone_locations_location_idx" ON "shipping_zone_locations" ("country", "region");
+CREATE INDEX IF NOT EXISTS "shipping_rates_zone_idx" ON "shipping_rates" ("zone_id");
+
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "weight_grams" integer;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "shipping_method" text;
+
+-- Start with the previous $9.99 / free over $100 rate for every country the
+-- checkout form offers, so existing behaviour is unchanged until configured
+DO $$
+DECLARE
+  domestic_zone uuid;
+  international_zone uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM "shipping_zones") THEN
+    INSERT INTO "shipping_zones" ("name") VALUES ('United States')
+      RETURNING "id" INTO domestic_zone;
+    INSERT INTO "shipping_zone_locations" ("zone_id", "country")
+      VALUES (domestic_zone, 'US');
+    INSERT INTO "shipping_rates" ("zone_id", "method", "name", "rate_type", "amount", "free_over")
+      VALUES (domestic_zone, 'standard', 'Standard shipping', 'flat', 9.99, 100);
+
+    INSERT INTO "shipping_zones" ("name") VALUES ('International')
+      RETURNING "id" INTO international_zone;
+    INSERT INTO "shipping_zone_locations" ("zone_id", "country")
+      VALUES (international_zone, 'CA'), (international_zone, 'GB'), (international_zone, 'AU');
+    INSERT INTO "shipping_rates" ("zone_id", "method", "name", "rate_type", "amount", "free_over")
+      VALUES (international_zone, 'international', 'International shipping', 'flat', 9.99, 100);
+  END IF;
+END $$;
@@ -0,0 +1,34 @@
+-- Time-limited stock holds taken while a shopper checks out
+CREATE TABLE IF NOT EXISTS "inventory_reservations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"reservation_id" uuid NOT NULL,
+	"session_id" uuid,
+	"product_id" uuid NOT NULL,
+	"quantity" integer NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$ BEGIN
+ ALTER TABLE "inventory_reservations" ADD CONSTRAINT "inventory_reservations_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "inventory_reservations_reservation_idx" ON "inventory_reservations" ("reservation_id");
+CREATE INDEX IF NOT EXISTS "inventory_reservations_expires_at_idx" ON "inventory_reservations" ("expires_at");
+CREATE INDEX IF NOT EXISTS "inventory_reservations_session_idx" ON "inventory_reservations" ("session_id");
+
+-- The removed guest checkout endpoint added every order's units to
+-- quantity_reserved without a reservation row to release them. Recount the
+-- reserved units from the reservations that actually exist.
+UPDATE "inventory"
+SET "quantity_reserved" = "held"."quantity", "updated_at" = now()
+FROM (
+	SELECT "inventory"."product_id", COALESCE(sum("inventory_reservations"."quantity"), 0) AS "quantity"
+	FROM "inventory"
+	LEFT JOIN "inventory_reservations" ON "inventory_reservations"."product_id" = "inventory"."product_id"
+	GROUP BY "inventory"."product_id"
+) AS "held"
+WHERE "held"."product_id" = "inventory"."product_id"
+	AND "inventory"."quantity_reserved" <> "held"."quantity";
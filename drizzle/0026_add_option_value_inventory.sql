@@ -0,0 +1,5 @@
+-- Per-option-value stock and variant stock notifications
+ALTER TABLE "product_option_values" ADD COLUMN IF NOT EXISTS "quantity_available" integer;
+
+ALTER TABLE "stock_notifications" ADD COLUMN IF NOT EXISTS "option_name" text;
+ALTER TABLE "stock_notifications" ADD COLUMN IF NOT EXISTS "option_value" text;
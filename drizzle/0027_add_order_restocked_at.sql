@@ -0,0 +1,2 @@
+-- Marks orders whose units were returned to stock after cancellation or refund
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "restocked_at" timestamp;
@@ -0,0 +1,28 @@
+-- One row per order status change, shown as the order timeline
+CREATE TABLE IF NOT EXISTS "order_status_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" uuid NOT NULL,
+	"from_status" text,
+	"to_status" text NOT NULL,
+	"actor_id" uuid,
+	"actor_type" text NOT NULL,
+	"source" text NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$ BEGIN
+ ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "order_status_history_order_idx" ON "order_status_history" ("order_id");
+
+-- Start existing orders' timelines at the time they were placed
+INSERT INTO "order_status_history" ("order_id", "from_status", "to_status", "actor_id", "actor_type", "source", "created_at")
+SELECT "id", NULL, 'received', "customer_id", 'customer', 'checkout', "created_at"
+FROM "orders"
+WHERE NOT EXISTS (
+	SELECT 1 FROM "order_status_history" WHERE "order_status_history"."order_id" = "orders"."id"
+);
@@ -0,0 +1,29 @@
+-- Reminder emails for carts left idle by signed-in customers
+CREATE TABLE IF NOT EXISTS "abandoned_cart_emails" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"cart_id" uuid,
+	"customer_id" uuid NOT NULL,
+	"token" text NOT NULL,
+	"item_count" integer NOT NULL,
+	"sent_at" timestamp DEFAULT now() NOT NULL,
+	"restored_at" timestamp,
+	"recovered_order_id" uuid,
+	"recovered_at" timestamp,
+	CONSTRAINT "abandoned_cart_emails_token_unique" UNIQUE("token")
+);
+
+DO $$ BEGIN
+ ALTER TABLE "abandoned_cart_emails" ADD CONSTRAINT "abandoned_cart_emails_cart_id_carts_id_fk" FOREIGN KEY ("cart_id") REFERENCES "carts"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "abandoned_cart_emails" ADD CONSTRAINT "abandoned_cart_emails_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "abandoned_cart_emails_cart_idx" ON "abandoned_cart_emails" ("cart_id");
+CREATE INDEX IF NOT EXISTS "abandoned_cart_emails_customer_idx" ON "abandoned_cart_emails" ("customer_id");
+CREATE INDEX IF NOT EXISTS "abandoned_cart_emails_sent_at_idx" ON "abandoned_cart_emails" ("sent_at");
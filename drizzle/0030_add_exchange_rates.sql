@@ -0,0 +1,16 @@
+-- Admin-managed exchange rates for shopping in currencies other than the
+-- store currency
+CREATE TABLE IF NOT EXISTS "exchange_rates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"currency" text NOT NULL,
+	"rate" numeric(14, 6) NOT NULL,
+	"rounding" text DEFAULT 'exact' NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "exchange_rates_currency_unique" UNIQUE("currency")
+);
+
+-- Rate the order's amounts were converted at, so reports can total orders
+-- placed in different currencies
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "exchange_rate" numeric(14, 6) DEFAULT '1' NOT NULL;
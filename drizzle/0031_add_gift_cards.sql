@@ -0,0 +1,66 @@
+-- Gift cards sold as products, store credit issued from the admin, and the
+-- ledger every balance change is recorded in
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "is_gift_card" boolean DEFAULT false NOT NULL;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "gift_card_amount" numeric(10, 2) DEFAULT '0' NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "gift_cards" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"code" text NOT NULL,
+	"source" text NOT NULL,
+	"initial_balance" numeric(10, 2) NOT NULL,
+	"balance" numeric(10, 2) NOT NULL,
+	"customer_id" uuid,
+	"recipient_email" text NOT NULL,
+	"order_id" uuid,
+	"issued_by" uuid,
+	"note" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "gift_cards_code_unique" UNIQUE("code")
+);
+
+CREATE TABLE IF NOT EXISTS "gift_card_transactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"gift_card_id" uuid NOT NULL,
+	"order_id" uuid,
+	"type" text NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"balance_after" numeric(10, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$ BEGIN
+ ALTER TABLE "gift_cards" ADD CONSTRAINT "gift_cards_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "gift_cards" ADD CONSTRAINT "gift_cards_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "gift_cards" ADD CONSTRAINT "gift_cards_issued_by_customers_id_fk" FOREIGN KEY ("issued_by") REFERENCES "customers"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "gift_card_transactions" ADD CONSTRAINT "gift_card_transactions_gift_card_id_gift_cards_id_fk" FOREIGN KEY ("gift_card_id") REFERENCES "gift_cards"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "gift_card_transactions" ADD CONSTRAINT "gift_card_transactions_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "gift_cards_customer_idx" ON "gift_cards" ("customer_id");
+CREATE INDEX IF NOT EXISTS "gift_cards_order_idx" ON "gift_cards" ("order_id");
+CREATE INDEX IF NOT EXISTS "gift_card_transactions_gift_card_idx" ON "gift_card_transactions" ("gift_card_id");
+CREATE INDEX IF NOT EXISTS "gift_card_transactions_order_idx" ON "gift_card_transactions" ("order_id");
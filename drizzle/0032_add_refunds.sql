@@ -0,0 +1,34 @@
+-- Partial and full refunds recorded per action, with the running refunded
+-- total kept on the order for reporting
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "refunded_amount" numeric(10, 2) DEFAULT '0' NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "refunds" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" uuid NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"payment_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"gift_card_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"reason" text NOT NULL,
+	"note" text,
+	"items" jsonb,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"provider_refund_id" text,
+	"failure_message" text,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$ BEGIN
+ ALTER TABLE "refunds" ADD CONSTRAINT "refunds_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "refunds" ADD CONSTRAINT "refunds_created_by_customers_id_fk" FOREIGN KEY ("created_by") REFERENCES "customers"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "refunds_order_idx" ON "refunds" ("order_id");
@@ -0,0 +1,38 @@
+-- Customer return requests with photos, reviewed from the admin returns queue
+CREATE TABLE IF NOT EXISTS "return_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" uuid NOT NULL,
+	"customer_id" uuid,
+	"email" text NOT NULL,
+	"status" text DEFAULT 'requested' NOT NULL,
+	"reason" text NOT NULL,
+	"details" text,
+	"items" jsonb NOT NULL,
+	"photos" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"admin_note" text,
+	"reviewed_by" uuid,
+	"reviewed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$ BEGIN
+ ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_reviewed_by_customers_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "customers"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "return_requests_order_idx" ON "return_requests" ("order_id");
+CREATE INDEX IF NOT EXISTS "return_requests_status_idx" ON "return_requests" ("status");
@@ -0,0 +1,27 @@
+-- Carrier tracking events for shipped orders, with the latest tracking status
+-- kept on the order so the poll knows what to check next
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "tracking_status" text;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "tracking_checked_at" timestamp;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "delivered_at" timestamp;
+
+CREATE TABLE IF NOT EXISTS "tracking_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" uuid NOT NULL,
+	"tracking_number" text NOT NULL,
+	"carrier" text NOT NULL,
+	"status" text NOT NULL,
+	"description" text NOT NULL,
+	"location" text,
+	"occurred_at" timestamp NOT NULL,
+	"event_key" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$ BEGIN
+ ALTER TABLE "tracking_events" ADD CONSTRAINT "tracking_events_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "tracking_events_order_idx" ON "tracking_events" ("order_id","occurred_at");
+CREATE UNIQUE INDEX IF NOT EXISTS "tracking_events_event_key_idx" ON "tracking_events" ("order_id","event_key");
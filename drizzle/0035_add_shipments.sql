@@ -0,0 +1,73 @@
+-- Split shipments: an order can go out in several packages, each with its own
+-- tracking number and subset of the order items. Carrier tracking moves from
+-- the order to the shipment; the order keeps its latest tracking number.
+CREATE TABLE IF NOT EXISTS "shipments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" uuid NOT NULL,
+	"tracking_number" text NOT NULL,
+	"carrier" text NOT NULL,
+	"items" jsonb NOT NULL,
+	"tracking_status" text,
+	"tracking_checked_at" timestamp,
+	"delivered_at" timestamp,
+	"shipped_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$ BEGIN
+ ALTER TABLE "shipments" ADD CONSTRAINT "shipments_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "shipments" ADD CONSTRAINT "shipments_created_by_customers_id_fk" FOREIGN KEY ("created_by") REFERENCES "customers"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "shipments_order_idx" ON "shipments" ("order_id");
+CREATE INDEX IF NOT EXISTS "shipments_tracking_idx" ON "shipments" ("tracking_number");
+
+-- Orders shipped so far went out as one package holding every item
+INSERT INTO "shipments" ("order_id", "tracking_number", "carrier", "items", "tracking_status", "tracking_checked_at", "delivered_at", "shipped_at")
+SELECT
+	o."id",
+	o."tracking_number",
+	COALESCE(o."shipping_provider", 'other'),
+	COALESCE(
+		(SELECT jsonb_agg(jsonb_build_object('order_item_id', oi."id", 'quantity', oi."quantity"))
+		 FROM "order_items" oi WHERE oi."order_id" = o."id"),
+		'[]'::jsonb
+	),
+	o."tracking_status",
+	o."tracking_checked_at",
+	o."delivered_at",
+	COALESCE(o."shipped_at", o."updated_at")
+FROM "orders" o
+WHERE o."tracking_number" IS NOT NULL
+	AND NOT EXISTS (SELECT 1 FROM "shipments" s WHERE s."order_id" = o."id");
+
+ALTER TABLE "tracking_events" ADD COLUMN IF NOT EXISTS "shipment_id" uuid;
+
+UPDATE "tracking_events" e
+SET "shipment_id" = s."id"
+FROM "shipments" s
+WHERE e."shipment_id" IS NULL
+	AND s."order_id" = e."order_id"
+	AND s."tracking_number" = e."tracking_number";
+
+DELETE FROM "tracking_events" WHERE "shipment_id" IS NULL;
+
+ALTER TABLE "tracking_events" ALTER COLUMN "shipment_id" SET NOT NULL;
+
+DO $$ BEGIN
+ ALTER TABLE "tracking_events" ADD CONSTRAINT "tracking_events_shipment_id_shipments_id_fk" FOREIGN KEY ("shipment_id") REFERENCES "shipments"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "orders" DROP COLUMN IF EXISTS "tracking_status";
+ALTER TABLE "orders" DROP COLUMN IF EXISTS "tracking_checked_at";
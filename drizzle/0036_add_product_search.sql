@@ -0,0 +1,110 @@
+-- Full-text product search: one search document per product with its title,
+-- tag, category and option value names, and description. The tsvector ranks
+-- title matches above keywords above description; the trigram index on the
+-- combined text lets misspelled searches still find products.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE IF NOT EXISTS "product_search_index" (
+	"product_id" uuid PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"keywords" text DEFAULT '' NOT NULL,
+	"description" text DEFAULT '' NOT NULL,
+	"document" tsvector GENERATED ALWAYS AS (setweight(to_tsvector('english', "title"), 'A') || setweight(to_tsvector('english', "keywords"), 'B') || setweight(to_tsvector('english', "description"), 'C')) STORED,
+	"search_text" text GENERATED ALWAYS AS ("title" || ' ' || "keywords" || ' ' || "description") STORED,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$ BEGIN
+ ALTER TABLE "product_search_index" ADD CONSTRAINT "product_search_index_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "product_search_index_document_idx" ON "product_search_index" USING gin ("document");
+CREATE INDEX IF NOT EXISTS "product_search_index_trigram_idx" ON "product_search_index" USING gin ("search_text" gin_trgm_ops);
+
+-- Rebuild one product's search document from the product and the names of
+-- its tags, categories and option values. Removes nothing: deleted products
+-- drop out of the index through the foreign key.
+CREATE OR REPLACE FUNCTION "refresh_product_search_document"("target" uuid) RETURNS void AS $$
+BEGIN
+	INSERT INTO "product_search_index" ("product_id", "title", "keywords", "description", "updated_at")
+	SELECT
+		p."id",
+		p."title",
+		concat_ws(' ',
+			(SELECT string_agg(DISTINCT t."name", ' ') FROM "product_tags" pt JOIN "tags" t ON t."id" = pt."tag_id" WHERE pt."product_id" = p."id"),
+			(SELECT string_agg(DISTINCT c."name", ' ') FROM "product_categories" pc JOIN "categories" c ON c."id" = pc."category_id" WHERE pc."product_id" = p."id"),
+			(SELECT string_agg(DISTINCT v."name", ' ') FROM "product_options" o JOIN "product_option_values" v ON v."option_id" = o."id" WHERE o."product_id" = p."id")
+		),
+		p."description",
+		now()
+	FROM "products" p
+	WHERE p."id" = "target"
+	ON CONFLICT ("product_id") DO UPDATE SET
+		"title" = excluded."title",
+		"keywords" = excluded."keywords",
+		"description" = excluded."description",
+		"updated_at" = excluded."updated_at";
+END;
+$$ LANGUAGE plpgsql;
+
+-- Keep the index current however products and their names are written:
+-- admin APIs, import scripts or direct SQL
+CREATE OR REPLACE FUNCTION "product_search_index_sync"() RETURNS trigger AS $$
+BEGIN
+	IF TG_TABLE_NAME = 'products' THEN
+		PERFORM "refresh_product_search_document"(NEW."id");
+	ELSIF TG_TABLE_NAME IN ('product_tags', 'product_categories', 'product_options') THEN
+		IF TG_OP <> 'INSERT' THEN
+			PERFORM "refresh_product_search_document"(OLD."product_id");
+		END IF;
+		IF TG_OP <> 'DELETE' THEN
+			PERFORM "refresh_product_search_document"(NEW."product_id");
+		END IF;
+	ELSIF TG_TABLE_NAME = 'product_option_values' THEN
+		IF TG_OP <> 'INSERT' THEN
+			PERFORM "refresh_product_search_document"(o."product_id") FROM "product_options" o WHERE o."id" = OLD."option_id";
+		END IF;
+		IF TG_OP <> 'DELETE' THEN
+			PERFORM "refresh_product_search_document"(o."product_id") FROM "product_options" o WHERE o."id" = NEW."option_id";
+		END IF;
+	ELSIF TG_TABLE_NAME = 'tags' THEN
+		PERFORM "refresh_product_search_document"(pt."product_id") FROM "product_tags" pt WHERE pt."tag_id" = NEW."id";
+	ELSIF TG_TABLE_NAME = 'categories' THEN
+		PERFORM "refresh_product_search_document"(pc."product_id") FROM "product_categories" pc WHERE pc."category_id" = NEW."id";
+	END IF;
+	RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "products_search_index_sync" ON "products";
+CREATE TRIGGER "products_search_index_sync" AFTER INSERT OR UPDATE OF "title", "description" ON "products"
+	FOR EACH ROW EXECUTE FUNCTION "product_search_index_sync"();
+
+DROP TRIGGER IF EXISTS "product_tags_search_index_sync" ON "product_tags";
+CREATE TRIGGER "product_tags_search_index_sync" AFTER INSERT OR UPDATE OR DELETE ON "product_tags"
+	FOR EACH ROW EXECUTE FUNCTION "product_search_index_sync"();
+
+DROP TRIGGER IF EXISTS "product_categories_search_index_sync" ON "product_categories";
+CREATE TRIGGER "product_categories_search_index_sync" AFTER INSERT OR UPDATE OR DELETE ON "product_categories"
+	FOR EACH ROW EXECUTE FUNCTION "product_search_index_sync"();
+
+DROP TRIGGER IF EXISTS "product_options_search_index_sync" ON "product_options";
+CREATE TRIGGER "product_options_search_index_sync" AFTER UPDATE OF "product_id" OR DELETE ON "product_options"
+	FOR EACH ROW EXECUTE FUNCTION "product_search_index_sync"();
+
+DROP TRIGGER IF EXISTS "product_option_values_search_index_sync" ON "product_option_values";
+CREATE TRIGGER "product_option_values_search_index_sync" AFTER INSERT OR UPDATE OF "name", "option_id" OR DELETE ON "product_option_values"
+	FOR EACH ROW EXECUTE FUNCTION "product_search_index_sync"();
+
+DROP TRIGGER IF EXISTS "tags_search_index_sync" ON "tags";
+CREATE TRIGGER "tags_search_index_sync" AFTER UPDATE OF "name" ON "tags"
+	FOR EACH ROW EXECUTE FUNCTION "product_search_index_sync"();
+
+DROP TRIGGER IF EXISTS "categories_search_index_sync" ON "categories";
+CREATE TRIGGER "categories_search_index_sync" AFTER UPDATE OF "name" ON "categories"
+	FOR EACH ROW EXECUTE FUNCTION "product_search_index_sync"();
+
+-- Index every existing product
+SELECT "refresh_product_search_document"("id") FROM "products";
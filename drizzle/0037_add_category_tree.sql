@@ -0,0 +1,24 @@
+-- Category tree management: siblings get an explicit order so the admin can
+-- arrange them, and parent_id becomes a real foreign key. Categories whose
+-- parent no longer exists are moved to the top level first.
+ALTER TABLE "categories" ADD COLUMN IF NOT EXISTS "sort_order" integer DEFAULT 0 NOT NULL;
+
+UPDATE "categories" SET "parent_id" = NULL
+WHERE "parent_id" IS NOT NULL
+AND "parent_id" NOT IN (SELECT "id" FROM "categories");
+
+DO $$ BEGIN
+ ALTER TABLE "categories" ADD CONSTRAINT "categories_parent_id_categories_id_fk" FOREIGN KEY ("parent_id") REFERENCES "categories"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "categories_sort_order_idx" ON "categories" USING btree ("parent_id","sort_order");
+
+-- Start from the alphabetical order the storefront used so far
+UPDATE "categories" SET "sort_order" = ranked."position"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "parent_id" ORDER BY "name") - 1 AS "position"
+  FROM "categories"
+) AS ranked
+WHERE "categories"."id" = ranked."id";
@@ -0,0 +1,10 @@
+-- Log of storefront searches that found no products, shown to admins in
+-- analytics so they can see what customers look for but cannot find
+CREATE TABLE IF NOT EXISTS "zero_result_searches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"query" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "zero_result_searches_query_idx" ON "zero_result_searches" USING btree ("query");
+CREATE INDEX IF NOT EXISTS "zero_result_searches_created_at_idx" ON "zero_result_searches" USING btree ("created_at");
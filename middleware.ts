@@ -1,3 +1,8 @@
+import {
+  CURRENCY_COOKIE,
+  getCurrencyForCountry,
+  isSupportedCurrency,
+} from "@/lib/currency-utils";
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 
@@ -7,7 +12,12 @@ export function middleware(request: NextRequest) {
   // Handle geolocation and currency detection
   // Note: request.geo is available on Vercel Edge Runtime
   const country = (request as any).geo?.country || "US";
-  const currency = getCurrencyForCountry(country);
+  // A currency chosen with the header switcher wins over the country default
+  const chosenCurrency = request.cookies.get(CURRENCY_COOKIE)?.value;
+  const currency =
+    chosenCurrency && isSupportedCurrency(chosenCurrency)
+      ? chosenCurrency
+      : getCurrencyForCountry(country);
 
   // Add currency and country headers for API routes
   const requestHeaders = new Headers(request.headers);
@@ -56,24 +66,23 @@ export function middleware(request: NextRequest) {
     }
   }
 
-  return NextResponse.next({
+  const response = NextResponse.next({
     request: {
       headers: requestHeaders,
     },
   });
-}
 
-function getCurrencyForCountry(country: string): string {
-  const currencyMap: Record<string, string> = {
-    US: "USD",
-    CA: "CAD",
-    GB: "GBP",
-    EU: "EUR",
-    AU: "AUD",
-    JP: "JPY",
-  };
-
-  return currencyMap[country] || "USD";
+  // API routes skip the middleware, so they read the currency from the
+  // cookie; seed it from the visitor's country on their first page view
+  if (chosenCurrency !== currency) {
+    response.cookies.set(CURRENCY_COOKIE, currency, {
+      path: "/",
+      sameSite: "lax",
+      maxAge: 60 * 60 * 24 * 365, // 1 year
+    });
+  }
+
+  return response;
 }
 
 export const config = {
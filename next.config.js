@@ -49,11 +49,13 @@ const nextConfig = {
             key: "Content-Security-Policy",
             value: [
               "default-src 'self'",
-              "script-src 'self' 'unsafe-eval' 'unsafe-inline'",
+              // Stripe.js renders the card form when Stripe is the payment provider
+              "script-src 'self' 'unsafe-eval' 'unsafe-inline' https://js.stripe.com",
               "style-src 'self' 'unsafe-inline'",
               "img-src 'self' data: https:",
               "font-src 'self'",
-              "connect-src 'self'",
+              "connect-src 'self' https://api.stripe.com",
+              "frame-src https://js.stripe.com https://hooks.stripe.com",
               "frame-ancestors 'none'",
             ].join("; "),
           },
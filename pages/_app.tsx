@@ -2,6 +2,7 @@ import { NavigationProgress } from "@/components/navigation-progress";
 import { ToastProvider } from "@/components/ui/toast";
 import { AuthProvider } from "@/contexts/auth-context";
 import { CartProvider } from "@/contexts/cart-context";
+import { CurrencyProvider } from "@/contexts/currency-context";
 import { theme } from "@/lib/theme";
 import type { AppProps } from "next/app";
 import { useEffect } from "react";
@@ -19,12 +20,14 @@ export default function App({ Component, pageProps }: AppProps) {
 
   return (
     <AuthProvider>
-      <CartProvider>
+      <CurrencyProvider>
         <ToastProvider>
-          <NavigationProgress />
-          <Component {...pageProps} />
+          <CartProvider>
+            <NavigationProgress />
+            <Component {...pageProps} />
+          </CartProvider>
         </ToastProvider>
-      </CartProvider>
+      </CurrencyProvider>
     </AuthProvider>
   );
 }
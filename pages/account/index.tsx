@@ -1,3 +1,4 @@
+import { AccountGiftCards } from "@/components/account-gift-cards";
 import { AddressManagementModal } from "@/components/address-management-modal";
 import { Footer } from "@/components/layout/footer";
 import { Header } from "@/components/layout/header";
@@ -102,6 +103,10 @@ export default function AccountPage() {
                 </div>
               </div>
             </div>
+
+            <div className="mt-8">
+              <AccountGiftCards />
+            </div>
           </div>
         </div>
       </main>
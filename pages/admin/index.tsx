@@ -1,5 +1,11 @@
 import { AnalyticsChart } from "@/components/admin/analytics-chart";
 import { AuditTrailContent } from "@/components/admin/audit-trail-content";
+import { CategoriesContent } from "@/components/admin/categories-content";
+import { ExchangeRatesContent } from "@/components/admin/exchange-rates-content";
+import { PromotionsContent } from "@/components/admin/promotions-content";
+import { ReturnsContent } from "@/components/admin/returns-content";
+import { ShippingContent } from "@/components/admin/shipping-content";
+import { TaxRatesContent } from "@/components/admin/tax-rates-content";
 import { Footer } from "@/components/layout/footer";
 import { Header } from "@/components/layout/header";
 import { StatusIndicator } from "@/components/ui/status-indicator";
@@ -49,7 +55,15 @@ export default function AdminDashboard() {
   });
   const [statsLoading, setStatsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<
-    "overview" | "analytics" | "audit"
+    | "overview"
+    | "analytics"
+    | "promotions"
+    | "categories"
+    | "tax"
+    | "shipping"
+    | "currencies"
+    | "returns"
+    | "audit"
   >("overview");
   const [analyticsPeriod, setAnalyticsPeriod] = useState<
     "7d" | "30d" | "6m" | "1y" | "all"
@@ -143,14 +157,20 @@ export default function AdminDashboard() {
         const ordersData = await ordersResponse.json();
         const orders = ordersData.data.orders;
 
-        // Calculate total revenue from completed orders
+        // Calculate total revenue from completed orders, less refunds
         const totalRevenue = orders
           .filter((order: any) => order.status === "completed")
-          .reduce((sum: number, order: any) => sum + order.totals.total, 0);
+          .reduce(
+            (sum: number, order: any) =>
+              sum + order.totals.total - (order.totals.refunded || 0),
+            0
+          );
 
-        // Count pending orders (received, paid, shipped)
+        // Count pending orders (received, paid, partially shipped, shipped)
         const pendingOrders = orders.filter((order: any) =>
-          ["received", "paid", "shipped"].includes(order.status)
+          ["received", "paid", "partially_shipped", "shipped"].includes(
+            order.status
+          )
         ).length;
 
         setStats((prev) => ({
@@ -298,6 +318,180 @@ export default function AdminDashboard() {
                 )}
               </button>
 
+              <button
+                onClick={() => setActiveTab("promotions")}
+                className={`relative whitespace-nowrap py-3 sm:py-4 px-1 font-medium text-xs sm:text-sm transition-all duration-200 ${
+                  activeTab === "promotions"
+                    ? "text-primary"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                <span className="relative z-10 flex items-center gap-1 sm:gap-2">
+                  <svg
+                    className="w-4 h-4 sm:w-5 sm:h-5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"
+                    />
+                  </svg>
+                  Promotions
+                </span>
+                {activeTab === "promotions" && (
+                  <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary rounded-t transition-all duration-200" />
+                )}
+              </button>
+
+              <button
+                onClick={() => setActiveTab("categories")}
+                className={`relative whitespace-nowrap py-3 sm:py-4 px-1 font-medium text-xs sm:text-sm transition-all duration-200 ${
+                  activeTab === "categories"
+                    ? "text-primary"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                <span className="relative z-10 flex items-center gap-1 sm:gap-2">
+                  <svg
+                    className="w-4 h-4 sm:w-5 sm:h-5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z"
+                    />
+                  </svg>
+                  Categories
+                </span>
+                {activeTab === "categories" && (
+                  <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary rounded-t transition-all duration-200" />
+                )}
+              </button>
+
+              <button
+                onClick={() => setActiveTab("tax")}
+                className={`relative whitespace-nowrap py-3 sm:py-4 px-1 font-medium text-xs sm:text-sm transition-all duration-200 ${
+                  activeTab === "tax"
+                    ? "text-primary"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                <span className="relative z-10 flex items-center gap-1 sm:gap-2">
+                  <svg
+                    className="w-4 h-4 sm:w-5 sm:h-5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M9 14l6-6m-5.5.5h.01m4.99 5h.01M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16l3.5-2 3.5 2 3.5-2 3.5 2z"
+                    />
+                  </svg>
+                  Tax
+                </span>
+                {activeTab === "tax" && (
+                  <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary rounded-t transition-all duration-200" />
+                )}
+              </button>
+
+              <button
+                onClick={() => setActiveTab("shipping")}
+                className={`relative whitespace-nowrap py-3 sm:py-4 px-1 font-medium text-xs sm:text-sm transition-all duration-200 ${
+                  activeTab === "shipping"
+                    ? "text-primary"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                <span className="relative z-10 flex items-center gap-1 sm:gap-2">
+                  <svg
+                    className="w-4 h-4 sm:w-5 sm:h-5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M13 16V6a1 1 0 00-1-1H4a1 1 0 00-1 1v10a1 1 0 001 1h1m8-1a1 1 0 01-1 1H9m4-1V8a1 1 0 011-1h2.586a1 1 0 01.707.293l3.414 3.414a1 1 0 01.293.707V16a1 1 0 01-1 1h-1m-6-1a1 1 0 001 1h1M5 17a2 2 0 104 0m-4 0a2 2 0 114 0m6 0a2 2 0 104 0m-4 0a2 2 0 114 0"
+                    />
+                  </svg>
+                  Shipping
+                </span>
+                {activeTab === "shipping" && (
+                  <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary rounded-t transition-all duration-200" />
+                )}
+              </button>
+
+              <button
+                onClick={() => setActiveTab("currencies")}
+                className={`relative whitespace-nowrap py-3 sm:py-4 px-1 font-medium text-xs sm:text-sm transition-all duration-200 ${
+                  activeTab === "currencies"
+                    ? "text-primary"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                <span className="relative z-10 flex items-center gap-1 sm:gap-2">
+                  <svg
+                    className="w-4 h-4 sm:w-5 sm:h-5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                    />
+                  </svg>
+                  Currencies
+                </span>
+                {activeTab === "currencies" && (
+                  <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary rounded-t transition-all duration-200" />
+                )}
+              </button>
+
+              <button
+                onClick={() => setActiveTab("returns")}
+                className={`relative whitespace-nowrap py-3 sm:py-4 px-1 font-medium text-xs sm:text-sm transition-all duration-200 ${
+                  activeTab === "returns"
+                    ? "text-primary"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                <span className="relative z-10 flex items-center gap-1 sm:gap-2">
+                  <svg
+                    className="w-4 h-4 sm:w-5 sm:h-5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"
+                    />
+                  </svg>
+                  Returns
+                </span>
+                {activeTab === "returns" && (
+                  <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary rounded-t transition-all duration-200" />
+                )}
+              </button>
+
               <button
                 onClick={() => setActiveTab("audit")}
                 className={`relative whitespace-nowrap py-3 sm:py-4 px-1 font-medium text-xs sm:text-sm transition-all duration-200 ${
@@ -577,7 +771,7 @@ export default function AdminDashboard() {
                       }}
                     >
                       <AnalyticsChart
-                        title="Revenue"
+                        title="Net Revenue"
                         data={(analyticsData.data.data?.revenue || []).map(
                           (d: any) => ({
                             date: d.date,
@@ -666,11 +860,148 @@ export default function AdminDashboard() {
                         )}
                       />
                     </div>
+                    {analyticsData.data.abandonedCarts && (
+                      <div
+                        className="lg:col-span-2 bg-card rounded-lg shadow-sm border border-border p-3 sm:p-4 md:p-6"
+                        style={{
+                          animation: !isPeriodChange
+                            ? "fadeInUp 0.4s ease-out 0.5s both"
+                            : "none",
+                        }}
+                      >
+                        <h3 className="text-base sm:text-lg font-semibold text-foreground mb-4">
+                          Abandoned Cart Recovery
+                        </h3>
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                          {[
+                            {
+                              label: "Reminders Sent",
+                              value:
+                                analyticsData.data.abandonedCarts.sent.toString(),
+                            },
+                            {
+                              label: "Carts Restored",
+                              value:
+                                analyticsData.data.abandonedCarts.restored.toString(),
+                            },
+                            {
+                              label: "Recovery Rate",
+                              value: `${analyticsData.data.abandonedCarts.recoveryRate.toFixed(
+                                1
+                              )}% (${
+                                analyticsData.data.abandonedCarts.recovered
+                              })`,
+                            },
+                            {
+                              label: "Recovered Revenue",
+                              value: `$${analyticsData.data.abandonedCarts.recoveredRevenue.toFixed(
+                                2
+                              )}`,
+                            },
+                          ].map((stat) => (
+                            <div key={stat.label}>
+                              <p className="text-xs sm:text-sm text-muted-foreground">
+                                {stat.label}
+                              </p>
+                              <p className="text-lg sm:text-2xl font-bold text-foreground">
+                                {stat.value}
+                              </p>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    {analyticsData.data.zeroResultSearches && (
+                      <div
+                        className="lg:col-span-2 bg-card rounded-lg shadow-sm border border-border p-3 sm:p-4 md:p-6"
+                        style={{
+                          animation: !isPeriodChange
+                            ? "fadeInUp 0.4s ease-out 0.6s both"
+                            : "none",
+                        }}
+                      >
+                        <div className="flex flex-col sm:flex-row sm:items-baseline sm:justify-between gap-1 mb-4">
+                          <h3 className="text-base sm:text-lg font-semibold text-foreground">
+                            Searches Without Results
+                          </h3>
+                          <p className="text-xs sm:text-sm text-muted-foreground">
+                            {analyticsData.data.zeroResultSearches.searches}{" "}
+                            searches,{" "}
+                            {
+                              analyticsData.data.zeroResultSearches
+                                .uniqueQueries
+                            }{" "}
+                            different queries
+                          </p>
+                        </div>
+                        {analyticsData.data.zeroResultSearches.topQueries
+                          .length === 0 ? (
+                          <p className="text-sm text-muted-foreground">
+                            Every search in this period found products.
+                          </p>
+                        ) : (
+                          <ul className="divide-y divide-border">
+                            {analyticsData.data.zeroResultSearches.topQueries.map(
+                              (search: {
+                                query: string;
+                                count: number;
+                                lastSearchedAt: string;
+                              }) => (
+                                <li
+                                  key={search.query}
+                                  className="flex items-center justify-between gap-4 py-2 text-sm"
+                                >
+                                  <span className="font-medium text-foreground truncate">
+                                    {search.query}
+                                  </span>
+                                  <span className="text-muted-foreground whitespace-nowrap">
+                                    {search.count}×, last{" "}
+                                    {new Date(
+                                      search.lastSearchedAt
+                                    ).toLocaleDateString()}
+                                  </span>
+                                </li>
+                              )
+                            )}
+                          </ul>
+                        )}
+                      </div>
+                    )}
                   </div>
                 ) : null}
               </div>
             </TabTransition>
 
+            {/* Promotions Tab */}
+            <TabTransition isActive={activeTab === "promotions"}>
+              <PromotionsContent />
+            </TabTransition>
+
+            {/* Categories Tab */}
+            <TabTransition isActive={activeTab === "categories"}>
+              <CategoriesContent />
+            </TabTransition>
+
+            {/* Tax Tab */}
+            <TabTransition isActive={activeTab === "tax"}>
+              <TaxRatesContent />
+            </TabTransition>
+
+            {/* Shipping Tab */}
+            <TabTransition isActive={activeTab === "shipping"}>
+              <ShippingContent />
+            </TabTransition>
+
+            {/* Currencies Tab */}
+            <TabTransition isActive={activeTab === "currencies"}>
+              <ExchangeRatesContent />
+            </TabTransition>
+
+            {/* Returns Tab */}
+            <TabTransition isActive={activeTab === "returns"}>
+              <ReturnsContent />
+            </TabTransition>
+
             {/* Audit Trail Tab */}
             <TabTransition isActive={activeTab === "audit"}>
               <AuditTrailContent />
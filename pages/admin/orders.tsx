@@ -2,12 +2,25 @@ import { OrderFilters } from "@/components/admin/order-filters";
 import { Footer } from "@/components/layout/footer";
 import { Header } from "@/components/layout/header";
 import { OrderDetailsModal } from "@/components/order-details-modal";
+import { OrderShipment } from "@/components/shipment-list";
 import { StatusIndicator } from "@/components/ui/status-indicator";
 import { useToast } from "@/components/ui/toast";
 import { useAuth } from "@/contexts/auth-context";
+import { STORE_CURRENCY } from "@/lib/currency-utils";
+import {
+  formatOrderStatus,
+  getNextOrderStatuses,
+  OrderStatusHistoryEntry,
+} from "@/lib/order-status-utils";
+import {
+  calculateRefundItemsAmount,
+  REFUND_REASONS,
+  RefundReason,
+} from "@/lib/refund-utils";
 import {
   detectShippingProvider,
   getProviderDisplayName,
+  getUnshippedQuantities,
   validateTrackingNumber,
 } from "@/lib/shipping-utils";
 import { useRouter } from "next/router";
@@ -26,6 +39,7 @@ interface Order {
   tax: string | number;
   shipping: string | number;
   total: string | number;
+  currency: string;
   customer: {
     id: string;
     email: string;
@@ -36,6 +50,7 @@ interface Order {
     tax: number;
     shipping: number;
     total: number;
+    refunded?: number;
   };
   items: Array<{
     id: string;
@@ -63,6 +78,8 @@ interface Order {
     postal_code: string;
     country: string;
   };
+  statusHistory?: OrderStatusHistoryEntry[];
+  shipments?: OrderShipment[];
 }
 
 interface OrderFiltersState {
@@ -90,10 +107,35 @@ export default function AdminOrdersPage() {
   const [trackingNumber, setTrackingNumber] = useState("");
   const [trackingError, setTrackingError] = useState("");
   const [detectedProvider, setDetectedProvider] = useState<string | null>(null);
+  const [shipQuantities, setShipQuantities] = useState<Record<string, number>>(
+    {}
+  );
+  const [isShipping, setIsShipping] = useState(false);
+  const [showStatusModal, setShowStatusModal] = useState(false);
+  const [restockItems, setRestockItems] = useState(true);
+  const [statusNote, setStatusNote] = useState("");
   const [pendingStatusUpdate, setPendingStatusUpdate] = useState<{
     orderId: string;
     newStatus: string;
   } | null>(null);
+  const [creditOrder, setCreditOrder] = useState<Order | null>(null);
+  const [creditAmount, setCreditAmount] = useState("");
+  const [creditNote, setCreditNote] = useState("");
+  const [creditError, setCreditError] = useState("");
+  const [isIssuingCredit, setIsIssuingCredit] = useState(false);
+  const [refundOrder, setRefundOrder] = useState<Order | null>(null);
+  const [refundable, setRefundable] = useState<number | null>(null);
+  const [refundQuantities, setRefundQuantities] = useState<
+    Record<string, number>
+  >({});
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState<RefundReason>(
+    "requested_by_customer"
+  );
+  const [refundNote, setRefundNote] = useState("");
+  const [refundRestock, setRefundRestock] = useState(true);
+  const [refundError, setRefundError] = useState("");
+  const [isRefunding, setIsRefunding] = useState(false);
   const [filters, setFilters] = useState<OrderFiltersState>({
     status: "",
     search: "",
@@ -166,9 +208,22 @@ export default function AdminOrdersPage() {
   };
 
   const updateOrderStatus = async (orderId: string, newStatus: string) => {
-    // If updating to shipped, prompt for tracking number
-    if (newStatus === "shipped") {
-      setPendingStatusUpdate({ orderId, newStatus });
+    // Refunding moves money, so it goes through the refund form
+    if (newStatus === "refunded") {
+      const order = orders.find(({ id }) => id === orderId);
+      if (order) openRefundModal(order, { full: true });
+      return;
+    }
+
+    setPendingStatusUpdate({ orderId, newStatus });
+    setStatusNote("");
+
+    // Shipping records a package, so prompt for its items and tracking number
+    if (newStatus === "shipped" || newStatus === "partially_shipped") {
+      const order = orders.find(({ id }) => id === orderId);
+      setShipQuantities(
+        order ? getUnshippedQuantities(order.items, order.shipments || []) : {}
+      );
       setTrackingNumber("");
       setTrackingError("");
       setDetectedProvider(null);
@@ -176,19 +231,23 @@ export default function AdminOrdersPage() {
       return;
     }
 
-    // For other statuses, update directly
-    await performStatusUpdate(orderId, newStatus);
+    // Otherwise confirm the change, asking whether closed orders restock
+    setRestockItems(true);
+    setShowStatusModal(true);
   };
 
   const performStatusUpdate = async (
     orderId: string,
     newStatus: string,
-    trackingNumber?: string
+    options: { restock?: boolean; note?: string } = {}
   ) => {
     try {
       const body: any = { status: newStatus };
-      if (trackingNumber) {
-        body.trackingNumber = trackingNumber;
+      if (options.restock !== undefined) {
+        body.restock = options.restock;
+      }
+      if (options.note?.trim()) {
+        body.note = options.note.trim();
       }
 
       const response = await fetch(`/api/admin/orders/${orderId}`, {
@@ -232,19 +291,64 @@ export default function AdminOrdersPage() {
       return;
     }
 
+    const items = Object.entries(shipQuantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+    if (items.length === 0) {
+      setTrackingError("Choose at least one item for this package");
+      return;
+    }
+
     setTrackingError("");
+    setIsShipping(true);
 
-    // Perform the status update with tracking number
-    await performStatusUpdate(
-      pendingStatusUpdate.orderId,
-      pendingStatusUpdate.newStatus,
-      trackingNumber
-    );
+    try {
+      const { orderId } = pendingStatusUpdate;
+      const response = await fetch(`/api/admin/orders/${orderId}/shipments`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          trackingNumber,
+          items,
+          note: statusNote.trim() || undefined,
+        }),
+      });
+      const result = await response.json();
 
-    // Close modal and reset state
-    setShowTrackingModal(false);
-    setTrackingNumber("");
-    setPendingStatusUpdate(null);
+      if (!response.ok) {
+        setTrackingError(
+          result.details?.[0]?.message ||
+            result.error ||
+            "Failed to record shipment"
+        );
+        return;
+      }
+
+      addToast({
+        title:
+          result.data.status === "shipped"
+            ? "Order shipped"
+            : "Package shipped, the rest of the order is still to ship",
+        type: "success",
+      });
+      fetchOrders();
+      if (selectedOrder?.id === orderId) {
+        setSelectedOrder({ ...selectedOrder, status: result.data.status });
+      }
+
+      // Close modal and reset state
+      setShowTrackingModal(false);
+      setTrackingNumber("");
+      setPendingStatusUpdate(null);
+    } catch (error) {
+      console.error("Error recording shipment:", error);
+      setTrackingError("Failed to record shipment");
+    } finally {
+      setIsShipping(false);
+    }
   };
 
   const handleTrackingCancel = () => {
@@ -255,6 +359,197 @@ export default function AdminOrdersPage() {
     setPendingStatusUpdate(null);
   };
 
+  const handleStatusSubmit = async () => {
+    if (!pendingStatusUpdate) return;
+
+    const isClosing =
+      pendingStatusUpdate.newStatus === "cancelled" ||
+      pendingStatusUpdate.newStatus === "refunded";
+
+    await performStatusUpdate(
+      pendingStatusUpdate.orderId,
+      pendingStatusUpdate.newStatus,
+      { restock: isClosing ? restockItems : undefined, note: statusNote }
+    );
+
+    setShowStatusModal(false);
+    setPendingStatusUpdate(null);
+  };
+
+  const handleStatusCancel = () => {
+    setShowStatusModal(false);
+    setPendingStatusUpdate(null);
+  };
+
+  const openStoreCreditModal = (order: Order) => {
+    setCreditOrder(order);
+    setCreditAmount("");
+    setCreditNote("");
+    setCreditError("");
+  };
+
+  const handleStoreCreditSubmit = async () => {
+    if (!creditOrder) return;
+
+    const amount = parseFloat(creditAmount);
+    if (!amount || amount <= 0) {
+      setCreditError("Enter an amount greater than 0");
+      return;
+    }
+
+    setIsIssuingCredit(true);
+    setCreditError("");
+
+    try {
+      const response = await fetch(
+        `/api/admin/orders/${creditOrder.id}/store-credit`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify({
+            amount,
+            note: creditNote.trim() || undefined,
+          }),
+        }
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        setCreditError(
+          result.details?.[0]?.message ||
+            result.error ||
+            "Failed to issue store credit"
+        );
+        return;
+      }
+
+      addToast({
+        title: `Store credit sent to ${result.data.giftCard.recipient_email}`,
+        type: "success",
+      });
+      setCreditOrder(null);
+    } catch (error) {
+      console.error("Error issuing store credit:", error);
+      setCreditError("Failed to issue store credit");
+    } finally {
+      setIsIssuingCredit(false);
+    }
+  };
+
+  const openRefundModal = async (
+    order: Order,
+    { full = false }: { full?: boolean } = {}
+  ) => {
+    setRefundOrder(order);
+    setRefundable(null);
+    setRefundQuantities({});
+    setRefundAmount("");
+    setRefundReason("requested_by_customer");
+    setRefundNote("");
+    setRefundRestock(true);
+    setRefundError("");
+
+    try {
+      const response = await fetch(`/api/admin/orders/${order.id}/refunds`, {
+        credentials: "include",
+      });
+      if (response.ok) {
+        const result = await response.json();
+        setRefundable(result.data.summary.refundable);
+        if (full) {
+          setRefundAmount(result.data.summary.refundable.toFixed(2));
+        }
+      }
+    } catch (error) {
+      console.error("Error fetching refunds:", error);
+    }
+  };
+
+  const handleRefundQuantityChange = (itemId: string, quantity: number) => {
+    if (!refundOrder) return;
+
+    const quantities = { ...refundQuantities, [itemId]: quantity };
+    setRefundQuantities(quantities);
+    setRefundError("");
+
+    // Keep the amount in step with the selected items
+    const amount = calculateRefundItemsAmount(
+      Object.entries(quantities)
+        .filter(([, qty]) => qty > 0)
+        .map(([order_item_id, qty]) => ({ order_item_id, quantity: qty })),
+      refundOrder.items.map((item) => ({
+        id: item.id,
+        unit_amount: Number(item.unit_amount),
+      }))
+    );
+    setRefundAmount(amount > 0 ? amount.toFixed(2) : "");
+  };
+
+  const handleRefundSubmit = async () => {
+    if (!refundOrder) return;
+
+    const amount = parseFloat(refundAmount);
+    if (!amount || amount <= 0) {
+      setRefundError("Choose items or enter an amount greater than 0");
+      return;
+    }
+
+    setIsRefunding(true);
+    setRefundError("");
+
+    try {
+      const items = Object.entries(refundQuantities)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+
+      const response = await fetch(
+        `/api/admin/orders/${refundOrder.id}/refunds`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify({
+            items: items.length > 0 ? items : undefined,
+            amount,
+            reason: refundReason,
+            note: refundNote.trim() || undefined,
+            restock: refundRestock,
+          }),
+        }
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        setRefundError(
+          result.details?.[0]?.message ||
+            result.error ||
+            "Failed to issue refund"
+        );
+        return;
+      }
+
+      addToast({
+        title:
+          result.data.status === "refunded"
+            ? "Order refunded in full"
+            : `Refunded ${formatPrice(amount, refundOrder.currency)}`,
+        type: "success",
+      });
+      setRefundOrder(null);
+      fetchOrders();
+    } catch (error) {
+      console.error("Error issuing refund:", error);
+      setRefundError("Failed to issue refund");
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
   const handleFilterChange = (newFilters: OrderFiltersState) => {
     setFilters(newFilters);
     setPagination({ ...pagination, page: 1 });
@@ -327,13 +622,21 @@ export default function AdminOrdersPage() {
     });
   };
 
-  const formatPrice = (price: number) => {
+  const formatPrice = (price: number, currency: string = "USD") => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
-      currency: "USD",
+      currency: currency,
     }).format(price);
   };
 
+  // Order being shipped from the tracking modal, and what it has left to ship
+  const shipOrder = showTrackingModal
+    ? orders.find(({ id }) => id === pendingStatusUpdate?.orderId)
+    : undefined;
+  const unshippedQuantities = shipOrder
+    ? getUnshippedQuantities(shipOrder.items, shipOrder.shipments || [])
+    : {};
+
   if (loading) {
     return (
       <div className="min-h-screen bg-muted">
@@ -453,7 +756,7 @@ export default function AdminOrdersPage() {
                           <StatusIndicator status={order.status} type="order" />
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-foreground">
-                          {formatPrice(order.totals.total)}
+                          {formatPrice(order.totals.total, order.currency)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
                           {order.tracking_number ? (
@@ -472,6 +775,11 @@ export default function AdminOrdersPage() {
                                   ).toLocaleDateString()}
                                 </div>
                               )}
+                              {(order.shipments?.length ?? 0) > 1 && (
+                                <div className="text-xs text-muted-foreground">
+                                  {order.shipments!.length} packages
+                                </div>
+                              )}
                             </div>
                           ) : (
                             <span className="text-muted-foreground text-xs">
@@ -492,19 +800,50 @@ export default function AdminOrdersPage() {
                           >
                             View
                           </button>
+                          {[
+                            "paid",
+                            "partially_shipped",
+                            "shipped",
+                            "completed",
+                          ].includes(order.status) && (
+                            <button
+                              onClick={() => openStoreCreditModal(order)}
+                              className="text-primary hover:text-primary/80 mr-4"
+                            >
+                              Credit
+                            </button>
+                          )}
+                          {[
+                            "paid",
+                            "partially_shipped",
+                            "shipped",
+                            "completed",
+                          ].includes(order.status) && (
+                            <button
+                              onClick={() => openRefundModal(order)}
+                              className="text-primary hover:text-primary/80 mr-4"
+                            >
+                              Refund
+                            </button>
+                          )}
                           <select
                             value={order.status}
                             onChange={(e) =>
                               updateOrderStatus(order.id, e.target.value)
                             }
-                            className="text-sm border border-border rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-primary"
+                            disabled={
+                              getNextOrderStatuses(order.status).length === 0
+                            }
+                            className="text-sm border border-border rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50"
                           >
-                            <option value="received">Received</option>
-                            <option value="paid">Paid</option>
-                            <option value="shipped">Shipped</option>
-                            <option value="completed">Completed</option>
-                            <option value="cancelled">Cancelled</option>
-                            <option value="refunded">Refunded</option>
+                            {[
+                              order.status,
+                              ...getNextOrderStatuses(order.status),
+                            ].map((status) => (
+                              <option key={status} value={status}>
+                                {formatOrderStatus(status)}
+                              </option>
+                            ))}
                           </select>
                         </td>
                       </tr>
@@ -632,12 +971,56 @@ export default function AdminOrdersPage() {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-card rounded-lg p-6 w-full max-w-md mx-4">
             <h3 className="text-lg font-semibold text-foreground mb-4">
-              Add Tracking Number
+              Ship Items
             </h3>
             <p className="text-sm text-muted-foreground mb-4">
-              Please enter the tracking number for this order:
+              Choose what goes in this package and enter its tracking number.
+              Items left out stay to ship in a later package.
             </p>
 
+            {shipOrder && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-foreground mb-2">
+                  Items in this package
+                </label>
+                <div className="space-y-2">
+                  {shipOrder.items
+                    .filter((item) => unshippedQuantities[item.id] > 0)
+                    .map((item) => (
+                      <div
+                        key={item.id}
+                        className="flex items-center justify-between gap-3 text-sm"
+                      >
+                        <span className="min-w-0 truncate text-foreground">
+                          {item.descriptive_title || item.product?.title}{" "}
+                          <span className="text-muted-foreground">
+                            ({unshippedQuantities[item.id]} to ship)
+                          </span>
+                        </span>
+                        <input
+                          type="number"
+                          min="0"
+                          max={unshippedQuantities[item.id]}
+                          step="1"
+                          value={shipQuantities[item.id] ?? 0}
+                          onChange={(e) => {
+                            setShipQuantities({
+                              ...shipQuantities,
+                              [item.id]: Math.min(
+                                Math.max(parseInt(e.target.value) || 0, 0),
+                                unshippedQuantities[item.id]
+                              ),
+                            });
+                            setTrackingError("");
+                          }}
+                          className="w-16 px-2 py-1 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                        />
+                      </div>
+                    ))}
+                </div>
+              </div>
+            )}
+
             <div className="mb-4">
               <label className="block text-sm font-medium text-foreground mb-2">
                 Tracking Number
@@ -728,6 +1111,20 @@ export default function AdminOrdersPage() {
                 )}
             </div>
 
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-foreground mb-2">
+                Note (optional)
+              </label>
+              <textarea
+                value={statusNote}
+                onChange={(e) => setStatusNote(e.target.value)}
+                maxLength={500}
+                rows={2}
+                placeholder="Shown on the order timeline"
+                className="w-full px-3 py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+
             <div className="flex justify-end space-x-3">
               <button
                 onClick={handleTrackingCancel}
@@ -737,6 +1134,318 @@ export default function AdminOrdersPage() {
               </button>
               <button
                 onClick={handleTrackingSubmit}
+                disabled={isShipping}
+                className="px-4 py-2 text-sm font-medium text-primary-foreground bg-primary rounded-md hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50"
+              >
+                {isShipping ? "Shipping..." : "Ship Package"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Refund Modal */}
+      {refundOrder && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-card rounded-lg p-6 w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-semibold text-foreground mb-4">
+              Refund {refundOrder.orderNumber}
+            </h3>
+
+            <p className="text-sm text-muted-foreground mb-4">
+              The money goes back to the customer&apos;s payment method, or to
+              their gift card for the part paid with one.{" "}
+              {refundable !== null &&
+                `${formatPrice(
+                  refundable,
+                  refundOrder.currency
+                )} of ${formatPrice(
+                  refundOrder.totals.total,
+                  refundOrder.currency
+                )} can still be refunded.`}
+            </p>
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-foreground mb-2">
+                Items (optional)
+              </label>
+              <div className="space-y-2">
+                {refundOrder.items.map((item) => (
+                  <div
+                    key={item.id}
+                    className="flex items-center justify-between gap-3 text-sm"
+                  >
+                    <span className="min-w-0 truncate text-foreground">
+                      {item.descriptive_title || item.product?.title}{" "}
+                      <span className="text-muted-foreground">
+                        (
+                        {formatPrice(
+                          Number(item.unit_amount),
+                          refundOrder.currency
+                        )}{" "}
+                        × {item.quantity})
+                      </span>
+                    </span>
+                    <input
+                      type="number"
+                      min="0"
+                      max={item.quantity}
+                      step="1"
+                      value={refundQuantities[item.id] ?? 0}
+                      onChange={(e) =>
+                        handleRefundQuantityChange(
+                          item.id,
+                          Math.min(
+                            Math.max(parseInt(e.target.value) || 0, 0),
+                            item.quantity
+                          )
+                        )
+                      }
+                      className="w-16 px-2 py-1 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-foreground mb-2">
+                Amount ({refundOrder.currency})
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={refundAmount}
+                  onChange={(e) => {
+                    setRefundAmount(e.target.value);
+                    setRefundError("");
+                  }}
+                  className={`flex-1 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary ${
+                    refundError ? "border-destructive" : "border-border"
+                  }`}
+                />
+                {refundable !== null && refundable > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setRefundQuantities({});
+                      setRefundAmount(refundable.toFixed(2));
+                      setRefundError("");
+                    }}
+                    className="px-3 py-2 text-sm font-medium text-foreground bg-muted rounded-md hover:bg-muted/80"
+                  >
+                    Refund all
+                  </button>
+                )}
+              </div>
+              {refundError && (
+                <p className="mt-1 text-sm text-destructive">{refundError}</p>
+              )}
+            </div>
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-foreground mb-2">
+                Reason
+              </label>
+              <select
+                value={refundReason}
+                onChange={(e) =>
+                  setRefundReason(e.target.value as RefundReason)
+                }
+                className="w-full px-3 py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                {REFUND_REASONS.map((reason) => (
+                  <option key={reason.value} value={reason.value}>
+                    {reason.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-foreground mb-2">
+                Note (optional)
+              </label>
+              <textarea
+                value={refundNote}
+                onChange={(e) => setRefundNote(e.target.value)}
+                maxLength={500}
+                rows={2}
+                placeholder="Kept with the refund for other admins"
+                className="w-full px-3 py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+
+            <label className="flex items-start mb-6 text-sm text-foreground">
+              <input
+                type="checkbox"
+                checked={refundRestock}
+                onChange={(e) => setRefundRestock(e.target.checked)}
+                className="mt-0.5 mr-2 h-4 w-4 rounded border-border text-primary focus:ring-primary"
+              />
+              <span>
+                Return items to stock
+                <span className="block text-muted-foreground">
+                  Applies when this refunds everything left and the order is
+                  marked refunded.
+                </span>
+              </span>
+            </label>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setRefundOrder(null)}
+                className="px-4 py-2 text-sm font-medium text-foreground bg-muted rounded-md hover:bg-muted/80 focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRefundSubmit}
+                disabled={isRefunding || !refundAmount}
+                className="px-4 py-2 text-sm font-medium text-primary-foreground bg-primary rounded-md hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50"
+              >
+                {isRefunding ? "Refunding..." : "Issue Refund"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Store Credit Modal */}
+      {creditOrder && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-card rounded-lg p-6 w-full max-w-md mx-4">
+            <h3 className="text-lg font-semibold text-foreground mb-4">
+              Issue Store Credit for {creditOrder.orderNumber}
+            </h3>
+
+            <p className="text-sm text-muted-foreground mb-4">
+              Instead of a refund, the customer gets a store credit code by
+              email at {creditOrder.customer.email}. The order total was{" "}
+              {formatPrice(creditOrder.totals.total, creditOrder.currency)}.
+            </p>
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-foreground mb-2">
+                Amount ({STORE_CURRENCY})
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={creditAmount}
+                onChange={(e) => {
+                  setCreditAmount(e.target.value);
+                  setCreditError("");
+                }}
+                className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary ${
+                  creditError ? "border-destructive" : "border-border"
+                }`}
+              />
+              {creditError && (
+                <p className="mt-1 text-sm text-destructive">{creditError}</p>
+              )}
+            </div>
+
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-foreground mb-2">
+                Note (optional)
+              </label>
+              <textarea
+                value={creditNote}
+                onChange={(e) => setCreditNote(e.target.value)}
+                maxLength={500}
+                rows={2}
+                placeholder="Included in the email to the customer"
+                className="w-full px-3 py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setCreditOrder(null)}
+                className="px-4 py-2 text-sm font-medium text-foreground bg-muted rounded-md hover:bg-muted/80 focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleStoreCreditSubmit}
+                disabled={isIssuingCredit || !creditAmount}
+                className="px-4 py-2 text-sm font-medium text-primary-foreground bg-primary rounded-md hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50"
+              >
+                {isIssuingCredit ? "Issuing..." : "Issue Credit"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Status Change Modal */}
+      {showStatusModal && pendingStatusUpdate && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-card rounded-lg p-6 w-full max-w-md mx-4">
+            <h3 className="text-lg font-semibold text-foreground mb-4">
+              Mark Order as{" "}
+              {pendingStatusUpdate.newStatus.charAt(0).toUpperCase() +
+                pendingStatusUpdate.newStatus.slice(1)}
+            </h3>
+
+            {(pendingStatusUpdate.newStatus === "cancelled" ||
+              pendingStatusUpdate.newStatus === "refunded") && (
+              <>
+                {pendingStatusUpdate.newStatus === "cancelled" && (
+                  <p className="text-sm text-muted-foreground mb-2">
+                    A paid order is refunded in full; an unpaid order&apos;s
+                    payment is voided.
+                  </p>
+                )}
+                <p className="text-sm text-muted-foreground mb-4">
+                  Sales analytics for this order will be reversed. Should its
+                  items be returned to stock?
+                </p>
+
+                <label className="flex items-start mb-4 text-sm text-foreground">
+                  <input
+                    type="checkbox"
+                    checked={restockItems}
+                    onChange={(e) => setRestockItems(e.target.checked)}
+                    className="mt-0.5 mr-2 h-4 w-4 rounded border-border text-primary focus:ring-primary"
+                  />
+                  <span>
+                    Return items to stock
+                    <span className="block text-muted-foreground">
+                      Uncheck for damaged goods that can&apos;t be resold.
+                    </span>
+                  </span>
+                </label>
+              </>
+            )}
+
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-foreground mb-2">
+                Note (optional)
+              </label>
+              <textarea
+                value={statusNote}
+                onChange={(e) => setStatusNote(e.target.value)}
+                maxLength={500}
+                rows={2}
+                placeholder="Shown on the order timeline"
+                className="w-full px-3 py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={handleStatusCancel}
+                className="px-4 py-2 text-sm font-medium text-foreground bg-muted rounded-md hover:bg-muted/80 focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleStatusSubmit}
                 className="px-4 py-2 text-sm font-medium text-primary-foreground bg-primary rounded-md hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-primary"
               >
                 Update Status
@@ -1,5 +1,6 @@
 import { BulkOperationsModal } from "@/components/admin/bulk-operations-modal";
 import { ProductEditModal } from "@/components/admin/product-edit-modal";
+import { SaleScheduleModal } from "@/components/admin/sale-schedule-modal";
 import { ProductFilters } from "@/components/admin/product-filters";
 import { Footer } from "@/components/layout/footer";
 import { Header } from "@/components/layout/header";
@@ -38,6 +39,7 @@ interface Product {
       price_adjustment: string;
       is_default: boolean;
       is_sold_out: boolean;
+      quantity_available?: number | null;
       sort_order: number;
     }>;
   }>;
@@ -70,6 +72,7 @@ export default function AdminProducts() {
   const [showEditModal, setShowEditModal] = useState(false);
   const [showBulkModal, setShowBulkModal] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [saleProduct, setSaleProduct] = useState<Product | null>(null);
   const [formData, setFormData] = useState({
     title: "",
     slug: "",
@@ -199,6 +202,13 @@ export default function AdminProducts() {
   };
 
   const handleFilterChange = (newFilters: any) => {
+    // Best matches first while searching, newest first otherwise
+    if (newFilters.search.trim() && !filters.search.trim()) {
+      setSortBy("relevance");
+      setSortOrder("desc");
+    } else if (!newFilters.search.trim() && sortBy === "relevance") {
+      setSortBy("created_at");
+    }
     setFilters(newFilters);
     setPagination({ ...pagination, page: 1 });
     setSelectedProducts(new Set());
@@ -664,6 +674,12 @@ export default function AdminProducts() {
                               >
                                 Edit
                               </button>
+                              <button
+                                onClick={() => setSaleProduct(product)}
+                                className="text-primary hover:text-primary/80"
+                              >
+                                Sales
+                              </button>
                               <button
                                 onClick={() => handleDeleteProduct(product.id)}
                                 className="text-destructive hover:text-destructive/80"
@@ -912,6 +928,14 @@ export default function AdminProducts() {
         availableTags={availableTags}
       />
 
+      {/* Sale Schedule Modal */}
+      <SaleScheduleModal
+        isOpen={!!saleProduct}
+        onClose={() => setSaleProduct(null)}
+        productId={saleProduct?.id || null}
+        productTitle={saleProduct?.title || ""}
+      />
+
       {/* Bulk Operations Modal */}
       <BulkOperationsModal
         isOpen={showBulkModal}
@@ -1,5 +1,7 @@
+import { getAbandonedCartStats } from "@/lib/abandoned-carts";
 import { db } from "@/lib/db";
 import { customers, orderItems, orders } from "@/lib/db/schema";
+import { getZeroResultSearchStats } from "@/lib/product-search";
 import { sendSuccessResponse } from "@/lib/security/error-handling";
 import { withAdminRequest } from "@/lib/security/request-wrapper";
 import { and, eq, gte, lte, sql } from "drizzle-orm";
@@ -79,13 +81,14 @@ async function getOrdersData(range: DateRange) {
 }
 
 /**
- * Get analytics data for revenue - aggregates by day
+ * Get analytics data for revenue net of refunds - aggregates by day
  */
 async function getRevenueData(range: DateRange) {
   const result = await db
     .select({
       date: sql<string>`DATE_TRUNC('day', ${orders.created_at})`,
-      revenue: sql<number>`COALESCE(SUM(${orders.total}), 0)`,
+      // Net of refunds, converted back to the store currency
+      revenue: sql<number>`COALESCE(SUM((${orders.total} - ${orders.refunded_amount}) / ${orders.exchange_rate}), 0)`,
     })
     .from(orders)
     .where(
@@ -155,7 +158,8 @@ async function getSummaryTotals(range: DateRange) {
   const ordersResult = await db
     .select({
       total: sql<number>`COUNT(*)`,
-      revenue: sql<number>`COALESCE(SUM(CASE WHEN ${orders.status} IN ('paid', 'shipped', 'completed') THEN ${orders.total} ELSE 0 END), 0)`,
+      revenue: sql<number>`COALESCE(SUM(CASE WHEN ${orders.status} IN ('paid', 'shipped', 'completed') THEN (${orders.total} - ${orders.refunded_amount}) / ${orders.exchange_rate} ELSE 0 END), 0)`,
+      refunds: sql<number>`COALESCE(SUM(${orders.refunded_amount} / ${orders.exchange_rate}), 0)`,
     })
     .from(orders)
     .where(
@@ -194,6 +198,7 @@ async function getSummaryTotals(range: DateRange) {
   return {
     orders: ordersResult[0]?.total || 0,
     revenue: Number(ordersResult[0]?.revenue || 0),
+    refunds: Number(ordersResult[0]?.refunds || 0),
     sales: Number(salesResult[0]?.total || 0),
     users: usersResult[0]?.total || 0,
   };
@@ -220,14 +225,23 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     const previousRange = getPreviousDateRange(period);
 
     // Fetch current period data
-    const [ordersData, revenueData, salesData, usersData, currentTotals] =
-      await Promise.all([
-        getOrdersData(currentRange),
-        getRevenueData(currentRange),
-        getSalesData(currentRange),
-        getUsersData(currentRange),
-        getSummaryTotals(currentRange),
-      ]);
+    const [
+      ordersData,
+      revenueData,
+      salesData,
+      usersData,
+      currentTotals,
+      abandonedCarts,
+      zeroResultSearches,
+    ] = await Promise.all([
+      getOrdersData(currentRange),
+      getRevenueData(currentRange),
+      getSalesData(currentRange),
+      getUsersData(currentRange),
+      getSummaryTotals(currentRange),
+      getAbandonedCartStats(db, currentRange),
+      getZeroResultSearchStats(db, currentRange),
+    ]);
 
     // Fetch previous period totals for comparison
     const previousTotals = await getSummaryTotals(previousRange);
@@ -241,6 +255,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     const changes = {
       orders: calculateChange(currentTotals.orders, previousTotals.orders),
       revenue: calculateChange(currentTotals.revenue, previousTotals.revenue),
+      refunds: calculateChange(currentTotals.refunds, previousTotals.refunds),
       sales: calculateChange(currentTotals.sales, previousTotals.sales),
       users: calculateChange(currentTotals.users, previousTotals.users),
     };
@@ -264,6 +279,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       totals: currentTotals,
       previousTotals,
       changes,
+      abandonedCarts,
+      zeroResultSearches,
     });
   } catch (error) {
     console.error("Error fetching analytics:", error);
@@ -0,0 +1,139 @@
+import {
+  deleteCategory,
+  getCategoryList,
+  getNextSortOrder,
+} from "@/lib/categories";
+import { wouldCreateCategoryCycle } from "@/lib/category-utils";
+import { db } from "@/lib/db";
+import { categories } from "@/lib/db/schema";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { slugify } from "@/lib/utils";
+import { categorySchema } from "@/lib/validations";
+import { eq } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Admin single category API
+ * PUT /api/admin/categories/[id] - Edit a category or move it to another
+ * parent
+ * DELETE /api/admin/categories/[id] - Remove a category; its subcategories
+ * move up to its parent
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Category ID is required" });
+  }
+
+  try {
+    const list = await getCategoryList(db);
+    const category = list.find((candidate) => candidate.id === id);
+
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        error: "Category not found",
+      });
+    }
+
+    if (req.method === "PUT") {
+      const validationResult = categorySchema.safeParse({
+        name: category.name,
+        slug: category.slug,
+        description: category.description,
+        thumbnail: category.thumbnail,
+        parent_id: category.parent_id,
+        ...req.body,
+      });
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: validationResult.error.issues.map((err) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        });
+      }
+
+      const data = validationResult.data;
+      const slug = data.slug || slugify(data.name);
+      const parentId = data.parent_id || null;
+
+      if (!slug) {
+        return res.status(400).json({
+          success: false,
+          error: "Enter a slug for this name",
+        });
+      }
+
+      if (list.some((other) => other.slug === slug && other.id !== id)) {
+        return res.status(409).json({
+          success: false,
+          error: "A category with this slug already exists",
+        });
+      }
+
+      if (parentId && !list.some((other) => other.id === parentId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Parent category not found",
+        });
+      }
+
+      if (wouldCreateCategoryCycle(list, id, parentId)) {
+        return res.status(400).json({
+          success: false,
+          error: "A category cannot be moved inside itself",
+        });
+      }
+
+      const [updated] = await db
+        .update(categories)
+        .set({
+          name: data.name,
+          slug,
+          description: data.description,
+          thumbnail: data.thumbnail || null,
+          parent_id: parentId,
+          // A new parent takes the category last among its children
+          sort_order:
+            parentId === category.parent_id
+              ? category.sort_order
+              : getNextSortOrder(list, parentId),
+          updated_at: new Date(),
+        })
+        .where(eq(categories.id, id))
+        .returning();
+
+      sendSuccessResponse(
+        res,
+        { category: updated },
+        "Category updated successfully"
+      );
+    } else if (req.method === "DELETE") {
+      const movedChildren = list.filter((other) => other.parent_id === id);
+
+      await db.transaction((tx) => deleteCategory(tx, list, category));
+
+      sendSuccessResponse(
+        res,
+        { id, name: category.name, moved_children: movedChildren.length },
+        "Category deleted successfully"
+      );
+    } else {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+  } catch (error) {
+    console.error("Error managing category:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to manage category",
+    });
+  }
+}
+
+export default withAdminRequest(handler, "manage_category");
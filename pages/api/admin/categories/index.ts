@@ -0,0 +1,124 @@
+import { getCategoryList, getNextSortOrder } from "@/lib/categories";
+import { buildCategoryTree } from "@/lib/category-utils";
+import { db } from "@/lib/db";
+import { categories, productCategories } from "@/lib/db/schema";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { slugify } from "@/lib/utils";
+import { categorySchema } from "@/lib/validations";
+import { sql } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Admin category tree API
+ * GET /api/admin/categories - The category tree with product counts
+ * POST /api/admin/categories - Create a category, last among its siblings
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === "GET") {
+    try {
+      const [list, counts] = await Promise.all([
+        getCategoryList(db),
+        db
+          .select({
+            category_id: productCategories.category_id,
+            count: sql<number>`count(*)`.mapWith(Number),
+          })
+          .from(productCategories)
+          .groupBy(productCategories.category_id),
+      ]);
+
+      sendSuccessResponse(
+        res,
+        {
+          categories: buildCategoryTree(
+            list.map((category) => ({
+              ...category,
+              // Products directly in the category, not its subcategories
+              product_count:
+                counts.find((row) => row.category_id === category.id)?.count ||
+                0,
+            }))
+          ),
+        },
+        "Categories retrieved successfully"
+      );
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+      return res.status(500).json({
+        success: false,
+        error: "Failed to fetch categories",
+      });
+    }
+  } else if (req.method === "POST") {
+    try {
+      const validationResult = categorySchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: validationResult.error.issues.map((err) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        });
+      }
+
+      const data = validationResult.data;
+      const slug = data.slug || slugify(data.name);
+      const parentId = data.parent_id || null;
+      const list = await getCategoryList(db);
+
+      if (!slug) {
+        return res.status(400).json({
+          success: false,
+          error: "Enter a slug for this name",
+        });
+      }
+
+      if (list.some((category) => category.slug === slug)) {
+        return res.status(409).json({
+          success: false,
+          error: "A category with this slug already exists",
+        });
+      }
+
+      if (parentId && !list.some((category) => category.id === parentId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Parent category not found",
+        });
+      }
+
+      const [created] = await db
+        .insert(categories)
+        .values({
+          name: data.name,
+          slug,
+          description: data.description,
+          thumbnail: data.thumbnail || null,
+          parent_id: parentId,
+          sort_order: getNextSortOrder(list, parentId),
+        })
+        .returning();
+
+      sendSuccessResponse(
+        res,
+        { category: created },
+        "Category created successfully",
+        201
+      );
+    } catch (error) {
+      console.error("Error creating category:", error);
+      return res.status(500).json({
+        success: false,
+        error: "Failed to create category",
+      });
+    }
+  } else {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+}
+
+export default withAdminRequest(handler, "manage_categories");
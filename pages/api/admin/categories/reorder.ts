@@ -0,0 +1,62 @@
+import {
+  applyCategoryPlacements,
+  getCategoryList,
+  validateCategoryPlacements,
+} from "@/lib/categories";
+import { db } from "@/lib/db";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { categoryPlacementsSchema } from "@/lib/validations";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Admin category arrangement API
+ * PUT /api/admin/categories/reorder - Save parents and sibling order after
+ * a drag-and-drop in the category manager
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "PUT") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const validationResult = categoryPlacementsSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation failed",
+        details: validationResult.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      });
+    }
+
+    const { placements } = validationResult.data;
+    const placementError = validateCategoryPlacements(
+      await getCategoryList(db),
+      placements
+    );
+
+    if (placementError) {
+      return res.status(400).json({ success: false, error: placementError });
+    }
+
+    await db.transaction((tx) => applyCategoryPlacements(tx, placements));
+
+    sendSuccessResponse(
+      res,
+      { updated: placements.length },
+      "Categories rearranged successfully"
+    );
+  } catch (error) {
+    console.error("Error rearranging categories:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to rearrange categories",
+    });
+  }
+}
+
+export default withAdminRequest(handler, "reorder_categories");
@@ -0,0 +1,117 @@
+import { db } from "@/lib/db";
+import { exchangeRates } from "@/lib/db/schema";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { exchangeRateSchema } from "@/lib/validations";
+import { and, eq, ne } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Admin single exchange rate API
+ * PUT /api/admin/exchange-rates/[id] - Edit a rate, its rounding or availability
+ * DELETE /api/admin/exchange-rates/[id] - Remove a currency
+ *
+ * Orders keep the rate they were charged at, so changes only affect prices
+ * shown from now on.
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Exchange rate ID is required" });
+  }
+
+  try {
+    const existing = await db
+      .select()
+      .from(exchangeRates)
+      .where(eq(exchangeRates.id, id))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: "Exchange rate not found",
+      });
+    }
+
+    const exchangeRate = existing[0];
+
+    if (req.method === "PUT") {
+      const validationResult = exchangeRateSchema.safeParse({
+        currency: exchangeRate.currency,
+        rate: parseFloat(exchangeRate.rate),
+        rounding: exchangeRate.rounding,
+        is_active: exchangeRate.is_active,
+        ...req.body,
+      });
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: validationResult.error.issues.map((err) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        });
+      }
+
+      const data = validationResult.data;
+
+      const duplicate = await db
+        .select({ id: exchangeRates.id })
+        .from(exchangeRates)
+        .where(
+          and(
+            eq(exchangeRates.currency, data.currency),
+            ne(exchangeRates.id, id)
+          )
+        )
+        .limit(1);
+
+      if (duplicate.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: "A rate for this currency already exists",
+        });
+      }
+
+      const [updated] = await db
+        .update(exchangeRates)
+        .set({
+          currency: data.currency,
+          rate: data.rate.toString(),
+          rounding: data.rounding,
+          is_active: data.is_active,
+          updated_at: new Date(),
+        })
+        .where(eq(exchangeRates.id, id))
+        .returning();
+
+      sendSuccessResponse(
+        res,
+        { exchangeRate: { ...updated, rate: parseFloat(updated.rate) } },
+        "Exchange rate updated successfully"
+      );
+    } else if (req.method === "DELETE") {
+      await db.delete(exchangeRates).where(eq(exchangeRates.id, id));
+
+      sendSuccessResponse(
+        res,
+        { id, currency: exchangeRate.currency },
+        "Exchange rate deleted successfully"
+      );
+    } else {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+  } catch (error) {
+    console.error("Error managing exchange rate:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to manage exchange rate",
+    });
+  }
+}
+
+export default withAdminRequest(handler, "manage_exchange_rate");
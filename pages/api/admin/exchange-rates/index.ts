@@ -0,0 +1,97 @@
+import { db } from "@/lib/db";
+import { exchangeRates } from "@/lib/db/schema";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { exchangeRateSchema } from "@/lib/validations";
+import { asc, eq } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Admin exchange rates API
+ * GET /api/admin/exchange-rates - List rates by currency
+ * POST /api/admin/exchange-rates - Add a currency with its rate
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === "GET") {
+    try {
+      const rates = await db
+        .select()
+        .from(exchangeRates)
+        .orderBy(asc(exchangeRates.currency));
+
+      sendSuccessResponse(
+        res,
+        {
+          exchangeRates: rates.map((rate) => ({
+            ...rate,
+            rate: parseFloat(rate.rate),
+          })),
+        },
+        "Exchange rates retrieved successfully"
+      );
+    } catch (error) {
+      console.error("Error fetching exchange rates:", error);
+      return res.status(500).json({
+        success: false,
+        error: "Failed to fetch exchange rates",
+      });
+    }
+  } else if (req.method === "POST") {
+    try {
+      const validationResult = exchangeRateSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: validationResult.error.issues.map((err) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        });
+      }
+
+      const data = validationResult.data;
+
+      const existing = await db
+        .select({ id: exchangeRates.id })
+        .from(exchangeRates)
+        .where(eq(exchangeRates.currency, data.currency))
+        .limit(1);
+
+      if (existing.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: "A rate for this currency already exists",
+        });
+      }
+
+      const [created] = await db
+        .insert(exchangeRates)
+        .values({
+          currency: data.currency,
+          rate: data.rate.toString(),
+          rounding: data.rounding,
+          is_active: data.is_active,
+        })
+        .returning();
+
+      sendSuccessResponse(
+        res,
+        { exchangeRate: { ...created, rate: parseFloat(created.rate) } },
+        "Exchange rate created successfully",
+        201
+      );
+    } catch (error) {
+      console.error("Error creating exchange rate:", error);
+      return res.status(500).json({
+        success: false,
+        error: "Failed to create exchange rate",
+      });
+    }
+  } else {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+}
+
+export default withAdminRequest(handler, "manage_exchange_rates");
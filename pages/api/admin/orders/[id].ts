@@ -7,23 +7,54 @@ import {
   productMedia,
   products,
 } from "@/lib/db/schema";
-import { sendShippingConfirmationEmail } from "@/lib/email/order-emails";
+import { sendOrderGiftCardEmails } from "@/lib/gift-cards";
+import {
+  applyOrderStatusHooks,
+  getOrderStatusHistory,
+  transitionOrderStatus,
+} from "@/lib/order-status";
+import {
+  canTransitionOrderStatus,
+  isOrderStatus,
+} from "@/lib/order-status-utils";
+import { getPaymentProvider } from "@/lib/payments";
+import {
+  getOrderRefunds,
+  getOrderRefundSummary,
+  issueRefund,
+} from "@/lib/refunds";
+import { AuthenticatedUser } from "@/lib/security/auth-validation";
 import { sendSuccessResponse } from "@/lib/security/error-handling";
 import { withAdminRequest } from "@/lib/security/request-wrapper";
 import {
-  generateTrackingUrl,
+  createShipment,
+  getOrdersShipments,
+  sendShipmentEmail,
+} from "@/lib/shipments";
+import {
   parseTrackingNumber,
   validateTrackingNumber,
 } from "@/lib/shipping-utils";
+import { notifyBackInStock } from "@/lib/stock-notifications";
 import { and, eq } from "drizzle-orm";
 import { NextApiRequest, NextApiResponse } from "next";
 
 /**
  * Admin order management API
  * GET /api/admin/orders/[id] - Get specific order details
- * PUT /api/admin/orders/[id] - Update order status
+ * PUT /api/admin/orders/[id] - Move the order to its next status, with an
+ * optional timeline note. Marking it shipped sends every item not shipped yet
+ * in one package; split packages go through /api/admin/orders/[id]/shipments.
+ * Cancelling returns the items to stock unless `restock: false` is sent
+ * (damaged goods), refunds a paid order in full and voids an unpaid order's
+ * payment authorization. Orders are marked refunded by refunding them
+ * through /api/admin/orders/[id]/refunds so money moves too.
  */
-async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  user: AuthenticatedUser
+) {
   try {
     const { id } = req.query;
 
@@ -45,6 +76,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
           tax: orders.tax,
           shipping: orders.shipping,
           total: orders.total,
+          refunded_amount: orders.refunded_amount,
           created_at: orders.created_at,
           updated_at: orders.updated_at,
           // Customer information (null for guest orders)
@@ -185,11 +217,17 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
             },
         shippingAddress: shippingAddress[0] || null,
         billingAddress: billingAddress[0] || null,
+        statusHistory: await getOrderStatusHistory(db, id, {
+          includeActorNames: true,
+        }),
+        refunds: await getOrderRefunds(db, id),
+        shipments: await getOrdersShipments(db, [id]),
         totals: {
           subtotal: parseFloat(orderData.subtotal),
           tax: parseFloat(orderData.tax),
           shipping: parseFloat(orderData.shipping),
           total: parseFloat(orderData.total),
+          refunded: parseFloat(orderData.refunded_amount),
         },
       };
 
@@ -200,25 +238,43 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       );
     } else if (req.method === "PUT") {
       // Update order status
-      const { status, trackingNumber } = req.body;
+      const { status, trackingNumber, restock, note } = req.body;
 
       if (!status) {
         return res.status(400).json({ error: "Status is required" });
       }
 
+      if (restock !== undefined && typeof restock !== "boolean") {
+        return res.status(400).json({ error: "Restock must be a boolean" });
+      }
+
+      if (
+        note !== undefined &&
+        note !== null &&
+        (typeof note !== "string" || note.length > 500)
+      ) {
+        return res
+          .status(400)
+          .json({ error: "Note must be text of at most 500 characters" });
+      }
+
       // Validate status
-      const validStatuses = [
-        "received",
-        "paid",
-        "shipped",
-        "completed",
-        "cancelled",
-        "refunded",
-      ];
-      if (!validStatuses.includes(status)) {
+      if (!isOrderStatus(status)) {
         return res.status(400).json({ error: "Invalid status" });
       }
 
+      if (status === "refunded") {
+        return res.status(400).json({
+          error: "Issue a refund to mark an order refunded",
+        });
+      }
+
+      if (status === "partially_shipped") {
+        return res.status(400).json({
+          error: "Ship some of the order's items to mark it partially shipped",
+        });
+      }
+
       // If updating to shipped, require tracking number
       if (status === "shipped" && !trackingNumber) {
         return res.status(400).json({
@@ -234,19 +290,97 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         }
       }
 
-      // Prepare update data
-      const updateData: any = {
-        status,
-        updated_at: new Date(),
-      };
+      const current = await db
+        .select({ status: orders.status })
+        .from(orders)
+        .where(eq(orders.id, id))
+        .limit(1);
+
+      if (current.length === 0) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const currentStatus = current[0].status;
+      if (!canTransitionOrderStatus(currentStatus, status)) {
+        return res.status(400).json({
+          error: `Cannot change order status from ${currentStatus} to ${status}`,
+        });
+      }
+
+      const trimmedNote = typeof note === "string" ? note.trim() : null;
+
+      // Cancelling a paid order gives the money back: a full refund that
+      // closes the order as cancelled rather than refunded
+      if (status === "cancelled" && currentStatus === "paid") {
+        const summary = await getOrderRefundSummary(db, id);
+
+        if (summary && summary.refundable > 0) {
+          const refunded = await issueRefund(db, {
+            orderId: id,
+            amount: summary.refundable,
+            items: null,
+            reason: "other",
+            note: trimmedNote || "Cancelled by admin",
+            createdBy: user.id,
+            actor: { id: user.id, type: "admin" },
+            source: "admin",
+            closeAs: "cancelled",
+            restock: restock !== false,
+          });
+
+          if (!refunded.success) {
+            return res.status(refunded.status).json({ error: refunded.error });
+          }
+
+          await notifyBackInStock(db, refunded.backInStock);
+
+          const [cancelledOrder] = await db
+            .select()
+            .from(orders)
+            .where(eq(orders.id, id))
+            .limit(1);
+
+          return sendSuccessResponse(
+            res,
+            {
+              id: cancelledOrder.id,
+              status: cancelledOrder.status,
+              tracking_number: cancelledOrder.tracking_number,
+              shipping_provider: cancelledOrder.shipping_provider,
+              shipped_at: cancelledOrder.shipped_at,
+              updated_at: cancelledOrder.updated_at,
+            },
+            "Order cancelled and refunded successfully"
+          );
+        }
+      }
+
+      // Void an unpaid order's authorization so the customer is never charged
+      if (status === "cancelled" && currentStatus === "received") {
+        const [payment] = await db
+          .select({ payment_intent_id: orders.payment_intent_id })
+          .from(orders)
+          .where(eq(orders.id, id))
+          .limit(1);
 
-      // If updating to shipped, add tracking info
-      if (status === "shipped" && trackingNumber) {
+        if (payment?.payment_intent_id) {
+          try {
+            await getPaymentProvider().cancelIntent(payment.payment_intent_id);
+          } catch (providerError) {
+            console.error("Payment cancellation failed:", providerError);
+            return res.status(409).json({
+              error:
+                "The payment could not be voided; it may be being captured. Try again in a few minutes.",
+            });
+          }
+        }
+      }
+
+      // Marking shipped sends everything not shipped yet in one package
+      if (status === "shipped") {
+        let trackingInfo;
         try {
-          const trackingInfo = parseTrackingNumber(trackingNumber);
-          updateData.tracking_number = trackingInfo.trackingNumber;
-          updateData.shipping_provider = trackingInfo.provider;
-          updateData.shipped_at = new Date();
+          trackingInfo = parseTrackingNumber(trackingNumber);
         } catch (error) {
           return res.status(400).json({
             error:
@@ -255,130 +389,24 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
                 : "Invalid tracking number",
           });
         }
-      }
 
-      // Update order status
-      const updatedOrder = await db
-        .update(orders)
-        .set(updateData)
-        .where(eq(orders.id, id))
-        .returning();
+        const shipped = await db.transaction((tx) =>
+          createShipment(tx, {
+            orderId: id,
+            trackingNumber: trackingInfo.trackingNumber,
+            carrier: trackingInfo.provider,
+            note: trimmedNote,
+            actor: { id: user.id, type: "admin" },
+            source: "admin",
+          })
+        );
 
-      if (updatedOrder.length === 0) {
-        return res.status(404).json({ error: "Order not found" });
-      }
+        if (!shipped.success) {
+          return res.status(shipped.status).json({ error: shipped.error });
+        }
 
-      // If order was marked as shipped, send shipping confirmation email
-      if (status === "shipped" && trackingNumber) {
         try {
-          // Get order details for email
-          const orderDetails = await db
-            .select({
-              id: orders.id,
-              order_number: orders.order_number,
-              is_guest_order: orders.is_guest_order,
-              guest_email: orders.guest_email,
-              subtotal: orders.subtotal,
-              tax: orders.tax,
-              shipping: orders.shipping,
-              total: orders.total,
-              customer_id: customers.id,
-              customer_email: customers.email,
-              customer_name: customers.name,
-            })
-            .from(orders)
-            .leftJoin(customers, eq(customers.id, orders.customer_id))
-            .where(eq(orders.id, id))
-            .limit(1);
-
-          if (orderDetails.length > 0) {
-            const orderData = orderDetails[0];
-
-            // Get order items
-            const items = await db
-              .select({
-                variant_id: orderItems.product_id,
-                quantity: orderItems.quantity,
-                unit_amount: orderItems.unit_amount,
-                selected_options: orderItems.selected_options,
-                descriptive_title: orderItems.descriptive_title,
-              })
-              .from(orderItems)
-              .where(eq(orderItems.order_id, id));
-
-            // Get shipping address
-            let shippingAddress = null;
-            const addressData = await db
-              .select({
-                name: addresses.name,
-                line1: addresses.line1,
-                line2: addresses.line2,
-                city: addresses.city,
-                region: addresses.region,
-                postal_code: addresses.postal_code,
-                country: addresses.country,
-              })
-              .from(addresses)
-              .where(
-                and(
-                  eq(addresses.order_id, orderData.id),
-                  eq(addresses.type, "shipping")
-                )
-              )
-              .limit(1);
-
-            if (addressData.length > 0) {
-              shippingAddress = addressData[0];
-            }
-
-            if (shippingAddress) {
-              const trackingInfo = parseTrackingNumber(trackingNumber);
-              const trackingUrl = generateTrackingUrl(
-                trackingNumber,
-                trackingInfo.provider
-              );
-
-              await sendShippingConfirmationEmail({
-                orderId: orderData.id,
-                orderNumber: orderData.order_number || undefined,
-                customerEmail: orderData.is_guest_order
-                  ? orderData.guest_email!
-                  : orderData.customer_email!,
-                customerName: orderData.customer_name || undefined,
-                trackingNumber: trackingInfo.trackingNumber,
-                shippingProvider: trackingInfo.provider,
-                trackingUrl,
-                orderItems: items.map((item) => ({
-                  variant_id: item.variant_id,
-                  quantity: item.quantity,
-                  unit_amount: parseFloat(item.unit_amount),
-                  selected_options:
-                    (item.selected_options as Record<string, string>) ||
-                    undefined,
-                  descriptive_title: item.descriptive_title || undefined,
-                })),
-                shippingAddress: {
-                  name:
-                    shippingAddress.name ||
-                    orderData.customer_name ||
-                    "Guest Customer",
-                  email: orderData.is_guest_order
-                    ? orderData.guest_email!
-                    : orderData.customer_email!,
-                  line1: shippingAddress.line1 || "",
-                  line2: shippingAddress.line2 || undefined,
-                  city: shippingAddress.city || "",
-                  region: shippingAddress.region || "",
-                  postal_code: shippingAddress.postal_code || "",
-                  country: shippingAddress.country || "",
-                },
-                subtotal: parseFloat(orderData.subtotal),
-                tax: parseFloat(orderData.tax),
-                shipping: parseFloat(orderData.shipping),
-                total: parseFloat(orderData.total),
-              });
-            }
-          }
+          await sendShipmentEmail(db, shipped.shipment);
         } catch (emailError) {
           console.error(
             "Error sending shipping confirmation email:",
@@ -386,6 +414,64 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
           );
           // Don't fail the request if email fails, just log it
         }
+
+        return sendSuccessResponse(
+          res,
+          {
+            id,
+            status: shipped.status,
+            tracking_number: shipped.shipment.tracking_number,
+            shipping_provider: shipped.shipment.carrier,
+            shipped_at: shipped.shipment.shipped_at,
+            updated_at: shipped.shipment.created_at,
+          },
+          "Order status updated successfully"
+        );
+      }
+
+      // Update order status and run the transition's side effects together
+      const outcome = await db.transaction(async (tx) => {
+        const transition = await transitionOrderStatus(tx, {
+          orderId: id,
+          from: [currentStatus],
+          to: status,
+          actor: { id: user.id, type: "admin" },
+          source: "admin",
+          note: trimmedNote,
+        });
+
+        if (!transition) {
+          return null;
+        }
+
+        const updated = await tx
+          .update(orders)
+          .set({ updated_at: new Date() })
+          .where(eq(orders.id, id))
+          .returning();
+
+        const backInStock = await applyOrderStatusHooks(tx, transition, {
+          restock: restock !== false,
+        });
+
+        return { updatedOrder: updated, backInStock };
+      });
+
+      // Someone else changed the status since it was read above
+      if (!outcome) {
+        return res.status(409).json({
+          error: "Order status was changed by someone else, please refresh",
+        });
+      }
+
+      const { updatedOrder, backInStock } = outcome;
+
+      await notifyBackInStock(db, backInStock);
+
+      if (status === "paid") {
+        await sendOrderGiftCardEmails(db, id).catch((emailError) => {
+          console.error("Gift card email sending failed:", emailError);
+        });
       }
 
       sendSuccessResponse(
@@ -0,0 +1,201 @@
+import { db } from "@/lib/db";
+import { customers, orderItems, orders } from "@/lib/db/schema";
+import { sendRefundEmail } from "@/lib/email";
+import {
+  calculateRefundItemsAmount,
+  getRefundReasonLabel,
+} from "@/lib/refund-utils";
+import {
+  getOrderRefunds,
+  getOrderRefundSummary,
+  issueRefund,
+} from "@/lib/refunds";
+import { AuthenticatedUser } from "@/lib/security/auth-validation";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { notifyBackInStock } from "@/lib/stock-notifications";
+import { refundSchema } from "@/lib/validations";
+import { eq } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Admin order refunds API
+ * GET /api/admin/orders/[id]/refunds - Refunds issued so far and how much is
+ * left to refund
+ * POST /api/admin/orders/[id]/refunds - Refund line items or an amount, in
+ * the order currency. Money goes back through the payment provider, with any
+ * part paid by gift card returned to the card. Refunding everything left
+ * marks the order refunded; `restock: false` keeps its items out of stock.
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  user: AuthenticatedUser
+) {
+  const { id } = req.query;
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Order ID is required" });
+  }
+
+  if (req.method === "GET") {
+    try {
+      const summary = await getOrderRefundSummary(db, id);
+      if (!summary) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      sendSuccessResponse(
+        res,
+        { summary, refunds: await getOrderRefunds(db, id) },
+        "Refunds retrieved successfully"
+      );
+    } catch (error) {
+      console.error("Error fetching refunds:", error);
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+    return;
+  }
+
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const validation = refundSchema.safeParse(req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: "Validation failed",
+      details: validation.error.issues.map((err) => ({
+        field: err.path.join("."),
+        message: err.message,
+      })),
+    });
+  }
+
+  const { items, reason, note, restock } = validation.data;
+
+  try {
+    const order = await db
+      .select({
+        id: orders.id,
+        order_number: orders.order_number,
+        is_guest_order: orders.is_guest_order,
+        guest_email: orders.guest_email,
+        customer_email: customers.email,
+        customer_name: customers.name,
+      })
+      .from(orders)
+      .leftJoin(customers, eq(customers.id, orders.customer_id))
+      .where(eq(orders.id, id))
+      .limit(1);
+
+    if (order.length === 0) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const orderData = order[0];
+
+    const lines = await db
+      .select({
+        id: orderItems.id,
+        unit_amount: orderItems.unit_amount,
+        descriptive_title: orderItems.descriptive_title,
+      })
+      .from(orderItems)
+      .where(eq(orderItems.order_id, id));
+
+    const refundItems = items?.length ? items : null;
+    const amount =
+      validation.data.amount ??
+      calculateRefundItemsAmount(
+        refundItems || [],
+        lines.map((line) => ({
+          id: line.id,
+          unit_amount: parseFloat(line.unit_amount),
+        }))
+      );
+
+    if (amount <= 0) {
+      return res.status(400).json({ error: "Refund amount must be above 0" });
+    }
+
+    const outcome = await issueRefund(db, {
+      orderId: id,
+      amount,
+      items: refundItems,
+      reason,
+      note: note || null,
+      createdBy: user.id,
+      actor: { id: user.id, type: "admin" },
+      source: "admin",
+      restock,
+    });
+
+    if (!outcome.success) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
+
+    const { refund, currency, transition, backInStock } = outcome;
+    const paymentAmount = parseFloat(refund.payment_amount);
+
+    await notifyBackInStock(db, backInStock);
+
+    const email = orderData.is_guest_order
+      ? orderData.guest_email
+      : orderData.customer_email;
+    if (email) {
+      try {
+        await sendRefundEmail({
+          email,
+          customerName: orderData.customer_name,
+          orderNumber:
+            orderData.order_number ||
+            `#${orderData.id.slice(-8).toUpperCase()}`,
+          amount,
+          paymentAmount,
+          giftCardAmount: parseFloat(refund.gift_card_amount),
+          currency,
+          reason: getRefundReasonLabel(reason),
+          items: (refundItems || []).map((item) => ({
+            title:
+              lines.find((line) => line.id === item.order_item_id)
+                ?.descriptive_title || "Item",
+            quantity: item.quantity,
+          })),
+          isFullRefund: transition !== null,
+        });
+      } catch (emailError) {
+        console.error("Error sending refund email:", emailError);
+        // The refund went through either way
+      }
+    }
+
+    sendSuccessResponse(
+      res,
+      {
+        refund: {
+          id: refund.id,
+          amount,
+          payment_amount: paymentAmount,
+          gift_card_amount: parseFloat(refund.gift_card_amount),
+          status: "succeeded",
+        },
+        status: transition?.to ?? null,
+        summary: await getOrderRefundSummary(db, id),
+      },
+      "Refund issued successfully",
+      201
+    );
+  } catch (error) {
+    console.error("Error issuing refund:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    });
+  }
+}
+
+export default withAdminRequest(handler, "manage_refund");
@@ -0,0 +1,116 @@
+import { db } from "@/lib/db";
+import { AuthenticatedUser } from "@/lib/security/auth-validation";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import {
+  createShipment,
+  getOrdersShipments,
+  sendShipmentEmail,
+} from "@/lib/shipments";
+import { parseTrackingNumber } from "@/lib/shipping-utils";
+import { shipmentSchema } from "@/lib/validations";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Admin order shipments API
+ * GET /api/admin/orders/[id]/shipments - Packages sent so far, with their
+ * items and tracking
+ * POST /api/admin/orders/[id]/shipments - Send some or all of the unshipped
+ * items in a package with its own tracking number. The order is partially
+ * shipped until every item has gone out. The customer is emailed the items
+ * in the package.
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  user: AuthenticatedUser
+) {
+  const { id } = req.query;
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Order ID is required" });
+  }
+
+  if (req.method === "GET") {
+    try {
+      sendSuccessResponse(
+        res,
+        { shipments: await getOrdersShipments(db, [id]) },
+        "Shipments retrieved successfully"
+      );
+    } catch (error) {
+      console.error("Error fetching shipments:", error);
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+    return;
+  }
+
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const validation = shipmentSchema.safeParse(req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: "Validation failed",
+      details: validation.error.issues.map((err) => ({
+        field: err.path.join("."),
+        message: err.message,
+      })),
+    });
+  }
+
+  const { trackingNumber, items, note } = validation.data;
+
+  let trackingInfo;
+  try {
+    trackingInfo = parseTrackingNumber(trackingNumber);
+  } catch (error) {
+    return res.status(400).json({
+      error: error instanceof Error ? error.message : "Invalid tracking number",
+    });
+  }
+
+  try {
+    const outcome = await db.transaction((tx) =>
+      createShipment(tx, {
+        orderId: id,
+        trackingNumber: trackingInfo.trackingNumber,
+        carrier: trackingInfo.provider,
+        items,
+        note: note || null,
+        actor: { id: user.id, type: "admin" },
+        source: "admin",
+      })
+    );
+
+    if (!outcome.success) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
+
+    try {
+      await sendShipmentEmail(db, outcome.shipment);
+    } catch (emailError) {
+      console.error("Error sending shipping confirmation email:", emailError);
+      // The shipment is recorded either way
+    }
+
+    sendSuccessResponse(
+      res,
+      { shipment: outcome.shipment, status: outcome.status },
+      "Shipment created successfully",
+      201
+    );
+  } catch (error) {
+    console.error("Error creating shipment:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    });
+  }
+}
+
+export default withAdminRequest(handler, "manage_order");
@@ -0,0 +1,185 @@
+import { STORE_CURRENCY } from "@/lib/currency-utils";
+import { db } from "@/lib/db";
+import { auditLog, customers, orders } from "@/lib/db/schema";
+import { sendGiftCardEmail } from "@/lib/email";
+import { formatGiftCardCode } from "@/lib/gift-card-utils";
+import { issueGiftCard } from "@/lib/gift-cards";
+import { getOrderRefundSummary } from "@/lib/refunds";
+import { AuthenticatedUser } from "@/lib/security/auth-validation";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { storeCreditSchema } from "@/lib/validations";
+import { eq } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+
+// Orders that were actually paid for; credit on anything else gives away money
+const CREDITABLE_STATUSES = [
+  "paid",
+  "partially_shipped",
+  "shipped",
+  "completed",
+];
+
+/**
+ * Admin store credit API
+ * POST /api/admin/orders/[id]/store-credit - Issue store credit against an
+ * order instead of refunding it. The credit is a gift card in the store
+ * currency, emailed to the customer. Credit and refunds together are capped
+ * at what the order cost.
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  user: AuthenticatedUser
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { id } = req.query;
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Order ID is required" });
+  }
+
+  const validation = storeCreditSchema.safeParse(req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: "Validation failed",
+      details: validation.error.issues.map((err) => ({
+        field: err.path.join("."),
+        message: err.message,
+      })),
+    });
+  }
+
+  const { amount, note } = validation.data;
+
+  try {
+    const order = await db
+      .select({
+        id: orders.id,
+        order_number: orders.order_number,
+        status: orders.status,
+        exchange_rate: orders.exchange_rate,
+        guest_email: orders.guest_email,
+        customer_id: customers.id,
+        customer_email: customers.email,
+        customer_name: customers.name,
+      })
+      .from(orders)
+      .leftJoin(customers, eq(customers.id, orders.customer_id))
+      .where(eq(orders.id, id))
+      .limit(1);
+
+    if (order.length === 0) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const orderData = order[0];
+
+    if (!CREDITABLE_STATUSES.includes(orderData.status)) {
+      return res.status(400).json({
+        error: `Cannot issue store credit for a ${orderData.status} order`,
+      });
+    }
+
+    const email = orderData.customer_email || orderData.guest_email;
+    if (!email) {
+      return res
+        .status(400)
+        .json({ error: "Order has no email to send the credit to" });
+    }
+
+    const outcome = await db.transaction(async (tx) => {
+      // Lock the order so credit and refunds cannot both use up the cap
+      await tx
+        .select({ id: orders.id })
+        .from(orders)
+        .where(eq(orders.id, orderData.id))
+        .for("update");
+
+      // What is left after refunds and earlier credit, in the store currency
+      const summary = await getOrderRefundSummary(tx, orderData.id);
+      const remaining =
+        Math.round(
+          ((summary?.refundable ?? 0) / parseFloat(orderData.exchange_rate)) *
+            100
+        ) / 100;
+
+      if (amount > remaining) {
+        return { issued: null, remaining };
+      }
+
+      const issued = await issueGiftCard(tx, {
+        amount,
+        source: "store_credit",
+        recipientEmail: email,
+        customerId: orderData.customer_id,
+        orderId: orderData.id,
+        issuedBy: user.id,
+        note: note || null,
+      });
+
+      await tx.insert(auditLog).values({
+        actor_id: user.id,
+        actor_type: "admin",
+        action: "order.store_credit_issued",
+        resource: `order:${orderData.id}`,
+        meta: { gift_card_id: issued.id, amount, note: note || null },
+      });
+
+      return { issued, remaining };
+    });
+
+    const { issued: giftCard, remaining } = outcome;
+
+    if (!giftCard) {
+      return res.status(400).json({
+        error:
+          remaining > 0
+            ? `At most ${remaining.toFixed(
+                2
+              )} ${STORE_CURRENCY} more can be credited for this order`
+            : "This order has already been fully credited",
+      });
+    }
+
+    try {
+      await sendGiftCardEmail({
+        email,
+        customerName: orderData.customer_name,
+        code: formatGiftCardCode(giftCard.code),
+        amount,
+        source: "store_credit",
+        orderNumber: orderData.order_number,
+        note: note || null,
+      });
+    } catch (emailError) {
+      console.error("Error sending store credit email:", emailError);
+      // The credit is issued either way and shows on the customer's account
+    }
+
+    sendSuccessResponse(
+      res,
+      {
+        giftCard: {
+          id: giftCard.id,
+          balance: parseFloat(giftCard.balance),
+          recipient_email: giftCard.recipient_email,
+          created_at: giftCard.created_at,
+        },
+      },
+      "Store credit issued successfully",
+      201
+    );
+  } catch (error) {
+    console.error("Error issuing store credit:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    });
+  }
+}
+
+export default withAdminRequest(handler, "issue_store_credit");
@@ -7,8 +7,11 @@ import {
   productMedia,
   products,
 } from "@/lib/db/schema";
+import { getOrderStatusHistory } from "@/lib/order-status";
+import { getOrderRefunds } from "@/lib/refunds";
 import { sendSuccessResponse } from "@/lib/security/error-handling";
 import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { getOrdersShipments } from "@/lib/shipments";
 import { and, desc, eq, ilike, inArray, or, sql } from "drizzle-orm";
 import { NextApiRequest, NextApiResponse } from "next";
 
@@ -38,6 +41,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         const validStatuses = [
           "received",
           "paid",
+          "partially_shipped",
           "shipped",
           "completed",
           "cancelled",
@@ -46,11 +50,12 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
 
         // Handle special filter groups
         if (status === "in_progress") {
-          // In progress includes: received, paid, shipped
+          // In progress includes: received, paid, partially shipped, shipped
           conditions.push(
             or(
               eq(orders.status, "received"),
               eq(orders.status, "paid"),
+              eq(orders.status, "partially_shipped"),
               eq(orders.status, "shipped")
             )
           );
@@ -70,6 +75,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
               status as
                 | "received"
                 | "paid"
+                | "partially_shipped"
                 | "shipped"
                 | "completed"
                 | "cancelled"
@@ -157,6 +163,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
           tax: orders.tax,
           shipping: orders.shipping,
           total: orders.total,
+          refunded_amount: orders.refunded_amount,
+          shipping_method: orders.shipping_method,
           tracking_number: orders.tracking_number,
           shipping_provider: orders.shipping_provider,
           shipped_at: orders.shipped_at,
@@ -222,6 +230,12 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
             )
             .limit(1);
 
+          const statusHistory = await getOrderStatusHistory(db, order.id, {
+            includeActorNames: true,
+          });
+          const orderRefunds = await getOrderRefunds(db, order.id);
+          const orderShipments = await getOrdersShipments(db, [order.id]);
+
           return {
             ...order,
             orderNumber:
@@ -259,11 +273,15 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
                   isGuest: false,
                 },
             shippingAddress: shippingAddress[0] || null,
+            statusHistory,
+            refunds: orderRefunds,
+            shipments: orderShipments,
             totals: {
               subtotal: parseFloat(order.subtotal),
               tax: parseFloat(order.tax),
               shipping: parseFloat(order.shipping),
               total: parseFloat(order.total),
+              refunded: parseFloat(order.refunded_amount),
             },
           };
         })
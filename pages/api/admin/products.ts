@@ -6,10 +6,12 @@ import {
   productCategories,
   productMedia,
   products,
+  productSearchIndex,
   productTags,
   tags,
 } from "@/lib/db/schema";
 import { getProductImageUrl } from "@/lib/image-utils";
+import { matchesProductSearch, productSearchRank } from "@/lib/product-search";
 import { AuthenticatedUser } from "@/lib/role-middleware";
 import { withAdminRequest } from "@/lib/security/request-wrapper";
 import { and, asc, desc, eq, ilike, inArray, or, sql } from "drizzle-orm";
@@ -37,8 +39,10 @@ async function handler(
 
       // Build where conditions
       const conditions = [];
+      let textSearch: string | null = null;
 
-      // Text search (ID, title, slug, description)
+      // Text search (ID, slug, or the storefront search over title,
+      // description, tags, categories and options)
       if (search && typeof search === "string") {
         const searchTerm = search.trim();
         // Check if search term looks like a UUID
@@ -51,12 +55,11 @@ async function handler(
           // Exact match for UUID
           conditions.push(eq(products.id, searchTerm));
         } else {
-          // Text search for other fields
+          textSearch = searchTerm;
           conditions.push(
             or(
-              ilike(products.title, `%${searchTerm}%`),
               ilike(products.slug, `%${searchTerm}%`),
-              ilike(products.description, `%${searchTerm}%`)
+              matchesProductSearch(searchTerm)
             )
           );
         }
@@ -137,6 +140,9 @@ async function handler(
           image: products.image,
           base_price: products.base_price,
           status: products.status,
+          tax_category: products.tax_category,
+          weight_grams: products.weight_grams,
+          is_gift_card: products.is_gift_card,
           created_at: products.created_at,
           updated_at: products.updated_at,
           quantity_available: inventory.quantity_available,
@@ -147,9 +153,18 @@ async function handler(
           views_count: productAnalytics.views_count,
           last_sale_at: productAnalytics.last_sale_at,
           media_blob_url: productMedia.blob_url,
+          // Selected so DISTINCT can order by it
+          search_rank: (textSearch
+            ? productSearchRank(textSearch)
+            : sql<number>`0`
+          ).as("search_rank"),
         })
         .from(products)
         .leftJoin(inventory, eq(products.id, inventory.product_id))
+        .leftJoin(
+          productSearchIndex,
+          eq(products.id, productSearchIndex.product_id)
+        )
         .leftJoin(
           productAnalytics,
           eq(products.id, productAnalytics.product_id)
@@ -170,6 +185,9 @@ async function handler(
       // Sorting
       let sortColumn;
       switch (sortBy) {
+        case "relevance":
+          sortColumn = textSearch ? sql`search_rank` : products.created_at;
+          break;
         case "title":
           sortColumn = products.title;
           break;
@@ -201,6 +219,10 @@ async function handler(
         .select({ count: sql<number>`count(*)` })
         .from(products)
         .leftJoin(inventory, eq(products.id, inventory.product_id))
+        .leftJoin(
+          productSearchIndex,
+          eq(products.id, productSearchIndex.product_id)
+        )
         .where(whereClause);
 
       const total = totalCountResult[0]?.count || 0;
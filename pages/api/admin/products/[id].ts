@@ -10,8 +10,14 @@ import {
   productTags,
   tags,
 } from "@/lib/db/schema";
+import { isOptionValueSoldOut } from "@/lib/option-inventory-utils";
 import { AuthenticatedUser } from "@/lib/role-middleware";
 import { withAdminRequest } from "@/lib/security/request-wrapper";
+import {
+  BackInStockVariant,
+  sendBackInStockNotifications,
+} from "@/lib/stock-notifications";
+import { TAX_CATEGORIES } from "@/lib/tax-utils";
 import { eq } from "drizzle-orm";
 import { NextApiRequest, NextApiResponse } from "next";
 
@@ -39,6 +45,9 @@ async function handler(
           description: products.description,
           image: products.image,
           status: products.status,
+          tax_category: products.tax_category,
+          weight_grams: products.weight_grams,
+          is_gift_card: products.is_gift_card,
           created_at: products.created_at,
           updated_at: products.updated_at,
         })
@@ -86,6 +95,7 @@ async function handler(
           value_price_adjustment: productOptionValues.price_adjustment,
           value_is_default: productOptionValues.is_default,
           value_is_sold_out: productOptionValues.is_sold_out,
+          value_quantity_available: productOptionValues.quantity_available,
           value_sort_order: productOptionValues.sort_order,
         })
         .from(productOptions)
@@ -117,6 +127,7 @@ async function handler(
               price_adjustment: row.value_price_adjustment,
               is_default: row.value_is_default,
               is_sold_out: row.value_is_sold_out,
+              quantity_available: row.value_quantity_available,
               sort_order: row.value_sort_order,
             });
           }
@@ -184,6 +195,9 @@ async function handler(
         image,
         base_price,
         status,
+        tax_category,
+        weight_grams,
+        is_gift_card,
         tags,
         options,
         media,
@@ -195,6 +209,49 @@ async function handler(
         });
       }
 
+      if (
+        tax_category !== undefined &&
+        !TAX_CATEGORIES.some((category) => category.value === tax_category)
+      ) {
+        return res.status(400).json({
+          error: "Invalid tax category",
+        });
+      }
+
+      if (
+        weight_grams !== undefined &&
+        weight_grams !== null &&
+        (!Number.isInteger(weight_grams) || weight_grams < 0)
+      ) {
+        return res.status(400).json({
+          error: "Weight must be a whole number of grams",
+        });
+      }
+
+      if (is_gift_card !== undefined && typeof is_gift_card !== "boolean") {
+        return res.status(400).json({
+          error: "Gift card flag must be a boolean",
+        });
+      }
+
+      // Option value stock is optional - blank means it is not tracked
+      const hasInvalidOptionStock =
+        Array.isArray(options) &&
+        options.some((option: any) =>
+          (option.values || []).some(
+            (value: any) =>
+              value.quantity_available !== undefined &&
+              value.quantity_available !== null &&
+              (!Number.isInteger(value.quantity_available) ||
+                value.quantity_available < 0)
+          )
+        );
+      if (hasInvalidOptionStock) {
+        return res.status(400).json({
+          error: "Option stock must be a whole number of units",
+        });
+      }
+
       // Check if product exists
       const existingProduct = await db
         .select()
@@ -233,6 +290,13 @@ async function handler(
           image: image || null,
           base_price: base_price || null,
           status: status || "draft",
+          // Omitted by the options/tags/media quick saves - keep the current one
+          tax_category: tax_category || existingProduct[0].tax_category,
+          weight_grams:
+            weight_grams === undefined
+              ? existingProduct[0].weight_grams
+              : weight_grams,
+          is_gift_card: is_gift_card ?? existingProduct[0].is_gift_card,
           updated_at: new Date(),
         })
         .where(eq(products.id, id))
@@ -254,6 +318,28 @@ async function handler(
 
       // Handle product options
       if (options && Array.isArray(options)) {
+        // Remember which values were sold out so restocked ones can notify
+        // their subscribers once the options are recreated
+        const previousValues = await db
+          .select({
+            option_name: productOptions.name,
+            name: productOptionValues.name,
+            is_sold_out: productOptionValues.is_sold_out,
+            quantity_available: productOptionValues.quantity_available,
+          })
+          .from(productOptionValues)
+          .innerJoin(
+            productOptions,
+            eq(productOptionValues.option_id, productOptions.id)
+          )
+          .where(eq(productOptions.product_id, id));
+        const previouslySoldOut = new Set(
+          previousValues
+            .filter((value) => isOptionValueSoldOut(value))
+            .map((value) => `${value.option_name}:${value.name}`)
+        );
+        const restockedVariants: BackInStockVariant[] = [];
+
         // First, remove existing product options and their related data
         const existingOptions = await db
           .select({ id: productOptions.id })
@@ -306,16 +392,39 @@ async function handler(
 
             if (!value.name) continue;
 
-            await db.insert(productOptionValues).values({
-              option_id: newProductOption[0].id,
-              name: value.name,
-              price_adjustment: parseFloat(
-                value.price_adjustment || "0"
-              ).toString(),
-              is_default: value.is_default || false,
-              is_sold_out: value.is_sold_out || false,
-              sort_order: valueIndex,
-            });
+            const [newValue] = await db
+              .insert(productOptionValues)
+              .values({
+                option_id: newProductOption[0].id,
+                name: value.name,
+                price_adjustment: parseFloat(
+                  value.price_adjustment || "0"
+                ).toString(),
+                is_default: value.is_default || false,
+                is_sold_out: value.is_sold_out || false,
+                quantity_available: value.quantity_available ?? null,
+                sort_order: valueIndex,
+              })
+              .returning();
+
+            if (
+              previouslySoldOut.has(`${option.name}:${value.name}`) &&
+              !isOptionValueSoldOut(newValue)
+            ) {
+              restockedVariants.push({
+                optionName: option.name,
+                optionValue: value.name,
+              });
+            }
+          }
+        }
+
+        for (const variant of restockedVariants) {
+          try {
+            await sendBackInStockNotifications(db, updatedProduct[0], variant);
+          } catch (error) {
+            console.error("Error sending stock notifications:", error);
+            // Don't fail the product update if notifications fail
           }
         }
 
@@ -376,6 +485,9 @@ async function handler(
           description: updatedProduct[0].description,
           image: updatedProduct[0].image,
           status: updatedProduct[0].status,
+          tax_category: updatedProduct[0].tax_category,
+          weight_grams: updatedProduct[0].weight_grams,
+          is_gift_card: updatedProduct[0].is_gift_card,
         },
       });
     } catch (error) {
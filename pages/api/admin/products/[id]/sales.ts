@@ -0,0 +1,126 @@
+import { db } from "@/lib/db";
+import { products } from "@/lib/db/schema";
+import {
+  endSales,
+  getActivePrices,
+  getScheduledSales,
+  scheduleSale,
+} from "@/lib/pricing";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { saleScheduleSchema } from "@/lib/validations";
+import { eq } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Admin product sales API
+ * GET /api/admin/products/[id]/sales - Current price with upcoming and running sales
+ * POST /api/admin/products/[id]/sales - Schedule a sale
+ * DELETE /api/admin/products/[id]/sales?saleId=... - End or cancel a sale
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Product ID is required" });
+  }
+
+  try {
+    const existing = await db
+      .select({
+        id: products.id,
+        title: products.title,
+        base_price: products.base_price,
+      })
+      .from(products)
+      .where(eq(products.id, id))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: "Product not found",
+      });
+    }
+
+    const product = existing[0];
+
+    if (req.method === "GET") {
+      const [activePrices, sales] = await Promise.all([
+        getActivePrices(db, [id]),
+        getScheduledSales(db, id),
+      ]);
+
+      sendSuccessResponse(
+        res,
+        { product, activePrice: activePrices.get(id) || null, sales },
+        "Sales retrieved successfully"
+      );
+    } else if (req.method === "POST") {
+      const validationResult = saleScheduleSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: validationResult.error.issues.map((err) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        });
+      }
+
+      const data = validationResult.data;
+      const { scheduled } = await scheduleSale(db, [id], {
+        type: data.type,
+        value: data.value,
+        starts_at: data.starts_at || new Date(),
+        ends_at: data.ends_at,
+      });
+
+      if (scheduled === 0) {
+        return res.status(400).json({
+          success: false,
+          error: "Set a price on this product before scheduling a sale",
+        });
+      }
+
+      sendSuccessResponse(
+        res,
+        { sales: await getScheduledSales(db, id) },
+        "Sale scheduled successfully"
+      );
+    } else if (req.method === "DELETE") {
+      const { saleId } = req.query;
+
+      if (!saleId || typeof saleId !== "string") {
+        return res.status(400).json({ error: "Sale ID is required" });
+      }
+
+      const ended = await endSales(db, [id], saleId);
+
+      if (ended === 0) {
+        return res.status(404).json({
+          success: false,
+          error: "Sale not found",
+        });
+      }
+
+      sendSuccessResponse(
+        res,
+        { sales: await getScheduledSales(db, id) },
+        "Sale ended successfully"
+      );
+    } else {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+  } catch (error) {
+    console.error("Error managing product sales:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to manage product sales",
+    });
+  }
+}
+
+export default withAdminRequest(handler, "manage_product_sales");
@@ -1,8 +1,8 @@
 import { db } from "@/lib/db";
-import { inventory, products, stockNotifications } from "@/lib/db/schema";
-import { sendStockNotificationEmail } from "@/lib/email";
+import { inventory, products } from "@/lib/db/schema";
 import { withAdminRequest } from "@/lib/security/request-wrapper";
-import { and, eq } from "drizzle-orm";
+import { sendBackInStockNotifications } from "@/lib/stock-notifications";
+import { eq } from "drizzle-orm";
 import { NextApiRequest, NextApiResponse } from "next";
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -66,55 +66,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     // Send stock notifications if stock went from 0 to positive
     if (previousStock === 0 && quantity_available > 0) {
       try {
-        // Get all pending stock notifications for this product
-        const pendingNotifications = await db
-          .select()
-          .from(stockNotifications)
-          .where(
-            and(
-              eq(stockNotifications.product_id, id),
-              eq(stockNotifications.is_notified, false)
-            )
-          )
-          .limit(100); // Limit to prevent overwhelming the email service
-
-        // Send notifications to all pending subscribers
-        const notificationPromises = pendingNotifications.map(
-          async (notification) => {
-            try {
-              const emailResult = await sendStockNotificationEmail(
-                notification.email,
-                product.title,
-                product.slug
-              );
-
-              if (emailResult.success) {
-                // Mark as notified
-                await db
-                  .update(stockNotifications)
-                  .set({ is_notified: true, notified_at: new Date() })
-                  .where(eq(stockNotifications.id, notification.id));
-              }
-
-              return emailResult;
-            } catch (error) {
-              console.error(
-                `Failed to send notification to ${notification.email}:`,
-                error
-              );
-              return {
-                success: false,
-                error: error instanceof Error ? error.message : "Unknown error",
-              };
-            }
-          }
-        );
-
-        const results = await Promise.all(notificationPromises);
-        const successCount = results.filter((r) => r.success).length;
-        console.log(
-          `Sent ${successCount}/${pendingNotifications.length} stock notifications for product ${product.title}`
-        );
+        await sendBackInStockNotifications(db, product);
       } catch (error) {
         console.error("Error sending stock notifications:", error);
         // Don't fail the stock update if notifications fail
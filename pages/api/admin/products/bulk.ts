@@ -1,7 +1,9 @@
 import { db } from "@/lib/db";
 import { inventory, products, productTags } from "@/lib/db/schema";
+import { endSales, scheduleSale } from "@/lib/pricing";
 import { AuthenticatedUser } from "@/lib/role-middleware";
 import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { saleScheduleSchema } from "@/lib/validations";
 import { eq, inArray } from "drizzle-orm";
 import { NextApiRequest, NextApiResponse } from "next";
 
@@ -180,6 +182,23 @@ async function handler(
         result = { updated: productIds.length };
         break;
 
+      case "schedule_sale":
+        const saleValidation = saleScheduleSchema.safeParse(data);
+        if (!saleValidation.success) {
+          return res.status(400).json({
+            error: saleValidation.error.issues[0]?.message || "Invalid sale",
+          });
+        }
+        result = await scheduleSale(db, productIds, {
+          ...saleValidation.data,
+          starts_at: saleValidation.data.starts_at || new Date(),
+        });
+        break;
+
+      case "end_sales":
+        result = { ended: await endSales(db, productIds) };
+        break;
+
       case "delete":
         // Delete products (cascade will handle related data)
         result = await db
@@ -0,0 +1,152 @@
+import { db } from "@/lib/db";
+import { orders, promotions } from "@/lib/db/schema";
+import {
+  formatPromotionForAdmin,
+  getPromotionRedemptionStats,
+} from "@/lib/promotions";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { promotionSchema } from "@/lib/validations";
+import { and, desc, eq, ne, sql } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Admin single promotion API
+ * GET /api/admin/promotions/[id] - Promotion with stats and recent orders
+ * PUT /api/admin/promotions/[id] - Edit, schedule, pause or resume
+ * DELETE /api/admin/promotions/[id] - Delete (orders keep the code they used)
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Promotion ID is required" });
+  }
+
+  try {
+    const existing = await db
+      .select()
+      .from(promotions)
+      .where(eq(promotions.id, id))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: "Promotion not found",
+      });
+    }
+
+    const promotion = existing[0];
+
+    if (req.method === "GET") {
+      const stats = await getPromotionRedemptionStats(db, [id]);
+
+      const recentOrders = await db
+        .select({
+          id: orders.id,
+          order_number: orders.order_number,
+          status: orders.status,
+          discount: orders.discount,
+          total: orders.total,
+          created_at: orders.created_at,
+        })
+        .from(orders)
+        .where(eq(orders.promotion_id, id))
+        .orderBy(desc(orders.created_at))
+        .limit(20);
+
+      sendSuccessResponse(
+        res,
+        {
+          promotion: formatPromotionForAdmin(promotion, stats.get(id)),
+          recentOrders,
+        },
+        "Promotion retrieved successfully"
+      );
+    } else if (req.method === "PUT") {
+      // Partial updates are validated against the merged result so
+      // cross-field rules (e.g. end after start) still apply
+      const validationResult = promotionSchema.safeParse({
+        code: promotion.code,
+        type: promotion.type,
+        value: parseFloat(promotion.value),
+        starts_at: promotion.starts_at,
+        ends_at: promotion.ends_at,
+        usage_limit: promotion.usage_limit,
+        is_active: promotion.is_active,
+        ...req.body,
+      });
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: validationResult.error.issues.map((err) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        });
+      }
+
+      const data = validationResult.data;
+      const code = data.code.toUpperCase();
+
+      const duplicate = await db
+        .select({ id: promotions.id })
+        .from(promotions)
+        .where(
+          and(sql`upper(${promotions.code}) = ${code}`, ne(promotions.id, id))
+        )
+        .limit(1);
+
+      if (duplicate.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: "A promotion with this code already exists",
+        });
+      }
+
+      const [updated] = await db
+        .update(promotions)
+        .set({
+          code,
+          type: data.type,
+          value: data.type === "free_shipping" ? "0" : data.value.toString(),
+          starts_at: data.starts_at || null,
+          ends_at: data.ends_at || null,
+          usage_limit: data.usage_limit || null,
+          is_active: data.is_active,
+          updated_at: new Date(),
+        })
+        .where(eq(promotions.id, id))
+        .returning();
+
+      const stats = await getPromotionRedemptionStats(db, [id]);
+
+      sendSuccessResponse(
+        res,
+        { promotion: formatPromotionForAdmin(updated, stats.get(id)) },
+        "Promotion updated successfully"
+      );
+    } else if (req.method === "DELETE") {
+      await db.delete(promotions).where(eq(promotions.id, id));
+
+      sendSuccessResponse(
+        res,
+        { id, code: promotion.code },
+        "Promotion deleted successfully"
+      );
+    } else {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+  } catch (error) {
+    console.error("Error managing promotion:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to manage promotion",
+    });
+  }
+}
+
+export default withAdminRequest(handler, "manage_promotion");
@@ -0,0 +1,111 @@
+import { db } from "@/lib/db";
+import { promotions } from "@/lib/db/schema";
+import {
+  formatPromotionForAdmin,
+  getPromotionRedemptionStats,
+} from "@/lib/promotions";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { promotionSchema } from "@/lib/validations";
+import { desc, sql } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Admin promotions management API
+ * GET /api/admin/promotions - List promotions with redemption stats
+ * POST /api/admin/promotions - Create a promotion
+ * Changes are recorded in the API audit log by withAdminRequest.
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === "GET") {
+    try {
+      const allPromotions = await db
+        .select()
+        .from(promotions)
+        .orderBy(desc(promotions.created_at));
+
+      const stats = await getPromotionRedemptionStats(
+        db,
+        allPromotions.map((promotion) => promotion.id)
+      );
+
+      sendSuccessResponse(
+        res,
+        {
+          promotions: allPromotions.map((promotion) =>
+            formatPromotionForAdmin(promotion, stats.get(promotion.id))
+          ),
+        },
+        "Promotions retrieved successfully"
+      );
+    } catch (error) {
+      console.error("Error fetching promotions:", error);
+      return res.status(500).json({
+        success: false,
+        error: "Failed to fetch promotions",
+      });
+    }
+  } else if (req.method === "POST") {
+    try {
+      const validationResult = promotionSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: validationResult.error.issues.map((err) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        });
+      }
+
+      const data = validationResult.data;
+      const code = data.code.toUpperCase();
+
+      // Codes are matched case-insensitively at checkout
+      const existing = await db
+        .select({ id: promotions.id })
+        .from(promotions)
+        .where(sql`upper(${promotions.code}) = ${code}`)
+        .limit(1);
+
+      if (existing.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: "A promotion with this code already exists",
+        });
+      }
+
+      const [created] = await db
+        .insert(promotions)
+        .values({
+          code,
+          type: data.type,
+          value: data.type === "free_shipping" ? "0" : data.value.toString(),
+          starts_at: data.starts_at || null,
+          ends_at: data.ends_at || null,
+          usage_limit: data.usage_limit || null,
+          is_active: data.is_active,
+        })
+        .returning();
+
+      sendSuccessResponse(
+        res,
+        { promotion: formatPromotionForAdmin(created) },
+        "Promotion created successfully",
+        201
+      );
+    } catch (error) {
+      console.error("Error creating promotion:", error);
+      return res.status(500).json({
+        success: false,
+        error: "Failed to create promotion",
+      });
+    }
+  } else {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+}
+
+export default withAdminRequest(handler, "manage_promotions");
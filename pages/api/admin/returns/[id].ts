@@ -0,0 +1,108 @@
+import { db } from "@/lib/db";
+import { customers, orders } from "@/lib/db/schema";
+import { sendReturnDecisionEmail } from "@/lib/email";
+import { reviewReturnRequest } from "@/lib/returns";
+import { AuthenticatedUser } from "@/lib/security/auth-validation";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { returnReviewSchema } from "@/lib/validations";
+import { eq } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Admin single return request API
+ * PUT /api/admin/returns/[id] - Approve or deny a pending request. The
+ * customer is emailed the decision along with the note. Approving does not
+ * move money; refund the items from the order once they come back.
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  user: AuthenticatedUser
+) {
+  if (req.method !== "PUT") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { id } = req.query;
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Return request ID is required" });
+  }
+
+  const validation = returnReviewSchema.safeParse(req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: "Validation failed",
+      details: validation.error.issues.map((err) => ({
+        field: err.path.join("."),
+        message: err.message,
+      })),
+    });
+  }
+
+  const { status, note } = validation.data;
+
+  try {
+    const returnRequest = await db.transaction((tx) =>
+      reviewReturnRequest(tx, id, {
+        status,
+        note: note || null,
+        actor: { id: user.id, type: "admin" },
+      })
+    );
+
+    if (!returnRequest) {
+      return res
+        .status(409)
+        .json({ error: "Return request not found or already reviewed" });
+    }
+
+    const order = await db
+      .select({
+        id: orders.id,
+        order_number: orders.order_number,
+        customer_name: customers.name,
+      })
+      .from(orders)
+      .leftJoin(customers, eq(customers.id, orders.customer_id))
+      .where(eq(orders.id, returnRequest.order_id))
+      .limit(1);
+
+    try {
+      await sendReturnDecisionEmail({
+        email: returnRequest.email,
+        customerName: order[0]?.customer_name,
+        orderNumber:
+          order[0]?.order_number ||
+          `#${returnRequest.order_id.slice(-8).toUpperCase()}`,
+        approved: status === "approved",
+        note: returnRequest.admin_note,
+      });
+    } catch (emailError) {
+      console.error("Error sending return decision email:", emailError);
+      // The decision stands either way
+    }
+
+    sendSuccessResponse(
+      res,
+      {
+        returnRequest: {
+          id: returnRequest.id,
+          status: returnRequest.status,
+          admin_note: returnRequest.admin_note,
+          reviewed_at: returnRequest.reviewed_at,
+        },
+      },
+      `Return request ${status}`
+    );
+  } catch (error) {
+    console.error("Error reviewing return request:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    });
+  }
+}
+
+export default withAdminRequest(handler, "review_return");
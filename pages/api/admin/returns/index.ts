@@ -0,0 +1,38 @@
+import { db } from "@/lib/db";
+import { getReturnRequestsQueue } from "@/lib/returns";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { NextApiRequest, NextApiResponse } from "next";
+
+const RETURN_STATUSES = ["requested", "approved", "denied"] as const;
+
+/**
+ * Admin returns queue API
+ * GET /api/admin/returns - Return requests, newest first. Filter with
+ * `?status=requested|approved|denied`.
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const status = RETURN_STATUSES.find((value) => value === req.query.status);
+
+  try {
+    const returnRequests = await getReturnRequestsQueue(db, status);
+
+    sendSuccessResponse(
+      res,
+      { returnRequests },
+      "Return requests retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Error fetching return requests:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to fetch return requests",
+    });
+  }
+}
+
+export default withAdminRequest(handler, "list_returns");
@@ -0,0 +1,104 @@
+import { db } from "@/lib/db";
+import { shippingRates } from "@/lib/db/schema";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { formatShippingRateForAdmin } from "@/lib/shipping";
+import { shippingRateSchema } from "@/lib/validations";
+import { eq } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Admin single shipping rate API
+ * PUT /api/admin/shipping/rates/[id] - Edit, enable or disable a rate
+ * DELETE /api/admin/shipping/rates/[id] - Remove a rate
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Shipping rate ID is required" });
+  }
+
+  try {
+    const existing = await db
+      .select()
+      .from(shippingRates)
+      .where(eq(shippingRates.id, id))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: "Shipping rate not found",
+      });
+    }
+
+    const rate = existing[0];
+
+    if (req.method === "PUT") {
+      // Partial updates (e.g. toggling is_active) are validated against the
+      // merged result. Rates cannot move between zones.
+      const validationResult = shippingRateSchema.safeParse({
+        ...formatShippingRateForAdmin(rate),
+        ...req.body,
+        zone_id: rate.zone_id,
+      });
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: validationResult.error.issues.map((err) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        });
+      }
+
+      const data = validationResult.data;
+
+      const [updated] = await db
+        .update(shippingRates)
+        .set({
+          method: data.method,
+          name: data.name,
+          rate_type: data.rate_type,
+          amount: data.amount.toString(),
+          tiers: data.rate_type === "flat" ? null : data.tiers,
+          free_over:
+            data.free_over !== null && data.free_over !== undefined
+              ? data.free_over.toString()
+              : null,
+          is_active: data.is_active,
+          sort_order: data.sort_order,
+          updated_at: new Date(),
+        })
+        .where(eq(shippingRates.id, id))
+        .returning();
+
+      sendSuccessResponse(
+        res,
+        { rate: formatShippingRateForAdmin(updated) },
+        "Shipping rate updated successfully"
+      );
+    } else if (req.method === "DELETE") {
+      await db.delete(shippingRates).where(eq(shippingRates.id, id));
+
+      sendSuccessResponse(
+        res,
+        { id, name: rate.name },
+        "Shipping rate deleted successfully"
+      );
+    } else {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+  } catch (error) {
+    console.error("Error managing shipping rate:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to manage shipping rate",
+    });
+  }
+}
+
+export default withAdminRequest(handler, "manage_shipping_rate");
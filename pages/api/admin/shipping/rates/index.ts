@@ -0,0 +1,82 @@
+import { db } from "@/lib/db";
+import { shippingRates, shippingZones } from "@/lib/db/schema";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { formatShippingRateForAdmin } from "@/lib/shipping";
+import { shippingRateSchema } from "@/lib/validations";
+import { eq } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Admin shipping rates API
+ * POST /api/admin/shipping/rates - Add a shipping method to a zone
+ * Rates are listed with their zone by GET /api/admin/shipping/zones.
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const validationResult = shippingRateSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation failed",
+        details: validationResult.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      });
+    }
+
+    const data = validationResult.data;
+
+    const zone = await db
+      .select({ id: shippingZones.id })
+      .from(shippingZones)
+      .where(eq(shippingZones.id, data.zone_id))
+      .limit(1);
+
+    if (zone.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: "Shipping zone not found",
+      });
+    }
+
+    const [created] = await db
+      .insert(shippingRates)
+      .values({
+        zone_id: data.zone_id,
+        method: data.method,
+        name: data.name,
+        rate_type: data.rate_type,
+        amount: data.amount.toString(),
+        tiers: data.rate_type === "flat" ? null : data.tiers,
+        free_over:
+          data.free_over !== null && data.free_over !== undefined
+            ? data.free_over.toString()
+            : null,
+        is_active: data.is_active,
+        sort_order: data.sort_order,
+      })
+      .returning();
+
+    sendSuccessResponse(
+      res,
+      { rate: formatShippingRateForAdmin(created) },
+      "Shipping rate created successfully",
+      201
+    );
+  } catch (error) {
+    console.error("Error creating shipping rate:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to create shipping rate",
+    });
+  }
+}
+
+export default withAdminRequest(handler, "manage_shipping_rates");
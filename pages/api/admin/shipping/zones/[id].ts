@@ -0,0 +1,110 @@
+import { db } from "@/lib/db";
+import { shippingZoneLocations, shippingZones } from "@/lib/db/schema";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { findZoneLocationConflicts } from "@/lib/shipping";
+import { shippingZoneSchema } from "@/lib/validations";
+import { eq } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Admin single shipping zone API
+ * PUT /api/admin/shipping/zones/[id] - Rename or change the zone's locations
+ * DELETE /api/admin/shipping/zones/[id] - Delete the zone and its rates
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Shipping zone ID is required" });
+  }
+
+  try {
+    const existing = await db
+      .select()
+      .from(shippingZones)
+      .where(eq(shippingZones.id, id))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: "Shipping zone not found",
+      });
+    }
+
+    const zone = existing[0];
+
+    if (req.method === "PUT") {
+      const validationResult = shippingZoneSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: validationResult.error.issues.map((err) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        });
+      }
+
+      const data = validationResult.data;
+
+      const conflicts = await findZoneLocationConflicts(db, data.locations, id);
+      if (conflicts.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: `Already covered by another zone: ${conflicts.join(", ")}`,
+        });
+      }
+
+      // Locations are replaced as a whole, like product options
+      const updated = await db.transaction(async (tx) => {
+        const [updatedZone] = await tx
+          .update(shippingZones)
+          .set({ name: data.name, updated_at: new Date() })
+          .where(eq(shippingZones.id, id))
+          .returning();
+
+        await tx
+          .delete(shippingZoneLocations)
+          .where(eq(shippingZoneLocations.zone_id, id));
+        await tx.insert(shippingZoneLocations).values(
+          data.locations.map((location) => ({
+            zone_id: id,
+            country: location.country,
+            region: location.region || null,
+          }))
+        );
+
+        return updatedZone;
+      });
+
+      sendSuccessResponse(
+        res,
+        { zone: { ...updated, locations: data.locations } },
+        "Shipping zone updated successfully"
+      );
+    } else if (req.method === "DELETE") {
+      // Locations and rates are removed by cascade
+      await db.delete(shippingZones).where(eq(shippingZones.id, id));
+
+      sendSuccessResponse(
+        res,
+        { id, name: zone.name },
+        "Shipping zone deleted successfully"
+      );
+    } else {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+  } catch (error) {
+    console.error("Error managing shipping zone:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to manage shipping zone",
+    });
+  }
+}
+
+export default withAdminRequest(handler, "manage_shipping_zone");
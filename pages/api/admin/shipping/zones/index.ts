@@ -0,0 +1,91 @@
+import { db } from "@/lib/db";
+import { shippingZoneLocations, shippingZones } from "@/lib/db/schema";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { findZoneLocationConflicts, listShippingZones } from "@/lib/shipping";
+import { shippingZoneSchema } from "@/lib/validations";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Admin shipping zones API
+ * GET /api/admin/shipping/zones - List zones with their locations and rates
+ * POST /api/admin/shipping/zones - Create a zone
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === "GET") {
+    try {
+      const zones = await listShippingZones(db);
+
+      sendSuccessResponse(
+        res,
+        { zones },
+        "Shipping zones retrieved successfully"
+      );
+    } catch (error) {
+      console.error("Error fetching shipping zones:", error);
+      return res.status(500).json({
+        success: false,
+        error: "Failed to fetch shipping zones",
+      });
+    }
+  } else if (req.method === "POST") {
+    try {
+      const validationResult = shippingZoneSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: validationResult.error.issues.map((err) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        });
+      }
+
+      const data = validationResult.data;
+
+      const conflicts = await findZoneLocationConflicts(db, data.locations);
+      if (conflicts.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: `Already covered by another zone: ${conflicts.join(", ")}`,
+        });
+      }
+
+      const zone = await db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(shippingZones)
+          .values({ name: data.name })
+          .returning();
+
+        await tx.insert(shippingZoneLocations).values(
+          data.locations.map((location) => ({
+            zone_id: created.id,
+            country: location.country,
+            region: location.region || null,
+          }))
+        );
+
+        return created;
+      });
+
+      sendSuccessResponse(
+        res,
+        { zone: { ...zone, locations: data.locations, rates: [] } },
+        "Shipping zone created successfully",
+        201
+      );
+    } catch (error) {
+      console.error("Error creating shipping zone:", error);
+      return res.status(500).json({
+        success: false,
+        error: "Failed to create shipping zone",
+      });
+    }
+  } else {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+}
+
+export default withAdminRequest(handler, "manage_shipping_zones");
@@ -0,0 +1,119 @@
+import { db } from "@/lib/db";
+import { taxRates } from "@/lib/db/schema";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { taxRateSchema } from "@/lib/validations";
+import { and, eq, isNull, ne } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Admin single tax rate API
+ * PUT /api/admin/tax-rates/[id] - Edit a rate
+ * DELETE /api/admin/tax-rates/[id] - Remove a rate
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Tax rate ID is required" });
+  }
+
+  try {
+    const existing = await db
+      .select()
+      .from(taxRates)
+      .where(eq(taxRates.id, id))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: "Tax rate not found",
+      });
+    }
+
+    const taxRate = existing[0];
+
+    if (req.method === "PUT") {
+      const validationResult = taxRateSchema.safeParse({
+        name: taxRate.name,
+        country: taxRate.country,
+        region: taxRate.region,
+        tax_category: taxRate.tax_category,
+        rate: parseFloat(taxRate.rate),
+        ...req.body,
+      });
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: validationResult.error.issues.map((err) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        });
+      }
+
+      const data = validationResult.data;
+      const region = data.region || null;
+
+      const duplicate = await db
+        .select({ id: taxRates.id })
+        .from(taxRates)
+        .where(
+          and(
+            eq(taxRates.country, data.country),
+            region ? eq(taxRates.region, region) : isNull(taxRates.region),
+            eq(taxRates.tax_category, data.tax_category),
+            ne(taxRates.id, id)
+          )
+        )
+        .limit(1);
+
+      if (duplicate.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: "A rate for this location and tax category already exists",
+        });
+      }
+
+      const [updated] = await db
+        .update(taxRates)
+        .set({
+          name: data.name,
+          country: data.country,
+          region,
+          tax_category: data.tax_category,
+          rate: data.rate.toString(),
+          updated_at: new Date(),
+        })
+        .where(eq(taxRates.id, id))
+        .returning();
+
+      sendSuccessResponse(
+        res,
+        { taxRate: { ...updated, rate: parseFloat(updated.rate) } },
+        "Tax rate updated successfully"
+      );
+    } else if (req.method === "DELETE") {
+      await db.delete(taxRates).where(eq(taxRates.id, id));
+
+      sendSuccessResponse(
+        res,
+        { id, name: taxRate.name },
+        "Tax rate deleted successfully"
+      );
+    } else {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+  } catch (error) {
+    console.error("Error managing tax rate:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to manage tax rate",
+    });
+  }
+}
+
+export default withAdminRequest(handler, "manage_tax_rate");
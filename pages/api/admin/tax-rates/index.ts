@@ -0,0 +1,111 @@
+import { db } from "@/lib/db";
+import { taxRates } from "@/lib/db/schema";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAdminRequest } from "@/lib/security/request-wrapper";
+import { taxRateSchema } from "@/lib/validations";
+import { and, asc, eq, isNull } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Admin tax rate tables API
+ * GET /api/admin/tax-rates - List rates by country, region and category
+ * POST /api/admin/tax-rates - Create a rate
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === "GET") {
+    try {
+      const rates = await db
+        .select()
+        .from(taxRates)
+        .orderBy(
+          asc(taxRates.country),
+          asc(taxRates.region),
+          asc(taxRates.tax_category)
+        );
+
+      sendSuccessResponse(
+        res,
+        {
+          taxRates: rates.map((rate) => ({
+            ...rate,
+            rate: parseFloat(rate.rate),
+          })),
+        },
+        "Tax rates retrieved successfully"
+      );
+    } catch (error) {
+      console.error("Error fetching tax rates:", error);
+      return res.status(500).json({
+        success: false,
+        error: "Failed to fetch tax rates",
+      });
+    }
+  } else if (req.method === "POST") {
+    try {
+      const validationResult = taxRateSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: validationResult.error.issues.map((err) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        });
+      }
+
+      const data = validationResult.data;
+      const region = data.region || null;
+
+      // Only one rate per location and category, otherwise checkout would
+      // have to pick between them
+      const existing = await db
+        .select({ id: taxRates.id })
+        .from(taxRates)
+        .where(
+          and(
+            eq(taxRates.country, data.country),
+            region ? eq(taxRates.region, region) : isNull(taxRates.region),
+            eq(taxRates.tax_category, data.tax_category)
+          )
+        )
+        .limit(1);
+
+      if (existing.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: "A rate for this location and tax category already exists",
+        });
+      }
+
+      const [created] = await db
+        .insert(taxRates)
+        .values({
+          name: data.name,
+          country: data.country,
+          region,
+          tax_category: data.tax_category,
+          rate: data.rate.toString(),
+        })
+        .returning();
+
+      sendSuccessResponse(
+        res,
+        { taxRate: { ...created, rate: parseFloat(created.rate) } },
+        "Tax rate created successfully",
+        201
+      );
+    } catch (error) {
+      console.error("Error creating tax rate:", error);
+      return res.status(500).json({
+        success: false,
+        error: "Failed to create tax rate",
+      });
+    }
+  } else {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+}
+
+export default withAdminRequest(handler, "manage_tax_rates");
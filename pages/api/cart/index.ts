@@ -1,3 +1,4 @@
+import { STORE_CURRENCY } from "@/lib/currency-utils";
 import { db } from "@/lib/db";
 import {
   cartItems,
@@ -25,7 +26,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
           .insert(carts)
           .values({
             id: uuidv4(),
-            currency: "USD",
+            currency: STORE_CURRENCY,
           })
           .returning();
 
@@ -108,6 +109,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
               value_price_adjustment: productOptionValues.price_adjustment,
               value_is_default: productOptionValues.is_default,
               value_is_sold_out: productOptionValues.is_sold_out,
+              value_quantity_available: productOptionValues.quantity_available,
               value_sort_order: productOptionValues.sort_order,
             })
             .from(productOptions)
@@ -141,6 +143,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
                   ),
                   is_default: row.value_is_default,
                   is_sold_out: row.value_is_sold_out,
+                  quantity_available: row.value_quantity_available,
                   sort_order: row.value_sort_order,
                 });
               }
@@ -177,7 +180,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
               slug: product[0].slug,
               image: imageUrl,
               base_price: parseFloat(product[0].base_price || "0"),
-              currency: "USD", // Default currency
+              currency: STORE_CURRENCY,
               options: options, // Include options for client-side descriptive title generation
             },
           };
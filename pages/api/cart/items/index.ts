@@ -1,6 +1,8 @@
 // import { withCSRFProtection } from "@/lib/csrf-middleware";
+import { STORE_CURRENCY } from "@/lib/currency-utils";
 import { db } from "@/lib/db";
-import { cartItems, carts, prices, products } from "@/lib/db/schema";
+import { cartItems, carts, products } from "@/lib/db/schema";
+import { getLineUnitPrices } from "@/lib/pricing";
 import { withPublicRequest } from "@/lib/security/request-wrapper";
 import { eq } from "drizzle-orm";
 import { NextApiRequest, NextApiResponse } from "next";
@@ -31,7 +33,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
           .insert(carts)
           .values({
             id: uuidv4(),
-            currency: "USD",
+            currency: STORE_CURRENCY,
           })
           .returning();
 
@@ -57,25 +59,15 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         return res.status(404).json({ error: "Product not found" });
       }
 
-      // Get price for this product
-      const productPrice = await db
-        .select()
-        .from(prices)
-        .where(eq(prices.product_id, product_id))
-        .limit(1);
+      // Today's price, including any running sale and option adjustments
+      const [finalPrice] = await getLineUnitPrices(db, [
+        { product_id, selected_options },
+      ]);
 
-      if (productPrice.length === 0) {
+      if (finalPrice === null) {
         return res.status(404).json({ error: "No price found for product" });
       }
 
-      let finalPrice = parseFloat(productPrice[0].amount);
-
-      // TODO: Add option price adjustments when needed
-      if (selected_options && Object.keys(selected_options).length > 0) {
-        // For now, just use base price
-        // Option price adjustments can be added later
-      }
-
       // Create descriptive title with selected options
       let descriptiveTitle = product[0].title;
       if (selected_options && Object.keys(selected_options).length > 0) {
@@ -0,0 +1,73 @@
+import { mergeCustomerCart } from "@/lib/carts";
+import { db } from "@/lib/db";
+import { AuthenticatedUser } from "@/lib/security/auth-validation";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAuthenticatedRequest } from "@/lib/security/request-wrapper";
+import { cartMergeSchema } from "@/lib/validations";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Sign-in cart merge
+ * POST /api/cart/merge - Combines the cart built in this browser with the
+ * customer's saved cart, trims quantities to available stock, and returns the
+ * merged items with a summary of what changed.
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  user: AuthenticatedUser
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const validationResult = cartMergeSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation failed",
+        details: validationResult.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      });
+    }
+
+    const merged = await db.transaction((tx) =>
+      mergeCustomerCart(
+        tx,
+        user.id,
+        validationResult.data.items,
+        req.cookies.cart_id
+      )
+    );
+
+    if (merged.cartId !== req.cookies.cart_id) {
+      res.setHeader(
+        "Set-Cookie",
+        `cart_id=${merged.cartId}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${
+          60 * 60 * 24 * 30
+        }`
+      ); // 30 days
+    }
+
+    sendSuccessResponse(
+      res,
+      {
+        items: merged.items.map((item) => ({
+          ...item,
+          selected_options: item.selected_options || {},
+        })),
+        changes: merged.changes,
+      },
+      "Cart merged successfully"
+    );
+  } catch (error) {
+    console.error("Cart merge error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export default withAuthenticatedRequest(handler, "merge_cart");
@@ -0,0 +1,48 @@
+import { refreshCartLines } from "@/lib/carts";
+import { getRequestCurrency } from "@/lib/currency";
+import { db } from "@/lib/db";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withPublicRequest } from "@/lib/security/request-wrapper";
+import { cartRefreshSchema } from "@/lib/validations";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Cart refresh API
+ * POST /api/cart/refresh - Reprices every cart line at today's prices and
+ *   flags lines that are out of stock, short on stock, or whose product or
+ *   option value has been removed. Returns the lines in the order sent, plus
+ *   display data for each product.
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const validationResult = cartRefreshSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation failed",
+        details: validationResult.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      });
+    }
+
+    const refreshed = await refreshCartLines(
+      db,
+      validationResult.data.items,
+      await getRequestCurrency(db, req)
+    );
+
+    sendSuccessResponse(res, refreshed, "Cart refreshed successfully");
+  } catch (error) {
+    console.error("Cart refresh error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export default withPublicRequest(handler, "refresh_cart");
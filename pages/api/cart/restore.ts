@@ -0,0 +1,55 @@
+import { restoreAbandonedCart } from "@/lib/abandoned-carts";
+import { db } from "@/lib/db";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withPublicRequest } from "@/lib/security/request-wrapper";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Abandoned cart restore link
+ * POST /api/cart/restore - Exchanges the token from a reminder email for the
+ * cart's items and makes that cart the browser's server-side cart again.
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const { token } = req.body;
+
+    if (typeof token !== "string" || !/^[a-f0-9]{64}$/.test(token)) {
+      return res.status(400).json({ error: "Invalid restore link" });
+    }
+
+    const restored = await restoreAbandonedCart(db, token);
+
+    if (!restored || restored.items.length === 0) {
+      return res
+        .status(404)
+        .json({ error: "This cart is no longer available" });
+    }
+
+    res.setHeader(
+      "Set-Cookie",
+      `cart_id=${restored.cartId}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${
+        60 * 60 * 24 * 30
+      }`
+    ); // 30 days
+
+    sendSuccessResponse(
+      res,
+      {
+        items: restored.items.map((item) => ({
+          ...item,
+          selected_options: item.selected_options || {},
+        })),
+      },
+      "Cart restored successfully"
+    );
+  } catch (error) {
+    console.error("Cart restore error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export default withPublicRequest(handler, "restore_abandoned_cart");
@@ -1,17 +1,14 @@
+import { replaceCartItems, resolveCustomerCartId } from "@/lib/carts";
 import { db } from "@/lib/db";
-import {
-  cartItems,
-  carts,
-  prices,
-  productOptionValues,
-  products,
-} from "@/lib/db/schema";
+import { AuthenticatedUser } from "@/lib/security/auth-validation";
 import { withAuthenticatedRequest } from "@/lib/security/request-wrapper";
-import { eq } from "drizzle-orm";
 import { NextApiRequest, NextApiResponse } from "next";
-import { v4 as uuidv4 } from "uuid";
 
-async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  user: AuthenticatedUser
+) {
   try {
     if (req.method === "POST") {
       const { items } = req.body;
@@ -20,21 +17,15 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         return res.status(400).json({ error: "Items array is required" });
       }
 
-      // Get or create cart
-      let cartId = req.cookies.cart_id;
-
-      if (!cartId) {
-        // Create new cart
-        const newCart = await db
-          .insert(carts)
-          .values({
-            id: uuidv4(),
-            currency: "USD",
-          })
-          .returning();
-
-        cartId = newCart[0].id;
+      // Get or create cart - a cart belonging to another customer (shared
+      // browser) is left alone and the signed-in customer's own cart is used
+      const cartId = await resolveCustomerCartId(
+        db,
+        user.id,
+        req.cookies.cart_id
+      );
 
+      if (cartId !== req.cookies.cart_id) {
         // Set cart ID cookie
         res.setHeader(
           "Set-Cookie",
@@ -44,79 +35,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         ); // 30 days
       }
 
-      // Clear existing cart items
-      await db.delete(cartItems).where(eq(cartItems.cart_id, cartId));
-
-      // Add new items
-      for (const item of items) {
-        const { product_id, quantity, selected_options } = item;
-
-        // Verify product exists and get base price
-        const product = await db
-          .select()
-          .from(products)
-          .where(eq(products.id, product_id))
-          .limit(1);
-
-        if (product.length === 0) {
-          console.warn(`Product ${product_id} not found, skipping`);
-          continue;
-        }
-
-        // Get base price for this product
-        const productPrice = await db
-          .select()
-          .from(prices)
-          .where(eq(prices.product_id, product_id))
-          .limit(1);
-
-        if (productPrice.length === 0) {
-          console.warn(`No price found for product ${product_id}, skipping`);
-          continue;
-        }
-
-        let finalPrice = parseFloat(productPrice[0].amount);
-
-        // Calculate price adjustments based on selected options
-        if (selected_options && Object.keys(selected_options).length > 0) {
-          for (const [optionName, optionValueName] of Object.entries(
-            selected_options
-          )) {
-            // Ensure optionValueName is a string
-            if (typeof optionValueName !== "string") continue;
-
-            // Get the price adjustment for this option value
-            const optionValue = await db
-              .select()
-              .from(productOptionValues)
-              .innerJoin(
-                products,
-                eq(productOptionValues.option_id, products.id)
-              )
-              .where(
-                eq(productOptionValues.name, optionValueName) &&
-                  eq(products.id, product_id)
-              )
-              .limit(1);
-
-            if (optionValue.length > 0) {
-              finalPrice += parseFloat(
-                optionValue[0].product_option_values.price_adjustment
-              );
-            }
-          }
-        }
-
-        // Add item to cart (descriptive_title will be generated client-side)
-        await db.insert(cartItems).values({
-          id: uuidv4(),
-          cart_id: cartId,
-          product_id: product_id,
-          quantity: quantity,
-          unit_amount: finalPrice.toString(),
-          selected_options: selected_options,
-        });
-      }
+      await replaceCartItems(db, cartId, user.id, items);
 
       return res.status(200).json({ message: "Cart synced successfully" });
     } else {
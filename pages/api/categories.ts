@@ -1,30 +1,35 @@
+import { getCategoryList } from "@/lib/categories";
+import { buildCategoryTree } from "@/lib/category-utils";
 import { db } from "@/lib/db";
-import { categories } from "@/lib/db/schema";
 import { withPublicRequest } from "@/lib/security/request-wrapper";
-import { asc } from "drizzle-orm";
 import { NextApiRequest, NextApiResponse } from "next";
 
+/**
+ * Storefront categories
+ * GET /api/categories - Flat list in tree order, plus the nested tree
+ */
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== "GET") {
     return res.status(405).json({ error: "Method not allowed" });
   }
 
   try {
-    const categoriesList = await db
-      .select({
-        id: categories.id,
-        name: categories.name,
-        slug: categories.slug,
-        description: categories.description,
-        thumbnail: categories.thumbnail,
-        parent_id: categories.parent_id,
-        created_at: categories.created_at,
-        updated_at: categories.updated_at,
-      })
-      .from(categories)
-      .orderBy(asc(categories.name));
+    const categoriesList = (await getCategoryList(db)).map((category) => ({
+      id: category.id,
+      name: category.name,
+      slug: category.slug,
+      description: category.description,
+      thumbnail: category.thumbnail,
+      parent_id: category.parent_id,
+      sort_order: category.sort_order,
+      created_at: category.created_at,
+      updated_at: category.updated_at,
+    }));
 
-    return res.status(200).json({ data: categoriesList });
+    return res.status(200).json({
+      data: categoriesList,
+      tree: buildCategoryTree(categoriesList),
+    });
   } catch (error) {
     console.error("Categories API error:", error);
     return res.status(500).json({ error: "Internal server error" });
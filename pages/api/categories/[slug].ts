@@ -0,0 +1,55 @@
+import { getCategoryList } from "@/lib/categories";
+import { getCategoryPath } from "@/lib/category-utils";
+import { db } from "@/lib/db";
+import { withPublicRequest } from "@/lib/security/request-wrapper";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Category landing page data
+ * GET /api/categories/[slug] - The category, its path from the top level
+ * and its direct subcategories
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { slug } = req.query;
+
+  if (!slug || typeof slug !== "string") {
+    return res.status(400).json({ error: "Category slug is required" });
+  }
+
+  try {
+    const list = await getCategoryList(db);
+    const category = list.find((candidate) => candidate.slug === slug);
+
+    if (!category) {
+      return res.status(404).json({ error: "Category not found" });
+    }
+
+    const summarize = (row: (typeof list)[number]) => ({
+      id: row.id,
+      name: row.name,
+      slug: row.slug,
+      description: row.description,
+      thumbnail: row.thumbnail,
+    });
+
+    return res.status(200).json({
+      data: {
+        ...summarize(category),
+        parent_id: category.parent_id,
+        path: getCategoryPath(list, category.id),
+        children: list
+          .filter((child) => child.parent_id === category.id)
+          .map(summarize),
+      },
+    });
+  } catch (error) {
+    console.error("Category API error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export default withPublicRequest(handler, "get_category");
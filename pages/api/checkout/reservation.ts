@@ -0,0 +1,153 @@
+import { db } from "@/lib/db";
+import { products } from "@/lib/db/schema";
+import {
+  releaseExpiredReservations,
+  releaseReservation,
+  reserveInventory,
+} from "@/lib/inventory-reservations";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withRequest } from "@/lib/security/request-wrapper";
+import { inventoryReservationSchema } from "@/lib/validations";
+import { inArray } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+import { validate as isUuid, v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+
+const CHECKOUT_SESSION_COOKIE = "checkout_session";
+
+/**
+ * The browser's checkout session, from its cookie. A new session is started
+ * when there is none; it only needs to outlive a reservation.
+ */
+function getCheckoutSessionId(
+  req: NextApiRequest,
+  res: NextApiResponse
+): string {
+  const existing = req.cookies[CHECKOUT_SESSION_COOKIE];
+  if (existing && isUuid(existing)) {
+    return existing;
+  }
+
+  const sessionId = uuidv4();
+  // Sent over HTTPS only in production; local development runs on plain HTTP
+  const secure = process.env.NODE_ENV === "production" ? "; Secure" : "";
+  res.setHeader(
+    "Set-Cookie",
+    `${CHECKOUT_SESSION_COOKIE}=${sessionId}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${
+      60 * 60 * 24
+    }${secure}`
+  ); // 1 day
+  return sessionId;
+}
+
+/**
+ * Checkout stock reservation API
+ * POST /api/checkout/reservation - Hold the cart's stock while the customer
+ *   checks out, replacing the checkout session's earlier hold. Lines are
+ *   capped like cart quantities so one shopper cannot hold all the stock.
+ * DELETE /api/checkout/reservation - Release the session's hold when
+ *   checkout is abandoned
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method === "POST") {
+      const validationResult = inventoryReservationSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: validationResult.error.issues.map((err) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        });
+      }
+
+      const { items } = validationResult.data;
+
+      // Return lapsed holds to stock before checking availability
+      await releaseExpiredReservations(db);
+
+      const result = await reserveInventory(
+        db,
+        items.map((item) => ({
+          productId: item.product_id,
+          quantity: item.quantity,
+        })),
+        { sessionId: getCheckoutSessionId(req, res) }
+      );
+
+      if (!result.success) {
+        const titles = await db
+          .select({ id: products.id, title: products.title })
+          .from(products)
+          .where(
+            inArray(
+              products.id,
+              result.outOfStockItems.map((item) => item.product_id)
+            )
+          );
+        const titleMap = new Map(titles.map((p) => [p.id, p.title]));
+
+        return res.status(409).json({
+          success: false,
+          error: "Some items are no longer in stock",
+          outOfStockItems: result.outOfStockItems.map((item) => ({
+            product_title: titleMap.get(item.product_id) || "Unknown Product",
+            requested: item.requested,
+            available: item.available,
+          })),
+        });
+      }
+
+      sendSuccessResponse(
+        res,
+        {
+          reservationId: result.reservationId,
+          expiresAt: result.expiresAt,
+        },
+        "Inventory reserved successfully"
+      );
+    } else if (req.method === "DELETE") {
+      const reservationId = z
+        .string()
+        .uuid()
+        .safeParse(req.body?.reservationId);
+
+      if (!reservationId.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Reservation ID is required",
+        });
+      }
+
+      const released = await releaseReservation(
+        db,
+        reservationId.data,
+        getCheckoutSessionId(req, res)
+      );
+
+      sendSuccessResponse(
+        res,
+        { reservationId: reservationId.data, released },
+        "Reservation released successfully"
+      );
+    } else {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+  } catch (error) {
+    console.error("Error managing inventory reservation:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to manage inventory reservation",
+    });
+  }
+}
+
+export default withRequest(handler, {
+  endpointType: "checkout",
+  action: "checkout_reservation",
+  requireAuth: false,
+  rateLimitType: "API",
+});
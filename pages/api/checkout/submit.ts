@@ -1,27 +1,72 @@
-import { db, pool } from "@/lib/db";
+import { markCartRecovered } from "@/lib/abandoned-carts";
+import { getRequestCurrency } from "@/lib/currency";
+import { toStoreAmount } from "@/lib/currency-utils";
+import { db } from "@/lib/db";
 import {
   addresses,
   carts,
-  inventory,
   orderItems,
-  prices,
-  productOptionValues,
+  orders,
   products,
 } from "@/lib/db/schema";
 import {
   sendAdminOrderNotification,
   sendOrderConfirmationEmail,
 } from "@/lib/email";
+import {
+  issueGiftCard,
+  redeemGiftCard,
+  resolveGiftCard,
+  sendOrderGiftCardEmails,
+} from "@/lib/gift-cards";
+import {
+  getAvailableQuantities,
+  releaseReservation,
+} from "@/lib/inventory-reservations";
+import {
+  getPaymentProvider,
+  PaymentIntent,
+  toMinorUnits,
+} from "@/lib/payments";
+import {
+  deductOptionInventory,
+  getOptionValueDemand,
+} from "@/lib/option-inventory";
+import { formatVariantTitle } from "@/lib/option-inventory-utils";
+import {
+  applyOrderStatusHooks,
+  recordOrderStatusHistory,
+  transitionOrderStatus,
+} from "@/lib/order-status";
+import { getLineUnitPrices } from "@/lib/pricing";
 import { trackProductPurchase } from "@/lib/product-analytics";
+import { AppliedPromotion } from "@/lib/promotion-utils";
+import { redeemPromotion, resolvePromotion } from "@/lib/promotions";
 import { sendSuccessResponse } from "@/lib/security/error-handling";
 import { withCheckoutRequest } from "@/lib/security/request-wrapper";
+import { getShipmentWeight, resolveShippingQuote } from "@/lib/shipping";
+import { getShippingMethodLabel } from "@/lib/shipping-rate-utils";
+import { calculateTax } from "@/lib/tax";
+import { TaxCategory } from "@/lib/tax-utils";
 import { eq, inArray, sql } from "drizzle-orm";
 import { NextApiRequest, NextApiResponse } from "next";
-import { v4 as uuidv4 } from "uuid";
+import { validate as isUuid, v4 as uuidv4 } from "uuid";
+
+// Capture is the payment provider's doing, not the customer's
+const SYSTEM_ACTOR = { id: null, type: "system" as const };
 
 /**
  * Checkout submission endpoint
- * Creates an order from cart items - supports both authenticated and guest users
+ * Creates an order from cart items - supports both authenticated and guest users.
+ * Payment is authorized before the order is written and captured after it
+ * commits; the order only moves to "paid" once the capture succeeds.
+ * A gift card code pays for as much of the total as its balance covers and
+ * only the rest is charged; an order paid in full by gift card needs no
+ * payment method.
+ * Stock held by the customer's checkout reservation is converted into the
+ * order's deduction in the same transaction. Gift card products use no
+ * stock; each unit issues a new gift card, activated and emailed once the
+ * order is paid.
  */
 async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
   if (req.method !== "POST") {
@@ -35,11 +80,20 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
     useSameAddress,
     orderNotes,
     guestEmail,
+    paymentMethodId,
+    promotionCode,
+    giftCardCode,
+    shippingRateId,
+    reservationId,
   } = req.body;
 
   // Determine if this is a guest checkout
   // If guestEmail is provided, treat as guest checkout regardless of auth status
   const isGuestCheckout = !!guestEmail;
+  const ownReservationId =
+    typeof reservationId === "string" && isUuid(reservationId)
+      ? reservationId
+      : undefined;
 
   if (!user && !isGuestCheckout) {
     return res.status(401).json({
@@ -59,6 +113,14 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
     });
   }
 
+  if (!shippingRateId || typeof shippingRateId !== "string") {
+    return res.status(400).json({
+      success: false,
+      error: "Shipping method is required",
+      shippingError: true,
+    });
+  }
+
   // Validate cart items and calculate pricing server-side (optimized with batch queries)
   const validatedItems: Array<{
     product_id: string;
@@ -67,9 +129,17 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
     unit_amount: number;
     selected_options: any;
     descriptive_title: string;
+    tax_category: TaxCategory;
+    weight_grams: number | null;
+    is_gift_card: boolean;
   }> = [];
   let subtotal = 0;
   let createdOrderId: string | null = null;
+  const paymentProvider = getPaymentProvider();
+  let authorizedIntent: PaymentIntent | null = null;
+  let orderCommitted = false;
+  let promotionUnavailable = false;
+  let giftCardUnavailable = false;
 
   try {
     // Extract unique product IDs for batch query
@@ -79,80 +149,32 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
       ),
     ];
 
-    // Batch fetch all products with prices
+    // Batch fetch all products
     const productsData = await db
       .select({
         id: products.id,
         title: products.title,
-        base_price: products.base_price,
-        price: prices.amount,
-        currency: prices.currency,
+        tax_category: products.tax_category,
+        weight_grams: products.weight_grams,
+        is_gift_card: products.is_gift_card,
       })
       .from(products)
-      .innerJoin(prices, eq(prices.product_id, products.id))
       .where(inArray(products.id, productIds));
 
     // Create a map for quick lookup
     const productsMap = new Map(productsData.map((p) => [p.id, p]));
 
-    // Collect all option values for batch query
-    const allOptionValues: Array<{
-      productId: string;
-      optionName: string;
-      optionValue: string;
-    }> = [];
-    cartItems.forEach(
-      (cartItem: { product_id: string; selected_options?: any }) => {
-        if (
-          cartItem.selected_options &&
-          Object.keys(cartItem.selected_options).length > 0
-        ) {
-          Object.entries(cartItem.selected_options).forEach(
-            ([optionName, optionValue]) => {
-              allOptionValues.push({
-                productId: cartItem.product_id,
-                optionName,
-                optionValue: optionValue as string,
-              });
-            }
-          );
-        }
-      }
-    );
-
-    // Batch fetch option values if any exist
-    let optionValuesMap = new Map<string, any>();
-    if (allOptionValues.length > 0) {
-      const optionValueNames = [
-        ...new Set(allOptionValues.map((ov) => ov.optionValue)),
-      ];
-      const optionValuesData = await db
-        .select({
-          price_adjustment: productOptionValues.price_adjustment,
-          name: productOptionValues.name,
-          product_id: products.id,
-        })
-        .from(productOptionValues)
-        .innerJoin(products, eq(productOptionValues.option_id, products.id))
-        .where(inArray(productOptionValues.name, optionValueNames));
-
-      optionValuesMap = new Map(
-        optionValuesData.map((ov) => [`${ov.product_id}-${ov.name}`, ov])
-      );
-    }
-
-    // First, validate inventory availability for all items
-    const inventoryData = await db
-      .select({
-        product_id: products.id,
-        quantity_available: inventory.quantity_available,
-      })
-      .from(products)
-      .innerJoin(inventory, eq(inventory.product_id, products.id))
-      .where(inArray(products.id, productIds));
-
-    const inventoryMap = new Map(
-      inventoryData.map((inv) => [inv.product_id, inv.quantity_available])
+    // Today's unit prices in the shopper's currency, including running sales
+    // and option adjustments. The order is charged and recorded in it.
+    const currencyRate = await getRequestCurrency(db, req);
+    const unitPrices = await getLineUnitPrices(db, cartItems, currencyRate);
+
+    // First, validate inventory availability for all items. Units reserved
+    // by other shoppers are unavailable; this checkout's own hold is not.
+    const inventoryMap = await getAvailableQuantities(
+      db,
+      productIds,
+      ownReservationId
     );
 
     // Check inventory for all items before processing
@@ -162,9 +184,11 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
       available: number;
     }> = [];
     for (const cartItem of cartItems) {
+      const product = productsMap.get(cartItem.product_id);
+      if (product?.is_gift_card) continue;
+
       const available = inventoryMap.get(cartItem.product_id) || 0;
       if (available < cartItem.quantity) {
-        const product = productsMap.get(cartItem.product_id);
         outOfStockItems.push({
           product_title: product?.title || "Unknown Product",
           requested: cartItem.quantity,
@@ -173,6 +197,36 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
       }
     }
 
+    // Crystal pieces run out one stone at a time, so the selected option
+    // values need enough stock of their own
+    const optionDemand = await getOptionValueDemand(
+      db,
+      cartItems.map(
+        (cartItem: {
+          product_id: string;
+          quantity: number;
+          selected_options?: Record<string, string>;
+        }) => ({
+          productId: cartItem.product_id,
+          quantity: cartItem.quantity,
+          selectedOptions: cartItem.selected_options,
+        })
+      )
+    );
+    for (const value of optionDemand) {
+      if (value.available < value.requested) {
+        outOfStockItems.push({
+          product_title: formatVariantTitle(
+            productsMap.get(value.productId)?.title || "Unknown Product",
+            value.optionName,
+            value.valueName
+          ),
+          requested: value.requested,
+          available: value.available,
+        });
+      }
+    }
+
     // If any items are out of stock, return error with details
     if (outOfStockItems.length > 0) {
       return res.status(400).json({
@@ -183,7 +237,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
     }
 
     // Process each cart item
-    for (const cartItem of cartItems) {
+    for (const [index, cartItem] of cartItems.entries()) {
       const product = productsMap.get(cartItem.product_id);
 
       if (!product) {
@@ -193,23 +247,12 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
         });
       }
 
-      // Start with base product price
-      let finalPrice = parseFloat(product.price);
-
-      // Add price adjustments for selected options
-      if (
-        cartItem.selected_options &&
-        Object.keys(cartItem.selected_options).length > 0
-      ) {
-        Object.entries(cartItem.selected_options).forEach(
-          ([optionName, optionValueName]) => {
-            const optionKey = `${cartItem.product_id}-${optionValueName}`;
-            const optionValue = optionValuesMap.get(optionKey);
-            if (optionValue) {
-              finalPrice += parseFloat(optionValue.price_adjustment);
-            }
-          }
-        );
+      const finalPrice = unitPrices[index];
+      if (finalPrice === null) {
+        return res.status(400).json({
+          success: false,
+          error: `${product.title} is not available for purchase`,
+        });
       }
 
       // Generate descriptive title
@@ -232,15 +275,118 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
         unit_amount: finalPrice,
         selected_options: cartItem.selected_options,
         descriptive_title: descriptiveTitle,
+        tax_category: product.tax_category,
+        weight_grams: product.weight_grams,
+        is_gift_card: product.is_gift_card,
       });
 
       subtotal += finalPrice * cartItem.quantity;
     }
 
+    // Gift cards are sold at face value: promotions, tax and shipping only
+    // apply to the other items
+    const merchandiseItems = validatedItems.filter(
+      (item) => !item.is_gift_card
+    );
+    const merchandiseSubtotal = merchandiseItems.reduce(
+      (sum, item) => sum + item.unit_amount * item.quantity,
+      0
+    );
+
+    // Apply promotion code before totals - it reduces the taxable amount
+    let appliedPromotion: AppliedPromotion | null = null;
+    let promotionId: string | null = null;
+    if (promotionCode) {
+      const promotionResult = await resolvePromotion(
+        db,
+        promotionCode,
+        merchandiseSubtotal,
+        currencyRate
+      );
+      if (!promotionResult.valid) {
+        return res.status(400).json({
+          success: false,
+          error: promotionResult.error,
+          promotionError: true,
+        });
+      }
+      appliedPromotion = promotionResult.promotion;
+      promotionId = promotionResult.promotionId;
+    }
+    const discount = appliedPromotion?.discount || 0;
+
+    // Price the chosen shipping method server-side
+    const shippingQuote = await resolveShippingQuote(
+      db,
+      shippingAddress || {},
+      {
+        subtotal: merchandiseSubtotal,
+        weightGrams: getShipmentWeight(
+          merchandiseItems.map((item) => ({
+            quantity: item.quantity,
+            weightGrams: item.weight_grams,
+          }))
+        ),
+      },
+      shippingRateId,
+      { freeShipping: appliedPromotion?.freeShipping, currencyRate }
+    );
+    if (!shippingQuote) {
+      return res.status(400).json({
+        success: false,
+        error: "The selected shipping method is not available for this address",
+        shippingError: true,
+      });
+    }
+
     // Calculate totals
-    const tax = subtotal * 0.08; // 8% tax
-    const shipping = subtotal > 100 ? 0 : 9.99; // Free shipping over $100
-    const total = subtotal + tax + shipping;
+    const discountedSubtotal = subtotal - discount;
+    const { tax } = await calculateTax(
+      db,
+      shippingAddress || {},
+      merchandiseItems.map((item) => ({
+        amount: item.unit_amount * item.quantity,
+        taxCategory: item.tax_category,
+      })),
+      discount
+    );
+    const shipping = shippingQuote.amount;
+    const total = discountedSubtotal + tax + shipping;
+
+    // A gift card pays for what its balance covers; the rest goes on the card
+    let giftCard: { id: string; storeAmount: number } | null = null;
+    let giftCardAmount = 0;
+    if (giftCardCode) {
+      const giftCardResult = await resolveGiftCard(
+        db,
+        giftCardCode,
+        total,
+        currencyRate
+      );
+      if (!giftCardResult.valid) {
+        return res.status(400).json({
+          success: false,
+          error: giftCardResult.error,
+          giftCardError: true,
+        });
+      }
+      giftCard = {
+        id: giftCardResult.giftCardId,
+        storeAmount: giftCardResult.storeAmount,
+      };
+      giftCardAmount = giftCardResult.giftCard.amount;
+    }
+    const amountDue = Math.round((total - giftCardAmount) * 100) / 100;
+
+    if (
+      amountDue > 0 &&
+      (!paymentMethodId || typeof paymentMethodId !== "string")
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "Payment method is required",
+      });
+    }
 
     // Generate order number (same format for both guest and logged-in users)
     const orderNumber = `ORD-${Date.now().toString().slice(-8)}-${Math.random()
@@ -248,40 +394,88 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
       .substr(2, 4)
       .toUpperCase()}`;
 
+    // Authorize payment before touching inventory - nothing is charged yet
+    if (amountDue > 0) {
+      const paymentIntent = await paymentProvider.createIntent({
+        amount: toMinorUnits(amountDue, currencyRate.currency),
+        currency: currencyRate.currency,
+        captureMethod: "manual",
+        metadata: { order_number: orderNumber },
+      });
+      authorizedIntent = await paymentProvider.confirmIntent(
+        paymentIntent.id,
+        paymentMethodId
+      );
+
+      if (
+        authorizedIntent.status === "requires_payment_method" ||
+        authorizedIntent.status === "canceled"
+      ) {
+        return res.status(402).json({
+          success: false,
+          error: authorizedIntent.failureMessage || "Payment was declined",
+        });
+      }
+    }
+    const paymentIntentId = authorizedIntent?.id ?? null;
+
     // Create order and process inventory atomically
     await db.transaction(async (tx) => {
-      // Create order using raw SQL to avoid Drizzle schema issues
-      const orderId = uuidv4();
-
-      // Use raw postgres client to bypass Drizzle parameter ordering bug
-      const client = await pool.connect();
-      try {
-        await client.query(
-          `INSERT INTO orders (
-              id, customer_id, guest_email, order_number, is_guest_order,
-              status, currency, subtotal, tax, shipping, total
-            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
-          [
-            orderId,
-            isGuestCheckout ? null : user.id,
-            isGuestCheckout ? guestEmail : null,
-            orderNumber,
-            isGuestCheckout,
-            "received",
-            "USD",
-            subtotal.toString(),
-            tax.toString(),
-            shipping.toString(),
-            total.toString(),
-          ]
-        );
-      } finally {
-        client.release();
+      // Count the promotion use first so an exhausted code stops the order
+      if (promotionId && !(await redeemPromotion(tx, promotionId))) {
+        promotionUnavailable = true;
+        throw new Error("Promotion code is no longer available");
       }
 
+      // Written with the transaction so a failure below leaves no order
+      const orderId = uuidv4();
+      await tx.insert(orders).values({
+        id: orderId,
+        customer_id: isGuestCheckout ? null : user.id,
+        guest_email: isGuestCheckout ? guestEmail : null,
+        order_number: orderNumber,
+        is_guest_order: isGuestCheckout,
+        status: "received",
+        currency: currencyRate.currency,
+        subtotal: subtotal.toString(),
+        tax: tax.toString(),
+        shipping: shipping.toString(),
+        total: total.toString(),
+        payment_intent_id: paymentIntentId,
+        discount: discount.toString(),
+        promotion_id: promotionId,
+        promotion_code: appliedPromotion?.code || null,
+        shipping_method: shippingQuote.method,
+        exchange_rate: currencyRate.rate.toString(),
+        gift_card_amount: giftCardAmount.toString(),
+      });
+
       const newOrder = { id: orderId };
       createdOrderId = newOrder.id;
 
+      // Spend the gift card balance; another order may have used it since
+      if (
+        giftCard &&
+        !(await redeemGiftCard(tx, giftCard.id, giftCard.storeAmount, orderId))
+      ) {
+        giftCardUnavailable = true;
+        throw new Error("Gift card balance is no longer available");
+      }
+
+      // Start the order's status timeline
+      await recordOrderStatusHistory(tx, {
+        orderId: newOrder.id,
+        from: null,
+        to: "received",
+        actor: { id: isGuestCheckout ? null : user.id, type: "customer" },
+        source: "checkout",
+      });
+
+      // Credit any recent abandoned cart reminder with the recovery
+      if (!isGuestCheckout) {
+        await markCartRecovered(tx, user.id, newOrder.id);
+      }
+
       // Create order items with server-calculated prices
       for (const item of validatedItems) {
         await tx.insert(orderItems).values({
@@ -294,29 +488,38 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
           descriptive_title: item.descriptive_title,
         });
 
-        // Track product purchase analytics (async, non-blocking)
-        const totalPrice = item.unit_amount * item.quantity;
+        // Track product purchase analytics (async, non-blocking), in the
+        // store currency so products sold in several currencies add up
+        const unitPrice = toStoreAmount(item.unit_amount, currencyRate);
         trackProductPurchase({
           productId: item.product_id,
           orderId: newOrder.id,
           customerId: isGuestCheckout ? null : user.id,
           quantity: item.quantity,
-          unitPrice: item.unit_amount,
-          totalPrice: totalPrice,
+          unitPrice,
+          totalPrice: unitPrice * item.quantity,
         }).catch((err) => {
           console.error("Failed to track product purchase:", err);
           // Don't fail the order if analytics tracking fails
         });
       }
 
+      // Hand this checkout's held units back so the deduction below can
+      // claim them; other shoppers' reservations stay off limits
+      if (ownReservationId) {
+        await releaseReservation(tx, ownReservationId);
+      }
+
       // Check inventory availability and deduct atomically
       for (const item of validatedItems) {
+        if (item.is_gift_card) continue;
+
         const result = await tx.execute(sql`
         UPDATE inventory 
         SET quantity_available = quantity_available - ${item.quantity},
             updated_at = NOW()
         WHERE product_id = ${item.product_id} 
-        AND quantity_available >= ${item.quantity}
+        AND quantity_available - quantity_reserved >= ${item.quantity}
         RETURNING quantity_available
       `);
 
@@ -327,6 +530,38 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
         }
       }
 
+      // Each gift card unit becomes its own card, valued in the store
+      // currency at the price paid. Cards stay inactive until the order is
+      // paid, so an unpaid order cannot be spent from.
+      for (const item of validatedItems) {
+        if (!item.is_gift_card) continue;
+
+        for (let unit = 0; unit < item.quantity; unit++) {
+          await issueGiftCard(tx, {
+            amount: toStoreAmount(item.unit_amount, currencyRate),
+            source: "purchase",
+            recipientEmail: isGuestCheckout ? guestEmail : user.email,
+            customerId: isGuestCheckout ? null : user.id,
+            orderId: newOrder.id,
+            isActive: false,
+          });
+        }
+      }
+
+      const optionShortfalls = await deductOptionInventory(
+        tx,
+        validatedItems.map((item) => ({
+          productId: item.product_id,
+          quantity: item.quantity,
+          selectedOptions: item.selected_options,
+        }))
+      );
+      if (optionShortfalls.length > 0) {
+        throw new Error(
+          `Insufficient inventory for option ${optionShortfalls[0].optionName}: ${optionShortfalls[0].valueName}`
+        );
+      }
+
       // Save shipping address
       await tx.insert(addresses).values({
         id: uuidv4(),
@@ -361,22 +596,53 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
         });
       }
 
-      // Clear user's cart if it exists (only for authenticated users)
+      // Clear user's saved carts (only for authenticated users) so the
+      // purchased items are not merged back in on their next sign-in. Cart
+      // items are removed with their cart.
       if (!isGuestCheckout) {
-        const existingCart = await tx
-          .select()
-          .from(carts)
-          .where(eq(carts.customer_id, user.id))
-          .limit(1);
-
-        if (existingCart.length > 0) {
-          await tx
-            .delete(cartItems)
-            .where(eq(cartItems.cart_id, existingCart[0].id));
-          await tx.delete(carts).where(eq(carts.id, existingCart[0].id));
-        }
+        await tx.delete(carts).where(eq(carts.customer_id, user.id));
       }
     });
+    orderCommitted = true;
+
+    // Capture the authorized payment now that the order exists
+    let orderStatus: "received" | "paid" = "received";
+    if (authorizedIntent?.status === "requires_capture") {
+      try {
+        authorizedIntent = await paymentProvider.captureIntent(
+          authorizedIntent.id
+        );
+      } catch (captureError) {
+        // Leave the order as "received" - the webhook or an admin can retry
+        console.error("Payment capture failed:", captureError);
+      }
+    }
+
+    // Nothing to capture when the gift card covered the whole total
+    if (!authorizedIntent || authorizedIntent.status === "succeeded") {
+      try {
+        const paid = await db.transaction(async (tx) => {
+          const transition = await transitionOrderStatus(tx, {
+            orderId: createdOrderId!,
+            from: ["received"],
+            to: "paid",
+            actor: SYSTEM_ACTOR,
+            source: "checkout",
+          });
+          if (transition) {
+            await applyOrderStatusHooks(tx, transition);
+          }
+          return transition;
+        });
+        if (paid) {
+          orderStatus = "paid";
+        }
+      } catch (statusError) {
+        // The order exists and the customer has been charged, so this must
+        // not read as a failed checkout. The webhook or an admin marks it paid.
+        console.error("Failed to mark order as paid:", statusError);
+      }
+    }
 
     // Send confirmation emails asynchronously (non-blocking)
     if (createdOrderId) {
@@ -393,7 +659,12 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
         subtotal,
         tax,
         shipping,
+        shippingMethod: getShippingMethodLabel(shippingQuote.method),
+        discount,
+        promotionCode: appliedPromotion?.code,
         total,
+        giftCardAmount,
+        currency: currencyRate.currency,
         isGuestOrder: isGuestCheckout,
       };
 
@@ -401,6 +672,10 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
       Promise.all([
         sendOrderConfirmationEmail(emailData),
         sendAdminOrderNotification(emailData),
+        // Unpaid orders get their gift cards when the payment goes through
+        ...(orderStatus === "paid"
+          ? [sendOrderGiftCardEmails(db, createdOrderId)]
+          : []),
       ]).catch((emailError) => {
         console.error("Email sending failed:", emailError);
         // Log error but don't fail the order
@@ -414,8 +689,25 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
         orderId: createdOrderId!,
         orderNumber: orderNumber,
         total: total.toString(),
-        status: "received",
+        giftCardAmount: giftCardAmount.toString(),
+        amountCharged: amountDue.toString(),
+        currency: currencyRate.currency,
+        discount: discount.toString(),
+        promotionCode: appliedPromotion?.code || null,
+        shippingMethod: shippingQuote.method,
+        status: orderStatus,
         isGuestOrder: isGuestCheckout,
+        payment: authorizedIntent
+          ? {
+              provider: paymentProvider.name,
+              status: authorizedIntent.status,
+              requiresAction: authorizedIntent.status === "requires_action",
+              clientSecret:
+                authorizedIntent.status === "requires_action"
+                  ? authorizedIntent.clientSecret
+                  : undefined,
+            }
+          : null,
       },
       isGuestCheckout
         ? "Guest order created successfully"
@@ -424,6 +716,32 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
     );
   } catch (error) {
     console.error("Checkout error:", error);
+
+    // Release the authorization so the customer is not left with a hold
+    if (authorizedIntent && !orderCommitted) {
+      await paymentProvider
+        .cancelIntent(authorizedIntent.id)
+        .catch((cancelError) => {
+          console.error("Failed to cancel payment intent:", cancelError);
+        });
+    }
+
+    if (promotionUnavailable) {
+      return res.status(409).json({
+        success: false,
+        error: "Promotion code is no longer available",
+        promotionError: true,
+      });
+    }
+
+    if (giftCardUnavailable) {
+      return res.status(409).json({
+        success: false,
+        error: "Gift card balance is no longer available",
+        giftCardError: true,
+      });
+    }
+
     console.error(
       "Error stack:",
       error instanceof Error ? error.stack : "No stack trace"
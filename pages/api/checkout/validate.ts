@@ -1,8 +1,19 @@
+import { getRequestCurrency } from "@/lib/currency";
 import { db } from "@/lib/db";
-import { inventory, prices, products } from "@/lib/db/schema";
-import { withCheckoutRequest } from "@/lib/security/request-wrapper";
+import { products } from "@/lib/db/schema";
+import { AppliedGiftCard } from "@/lib/gift-card-utils";
+import { resolveGiftCard } from "@/lib/gift-cards";
+import { getAvailableQuantities } from "@/lib/inventory-reservations";
+import { getLineUnitPrices } from "@/lib/pricing";
+import { AppliedPromotion } from "@/lib/promotion-utils";
+import { resolvePromotion } from "@/lib/promotions";
+import { withRequest } from "@/lib/security/request-wrapper";
+import { getShipmentWeight, getShippingQuotes } from "@/lib/shipping";
+import { ShippingQuote } from "@/lib/shipping-rate-utils";
+import { calculateTax, TaxAddress, TaxableLine } from "@/lib/tax";
 import { eq } from "drizzle-orm";
 import { NextApiRequest, NextApiResponse } from "next";
+import { validate as isUuid } from "uuid";
 
 interface CartItem {
   product_id: string;
@@ -21,6 +32,13 @@ interface ValidationResult {
     error?: string;
   }>;
   total: number;
+  currency: string; // All amounts are in this currency
+  promotion?: AppliedPromotion;
+  promotionError?: string;
+  giftCard?: AppliedGiftCard; // amount is before shipping; the page adds its chosen rate
+  giftCardError?: string;
+  tax: number; // 0 until a shipping address is provided
+  shippingOptions: ShippingQuote[]; // Empty until a shipping address is provided
 }
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -29,19 +47,55 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   }
 
   try {
-    const { items }: { items: CartItem[] } = req.body;
+    const {
+      items,
+      promotionCode,
+      giftCardCode,
+      shippingAddress,
+      reservationId,
+    }: {
+      items: CartItem[];
+      promotionCode?: string;
+      giftCardCode?: string;
+      shippingAddress?: TaxAddress;
+      reservationId?: string;
+    } = req.body;
 
     if (!items || !Array.isArray(items)) {
       return res.status(400).json({ error: "Invalid cart items" });
     }
 
+    const currencyRate = await getRequestCurrency(db, req);
     const validationResult: ValidationResult = {
       valid: true,
       items: [],
       total: 0,
+      currency: currencyRate.currency,
+      tax: 0,
+      shippingOptions: [],
     };
-
-    for (const item of items) {
+    // Gift cards are sold at face value: promotions, tax and shipping only
+    // apply to the other items
+    let merchandiseSubtotal = 0;
+    const taxableLines: TaxableLine[] = [];
+    const shipmentLines: Array<{
+      quantity: number;
+      weightGrams: number | null;
+    }> = [];
+
+    // Units reserved by other checkouts are not available to this cart
+    const availableQuantities = await getAvailableQuantities(
+      db,
+      [...new Set(items.map((item) => item.product_id))],
+      typeof reservationId === "string" && isUuid(reservationId)
+        ? reservationId
+        : undefined
+    );
+
+    // Today's unit prices, including running sales and option adjustments
+    const unitPrices = await getLineUnitPrices(db, items, currencyRate);
+
+    for (const [index, item] of items.entries()) {
       const { product_id, quantity, selected_options } = item;
 
       // Verify product exists
@@ -63,14 +117,9 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         continue;
       }
 
-      // Get price
-      const productPrice = await db
-        .select()
-        .from(prices)
-        .where(eq(prices.product_id, product_id))
-        .limit(1);
+      const finalPrice = unitPrices[index];
 
-      if (productPrice.length === 0) {
+      if (finalPrice === null) {
         validationResult.valid = false;
         validationResult.items.push({
           product_id,
@@ -82,15 +131,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         continue;
       }
 
-      // Calculate final price (for now, just use base price)
-      let finalPrice = parseFloat(productPrice[0].amount);
-      let optionNames: string[] = [];
-
-      // TODO: Add option price adjustments when needed
-      if (selected_options && Object.keys(selected_options).length > 0) {
-        // For now, just collect option names for descriptive title
-        optionNames = Object.values(selected_options);
-      }
+      const optionNames = Object.values(selected_options || {});
 
       // Create descriptive title with selected options
       const baseTitle = product[0].title;
@@ -99,16 +140,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       const descriptiveTitle = `${baseTitle}${optionSuffix}`;
 
       // Check inventory
-      const inventoryRecord = await db
-        .select()
-        .from(inventory)
-        .where(eq(inventory.product_id, product_id))
-        .limit(1);
-
-      if (
-        inventoryRecord.length === 0 ||
-        inventoryRecord[0].quantity_available < quantity
-      ) {
+      if ((availableQuantities.get(product_id) || 0) < quantity) {
         validationResult.valid = false;
         validationResult.items.push({
           product_id,
@@ -131,6 +163,75 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       });
 
       validationResult.total += finalPrice * quantity;
+      if (product[0].is_gift_card) continue;
+
+      merchandiseSubtotal += finalPrice * quantity;
+      taxableLines.push({
+        amount: finalPrice * quantity,
+        taxCategory: product[0].tax_category,
+      });
+      shipmentLines.push({
+        quantity,
+        weightGrams: product[0].weight_grams,
+      });
+    }
+
+    // Apply the promotion code, if any, to the items that passed validation.
+    // An invalid code is reported but does not invalidate the cart.
+    if (promotionCode) {
+      const promotionResult = await resolvePromotion(
+        db,
+        promotionCode,
+        merchandiseSubtotal,
+        currencyRate
+      );
+      if (promotionResult.valid) {
+        validationResult.promotion = promotionResult.promotion;
+      } else {
+        validationResult.promotionError = promotionResult.error;
+      }
+    }
+
+    // Same tax and shipping calculations as checkout submission
+    if (shippingAddress) {
+      const taxResult = await calculateTax(
+        db,
+        shippingAddress,
+        taxableLines,
+        validationResult.promotion?.discount || 0
+      );
+      validationResult.tax = taxResult.tax;
+
+      validationResult.shippingOptions = await getShippingQuotes(
+        db,
+        shippingAddress,
+        {
+          subtotal: merchandiseSubtotal,
+          weightGrams: getShipmentWeight(shipmentLines),
+        },
+        {
+          freeShipping: validationResult.promotion?.freeShipping,
+          currencyRate,
+        }
+      );
+    }
+
+    // Like promotion codes, a bad gift card code is reported without
+    // invalidating the cart
+    if (giftCardCode) {
+      const giftCardResult = await resolveGiftCard(
+        db,
+        giftCardCode,
+        validationResult.total -
+          (validationResult.promotion?.discount || 0) +
+          validationResult.tax,
+        currencyRate
+      );
+      if (giftCardResult.valid) {
+        validationResult.giftCard = giftCardResult.giftCard;
+      } else {
+        validationResult.giftCardError = giftCardResult.error;
+      }
     }
 
     return res.status(200).json(validationResult);
@@ -140,4 +241,11 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-export default withCheckoutRequest(handler, "checkout_validate");
+// Uses the general API limit so validating a cart or trying a promotion code
+// does not count against the much smaller order submission limit
+export default withRequest(handler, {
+  endpointType: "checkout",
+  action: "checkout_validate",
+  requireAuth: false,
+  rateLimitType: "API",
+});
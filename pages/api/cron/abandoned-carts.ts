@@ -0,0 +1,30 @@
+import { sendAbandonedCartReminders } from "@/lib/abandoned-carts";
+import { db } from "@/lib/db";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withCronRequest } from "@/lib/security/request-wrapper";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Scheduled job: abandoned cart reminders
+ * GET /api/cron/abandoned-carts - Emails signed-in customers whose carts have
+ * been idle past ABANDONED_CART_THRESHOLD_HOURS. Scheduled in vercel.json.
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const result = await sendAbandonedCartReminders(db);
+
+    sendSuccessResponse(res, result, "Abandoned cart reminders sent");
+  } catch (error) {
+    console.error("Error sending abandoned cart reminders:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to send abandoned cart reminders",
+    });
+  }
+}
+
+export default withCronRequest(handler, "send_abandoned_cart_reminders");
@@ -0,0 +1,34 @@
+import { db } from "@/lib/db";
+import { releaseExpiredReservations } from "@/lib/inventory-reservations";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withCronRequest } from "@/lib/security/request-wrapper";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Scheduled job: release expired checkout reservations
+ * GET /api/cron/release-reservations - Returns held stock from abandoned
+ * checkouts to sale. Scheduled in vercel.json.
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const released = await releaseExpiredReservations(db);
+
+    sendSuccessResponse(
+      res,
+      { released },
+      "Expired reservations released successfully"
+    );
+  } catch (error) {
+    console.error("Error releasing expired reservations:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to release expired reservations",
+    });
+  }
+}
+
+export default withCronRequest(handler, "release_expired_reservations");
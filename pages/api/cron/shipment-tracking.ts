@@ -0,0 +1,31 @@
+import { db } from "@/lib/db";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withCronRequest } from "@/lib/security/request-wrapper";
+import { pollShipmentTracking } from "@/lib/shipment-tracking";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Scheduled job: shipment tracking
+ * GET /api/cron/shipment-tracking - Fetches carrier tracking for packages
+ * still on their way and completes orders once every package was delivered.
+ * Carriers are configured with CARRIER_ADAPTERS. Scheduled in vercel.json.
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const result = await pollShipmentTracking(db);
+
+    sendSuccessResponse(res, result, "Shipment tracking updated");
+  } catch (error) {
+    console.error("Error polling shipment tracking:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to poll shipment tracking",
+    });
+  }
+}
+
+export default withCronRequest(handler, "poll_shipment_tracking");
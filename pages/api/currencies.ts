@@ -0,0 +1,31 @@
+import { getAvailableCurrencies, getRequestCurrency } from "@/lib/currency";
+import { db } from "@/lib/db";
+import { withPublicRequest } from "@/lib/security/request-wrapper";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Currencies API
+ * GET /api/currencies - Currencies the store can be browsed in, and the one
+ *   prices are currently shown in for this visitor
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const [currencies, currencyRate] = await Promise.all([
+      getAvailableCurrencies(db),
+      getRequestCurrency(db, req),
+    ]);
+
+    return res.status(200).json({
+      data: { currencies, current: currencyRate.currency },
+    });
+  } catch (error) {
+    console.error("Currencies API error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export default withPublicRequest(handler, "get_currencies");
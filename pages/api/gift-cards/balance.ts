@@ -0,0 +1,56 @@
+import { STORE_CURRENCY } from "@/lib/currency-utils";
+import { db } from "@/lib/db";
+import { getGiftCardBalance } from "@/lib/gift-cards";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withRequest } from "@/lib/security/request-wrapper";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Gift card balance lookup
+ * POST /api/gift-cards/balance - Balance of a gift card or store credit code.
+ * The code is sent in the body so it stays out of URLs and access logs.
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { code } = req.body;
+
+  if (!code || typeof code !== "string") {
+    return res.status(400).json({
+      success: false,
+      error: "Gift card code is required",
+    });
+  }
+
+  try {
+    const giftCard = await getGiftCardBalance(db, code);
+
+    if (!giftCard) {
+      return res.status(404).json({
+        success: false,
+        error: "Gift card not found",
+      });
+    }
+
+    sendSuccessResponse(
+      res,
+      { giftCard: { ...giftCard, currency: STORE_CURRENCY } },
+      "Gift card balance retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Gift card balance error:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to look up gift card",
+    });
+  }
+}
+
+export default withRequest(handler, {
+  endpointType: "public",
+  action: "gift_card_balance",
+  requireAuth: false,
+  rateLimitType: "API",
+});
@@ -0,0 +1,40 @@
+import { STORE_CURRENCY } from "@/lib/currency-utils";
+import { db } from "@/lib/db";
+import { getCustomerGiftCards } from "@/lib/gift-cards";
+import { AuthenticatedUser } from "@/lib/security/auth-validation";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withAuthenticatedRequest } from "@/lib/security/request-wrapper";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Customer gift cards API
+ * GET /api/gift-cards - Gift cards bought by and store credit issued to the
+ *   signed-in customer, with their balances in the store currency
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  user: AuthenticatedUser
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const giftCards = await getCustomerGiftCards(db, user.id);
+
+    sendSuccessResponse(
+      res,
+      { giftCards, currency: STORE_CURRENCY },
+      "Gift cards retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Error fetching gift cards:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to fetch gift cards",
+    });
+  }
+}
+
+export default withAuthenticatedRequest(handler, "get_gift_cards");
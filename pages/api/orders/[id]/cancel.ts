@@ -0,0 +1,175 @@
+import { db } from "@/lib/db";
+import { orders } from "@/lib/db/schema";
+import { sendOrderCancelledEmail } from "@/lib/email";
+import { findCustomerOrder } from "@/lib/order-access";
+import {
+  applyOrderStatusHooks,
+  OrderStatusActor,
+  transitionOrderStatus,
+} from "@/lib/order-status";
+import { getPaymentProvider } from "@/lib/payments";
+import { getOrderRefundSummary, issueRefund } from "@/lib/refunds";
+import { isOrderCancellable } from "@/lib/return-utils";
+import { AuthenticatedUser } from "@/lib/security/auth-validation";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withRequest } from "@/lib/security/request-wrapper";
+import {
+  BackInStockTarget,
+  notifyBackInStock,
+} from "@/lib/stock-notifications";
+import { eq } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Customer order cancellation
+ * POST /api/orders/[id]/cancel - Cancel an order that has not shipped yet.
+ * Signed-in customers can cancel their own orders; guests send the email the
+ * order was placed with. An unpaid order's payment is voided; a paid order is
+ * refunded in full. Either way its items go back in stock.
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  user?: AuthenticatedUser
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { id } = req.query;
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Order ID is required" });
+  }
+
+  try {
+    const order = await findCustomerOrder(db, id, {
+      user,
+      email: req.body?.email,
+    });
+
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    if (!isOrderCancellable(order.status)) {
+      return res.status(400).json({
+        error:
+          order.status === "shipped" || order.status === "completed"
+            ? "This order has already shipped. Request a return instead."
+            : `Cannot cancel a ${order.status} order`,
+      });
+    }
+
+    const actor: OrderStatusActor = { id: user?.id ?? null, type: "customer" };
+    const orderNumber =
+      order.order_number || `#${order.id.slice(-8).toUpperCase()}`;
+    let refundAmount = 0;
+    let currency: string | undefined;
+    let backInStock: BackInStockTarget[] = [];
+
+    const summary =
+      order.status === "paid" ? await getOrderRefundSummary(db, id) : null;
+
+    if (summary && summary.refundable > 0) {
+      const outcome = await issueRefund(db, {
+        orderId: id,
+        amount: summary.refundable,
+        items: null,
+        reason: "requested_by_customer",
+        note: "Cancelled by customer",
+        createdBy: user?.id ?? null,
+        actor,
+        source: "customer",
+        closeAs: "cancelled",
+      });
+
+      if (!outcome.success) {
+        return res.status(outcome.status).json({ error: outcome.error });
+      }
+
+      refundAmount = summary.refundable;
+      currency = outcome.currency;
+      backInStock = outcome.backInStock;
+    } else {
+      if (order.status === "received") {
+        // Void the authorization so the customer is never charged
+        const [payment] = await db
+          .select({ payment_intent_id: orders.payment_intent_id })
+          .from(orders)
+          .where(eq(orders.id, id))
+          .limit(1);
+
+        if (payment?.payment_intent_id) {
+          try {
+            await getPaymentProvider().cancelIntent(payment.payment_intent_id);
+          } catch (providerError) {
+            console.error("Payment cancellation failed:", providerError);
+            return res.status(409).json({
+              error:
+                "Your payment is being processed. Please try again in a few minutes.",
+            });
+          }
+        }
+      }
+
+      const outcome = await db.transaction(async (tx) => {
+        const transition = await transitionOrderStatus(tx, {
+          orderId: id,
+          from: [order.status],
+          to: "cancelled",
+          actor,
+          source: "customer",
+          note: "Cancelled by customer",
+        });
+        const backInStock = transition
+          ? await applyOrderStatusHooks(tx, transition)
+          : [];
+        return { transition, backInStock };
+      });
+
+      if (!outcome.transition) {
+        return res
+          .status(409)
+          .json({ error: "This order changed status. Please reload it." });
+      }
+
+      backInStock = outcome.backInStock;
+    }
+
+    await notifyBackInStock(db, backInStock);
+
+    if (order.email) {
+      try {
+        await sendOrderCancelledEmail({
+          email: order.email,
+          customerName: order.customer_name,
+          orderNumber,
+          refundAmount,
+          currency,
+        });
+      } catch (emailError) {
+        console.error("Error sending order cancelled email:", emailError);
+        // The order is cancelled either way
+      }
+    }
+
+    sendSuccessResponse(
+      res,
+      { status: "cancelled", refundAmount, currency: currency ?? null },
+      "Order cancelled successfully"
+    );
+  } catch (error) {
+    console.error("Error cancelling order:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    });
+  }
+}
+
+export default withRequest(handler, {
+  endpointType: "api",
+  action: "cancel_order",
+  requireAuth: false,
+  rateLimitType: "API",
+});
@@ -0,0 +1,120 @@
+import { db } from "@/lib/db";
+import { findCustomerOrder } from "@/lib/order-access";
+import { uploadImageToR2 } from "@/lib/r2";
+import { isOrderReturnable } from "@/lib/return-utils";
+import { getReturnPhotoPrefix } from "@/lib/returns";
+import { AuthenticatedUser } from "@/lib/security/auth-validation";
+import { withRequest } from "@/lib/security/request-wrapper";
+import formidable from "formidable";
+import fs from "fs";
+import { NextApiRequest, NextApiResponse } from "next";
+import os from "os";
+import sharp from "sharp";
+
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+// Long edge of the stored photo; plenty to judge damage from
+const MAX_PHOTO_SIZE = 1600;
+
+/**
+ * Return photo upload
+ * POST /api/orders/[id]/return-photos - Upload one photo for a return
+ * request (multipart field `image`, plus `email` for guest orders). The
+ * photo is resized and stored in R2 under the order; send the returned URL
+ * with the return request.
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  user?: AuthenticatedUser
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { id } = req.query;
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Order ID is required" });
+  }
+
+  let file: formidable.File | undefined;
+
+  try {
+    // Use /tmp directory for Vercel serverless environment
+    const uploadDir = process.env.VERCEL ? "/tmp" : os.tmpdir();
+
+    const form = formidable({
+      maxFileSize: 10 * 1024 * 1024, // 10MB limit
+      maxFiles: 1,
+      filter: ({ mimetype }) => {
+        return mimetype?.startsWith("image/") || false;
+      },
+      keepExtensions: true,
+      uploadDir,
+    });
+
+    const [fields, files] = await form.parse(req);
+
+    file = Array.isArray(files.image) ? files.image[0] : files.image;
+    const email = Array.isArray(fields.email) ? fields.email[0] : fields.email;
+
+    if (!file) {
+      return res.status(400).json({ error: "No image file provided" });
+    }
+
+    const order = await findCustomerOrder(db, id, { user, email });
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    if (!isOrderReturnable(order.status, order.created_at)) {
+      return res
+        .status(400)
+        .json({ error: "This order can no longer be returned" });
+    }
+
+    // Re-encoding also strips location and camera metadata from the photo
+    const photoBuffer = await sharp(fs.readFileSync(file.filepath))
+      .rotate()
+      .resize(MAX_PHOTO_SIZE, MAX_PHOTO_SIZE, {
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+
+    const filename = (file.originalFilename || "photo")
+      .replace(/\.[^.]*$/, "")
+      .replace(/[^a-zA-Z0-9-]/g, "_");
+    const result = await uploadImageToR2(
+      photoBuffer,
+      `${getReturnPhotoPrefix(order.id)}${Date.now()}-${filename}.jpg`,
+      "image/jpeg"
+    );
+
+    return res.status(200).json({ success: true, url: result.url });
+  } catch (error) {
+    console.error("Return photo upload error:", error);
+    return res.status(500).json({ error: "Failed to upload photo" });
+  } finally {
+    // Clean up temporary file if it exists
+    try {
+      if (file?.filepath && fs.existsSync(file.filepath)) {
+        fs.unlinkSync(file.filepath);
+      }
+    } catch (cleanupError) {
+      console.warn("Failed to cleanup temp file:", cleanupError);
+    }
+  }
+}
+
+export default withRequest(handler, {
+  endpointType: "api",
+  action: "upload_return_photo",
+  requireAuth: false,
+  rateLimitType: "API",
+});
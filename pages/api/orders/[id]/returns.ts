@@ -0,0 +1,134 @@
+import { db } from "@/lib/db";
+import {
+  sendAdminReturnNotification,
+  sendReturnRequestEmail,
+} from "@/lib/email";
+import { findCustomerOrder } from "@/lib/order-access";
+import { getReturnReasonLabel } from "@/lib/return-utils";
+import { createReturnRequest, getOrderItemTitles } from "@/lib/returns";
+import { AuthenticatedUser } from "@/lib/security/auth-validation";
+import { sendSuccessResponse } from "@/lib/security/error-handling";
+import { withRequest } from "@/lib/security/request-wrapper";
+import { returnRequestSchema } from "@/lib/validations";
+import { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Customer return requests
+ * POST /api/orders/[id]/returns - Ask to return items from a shipped order,
+ * with a reason and optional photos from /api/orders/[id]/return-photos.
+ * Guests send the email the order was placed with. The request waits in the
+ * admin returns queue; the customer and the shop are both emailed.
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  user?: AuthenticatedUser
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { id } = req.query;
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Order ID is required" });
+  }
+
+  const validation = returnRequestSchema.safeParse(req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: "Validation failed",
+      details: validation.error.issues.map((err) => ({
+        field: err.path.join("."),
+        message: err.message,
+      })),
+    });
+  }
+
+  const { email, items, reason, details, photos } = validation.data;
+
+  try {
+    const order = await findCustomerOrder(db, id, { user, email });
+    if (!order || !order.email) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const outcome = await db.transaction((tx) =>
+      createReturnRequest(tx, {
+        orderId: order.id,
+        customerId: order.customer_id,
+        email: order.email!,
+        items,
+        reason,
+        details: details || null,
+        photos,
+      })
+    );
+
+    if (!outcome.success) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
+
+    const { returnRequest } = outcome;
+    const orderNumber =
+      order.order_number || `#${order.id.slice(-8).toUpperCase()}`;
+    const lines = await getOrderItemTitles(db, [order.id]);
+    const emailItems = items.map((item) => ({
+      title: lines.get(item.order_item_id)?.title || "Item",
+      quantity: item.quantity,
+    }));
+
+    try {
+      await sendReturnRequestEmail({
+        email: order.email,
+        customerName: order.customer_name,
+        orderNumber,
+        reason: getReturnReasonLabel(reason),
+        items: emailItems,
+      });
+      await sendAdminReturnNotification({
+        orderNumber,
+        customerEmail: order.email,
+        customerName: order.customer_name,
+        reason: getReturnReasonLabel(reason),
+        details: returnRequest.details,
+        items: emailItems,
+        photoCount: photos.length,
+      });
+    } catch (emailError) {
+      console.error("Error sending return request emails:", emailError);
+      // The request is in the queue either way
+    }
+
+    sendSuccessResponse(
+      res,
+      {
+        returnRequest: {
+          id: returnRequest.id,
+          order_id: returnRequest.order_id,
+          status: returnRequest.status,
+          reason: returnRequest.reason,
+          items: returnRequest.items,
+          admin_note: returnRequest.admin_note,
+          created_at: returnRequest.created_at,
+          reviewed_at: returnRequest.reviewed_at,
+        },
+      },
+      "Return request submitted successfully",
+      201
+    );
+  } catch (error) {
+    console.error("Error creating return request:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    });
+  }
+}
+
+export default withRequest(handler, {
+  endpointType: "api",
+  action: "request_return",
+  requireAuth: false,
+  rateLimitType: "API",
+});
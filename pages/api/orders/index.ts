@@ -10,8 +10,11 @@ import {
   getProductImageUrlFromMedia,
   getThumbnailUrl,
 } from "@/lib/image-utils";
+import { getOrderStatusHistory } from "@/lib/order-status";
+import { getOrdersReturnRequests } from "@/lib/returns";
 import { ErrorType, sendErrorResponse } from "@/lib/security/error-handling";
 import { withAuthenticatedRequest } from "@/lib/security/request-wrapper";
+import { getOrdersShipments } from "@/lib/shipments";
 import { and, desc, eq, or } from "drizzle-orm";
 import { NextApiRequest, NextApiResponse } from "next";
 
@@ -41,6 +44,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
         tracking_number: orders.tracking_number,
         shipping_provider: orders.shipping_provider,
         shipped_at: orders.shipped_at,
+        delivered_at: orders.delivered_at,
       })
       .from(orders)
       .where(
@@ -54,6 +58,10 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
       )
       .orderBy(desc(orders.created_at));
 
+    const orderIds = userOrders.map((order) => order.id);
+    const returnRequests = await getOrdersReturnRequests(db, orderIds);
+    const shipments = await getOrdersShipments(db, orderIds);
+
     // Get order items for each order
     const ordersWithItems = await Promise.all(
       userOrders.map(async (order) => {
@@ -120,12 +128,21 @@ async function handler(req: NextApiRequest, res: NextApiResponse, user?: any) {
           )
           .limit(1);
 
+        const statusHistory = await getOrderStatusHistory(db, order.id);
+
         return {
           ...order,
           items: itemsWithMedia,
           orderNumber:
             order.order_number || `#${order.id.slice(-8).toUpperCase()}`,
           shippingAddress: shippingAddress[0] || null,
+          statusHistory,
+          returnRequests: returnRequests.filter(
+            (returnRequest) => returnRequest.order_id === order.id
+          ),
+          shipments: shipments.filter(
+            (shipment) => shipment.order_id === order.id
+          ),
         };
       })
     );
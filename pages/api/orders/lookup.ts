@@ -16,8 +16,10 @@ import {
   sendErrorResponse,
   sendSuccessResponse,
 } from "@/lib/security/error-handling";
+import { getOrdersReturnRequests } from "@/lib/returns";
 import { withRateLimit } from "@/lib/security/rate-limiting";
 import { withPublicRequest } from "@/lib/security/request-wrapper";
+import { getOrdersShipments } from "@/lib/shipments";
 import { and, eq, or } from "drizzle-orm";
 import { NextApiRequest, NextApiResponse } from "next";
 
@@ -77,6 +79,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         tracking_number: orders.tracking_number,
         shipping_provider: orders.shipping_provider,
         shipped_at: orders.shipped_at,
+        delivered_at: orders.delivered_at,
       })
       .from(orders)
       .leftJoin(customers, eq(orders.customer_id, customers.id))
@@ -170,6 +173,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         items: itemsWithMedia,
         orderNumber: order.order_number,
         shippingAddress: shippingAddress[0] || null,
+        returnRequests: await getOrdersReturnRequests(db, [order.id]),
+        shipments: await getOrdersShipments(db, [order.id]),
       },
       "Order found successfully",
       200
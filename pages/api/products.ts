@@ -1,21 +1,82 @@
+import {
+  getCatalogFacets,
+  getFacetConditions,
+  inStockSql,
+} from "@/lib/catalog-facets";
+import { CatalogFilters } from "@/lib/catalog-filter-utils";
+import { getCategoryList } from "@/lib/categories";
+import { getCategoryPath } from "@/lib/category-utils";
+import { getRequestCurrency } from "@/lib/currency";
+import { convertAmount, toStoreAmount } from "@/lib/currency-utils";
 import { db } from "@/lib/db";
 import {
-  categories,
   inventory,
-  prices,
   productMedia,
   productOptions,
   productOptionValues,
   products,
+  productSearchIndex,
   productTags,
   tags,
 } from "@/lib/db/schema";
 import { getProductImageUrlFromMedia } from "@/lib/image-utils";
+import {
+  activePriceSql,
+  getActivePrices,
+  getPriceHistogram,
+} from "@/lib/pricing";
+import {
+  getProductSearchHighlights,
+  matchesProductSearch,
+  productSearchRank,
+  recordZeroResultSearch,
+} from "@/lib/product-search";
 import { withPublicRequest } from "@/lib/security/request-wrapper";
 import { searchSchema } from "@/lib/validations";
-import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
 import { NextApiRequest, NextApiResponse } from "next";
 
+interface ListedOptionValue {
+  id: string;
+  name: string | null;
+  price_adjustment: string; // Request currency
+  is_default: boolean | null;
+  is_sold_out: boolean | null;
+  quantity_available: number | null;
+  sort_order: number | null;
+}
+
+interface ListedOption {
+  id: string;
+  name: string;
+  display_name: string;
+  sort_order: number;
+  values: ListedOptionValue[];
+}
+
+// A product as listed, priced in the request currency
+interface ListedProduct
+  extends Pick<
+    typeof products.$inferSelect,
+    | "id"
+    | "slug"
+    | "title"
+    | "description"
+    | "image"
+    | "base_price"
+    | "status"
+    | "created_at"
+    | "updated_at"
+  > {
+  price: string | null;
+  compare_at_price: string | null;
+  sale_ends_at: Date | null;
+  currency: string | null;
+  quantity_available: number | null;
+  options: ListedOption[];
+  tags: Array<{ id: string; name: string | null; color: string | null }>;
+}
+
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== "GET") {
     return res.status(405).json({ error: "Method not allowed" });
@@ -37,83 +98,138 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       limit = 20,
       sort = "relevance",
       in_stock_only = false,
-      category: categorySlug,
+      min_price: minPrice,
+      max_price: maxPrice,
+      category: categorySlugs,
+      tags: tagNames,
+      options,
+      price_bands: priceBands,
     } = validation.data;
 
     const offset = (page - 1) * limit;
 
     // Build conditions
-    const conditions = [eq(products.status, "active")];
+    const baseConditions = [eq(products.status, "active")];
 
-    if (query) {
-      const searchTerm = `%${query}%`;
-      conditions.push(
-        sql`(${products.title} ILIKE ${searchTerm} OR ${products.description} ILIKE ${searchTerm})`
-      );
+    const searchQuery = query?.trim();
+    if (searchQuery) {
+      baseConditions.push(matchesProductSearch(searchQuery));
     }
 
-    // Add category filtering if requested
-    if (categorySlug) {
-      // First, find the category by slug
-      const categoryResult = await db
-        .select({ id: categories.id })
-        .from(categories)
-        .where(eq(categories.slug, categorySlug))
-        .limit(1);
-
-      if (categoryResult.length === 0) {
-        return res.status(404).json({ error: "Category not found" });
-      }
-
-      const categoryId = categoryResult[0].id;
+    // Facet selections, kept apart so each facet can be counted without
+    // its own selection
+    const filters: CatalogFilters = {
+      tags: tagNames,
+      categories: categorySlugs,
+      options,
+      priceBands,
+    };
+    const {
+      conditions: facetConditions,
+      selectedCategories,
+      unknownCategories,
+    } = await getFacetConditions(db, filters);
 
-      // Add category filter using the junction table
-      conditions.push(sql`EXISTS (
-        SELECT 1 FROM product_categories 
-        WHERE product_categories.product_id = ${products.id} 
-        AND product_categories.category_id = ${categoryId}
-      )`);
+    if (unknownCategories.length > 0) {
+      return res.status(404).json({ error: "Category not found" });
     }
 
     // Add stock filtering if requested
     if (in_stock_only) {
-      conditions.push(sql`EXISTS (
-        SELECT 1 FROM inventory 
-        WHERE inventory.product_id = ${products.id} 
-        AND inventory.quantity_available > 0
-      )`);
+      facetConditions.set("availability", inStockSql());
+    }
+
+    // Prices shown to the visitor are converted, so are the bounds they pick
+    const currencyRate = await getRequestCurrency(db, req);
+    const activePrice = activePriceSql();
+
+    // Spread of prices before the price filter, so the slider keeps its range
+    const priceHistogram = await getPriceHistogram(
+      db,
+      and(...baseConditions, ...facetConditions.values()),
+      currencyRate
+    );
+
+    if (minPrice !== undefined) {
+      baseConditions.push(
+        sql`${activePrice} >= ${toStoreAmount(minPrice, currencyRate)}`
+      );
+    }
+    if (maxPrice !== undefined) {
+      baseConditions.push(
+        sql`${activePrice} <= ${toStoreAmount(maxPrice, currencyRate)}`
+      );
     }
 
+    const conditions = [...baseConditions, ...facetConditions.values()];
+    const facets = await getCatalogFacets(db, {
+      baseConditions,
+      facetConditions,
+      filters,
+      currencyRate,
+    });
+
     // Get total count for pagination
     const totalCountResult = await db
       .select({ count: sql<number>`count(*)` })
       .from(products)
+      .leftJoin(
+        productSearchIndex,
+        eq(productSearchIndex.product_id, products.id)
+      )
       .where(and(...conditions));
 
     const totalCount = totalCountResult[0]?.count || 0;
     const totalPages = Math.ceil(totalCount / limit);
 
-    // Build order by - simplified for now (price sorting disabled)
+    // Searches that found nothing in the whole catalog show admins what is
+    // missing; empty filtered listings say nothing about the catalog
+    if (
+      searchQuery &&
+      page === 1 &&
+      Number(totalCount) === 0 &&
+      facetConditions.size === 0 &&
+      minPrice === undefined &&
+      maxPrice === undefined
+    ) {
+      recordZeroResultSearch(db, searchQuery).catch((error) => {
+        console.error("Failed to record zero-result search:", error);
+      });
+    }
+
+    // Build order by
     let orderBy;
     switch (sort) {
       case "newest":
-        orderBy = desc(products.created_at);
+        orderBy = [desc(products.created_at)];
         break;
       case "price_asc":
+        // Unpriced products last either way
+        orderBy = [asc(activePrice), desc(products.created_at)];
+        break;
       case "price_desc":
-        // For now, fall back to newest for price sorting
-        orderBy = desc(products.created_at);
+        orderBy = [
+          sql`${activePrice} DESC NULLS LAST`,
+          desc(products.created_at),
+        ];
         break;
       default:
-        orderBy = desc(products.created_at);
+        // Best matches first; without a query everything is equally relevant
+        orderBy = searchQuery
+          ? [desc(productSearchRank(searchQuery)), desc(products.created_at)]
+          : [desc(products.created_at)];
     }
 
     // First, get the paginated product IDs
     const productIdsQuery = await db
       .select({ id: products.id })
       .from(products)
+      .leftJoin(
+        productSearchIndex,
+        eq(productSearchIndex.product_id, products.id)
+      )
       .where(and(...conditions))
-      .orderBy(orderBy)
+      .orderBy(...orderBy)
       .limit(limit)
       .offset(offset);
 
@@ -130,6 +246,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
           hasNext: page < totalPages,
           hasPrev: page > 1,
         },
+        price_histogram: priceHistogram,
+        facets,
       });
     }
 
@@ -145,16 +263,18 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         status: products.status,
         created_at: products.created_at,
         updated_at: products.updated_at,
-        price_amount: prices.amount,
-        compare_at_amount: prices.compare_at_amount,
-        currency: prices.currency,
-        quantity_available: inventory.quantity_available,
+        // Stock held by in-progress checkouts is not available to others
+        quantity_available: sql<
+          number | null
+        >`GREATEST(${inventory.quantity_available} - ${inventory.quantity_reserved}, 0)`,
       })
       .from(products)
-      .leftJoin(prices, eq(products.id, prices.product_id))
       .leftJoin(inventory, eq(products.id, inventory.product_id))
       .where(inArray(products.id, productIds));
 
+    // Current prices in the visitor's currency, including any running sale
+    const activePrices = await getActivePrices(db, productIds, currencyRate);
+
     // Fetch tags separately
     const tagResults = await db
       .select({
@@ -180,10 +300,11 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       .orderBy(productMedia.sort);
 
     // Group products by ID to avoid duplicates from joins
-    const productMap = new Map();
+    const productMap = new Map<string, ListedProduct>();
 
     results.forEach((row) => {
       if (!productMap.has(row.id)) {
+        const price = activePrices.get(row.id);
         productMap.set(row.id, {
           id: row.id,
           slug: row.slug,
@@ -194,9 +315,10 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
           status: row.status,
           created_at: row.created_at,
           updated_at: row.updated_at,
-          price: row.price_amount,
-          compare_at_price: row.compare_at_amount,
-          currency: row.currency,
+          price: price?.amount.toFixed(2) ?? null,
+          compare_at_price: price?.compare_at_amount?.toFixed(2) ?? null,
+          sale_ends_at: price?.sale_ends_at ?? null,
+          currency: price?.currency ?? null,
           quantity_available: row.quantity_available,
           options: [],
           tags: [],
@@ -208,7 +330,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     tagResults.forEach((row) => {
       const product = productMap.get(row.product_id);
       if (!product) return;
-      const exists = product.tags.some((t: any) => t.id === row.tag_id);
+      const exists = product.tags.some((t) => t.id === row.tag_id);
       if (!exists && row.tag_id) {
         product.tags.push({
           id: row.tag_id,
@@ -231,6 +353,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         value_price_adjustment: productOptionValues.price_adjustment,
         value_is_default: productOptionValues.is_default,
         value_is_sold_out: productOptionValues.is_sold_out,
+        value_quantity_available: productOptionValues.quantity_available,
         value_sort_order: productOptionValues.sort_order,
       })
       .from(productOptions)
@@ -241,7 +364,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       .where(inArray(productOptions.product_id, productIds));
 
     // Group options by product
-    const optionMap = new Map();
+    const optionMap = new Map<string, Map<string, ListedOption>>();
     optionResults.forEach((row) => {
       if (!row.product_id || !row.option_id) return;
 
@@ -249,7 +372,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         optionMap.set(row.product_id, new Map());
       }
 
-      const productOptions = optionMap.get(row.product_id);
+      const productOptions = optionMap.get(row.product_id)!;
       if (!productOptions.has(row.option_id)) {
         productOptions.set(row.option_id, {
           id: row.option_id,
@@ -261,12 +384,18 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       }
 
       if (row.value_id) {
-        productOptions.get(row.option_id).values.push({
+        productOptions.get(row.option_id)!.values.push({
           id: row.value_id,
           name: row.value_name,
-          price_adjustment: row.value_price_adjustment,
+          price_adjustment: String(
+            convertAmount(
+              parseFloat(row.value_price_adjustment || "0"),
+              currencyRate
+            )
+          ),
           is_default: row.value_is_default,
           is_sold_out: row.value_is_sold_out,
+          quantity_available: row.value_quantity_available,
           sort_order: row.value_sort_order,
         });
       }
@@ -277,7 +406,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       const product = productMap.get(productId);
       if (product) {
         product.options = Array.from(productOptions.values()).sort(
-          (a: any, b: any) => (a.sort_order || 0) - (b.sort_order || 0)
+          (a, b) => a.sort_order - b.sort_order
         );
       }
     });
@@ -308,30 +437,30 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
           return {
             ...product,
             image: imageUrl,
+            // Matching words marked in the title and description
+            highlights: searchQuery
+              ? getProductSearchHighlights(product, searchQuery)
+              : null,
           };
         }
         return product;
       })
       .filter(Boolean);
 
-    // Get category information if filtering by category
-    let categoryInfo = null;
-    if (categorySlug) {
-      const categoryResult = await db
-        .select({
-          id: categories.id,
-          name: categories.name,
-          slug: categories.slug,
-          description: categories.description,
-        })
-        .from(categories)
-        .where(eq(categories.slug, categorySlug))
-        .limit(1);
-
-      if (categoryResult.length > 0) {
-        categoryInfo = categoryResult[0];
-      }
-    }
+    // Category page header and breadcrumbs when browsing a single category
+    const categoryInfo =
+      selectedCategories.length === 1
+        ? {
+            id: selectedCategories[0].id,
+            name: selectedCategories[0].name,
+            slug: selectedCategories[0].slug,
+            description: selectedCategories[0].description,
+            path: getCategoryPath(
+              await getCategoryList(db),
+              selectedCategories[0].id
+            ),
+          }
+        : null;
 
     return res.status(200).json({
       data: productsList,
@@ -344,6 +473,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         hasPrev: page > 1,
       },
       category: categoryInfo,
+      price_histogram: priceHistogram,
+      facets,
     });
   } catch (error) {
     console.error("Products API error:", error);
@@ -1,7 +1,11 @@
+import { getCategoryList } from "@/lib/categories";
+import { getDeepestCategoryPath } from "@/lib/category-utils";
+import { getRequestCurrency } from "@/lib/currency";
+import { convertAmount } from "@/lib/currency-utils";
 import { db } from "@/lib/db";
 import {
   inventory,
-  prices,
+  productCategories,
   productMedia,
   productOptions,
   productOptionValues,
@@ -10,8 +14,9 @@ import {
   tags,
 } from "@/lib/db/schema";
 import { getProductImageUrlFromMedia } from "@/lib/image-utils";
+import { getActivePrices } from "@/lib/pricing";
 import { withPublicRequest } from "@/lib/security/request-wrapper";
-import { eq } from "drizzle-orm";
+import { eq, sql } from "drizzle-orm";
 import { NextApiRequest, NextApiResponse } from "next";
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -44,13 +49,12 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         status: products.status,
         created_at: products.created_at,
         updated_at: products.updated_at,
-        price_amount: prices.amount,
-        compare_at_amount: prices.compare_at_amount,
-        currency: prices.currency,
-        quantity_available: inventory.quantity_available,
+        // Stock held by in-progress checkouts is not available to others
+        quantity_available: sql<
+          number | null
+        >`GREATEST(${inventory.quantity_available} - ${inventory.quantity_reserved}, 0)`,
       })
       .from(products)
-      .leftJoin(prices, eq(products.id, prices.product_id))
       .leftJoin(inventory, eq(products.id, inventory.product_id))
       .where(isUUID ? eq(products.id, slug) : eq(products.slug, slug));
 
@@ -65,6 +69,9 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       .where(eq(productMedia.product_id, results[0]?.id || ""))
       .orderBy(productMedia.sort);
 
+    // Prices and option adjustments are shown in the visitor's currency
+    const currencyRate = await getRequestCurrency(db, req);
+
     // Fetch product options and values
     const optionsData = await db
       .select({
@@ -77,6 +84,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         value_price_adjustment: productOptionValues.price_adjustment,
         value_is_default: productOptionValues.is_default,
         value_is_sold_out: productOptionValues.is_sold_out,
+        value_quantity_available: productOptionValues.quantity_available,
         value_sort_order: productOptionValues.sort_order,
       })
       .from(productOptions)
@@ -94,6 +102,16 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       .leftJoin(tags, eq(productTags.tag_id, tags.id))
       .where(eq(productTags.product_id, results[0].id));
 
+    // Categories in tree order, so the breadcrumb path is stable
+    const [categoryList, categoryLinks] = await Promise.all([
+      getCategoryList(db),
+      db
+        .select({ category_id: productCategories.category_id })
+        .from(productCategories)
+        .where(eq(productCategories.product_id, results[0].id)),
+    ]);
+    const categoryIds = categoryLinks.map((link) => link.category_id);
+
     // Use the image helper for consistent image URL handling
 
     // Group options by option_id
@@ -114,9 +132,13 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
           optionsMap.get(row.option_id).values.push({
             id: row.value_id,
             name: row.value_name,
-            price_adjustment: parseFloat(row.value_price_adjustment || "0"),
+            price_adjustment: convertAmount(
+              parseFloat(row.value_price_adjustment || "0"),
+              currencyRate
+            ),
             is_default: row.value_is_default,
             is_sold_out: row.value_is_sold_out,
+            quantity_available: row.value_quantity_available,
             sort_order: row.value_sort_order,
           });
         }
@@ -127,6 +149,11 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       (a, b) => a.sort_order - b.sort_order
     );
 
+    // Current price in the visitor's currency, including any running sale
+    const price = (
+      await getActivePrices(db, [results[0].id], currencyRate)
+    ).get(results[0].id);
+
     // Build product object
     const product = {
       id: results[0].id,
@@ -142,9 +169,10 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         mediaResults
       ),
       base_price: results[0].base_price,
-      price: results[0].price_amount,
-      compare_at_price: results[0].compare_at_amount,
-      currency: results[0].currency,
+      price: price?.amount.toFixed(2) ?? null,
+      compare_at_price: price?.compare_at_amount?.toFixed(2) ?? null,
+      sale_ends_at: price?.sale_ends_at ?? null,
+      currency: price?.currency ?? null,
       quantity_available: results[0].quantity_available,
       status: results[0].status,
       created_at: results[0].created_at,
@@ -170,6 +198,14 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
           name: t.name as string,
           color: t.color as string,
         })),
+      categories: categoryList
+        .filter((category) => categoryIds.includes(category.id))
+        .map((category) => ({
+          id: category.id,
+          name: category.name,
+          slug: category.slug,
+        })),
+      breadcrumbs: getDeepestCategoryPath(categoryList, categoryIds),
     };
 
     return res.status(200).json({ data: product });
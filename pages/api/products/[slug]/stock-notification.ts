@@ -1,9 +1,43 @@
 import { db } from "@/lib/db";
-import { products, stockNotifications } from "@/lib/db/schema";
+import {
+  productOptions,
+  productOptionValues,
+  products,
+  stockNotifications,
+} from "@/lib/db/schema";
 import { withPublicRequest } from "@/lib/security/request-wrapper";
-import { and, eq } from "drizzle-orm";
+import { and, eq, isNull, SQL } from "drizzle-orm";
 import { NextApiRequest, NextApiResponse } from "next";
 
+/**
+ * Read the optional variant (option name + value name) a subscription is for.
+ * Returns null for whole-product subscriptions.
+ */
+function getVariant(source: Record<string, unknown>) {
+  const { optionName, optionValue } = source;
+  if (
+    typeof optionName === "string" &&
+    optionName &&
+    typeof optionValue === "string" &&
+    optionValue
+  ) {
+    return { optionName, optionValue };
+  }
+  return null;
+}
+
+// Matches that variant's subscriptions, or whole-product ones when null
+function variantCondition(
+  variant: { optionName: string; optionValue: string } | null
+): SQL | undefined {
+  return variant
+    ? and(
+        eq(stockNotifications.option_name, variant.optionName),
+        eq(stockNotifications.option_value, variant.optionValue)
+      )
+    : isNull(stockNotifications.option_name);
+}
+
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method === "GET") {
     // Check subscription status
@@ -31,15 +65,20 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       }
 
       const product = productResult[0];
+      const variant = getVariant(req.query);
 
-      // Check if notification exists for this email and product
+      // Check if notification exists for this email and product (or variant)
       const existingNotification = await db
         .select()
         .from(stockNotifications)
         .where(
           and(
             eq(stockNotifications.product_id, product.id),
-            eq(stockNotifications.email, (email as string).toLowerCase().trim())
+            eq(
+              stockNotifications.email,
+              (email as string).toLowerCase().trim()
+            ),
+            variantCondition(variant)
           )
         )
         .limit(1);
@@ -101,8 +140,32 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     }
 
     const product = productResult[0];
+    const variant = getVariant(req.body);
+
+    // Variant subscriptions must name one of the product's option values
+    if (variant) {
+      const optionValue = await db
+        .select({ id: productOptionValues.id })
+        .from(productOptionValues)
+        .innerJoin(
+          productOptions,
+          eq(productOptionValues.option_id, productOptions.id)
+        )
+        .where(
+          and(
+            eq(productOptions.product_id, product.id),
+            eq(productOptions.name, variant.optionName),
+            eq(productOptionValues.name, variant.optionValue)
+          )
+        )
+        .limit(1);
+
+      if (optionValue.length === 0) {
+        return res.status(404).json({ error: "Product option not found" });
+      }
+    }
 
-    // Check if notification already exists for this email and product
+    // Check if notification already exists for this email and product (or variant)
     const normalizedEmail = email.toLowerCase().trim();
 
     const existingNotification = await db
@@ -111,7 +174,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       .where(
         and(
           eq(stockNotifications.product_id, product.id),
-          eq(stockNotifications.email, normalizedEmail)
+          eq(stockNotifications.email, normalizedEmail),
+          variantCondition(variant)
         )
       )
       .limit(1);
@@ -143,6 +207,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     await db.insert(stockNotifications).values({
       product_id: product.id,
       email: normalizedEmail,
+      option_name: variant?.optionName || null,
+      option_value: variant?.optionValue || null,
       is_notified: false,
     });
 
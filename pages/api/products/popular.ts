@@ -1,13 +1,14 @@
+import { getRequestCurrency } from "@/lib/currency";
 import { db } from "@/lib/db";
 import {
   categories,
-  prices,
   productAnalytics,
   productCategories,
   products,
   productTags,
   tags,
 } from "@/lib/db/schema";
+import { getActivePrices } from "@/lib/pricing";
 import { withPublicRequest } from "@/lib/security/request-wrapper";
 import { desc, eq, sql } from "drizzle-orm";
 import { NextApiRequest, NextApiResponse } from "next";
@@ -52,7 +53,6 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         image: products.image,
         base_price: products.base_price,
         status: products.status,
-        price: prices.amount,
         total_sales: productAnalytics.total_sales,
         total_orders: productAnalytics.total_orders,
         total_revenue: productAnalytics.total_revenue,
@@ -61,13 +61,19 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       })
       .from(products)
       .innerJoin(productAnalytics, eq(productAnalytics.product_id, products.id))
-      .innerJoin(prices, eq(prices.product_id, products.id))
       .where(eq(products.status, "active"))
       .orderBy(desc(sortColumn))
       .limit(limitNum);
 
     // Get tags for all products
     const productIds = popularProducts.map((p) => p.id);
+
+    // Current prices in the visitor's currency, including any running sale
+    const activePrices = await getActivePrices(
+      db,
+      productIds,
+      await getRequestCurrency(db, req)
+    );
     if (productIds.length > 0) {
       const productTagsData = await db
         .select({
@@ -120,7 +126,9 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       const productsWithData = popularProducts.map((product) => ({
         ...product,
         base_price: product.base_price ? parseFloat(product.base_price) : null,
-        price: parseFloat(product.price),
+        price: activePrices.get(product.id)?.amount ?? null,
+        compare_at_price:
+          activePrices.get(product.id)?.compare_at_amount ?? null,
         total_revenue: parseFloat(product.total_revenue),
         tags: tagsByProduct[product.id] || [],
         categories: categoriesByProduct[product.id] || [],
@@ -1,13 +1,14 @@
+import { getRequestCurrency } from "@/lib/currency";
 import { db } from "@/lib/db";
 import {
   categories,
-  prices,
   productCategories,
   productPurchases,
   products,
   productTags,
   tags,
 } from "@/lib/db/schema";
+import { getActivePrices } from "@/lib/pricing";
 import { withPublicRequest } from "@/lib/security/request-wrapper";
 import { eq, gte, sql } from "drizzle-orm";
 import { NextApiRequest, NextApiResponse } from "next";
@@ -59,12 +60,17 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         image: products.image,
         base_price: products.base_price,
         status: products.status,
-        price: prices.amount,
       })
       .from(products)
-      .innerJoin(prices, eq(prices.product_id, products.id))
       .where(sql`${products.id} = ANY(${productIds})`);
 
+    // Current prices in the visitor's currency, including any running sale
+    const activePrices = await getActivePrices(
+      db,
+      productIds,
+      await getRequestCurrency(db, req)
+    );
+
     // Get tags
     const productTagsData = await db
       .select({
@@ -118,7 +124,9 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       return {
         ...product,
         base_price: product.base_price ? parseFloat(product.base_price) : null,
-        price: parseFloat(product.price),
+        price: activePrices.get(product.id)?.amount ?? null,
+        compare_at_price:
+          activePrices.get(product.id)?.compare_at_amount ?? null,
         tags: tagsByProduct[product.id] || [],
         categories: categoriesByProduct[product.id] || [],
         trending: {
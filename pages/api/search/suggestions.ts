@@ -0,0 +1,39 @@
+import { db } from "@/lib/db";
+import { getSearchSuggestions } from "@/lib/product-search";
+import { withPublicRequest } from "@/lib/security/request-wrapper";
+import { NextApiRequest, NextApiResponse } from "next";
+
+const MAX_QUERY_LENGTH = 100;
+
+/**
+ * Search autocomplete
+ * GET /api/search/suggestions?q= - Products, categories and tags matching
+ * a partly typed query
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const query =
+    typeof req.query.q === "string"
+      ? req.query.q.slice(0, MAX_QUERY_LENGTH)
+      : "";
+
+  try {
+    const suggestions = await getSearchSuggestions(db, query);
+
+    // Suggestions are the same for every visitor, so repeated prefixes can
+    // be answered from cache while the visitor types
+    res.setHeader(
+      "Cache-Control",
+      "public, max-age=60, stale-while-revalidate=300"
+    );
+    return res.status(200).json({ data: suggestions });
+  } catch (error) {
+    console.error("Search suggestions API error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export default withPublicRequest(handler, "get_search_suggestions");
@@ -0,0 +1,244 @@
+import { db, DbExecutor } from "@/lib/db";
+import { orders, paymentEvents, refunds } from "@/lib/db/schema";
+import { sendOrderGiftCardEmails } from "@/lib/gift-cards";
+import {
+  applyOrderStatusHooks,
+  transitionOrderStatus,
+} from "@/lib/order-status";
+import {
+  getPaymentProvider,
+  PaymentWebhookEvent,
+  toMinorUnits,
+} from "@/lib/payments";
+import { withPublicRequest } from "@/lib/security/request-wrapper";
+import { notifyBackInStock } from "@/lib/stock-notifications";
+import { and, eq, TransactionRollbackError } from "drizzle-orm";
+import { NextApiRequest, NextApiResponse } from "next";
+
+// Signature verification needs the exact bytes the provider signed
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+const SYSTEM_ACTOR = { id: null, type: "system" as const };
+
+async function readRawBody(req: NextApiRequest): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Payment webhook endpoint
+ * POST /api/webhooks/payment - Receives asynchronous payment events from the
+ * configured provider and moves the matching order between
+ * received/paid/refunded/cancelled. Each event id is processed at most once.
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const provider = getPaymentProvider();
+
+  let event: PaymentWebhookEvent;
+  try {
+    const rawBody = await readRawBody(req);
+    event = await provider.verifyWebhook(rawBody, req.headers);
+  } catch (error) {
+    console.error("Payment webhook verification failed:", error);
+    return res.status(400).json({ error: "Invalid webhook signature" });
+  }
+
+  try {
+    const existing = await db
+      .select({ id: paymentEvents.id })
+      .from(paymentEvents)
+      .where(eq(paymentEvents.id, event.id))
+      .limit(1);
+
+    if (existing.length > 0) {
+      return res.status(200).json({ received: true, duplicate: true });
+    }
+
+    // Capture happens outside the transaction because it calls the provider.
+    // Only an order still waiting for payment is captured; an authorization
+    // without one is left for checkout to release.
+    if (event.type === "payment.authorized" && event.intentId) {
+      const [capturable] = await db
+        .select({ id: orders.id })
+        .from(orders)
+        .where(
+          and(
+            eq(orders.payment_intent_id, event.intentId),
+            eq(orders.status, "received")
+          )
+        )
+        .limit(1);
+      if (capturable) {
+        try {
+          const intent = await provider.captureIntent(event.intentId);
+          if (intent.status === "succeeded") {
+            event = { ...event, type: "payment.succeeded" };
+          }
+        } catch (captureError) {
+          // Already captured or no longer capturable - a later event settles it
+          console.error("Webhook payment capture failed:", captureError);
+        }
+      }
+    }
+
+    const outcome = await db.transaction(async (tx) => {
+      // Find the order this payment belongs to
+      const order = event.intentId
+        ? await tx
+            .select({
+              id: orders.id,
+              currency: orders.currency,
+              total: orders.total,
+              gift_card_amount: orders.gift_card_amount,
+            })
+            .from(orders)
+            .where(eq(orders.payment_intent_id, event.intentId))
+            .limit(1)
+        : [];
+      const orderRecord = order[0] || null;
+
+      const transition = orderRecord
+        ? await applyPaymentEvent(tx, event, orderRecord)
+        : null;
+      const backInStock = transition
+        ? await applyOrderStatusHooks(tx, transition)
+        : [];
+
+      const inserted = await tx
+        .insert(paymentEvents)
+        .values({
+          id: event.id,
+          provider: provider.name,
+          type: event.type,
+          provider_type: event.providerType,
+          payment_intent_id: event.intentId,
+          order_id: orderRecord?.id || null,
+          result: transition ? "processed" : "ignored",
+        })
+        .onConflictDoNothing()
+        .returning({ id: paymentEvents.id });
+
+      if (inserted.length === 0) {
+        // Delivered twice concurrently - undo this copy's status change
+        tx.rollback();
+      }
+
+      return { transition, orderId: orderRecord?.id || null, backInStock };
+    });
+
+    await notifyBackInStock(db, outcome.backInStock);
+
+    if (outcome.transition?.to === "paid") {
+      await sendOrderGiftCardEmails(db, outcome.transition.orderId).catch(
+        (emailError) => {
+          console.error("Gift card email sending failed:", emailError);
+        }
+      );
+    }
+
+    return res.status(200).json({
+      received: true,
+      orderId: outcome.orderId,
+      transition: outcome.transition,
+    });
+  } catch (error) {
+    if (error instanceof TransactionRollbackError) {
+      return res.status(200).json({ received: true, duplicate: true });
+    }
+
+    // A non-2xx response makes the provider retry the event later
+    console.error("Payment webhook processing error:", error);
+    return res.status(500).json({ error: "Webhook processing failed" });
+  }
+}
+
+/**
+ * Map a normalized payment event onto an order status transition
+ */
+async function applyPaymentEvent(
+  tx: DbExecutor,
+  event: PaymentWebhookEvent,
+  order: {
+    id: string;
+    currency: string;
+    total: string;
+    gift_card_amount: string;
+  }
+) {
+  const meta = { event_id: event.id, event_type: event.providerType };
+
+  switch (event.type) {
+    case "payment.succeeded":
+      return transitionOrderStatus(tx, {
+        orderId: order.id,
+        from: ["received"],
+        to: "paid",
+        actor: SYSTEM_ACTOR,
+        source: "payment_webhook",
+        meta,
+      });
+
+    case "payment.canceled":
+      return transitionOrderStatus(tx, {
+        orderId: order.id,
+        from: ["received"],
+        to: "cancelled",
+        actor: SYSTEM_ACTOR,
+        source: "payment_webhook",
+        meta,
+      });
+
+    case "payment.refunded": {
+      // Partial refunds leave the status alone; only a full refund moves it.
+      // The provider only ever saw the part not paid by gift card.
+      const charged = toMinorUnits(
+        parseFloat(order.total) - parseFloat(order.gift_card_amount),
+        order.currency
+      );
+      if ((event.amount ?? 0) < charged) {
+        return null;
+      }
+
+      // A refund issued from the admin settles the order itself once the
+      // provider call returns, with the status and restock choice it was
+      // issued with. This event can arrive first, while that refund is
+      // still pending.
+      const [pendingRefund] = await tx
+        .select({ id: refunds.id })
+        .from(refunds)
+        .where(
+          and(eq(refunds.order_id, order.id), eq(refunds.status, "pending"))
+        )
+        .limit(1);
+      if (pendingRefund) {
+        return null;
+      }
+
+      return transitionOrderStatus(tx, {
+        orderId: order.id,
+        from: ["paid", "partially_shipped", "shipped", "completed"],
+        to: "refunded",
+        actor: SYSTEM_ACTOR,
+        source: "payment_webhook",
+        meta: { ...meta, amount_refunded: event.amount },
+      });
+    }
+
+    default:
+      // payment.failed leaves the order open so the customer can retry
+      return null;
+  }
+}
+
+export default withPublicRequest(handler, "payment_webhook");
@@ -1,7 +1,14 @@
 import { Footer } from "@/components/layout/footer";
 import { Header } from "@/components/layout/header";
+import { PromotionCodeInput } from "@/components/promotion-code-input";
 import { useToast } from "@/components/ui/toast";
 import { useCart } from "@/contexts/cart-context";
+import { useCurrency } from "@/contexts/currency-context";
+import { getCartLineIssueMessage } from "@/lib/cart-utils";
+import {
+  AppliedPromotion,
+  calculatePromotionDiscount,
+} from "@/lib/promotion-utils";
 import Image from "next/image";
 import Link from "next/link";
 import { useRouter } from "next/router";
@@ -14,13 +21,19 @@ export default function CartPage() {
     error,
     updateQuantity,
     removeItem,
+    getItemPrice,
     getTotalItems,
     getTotalPrice,
-    fetchCartProductData,
+    refreshCart,
+    priceChanges,
+    dismissPriceChanges,
+    replaceItems,
   } = useCart();
+  const { formatPrice } = useCurrency();
   const { addToast } = useToast();
   const router = useRouter();
   const [isRemoving, setIsRemoving] = useState<string | null>(null);
+  const [promotion, setPromotion] = useState<AppliedPromotion | null>(null);
   const [outOfStockItems, setOutOfStockItems] = useState<
     Array<{
       product_title: string;
@@ -54,23 +67,77 @@ export default function CartPage() {
     }
   }, [router.query.outOfStock]);
 
-  // Fetch product data when cart page loads
+  // Restore a cart from an abandoned cart reminder link
   useEffect(() => {
-    if (cart && cart.items.length > 0) {
-      // Only fetch if we don't have product data for any items
-      const needsProductData = cart.items.some((item) => !item.product);
-      if (needsProductData) {
-        fetchCartProductData();
+    const token = router.query.restore;
+    if (typeof token !== "string" || !cart) return;
+
+    const restoreCart = async () => {
+      try {
+        const response = await fetch("/api/cart/restore", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify({ token }),
+        });
+        const result = await response.json();
+
+        if (response.ok) {
+          replaceItems(result.data.items);
+          addToast({ title: "Your cart has been restored", type: "success" });
+        } else {
+          addToast({
+            title: result.error || "Failed to restore your cart",
+            type: "error",
+          });
+        }
+      } catch (error) {
+        console.error("Error restoring cart:", error);
+        addToast({ title: "Failed to restore your cart", type: "error" });
+      } finally {
+        // Clean up URL parameters
+        router.replace("/cart", undefined, { shallow: true });
       }
-    }
-  }, [cart?.items.length]); // Only run when cart items change
+    };
+
+    restoreCart();
+  }, [router.query.restore, !!cart]);
+
+  // Reprice and recheck stock when the page loads and whenever the lines
+  // change, so the shopper sees today's prices before checkout
+  const refreshKey = cart
+    ? JSON.stringify(
+        cart.items.map((item) => [
+          item.product_id,
+          item.quantity,
+          item.selected_options || {},
+        ])
+      )
+    : null;
 
-  const formatPrice = (price: number, currency: string = "USD") => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: currency,
-    }).format(price);
-  };
+  useEffect(() => {
+    if (!cart || cart.items.length === 0) return;
+
+    const timeout = setTimeout(() => {
+      refreshCart();
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [refreshKey]);
+
+  // Lines that cannot be bought as they stand block checkout
+  const hasFlaggedItems = !!cart?.items.some((item) => item.issue);
+
+  // Recalculated locally so quantity changes update the discount
+  const discount = promotion
+    ? calculatePromotionDiscount(
+        promotion.type,
+        promotion.value,
+        getTotalPrice()
+      )
+    : 0;
 
   // Check if an item is out of stock
   const isItemOutOfStock = (item: any) => {
@@ -216,6 +283,56 @@ export default function CartPage() {
                 </div>
               )}
 
+              {/* Price Change Banner */}
+              {priceChanges.length > 0 && (
+                <div className="mb-4 sm:mb-6 p-3 sm:p-4 bg-accent border border-border rounded-lg">
+                  <div className="flex items-start gap-2 sm:gap-3">
+                    <svg
+                      className="w-5 h-5 sm:w-6 sm:h-6 text-primary mt-0.5 flex-shrink-0"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                      />
+                    </svg>
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-accent-foreground mb-1 sm:mb-2 text-sm sm:text-base">
+                        Prices changed
+                      </h3>
+                      <p className="text-muted-foreground text-xs sm:text-sm mb-2 sm:mb-3">
+                        Some prices have changed since you added these items.
+                        Your cart shows the current prices.
+                      </p>
+                      <div className="space-y-1">
+                        {priceChanges.map((change) => (
+                          <p
+                            key={change.key}
+                            className="text-xs sm:text-sm text-foreground"
+                          >
+                            • {change.title}:{" "}
+                            <span className="line-through text-muted-foreground">
+                              {formatPrice(change.previous)}
+                            </span>{" "}
+                            → {formatPrice(change.current)}
+                          </p>
+                        ))}
+                      </div>
+                    </div>
+                    <button
+                      onClick={dismissPriceChanges}
+                      className="text-xs sm:text-sm text-primary hover:text-accent-foreground font-medium"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                </div>
+              )}
+
               <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-8">
                 {/* Cart Items */}
                 <div className="lg:col-span-2">
@@ -237,7 +354,7 @@ export default function CartPage() {
                             className={`p-3 sm:p-6 transition-all duration-300 ${
                               isRemoving === item.id
                                 ? "opacity-50 scale-95"
-                                : isOutOfStock
+                                : isOutOfStock || item.issue
                                 ? "bg-accent border-l-4 border-destructive"
                                 : "hover:bg-muted/50"
                             }`}
@@ -387,6 +504,19 @@ export default function CartPage() {
                                   </div>
                                 )}
 
+                                {/* Pricing/stock notice from the last refresh */}
+                                {!isOutOfStock && item.issue && (
+                                  <p className="mt-2 text-xs sm:text-sm text-destructive">
+                                    {getCartLineIssueMessage(
+                                      item.issue,
+                                      item.available_quantity
+                                    )}
+                                    {item.issue === "insufficient_stock"
+                                      ? " - reduce the quantity to continue."
+                                      : " - remove it to continue."}
+                                  </p>
+                                )}
+
                                 <div className="mt-3 sm:mt-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
                                   {/* Quantity Controls */}
                                   <div
@@ -469,95 +599,20 @@ export default function CartPage() {
                                       {item.product ? (
                                         <>
                                           <p className="text-xs sm:text-sm text-muted-foreground">
-                                            {(() => {
-                                              const basePrice = parseFloat(
-                                                String(
-                                                  item.product.base_price ?? "0"
-                                                )
-                                              );
-                                              let finalPrice = basePrice;
-
-                                              // Add option price adjustments
-                                              if (
-                                                item.selected_options &&
-                                                item.product.options
-                                              ) {
-                                                item.product?.options?.forEach(
-                                                  (option: any) => {
-                                                    const selectedValueName =
-                                                      item.selected_options![
-                                                        option.name
-                                                      ];
-                                                    if (selectedValueName) {
-                                                      const selectedValue =
-                                                        option.values?.find(
-                                                          (v: any) =>
-                                                            v.name ===
-                                                            selectedValueName
-                                                        );
-                                                      if (selectedValue) {
-                                                        finalPrice +=
-                                                          parseFloat(
-                                                            selectedValue.price_adjustment ||
-                                                              "0"
-                                                          );
-                                                      }
-                                                    }
-                                                  }
-                                                );
-                                              }
-
-                                              return formatPrice(
-                                                finalPrice,
-                                                item.product.currency || "USD"
-                                              );
-                                            })()}{" "}
+                                            {item.compare_at_amount && (
+                                              <span className="line-through mr-1">
+                                                {formatPrice(
+                                                  item.compare_at_amount
+                                                )}
+                                              </span>
+                                            )}
+                                            {formatPrice(getItemPrice(item))}{" "}
                                             each
                                           </p>
                                           <p className="text-base sm:text-lg font-semibold text-foreground">
-                                            {(() => {
-                                              const basePrice = parseFloat(
-                                                String(
-                                                  item.product.base_price ?? "0"
-                                                )
-                                              );
-                                              let finalPrice = basePrice;
-
-                                              // Add option price adjustments
-                                              if (
-                                                item.selected_options &&
-                                                item.product.options
-                                              ) {
-                                                item.product?.options?.forEach(
-                                                  (option: any) => {
-                                                    const selectedValueName =
-                                                      item.selected_options![
-                                                        option.name
-                                                      ];
-                                                    if (selectedValueName) {
-                                                      const selectedValue =
-                                                        option.values?.find(
-                                                          (v: any) =>
-                                                            v.name ===
-                                                            selectedValueName
-                                                        );
-                                                      if (selectedValue) {
-                                                        finalPrice +=
-                                                          parseFloat(
-                                                            selectedValue.price_adjustment ||
-                                                              "0"
-                                                          );
-                                                      }
-                                                    }
-                                                  }
-                                                );
-                                              }
-
-                                              return formatPrice(
-                                                finalPrice * item.quantity,
-                                                item.product.currency || "USD"
-                                              );
-                                            })()}
+                                            {formatPrice(
+                                              getItemPrice(item) * item.quantity
+                                            )}
                                           </p>
                                         </>
                                       ) : (
@@ -625,12 +680,25 @@ export default function CartPage() {
                         </span>
                       </div>
 
+                      {discount > 0 && (
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm sm:text-base text-muted-foreground">
+                            Discount
+                          </span>
+                          <span className="font-semibold text-green-600 text-sm sm:text-base">
+                            -{formatPrice(discount)}
+                          </span>
+                        </div>
+                      )}
+
                       <div className="flex justify-between items-center">
                         <span className="text-sm sm:text-base text-muted-foreground">
                           Shipping
                         </span>
                         <span className="text-xs sm:text-sm text-muted-foreground">
-                          Calculated at checkout
+                          {promotion?.freeShipping
+                            ? "Free"
+                            : "Calculated at checkout"}
                         </span>
                       </div>
 
@@ -649,15 +717,21 @@ export default function CartPage() {
                             Total
                           </span>
                           <span className="text-lg sm:text-xl font-bold text-foreground">
-                            {formatPrice(getTotalPrice())}
+                            {formatPrice(getTotalPrice() - discount)}
                           </span>
                         </div>
                       </div>
                     </div>
 
-                    {outOfStockItems.length > 0 ? (
+                    <div className="mt-4 sm:mt-6">
+                      <PromotionCodeInput onPromotionChange={setPromotion} />
+                    </div>
+
+                    {outOfStockItems.length > 0 || hasFlaggedItems ? (
                       <div className="w-full mt-4 sm:mt-6 bg-muted text-muted-foreground font-semibold py-3 sm:py-4 px-4 sm:px-6 rounded-lg sm:rounded-xl text-center cursor-not-allowed text-sm sm:text-base">
-                        Remove out-of-stock items to checkout
+                        {outOfStockItems.length > 0
+                          ? "Remove out-of-stock items to checkout"
+                          : "Update the flagged items to checkout"}
                       </div>
                     ) : (
                       <Link
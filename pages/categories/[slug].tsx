@@ -0,0 +1,249 @@
+import { CategoryCard } from "@/components/category-card";
+import { InfiniteProductGrid } from "@/components/infinite-product-grid";
+import { Footer } from "@/components/layout/footer";
+import { Header } from "@/components/layout/header";
+import { CategoryBreadcrumb } from "@/lib/category-utils";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { Fragment, useCallback, useEffect, useState } from "react";
+
+interface Product {
+  id: string;
+  slug: string;
+  title: string;
+  description: string;
+  image?: string;
+  status: string;
+  created_at: string;
+  updated_at: string;
+  variants: Array<{
+    sku: string;
+    price: number | string;
+    compare_at_price?: number | string | null;
+    currency: string;
+    quantity_available: number;
+  }>;
+  tags?: Array<{
+    id: string;
+    name: string;
+    color: string;
+  }>;
+}
+
+interface CategorySummary {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  thumbnail: string | null;
+}
+
+interface Category extends CategorySummary {
+  parent_id: string | null;
+  path: CategoryBreadcrumb[]; // From the top level down to this category
+  children: CategorySummary[];
+}
+
+interface ProductsResponse {
+  data: Product[];
+  pagination: {
+    page: number;
+    totalCount: number;
+    hasNext: boolean;
+  };
+}
+
+/**
+ * Category landing page: subcategories, then every product in the category
+ * or any category below it
+ */
+export default function CategoryPage() {
+  const router = useRouter();
+  const slug = typeof router.query.slug === "string" ? router.query.slug : "";
+
+  const [category, setCategory] = useState<Category | null>(null);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalCount, setTotalCount] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState("");
+
+  const fetchProducts = async (page: number) => {
+    const params = new URLSearchParams({
+      category: slug,
+      page: page.toString(),
+      limit: "12",
+    });
+    const response = await fetch(`/api/products?${params}`);
+    if (!response.ok) {
+      throw new Error("Failed to fetch products");
+    }
+    const data: ProductsResponse = await response.json();
+    setProducts((prev) => (page === 1 ? data.data : [...prev, ...data.data]));
+    setTotalCount(data.pagination.totalCount);
+    setHasMore(data.pagination.hasNext);
+  };
+
+  useEffect(() => {
+    if (!slug) return;
+
+    const fetchCategory = async () => {
+      try {
+        setLoading(true);
+        setError("");
+        setProducts([]);
+        setCurrentPage(1);
+
+        const response = await fetch(
+          `/api/categories/${encodeURIComponent(slug)}`
+        );
+        if (response.status === 404) {
+          setCategory(null);
+          setError("Category not found");
+          return;
+        }
+        if (!response.ok) {
+          throw new Error("Failed to fetch category");
+        }
+        const data = await response.json();
+        setCategory(data.data);
+
+        await fetchProducts(1);
+      } catch (err) {
+        setError("Failed to load category");
+        console.error("Error fetching category:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCategory();
+  }, [slug]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Load more products for infinite scroll
+  const loadMore = useCallback(async () => {
+    if (loadingMore || !hasMore) return;
+    const nextPage = currentPage + 1;
+    setCurrentPage(nextPage);
+    setLoadingMore(true);
+    try {
+      await fetchProducts(nextPage);
+    } catch (err) {
+      console.error("Error fetching products:", err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [loadingMore, hasMore, currentPage]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  if (loading && !category) {
+    return (
+      <div className="min-h-screen bg-muted">
+        <Header />
+        <main className="flex-1 flex items-center justify-center py-20">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-primary mx-auto"></div>
+            <p className="mt-4 text-muted-foreground">Loading category...</p>
+          </div>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-muted">
+      <Header />
+      <main className="flex-1">
+        <div className="max-w-7xl mx-auto px-3 sm:px-4 lg:px-8 py-6 sm:py-8">
+          {/* Breadcrumb */}
+          <nav className="flex items-center space-x-1 sm:space-x-2 text-xs sm:text-sm text-muted-foreground mb-4 sm:mb-6">
+            <Link
+              href="/"
+              className="hover:text-foreground transition-colors duration-200"
+            >
+              Home
+            </Link>
+            <span>/</span>
+            <Link
+              href="/categories"
+              className="hover:text-foreground transition-colors duration-200"
+            >
+              Categories
+            </Link>
+            {category?.path.slice(0, -1).map((crumb) => (
+              <Fragment key={crumb.slug}>
+                <span>/</span>
+                <Link
+                  href={`/categories/${crumb.slug}`}
+                  className="hover:text-foreground transition-colors duration-200 whitespace-nowrap"
+                >
+                  {crumb.name}
+                </Link>
+              </Fragment>
+            ))}
+            {category && (
+              <>
+                <span>/</span>
+                <span className="text-foreground truncate">
+                  {category.name}
+                </span>
+              </>
+            )}
+          </nav>
+
+          {error && (
+            <div className="bg-accent border border-border rounded-xl p-3 sm:p-4 mb-6 sm:mb-8">
+              <p className="text-sm sm:text-base text-destructive">{error}</p>
+            </div>
+          )}
+
+          {category && (
+            <>
+              <div className="mb-6 sm:mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+                <div>
+                  <h1 className="text-2xl sm:text-3xl font-bold text-foreground mb-2 sm:mb-4">
+                    {category.name}
+                  </h1>
+                  {category.description && (
+                    <p className="text-sm sm:text-base text-muted-foreground">
+                      {category.description}
+                    </p>
+                  )}
+                </div>
+                <Link
+                  href={`/products?category=${category.slug}`}
+                  className="text-sm text-primary hover:text-accent-foreground underline whitespace-nowrap"
+                >
+                  Filter and sort
+                </Link>
+              </div>
+
+              {/* Subcategories */}
+              {category.children.length > 0 && (
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-4 lg:gap-6 mb-8 sm:mb-10">
+                  {category.children.map((child) => (
+                    <CategoryCard key={child.id} category={child} />
+                  ))}
+                </div>
+              )}
+
+              <div className="text-xs sm:text-sm text-muted-foreground mb-4 sm:mb-6 px-1">
+                {totalCount} products found
+              </div>
+
+              <InfiniteProductGrid
+                products={products}
+                loading={loading || loadingMore}
+                hasMore={hasMore}
+                onLoadMore={loadMore}
+              />
+            </>
+          )}
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
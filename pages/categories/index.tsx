@@ -17,6 +17,7 @@ interface Category {
 
 interface CategoriesResponse {
   data: Category[];
+  tree: Array<Category & { children: Category[] }>;
 }
 
 export default function CategoriesPage() {
@@ -38,7 +39,8 @@ export default function CategoriesPage() {
         throw new Error("Failed to fetch categories");
       }
 
-      setCategories(data.data);
+      // Subcategories are listed on their parent's page
+      setCategories(data.tree);
     } catch (err) {
       setError("Failed to load categories");
       console.error("Error fetching categories:", err);
@@ -1,11 +1,28 @@
 import { AddressManagementModal } from "@/components/address-management-modal";
+import { GiftCardInput } from "@/components/gift-card-input";
 import { Footer } from "@/components/layout/footer";
 import { Header } from "@/components/layout/header";
+import {
+  PaymentMethodForm,
+  PaymentMethodFormHandle,
+} from "@/components/payment-method-form";
+import { PromotionCodeInput } from "@/components/promotion-code-input";
+import { ShippingMethodPicker } from "@/components/shipping-method-picker";
 import { useToast } from "@/components/ui/toast";
 import { useAuth } from "@/contexts/auth-context";
 import { useCart } from "@/contexts/cart-context";
+import { useCurrency } from "@/contexts/currency-context";
+import {
+  AppliedGiftCard,
+  calculateGiftCardAmount,
+} from "@/lib/gift-card-utils";
+import {
+  AppliedPromotion,
+  calculatePromotionDiscount,
+} from "@/lib/promotion-utils";
+import { ShippingQuote } from "@/lib/shipping-rate-utils";
 import { useRouter } from "next/router";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 
 interface Address {
   id: string;
@@ -53,9 +70,12 @@ interface CheckoutFormData {
 
 export default function CheckoutPage() {
   const { user, loading } = useAuth();
-  const { cart, getTotalPrice, clearCart, fetchCartProductData } = useCart();
+  const { cart, getItemPrice, getTotalPrice, clearCart, refreshCart } =
+    useCart();
+  const { formatPrice } = useCurrency();
   const { addToast } = useToast();
   const router = useRouter();
+  const paymentFormRef = useRef<PaymentMethodFormHandle>(null);
 
   const [formData, setFormData] = useState<CheckoutFormData>({
     selectedShippingAddress: "new",
@@ -95,6 +115,16 @@ export default function CheckoutPage() {
     useState<Address | null>(null);
   const [isAddressModalOpen, setIsAddressModalOpen] = useState(false);
   const [isLoadingAddresses, setIsLoadingAddresses] = useState(false);
+  const [promotion, setPromotion] = useState<AppliedPromotion | null>(null);
+  const [giftCardCode, setGiftCardCode] = useState<string | null>(null);
+  const [giftCard, setGiftCard] = useState<AppliedGiftCard | null>(null);
+  const [tax, setTax] = useState(0);
+  const [shippingOptions, setShippingOptions] = useState<ShippingQuote[]>([]);
+  const [shippingRateId, setShippingRateId] = useState<string | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  // Stock held for this checkout; kept in a ref so replacing it does not
+  // re-run the effects that depend on it
+  const reservationIdRef = useRef<string | null>(null);
 
   useEffect(() => {
     // Allow guest checkout - no longer redirect to signin
@@ -186,17 +216,160 @@ export default function CheckoutPage() {
     }
   }, [cart, router]);
 
-  // Fetch product data for cart items on checkout page load
+  // Reprice the cart on checkout page load, so a sale that started or ended
+  // since the cart was last viewed shows before the order is placed
   useEffect(() => {
     if (cart && cart.items.length > 0) {
-      // Only fetch if we don't have product data for any items
-      const needsProductData = cart.items.some((item) => !item.product);
-      if (needsProductData) {
-        fetchCartProductData();
-      }
+      refreshCart();
     }
   }, [cart?.items.length]); // Only run when cart items change
 
+  // Tax and shipping depend on the shipping address, so they are worked out
+  // by the same server-side calculations the order is charged with
+  const quoteCartKey = JSON.stringify(
+    (cart?.items || []).map((item) => [
+      item.product_id,
+      item.quantity,
+      item.selected_options,
+    ])
+  );
+  useEffect(() => {
+    const { country, region } = formData.shippingAddress;
+    if (!cart || cart.items.length === 0 || !country) {
+      setTax(0);
+      setShippingOptions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    // Debounced so typing a region does not send a request per keystroke
+    const timeout = setTimeout(async () => {
+      setIsQuoting(true);
+      try {
+        const response = await fetch("/api/checkout/validate", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          signal: controller.signal,
+          body: JSON.stringify({
+            items: cart.items.map((item) => ({
+              product_id: item.product_id,
+              quantity: item.quantity,
+              selected_options: item.selected_options,
+            })),
+            promotionCode: promotion?.code,
+            shippingAddress: { country, region },
+          }),
+        });
+
+        if (response.ok) {
+          const result = await response.json();
+          const options: ShippingQuote[] = result.shippingOptions || [];
+          setTax(result.tax || 0);
+          setShippingOptions(options);
+          // Keep the customer's choice while it is still offered
+          setShippingRateId((current) =>
+            options.some((option) => option.rateId === current)
+              ? current
+              : options[0]?.rateId || null
+          );
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error("Error calculating tax and shipping:", error);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsQuoting(false);
+        }
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [
+    quoteCartKey,
+    promotion?.code,
+    formData.shippingAddress.country,
+    formData.shippingAddress.region,
+  ]);
+
+  // Hold the cart's stock while the customer checks out. The server replaces
+  // the hold whenever the cart changes; it is released if they leave without
+  // ordering.
+  useEffect(() => {
+    if (!cart || cart.items.length === 0) return;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch("/api/checkout/reservation", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          signal: controller.signal,
+          body: JSON.stringify({
+            items: cart.items.map((item) => ({
+              product_id: item.product_id,
+              quantity: item.quantity,
+            })),
+          }),
+        });
+        const result = await response.json();
+
+        if (response.ok) {
+          reservationIdRef.current = result.data.reservationId;
+        } else if (result.outOfStockItems?.length > 0) {
+          // The previous hold was kept; leaving the page releases it
+          addToast({
+            title: "Items No Longer Available",
+            description: `${result.outOfStockItems.length} item(s) are no longer in stock`,
+            type: "error",
+            duration: 5000,
+          });
+          await router.push(
+            `/cart?outOfStock=${encodeURIComponent(
+              JSON.stringify(result.outOfStockItems)
+            )}`
+          );
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          // Checkout still works without a hold; stock is re-checked on submit
+          console.error("Error reserving inventory:", error);
+        }
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [quoteCartKey]);
+
+  useEffect(() => {
+    return () => {
+      if (reservationIdRef.current) {
+        // Closed tabs never get here - their holds lapse on expiry instead
+        fetch("/api/checkout/reservation", {
+          method: "DELETE",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          keepalive: true,
+          body: JSON.stringify({ reservationId: reservationIdRef.current }),
+        }).catch(() => {});
+      }
+    };
+  }, []);
+
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
@@ -236,6 +409,10 @@ export default function CheckoutPage() {
       }
     }
 
+    if (!shippingRateId) {
+      newErrors.shippingMethod = "Please choose a shipping method";
+    }
+
     // Validate billing address if different and using new address for guests
     if (
       formData.isGuestCheckout &&
@@ -439,6 +616,12 @@ export default function CheckoutPage() {
     setIsSubmitting(true);
 
     try {
+      // Nothing to charge when a gift card covers the whole order
+      const paymentMethodId =
+        calculateTotals().amountDue > 0
+          ? await paymentFormRef.current?.createPaymentMethod()
+          : undefined;
+
       const checkoutData = {
         cartItems: cart.items.map((item) => ({
           product_id: item.product_id,
@@ -452,6 +635,11 @@ export default function CheckoutPage() {
         useSameAddress: formData.useSameAddress,
         orderNotes: formData.orderNotes,
         guestEmail: formData.isGuestCheckout ? formData.guestEmail : undefined,
+        paymentMethodId,
+        promotionCode: promotion?.code,
+        giftCardCode: giftCardCode || undefined,
+        shippingRateId,
+        reservationId: reservationIdRef.current || undefined,
       };
 
       console.log(
@@ -502,6 +690,30 @@ export default function CheckoutPage() {
       const result = await response.json();
       console.log("Checkout success response:", result);
 
+      // The order consumed the hold, so there is nothing left to release
+      reservationIdRef.current = null;
+
+      // Some cards need extra authentication before the payment completes.
+      // The order already exists, so a failure here is reported but the
+      // customer still lands on the confirmation page.
+      if (result.data.payment?.requiresAction) {
+        try {
+          await paymentFormRef.current?.handleNextAction(
+            result.data.payment.clientSecret
+          );
+        } catch (actionError) {
+          addToast({
+            title: "Payment Not Completed",
+            description:
+              actionError instanceof Error
+                ? actionError.message
+                : "Payment authentication failed",
+            type: "error",
+            duration: 5000,
+          });
+        }
+      }
+
       // Save addresses after successful order submission
       if (
         user &&
@@ -544,47 +756,40 @@ export default function CheckoutPage() {
     }
   };
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(price);
-  };
-
-  // Calculate individual item price
-  const getItemPrice = (item: any) => {
-    if (!item.product) return 0;
-
-    const basePrice = parseFloat(item.product.base_price || "0");
-    let finalPrice = basePrice;
-
-    // Add option price adjustments
-    if (item.selected_options && item.product.options) {
-      item.product.options.forEach((option: any) => {
-        const selectedValueName = item.selected_options[option.name];
-        if (selectedValueName) {
-          const selectedValue = option.values?.find(
-            (v: any) => v.name === selectedValueName
-          );
-          if (selectedValue) {
-            finalPrice += parseFloat(selectedValue.price_adjustment || "0");
-          }
-        }
-      });
-    }
-
-    return finalPrice;
-  };
-
   const calculateTotals = () => {
-    if (!cart) return { subtotal: 0, tax: 0, shipping: 0, total: 0 };
+    if (!cart)
+      return {
+        subtotal: 0,
+        discount: 0,
+        tax: 0,
+        shipping: 0,
+        total: 0,
+        giftCardAmount: 0,
+        amountDue: 0,
+      };
 
     const subtotal = getTotalPrice();
-    const shipping = subtotal > 100 ? 0 : 9.99;
-    const tax = subtotal * 0.08;
-    const total = subtotal + tax + shipping;
-
-    return { subtotal, tax, shipping, total };
+    const discount = promotion
+      ? calculatePromotionDiscount(promotion.type, promotion.value, subtotal)
+      : 0;
+    const shipping =
+      shippingOptions.find((option) => option.rateId === shippingRateId)
+        ?.amount || 0;
+    const total = subtotal - discount + tax + shipping;
+    const giftCardAmount = giftCard
+      ? calculateGiftCardAmount(giftCard.balance, total)
+      : 0;
+    const amountDue = Math.round((total - giftCardAmount) * 100) / 100;
+
+    return {
+      subtotal,
+      discount,
+      tax,
+      shipping,
+      total,
+      giftCardAmount,
+      amountDue,
+    };
   };
 
   if (loading) {
@@ -1233,6 +1438,31 @@ export default function CheckoutPage() {
                 )}
               </div>
 
+              {/* Shipping Method */}
+              <ShippingMethodPicker
+                options={shippingOptions}
+                selectedRateId={shippingRateId}
+                onSelect={(rateId) => {
+                  setShippingRateId(rateId);
+                  setErrors((prev) => ({ ...prev, shippingMethod: "" }));
+                }}
+                isLoading={isQuoting}
+                error={errors.shippingMethod}
+              />
+
+              {/* Payment */}
+              <PaymentMethodForm
+                ref={paymentFormRef}
+                billingName={
+                  formData.useSameAddress
+                    ? formData.shippingAddress.name
+                    : formData.billingAddress.name
+                }
+                billingEmail={
+                  formData.isGuestCheckout ? formData.guestEmail : user?.email
+                }
+              />
+
               {/* Order Summary */}
               <div className="mt-6 sm:mt-8 bg-card rounded-lg shadow-sm border p-4 sm:p-6">
                 <h2 className="text-lg sm:text-xl font-semibold text-foreground mb-3 sm:mb-4">
@@ -1262,6 +1492,19 @@ export default function CheckoutPage() {
 
                 <hr className="my-3 sm:my-4" />
 
+                <div className="mb-3 sm:mb-4">
+                  <PromotionCodeInput onPromotionChange={setPromotion} />
+                </div>
+
+                <div className="mb-3 sm:mb-4">
+                  <GiftCardInput
+                    onGiftCardChange={(code, appliedGiftCard) => {
+                      setGiftCardCode(code);
+                      setGiftCard(appliedGiftCard);
+                    }}
+                  />
+                </div>
+
                 <div className="space-y-2">
                   <div className="flex justify-between">
                     <span className="text-sm sm:text-base text-muted-foreground">
@@ -1271,6 +1514,16 @@ export default function CheckoutPage() {
                       {formatPrice(totals.subtotal)}
                     </span>
                   </div>
+                  {totals.discount > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-sm sm:text-base text-muted-foreground">
+                        Discount
+                      </span>
+                      <span className="text-sm sm:text-base text-green-600">
+                        -{formatPrice(totals.discount)}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-sm sm:text-base text-muted-foreground">
                       Tax
@@ -1284,7 +1537,9 @@ export default function CheckoutPage() {
                       Shipping
                     </span>
                     <span className="text-sm sm:text-base text-foreground">
-                      {totals.shipping === 0
+                      {!shippingRateId
+                        ? "Select a method"
+                        : totals.shipping === 0
                         ? "Free"
                         : formatPrice(totals.shipping)}
                     </span>
@@ -1296,6 +1551,24 @@ export default function CheckoutPage() {
                       {formatPrice(totals.total)}
                     </span>
                   </div>
+                  {totals.giftCardAmount > 0 && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-sm sm:text-base text-muted-foreground">
+                          Gift card
+                        </span>
+                        <span className="text-sm sm:text-base text-green-600">
+                          -{formatPrice(totals.giftCardAmount)}
+                        </span>
+                      </div>
+                      <div className="flex justify-between font-semibold text-base sm:text-lg">
+                        <span className="text-foreground">Amount due</span>
+                        <span className="text-foreground">
+                          {formatPrice(totals.amountDue)}
+                        </span>
+                      </div>
+                    </>
+                  )}
                 </div>
 
                 <div className="mt-4 sm:mt-6">
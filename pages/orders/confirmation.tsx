@@ -12,6 +12,7 @@ interface OrderConfirmation {
   status: string;
   created_at: string;
   updated_at: string;
+  currency: string;
   totals: {
     subtotal: number;
     tax: number;
@@ -93,7 +94,7 @@ export default function OrderConfirmationPage() {
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
-      currency: "USD",
+      currency: order?.currency || "USD",
     }).format(price);
   };
 
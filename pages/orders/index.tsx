@@ -1,9 +1,17 @@
 import { Footer } from "@/components/layout/footer";
 import { Header } from "@/components/layout/header";
 import { OrderDetailsModal } from "@/components/order-details-modal";
+import {
+  OrderReturnRequest,
+  OrderSelfService,
+} from "@/components/order-self-service";
 import { StatusIndicator } from "@/components/ui/status-indicator";
 import { useToast } from "@/components/ui/toast";
 import { useAuth } from "@/contexts/auth-context";
+import {
+  getOrderStatusLabel,
+  OrderStatusHistoryEntry,
+} from "@/lib/order-status-utils";
 import Image from "next/image";
 import Link from "next/link";
 import { useRouter } from "next/router";
@@ -45,6 +53,8 @@ interface Order {
     postal_code: string;
     country: string;
   };
+  statusHistory?: OrderStatusHistoryEntry[];
+  returnRequests?: OrderReturnRequest[];
 }
 
 export default function OrdersPage() {
@@ -139,6 +149,20 @@ export default function OrdersPage() {
     }).format(parseFloat(price));
   };
 
+  // Most recent change after the order was placed, if any
+  const renderLatestStatusChange = (order: Order) => {
+    const history = order.statusHistory || [];
+    const latest = history[history.length - 1];
+    if (!latest?.from_status) return null;
+
+    return (
+      <p className="text-xs sm:text-sm text-muted-foreground">
+        {getOrderStatusLabel(latest)} on{" "}
+        {new Date(latest.created_at).toLocaleDateString()}
+      </p>
+    );
+  };
+
   const handleViewOrder = (order: Order) => {
     setSelectedOrder(order);
     setShowOrderModal(true);
@@ -253,6 +277,7 @@ export default function OrdersPage() {
                         Placed on{" "}
                         {new Date(order.created_at).toLocaleDateString()}
                       </p>
+                      {renderLatestStatusChange(order)}
                     </div>
                     <div className="flex items-center space-x-2 ml-3">
                       <StatusIndicator
@@ -341,6 +366,12 @@ export default function OrdersPage() {
                     </span>
                   </div>
                 </div>
+
+                <OrderSelfService
+                  order={order}
+                  onChange={() => fetchOrders()}
+                  className="mt-4"
+                />
               </div>
             ))}
           </div>
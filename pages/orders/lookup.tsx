@@ -1,13 +1,14 @@
 import { Footer } from "@/components/layout/footer";
 import { Header } from "@/components/layout/header";
+import {
+  OrderReturnRequest,
+  OrderSelfService,
+} from "@/components/order-self-service";
+import { OrderShipment, ShipmentList } from "@/components/shipment-list";
 import { StatusIndicator } from "@/components/ui/status-indicator";
 import { useToast } from "@/components/ui/toast";
 import { useAuth } from "@/contexts/auth-context";
-import {
-  formatTrackingNumber,
-  generateTrackingUrl,
-  getProviderDisplayName,
-} from "@/lib/shipping-utils";
+import { getUnshippedQuantities } from "@/lib/shipping-utils";
 import Image from "next/image";
 import Link from "next/link";
 import { useRouter } from "next/router";
@@ -41,6 +42,8 @@ interface Order {
   tracking_number?: string;
   shipping_provider?: string;
   shipped_at?: string;
+  delivered_at?: string | null;
+  shipments?: OrderShipment[];
   shippingAddress?: {
     name: string;
     line1: string;
@@ -50,6 +53,7 @@ interface Order {
     postal_code: string;
     country: string;
   };
+  returnRequests?: OrderReturnRequest[];
 }
 
 export default function OrderLookupPage() {
@@ -69,6 +73,36 @@ export default function OrderLookupPage() {
     }
   }, [user]);
 
+  const fetchOrder = async (): Promise<Order> => {
+    const response = await fetch("/api/orders/lookup", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        orderNumber: orderNumber.trim(),
+        email: email.trim(),
+      }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(result.error || "Failed to lookup order");
+    }
+
+    return result.data;
+  };
+
+  // Reload the order after it was cancelled or a return was requested
+  const refreshOrder = async () => {
+    try {
+      setOrder(await fetchOrder());
+    } catch (error) {
+      console.error("Order refresh error:", error);
+    }
+  };
+
   const handleLookup = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -81,24 +115,7 @@ export default function OrderLookupPage() {
     setError("");
 
     try {
-      const response = await fetch("/api/orders/lookup", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          orderNumber: orderNumber.trim(),
-          email: email.trim(),
-        }),
-      });
-
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || "Failed to lookup order");
-      }
-
-      setOrder(result.data);
+      setOrder(await fetchOrder());
       addToast({ title: "Order found successfully", type: "success" });
     } catch (error) {
       console.error("Order lookup error:", error);
@@ -124,6 +141,7 @@ export default function OrderLookupPage() {
         return "bg-muted text-foreground";
       case "paid":
         return "bg-accent text-accent-foreground";
+      case "partially_shipped":
       case "shipped":
         return "bg-accent text-accent-foreground";
       case "completed":
@@ -315,58 +333,22 @@ export default function OrderLookupPage() {
             )}
 
             {/* Shipping Information */}
-            {order.status === "shipped" && order.tracking_number && (
+            {order.shipments && order.shipments.length > 0 && (
               <div className="border-t pt-4 mb-4">
                 <div className="bg-accent border border-border rounded-lg p-4">
                   <h4 className="text-sm font-semibold text-accent-foreground mb-2">
                     Tracking Information
                   </h4>
-                  <div className="space-y-2">
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm text-accent-foreground">
-                        <strong>Tracking Number:</strong>{" "}
-                        {formatTrackingNumber(
-                          order.tracking_number,
-                          (order.shipping_provider as
-                            | "usps"
-                            | "ups"
-                            | "fedex"
-                            | "other") || "other"
-                        )}
-                      </span>
-                      <a
-                        href={generateTrackingUrl(
-                          order.tracking_number,
-                          (order.shipping_provider as
-                            | "usps"
-                            | "ups"
-                            | "fedex"
-                            | "other") || "other"
-                        )}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-sm text-primary hover:text-accent-foreground underline"
-                      >
-                        Track Package
-                      </a>
-                    </div>
-                    <div className="text-sm text-accent-foreground">
-                      <strong>Shipping Provider:</strong>{" "}
-                      {getProviderDisplayName(
-                        (order.shipping_provider as
-                          | "usps"
-                          | "ups"
-                          | "fedex"
-                          | "other") || "other"
-                      )}
-                    </div>
-                    {order.shipped_at && (
-                      <div className="text-sm text-accent-foreground">
-                        <strong>Shipped:</strong>{" "}
-                        {new Date(order.shipped_at).toLocaleDateString()}
-                      </div>
-                    )}
-                  </div>
+                  <ShipmentList
+                    shipments={order.shipments}
+                    unshippedCount={
+                      order.status === "partially_shipped"
+                        ? Object.values(
+                            getUnshippedQuantities(order.items, order.shipments)
+                          ).reduce((sum, quantity) => sum + quantity, 0)
+                        : 0
+                    }
+                  />
                 </div>
               </div>
             )}
@@ -389,6 +371,13 @@ export default function OrderLookupPage() {
                 </div>
               </div>
             </div>
+
+            <OrderSelfService
+              order={order}
+              email={email.trim()}
+              onChange={refreshOrder}
+              className="border-t pt-4 mt-4"
+            />
           </div>
         )}
 
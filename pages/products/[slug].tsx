@@ -7,10 +7,17 @@ import { StockNotificationSignup } from "@/components/stock-notification-signup"
 import { useToast } from "@/components/ui/toast";
 import { useAuth } from "@/contexts/auth-context";
 import { useCart } from "@/contexts/cart-context";
+import { useCurrency } from "@/contexts/currency-context";
+import { CategoryBreadcrumb } from "@/lib/category-utils";
+import {
+  formatVariantTitle,
+  isOptionValueSoldOut,
+} from "@/lib/option-inventory-utils";
+import { formatSaleEndsAt, getPercentOff } from "@/lib/pricing-utils";
 import { cleanProductTitle } from "@/lib/utils";
 import Link from "next/link";
 import { useRouter } from "next/router";
-import { useEffect, useState } from "react";
+import { Fragment, useEffect, useState } from "react";
 
 interface Variant {
   id: string;
@@ -42,6 +49,7 @@ interface ProductOption {
     price_adjustment: number;
     is_default: boolean;
     is_sold_out: boolean;
+    quantity_available?: number | null;
     sort_order: number;
   }>;
 }
@@ -53,6 +61,10 @@ interface Product {
   description: string;
   image?: string;
   base_price?: string;
+  price?: string | null; // Current price, the sale price during a sale
+  compare_at_price?: string | null;
+  currency?: string | null; // Currency price and compare_at_price are in
+  sale_ends_at?: string | null;
   status: "active" | "inactive" | "draft";
   created_at: string;
   updated_at: string;
@@ -68,6 +80,7 @@ interface Product {
     name: string;
     slug: string;
   }>;
+  breadcrumbs?: CategoryBreadcrumb[]; // Path to its most specific category
   crystals?: Crystal[];
   options?: ProductOption[];
   tags?: Array<{
@@ -83,6 +96,7 @@ interface ProductResponse {
 
 export default function ProductDetailPage() {
   const { addToCart: addToCartContext } = useCart();
+  const { currency, formatPrice } = useCurrency();
   const { addToast } = useToast();
   const { user } = useAuth();
   const [product, setProduct] = useState<Product | null>(null);
@@ -122,13 +136,19 @@ export default function ProductDetailPage() {
 
       setProduct(data.data);
 
-      // Initialize selected options with default values
+      // Initialize selected options with default values, skipping to the
+      // first value still in stock when the default has sold out
       if (data.data.options && data.data.options.length > 0) {
         const initialOptions: Record<string, string> = {};
         data.data.options.forEach((option) => {
           const defaultValue = option.values.find((v) => v.is_default);
-          if (defaultValue) {
-            initialOptions[option.id] = defaultValue.id;
+          const initialValue =
+            defaultValue && isOptionValueSoldOut(defaultValue)
+              ? option.values.find((v) => !isOptionValueSoldOut(v)) ||
+                defaultValue
+              : defaultValue;
+          if (initialValue) {
+            initialOptions[option.id] = initialValue.id;
           }
         });
         setSelectedOptions(initialOptions);
@@ -139,9 +159,11 @@ export default function ProductDetailPage() {
         id: data.data.id,
         sku: data.data.slug,
         title: data.data.title,
-        price: parseFloat(data.data.base_price || "0"),
-        compare_at_price: undefined,
-        currency: "USD",
+        price: parseFloat(data.data.price ?? data.data.base_price ?? "0"),
+        compare_at_price: data.data.compare_at_price
+          ? parseFloat(data.data.compare_at_price)
+          : undefined,
+        currency: data.data.currency || currency,
         quantity_available: 10, // Default stock
       };
       setSelectedVariant(virtualVariant);
@@ -175,15 +197,21 @@ export default function ProductDetailPage() {
     setShowEditModal(false);
   };
 
-  const formatPrice = (price: number, currency: string = "USD") => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: currency,
-    }).format(price);
+  // The first selected option value that has sold out, if any
+  const getSoldOutSelection = () => {
+    for (const option of product?.options || []) {
+      const value = option.values.find(
+        (v) => v.id === selectedOptions[option.id]
+      );
+      if (value && isOptionValueSoldOut(value)) {
+        return { option, value };
+      }
+    }
+    return null;
   };
 
   const addToCart = async () => {
-    if (!product) return;
+    if (!product || getSoldOutSelection()) return;
 
     // Convert selectedOptions to the format expected by cart context (option name -> value name)
     const selectedOptionsForCart: Record<string, string> = {};
@@ -215,8 +243,8 @@ export default function ProductDetailPage() {
   const getTotalPrice = () => {
     if (!product) return 0;
 
-    // Use product base price instead of variant price
-    const basePrice = parseFloat(product.base_price || "0");
+    // Use the product's current price instead of variant price
+    const basePrice = parseFloat(product.price ?? product.base_price ?? "0");
 
     // Add price adjustments from selected options
     let optionsAdjustment = 0;
@@ -242,7 +270,7 @@ export default function ProductDetailPage() {
   const getPriceRange = () => {
     if (!product) return { min: 0, max: 0, hasRange: false };
 
-    const basePrice = parseFloat(product.base_price || "0");
+    const basePrice = parseFloat(product.price ?? product.base_price ?? "0");
 
     if (!product.options || product.options.length === 0) {
       return { min: basePrice, max: basePrice, hasRange: false };
@@ -279,6 +307,19 @@ export default function ProductDetailPage() {
     return { min, max, hasRange };
   };
 
+  // "Was" price of the current selection while a sale is running
+  const getCompareAtPrice = () => {
+    if (
+      !product?.price ||
+      !getPercentOff(product.price, product.compare_at_price)
+    )
+      return null;
+    return (
+      parseFloat(product.compare_at_price!) +
+      (getTotalPrice() - parseFloat(product.price))
+    );
+  };
+
   // Prepare images for carousel
   const getCarouselImages = () => {
     if (!product) return [];
@@ -359,6 +400,8 @@ export default function ProductDetailPage() {
     );
   }
 
+  const soldOutSelection = getSoldOutSelection();
+
   return (
     <div className="min-h-screen bg-muted">
       <Header />
@@ -380,6 +423,17 @@ export default function ProductDetailPage() {
               Products
             </Link>
             <span>/</span>
+            {product.breadcrumbs?.map((crumb) => (
+              <Fragment key={crumb.slug}>
+                <Link
+                  href={`/categories/${crumb.slug}`}
+                  className="hover:text-foreground transition-colors duration-200 whitespace-nowrap"
+                >
+                  {crumb.name}
+                </Link>
+                <span>/</span>
+              </Fragment>
+            ))}
             <span className="text-foreground truncate">
               {cleanProductTitle(product.title)}
             </span>
@@ -547,9 +601,28 @@ export default function ProductDetailPage() {
                   <div className="flex items-baseline justify-between">
                     <div className="flex items-baseline gap-2 sm:gap-3">
                       <span className="text-2xl sm:text-3xl font-bold text-foreground">
-                        {formatPrice(getTotalPrice(), "USD")}
+                        {formatPrice(getTotalPrice())}
                       </span>
+                      {getCompareAtPrice() !== null && (
+                        <>
+                          <span className="text-base sm:text-lg text-muted-foreground line-through">
+                            {formatPrice(getCompareAtPrice()!)}
+                          </span>
+                          <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-destructive text-primary-foreground">
+                            {getPercentOff(
+                              product.price!,
+                              product.compare_at_price
+                            )}
+                            % off
+                          </span>
+                        </>
+                      )}
                     </div>
+                    {getCompareAtPrice() !== null && product.sale_ends_at && (
+                      <span className="text-xs sm:text-sm text-destructive font-medium">
+                        {formatSaleEndsAt(product.sale_ends_at)}
+                      </span>
+                    )}
                   </div>
 
                   {/* Options - Unified system for all product options */}
@@ -565,6 +638,7 @@ export default function ProductDetailPage() {
                             id: value.id,
                             label: value.name,
                             priceAdjustment: value.price_adjustment,
+                            isSoldOut: isOptionValueSoldOut(value),
                           }));
 
                           const selectedValue = optionValues.find(
@@ -583,7 +657,7 @@ export default function ProductDetailPage() {
                                   [option.id]: value.id,
                                 }));
                               }}
-                              currency="USD"
+                              currency={currency}
                               useDropdown={optionValues.length > 5}
                             />
                           );
@@ -622,22 +696,41 @@ export default function ProductDetailPage() {
                     </div>
                     <button
                       onClick={addToCart}
-                      disabled={false}
+                      disabled={!!soldOutSelection}
                       className="w-full bg-gradient-to-r from-primary to-primary/80 text-primary-foreground py-3 sm:py-4 px-4 rounded-lg font-semibold hover:from-primary/90 hover:to-primary/70 disabled:bg-muted disabled:cursor-not-allowed transition-all duration-200 shadow-sm hover:shadow-md text-base sm:text-lg"
                     >
                       Add to Cart
                     </button>
                     <div className="flex items-center gap-2 text-sm">
-                      <div className="w-2 h-2 rounded-full bg-primary" />
-                      <span className="text-muted-foreground">In stock</span>
+                      <div
+                        className={`w-2 h-2 rounded-full ${
+                          soldOutSelection ? "bg-destructive" : "bg-primary"
+                        }`}
+                      />
+                      <span className="text-muted-foreground">
+                        {soldOutSelection
+                          ? `${soldOutSelection.value.name} is sold out`
+                          : "In stock"}
+                      </span>
                     </div>
                   </div>
 
-                  {/* Stock Notification Signup */}
+                  {/* Stock Notification Signup - per variant when an option has sold out */}
                   <StockNotificationSignup
+                    key={
+                      soldOutSelection
+                        ? `${soldOutSelection.option.name}:${soldOutSelection.value.name}`
+                        : "product"
+                    }
                     productSlug={product.slug}
-                    productTitle={product.title}
-                    isOutOfStock={false}
+                    productTitle={formatVariantTitle(
+                      product.title,
+                      soldOutSelection?.option.display_name,
+                      soldOutSelection?.value.name
+                    )}
+                    isOutOfStock={!!soldOutSelection}
+                    optionName={soldOutSelection?.option.name}
+                    optionValue={soldOutSelection?.value.name}
                   />
                 </div>
               )}
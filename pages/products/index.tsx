@@ -1,9 +1,20 @@
+import { CatalogFilterSidebar } from "@/components/catalog-filter-sidebar";
 import { InfiniteProductGrid } from "@/components/infinite-product-grid";
 import { Footer } from "@/components/layout/footer";
 import { Header } from "@/components/layout/header";
 import { SearchControls } from "@/components/search-controls";
+import {
+  CatalogFacets,
+  CatalogFilters,
+  EMPTY_CATALOG_FILTERS,
+  parseCatalogFilters,
+  setCatalogFilterParams,
+} from "@/lib/catalog-filter-utils";
+import { CategoryBreadcrumb } from "@/lib/category-utils";
+import { PriceHistogram } from "@/lib/pricing-utils";
+import { HighlightSegment } from "@/lib/search-utils";
 import Link from "next/link";
-import { useCallback, useEffect, useState } from "react";
+import { Fragment, useCallback, useEffect, useState } from "react";
 
 interface Product {
   id: string;
@@ -26,6 +37,10 @@ interface Product {
     name: string;
     color: string;
   }>;
+  highlights?: {
+    title: HighlightSegment[];
+    snippet: HighlightSegment[];
+  } | null; // Set for search results
 }
 
 interface Category {
@@ -33,6 +48,7 @@ interface Category {
   name: string;
   slug: string;
   description?: string;
+  path: CategoryBreadcrumb[]; // From the top level down to this category
 }
 
 interface ProductsResponse {
@@ -46,6 +62,8 @@ interface ProductsResponse {
     hasPrev: boolean;
   };
   category?: Category;
+  price_histogram: PriceHistogram | null;
+  facets: CatalogFacets;
 }
 
 // Products page component
@@ -62,6 +80,13 @@ function ProductsPageContent() {
   const [hasMore, setHasMore] = useState(true);
   const [initialLoad, setInitialLoad] = useState(true);
   const [category, setCategory] = useState<Category | null>(null);
+  const [minPrice, setMinPrice] = useState<number | null>(null);
+  const [maxPrice, setMaxPrice] = useState<number | null>(null);
+  const [priceHistogram, setPriceHistogram] = useState<PriceHistogram | null>(
+    null
+  );
+  const [filters, setFilters] = useState<CatalogFilters>(EMPTY_CATALOG_FILTERS);
+  const [facets, setFacets] = useState<CatalogFacets | null>(null);
 
   // Initialize from URL parameters and localStorage
   useEffect(() => {
@@ -73,17 +98,16 @@ function ProductsPageContent() {
       urlParams.get("in_stock_only") === "true" ||
       localStorage.getItem("inStockOnly") === "true";
     const page = parseInt(urlParams.get("page") || "1");
-    const categorySlug = urlParams.get("category");
+    const minPriceParam = urlParams.get("min_price");
+    const maxPriceParam = urlParams.get("max_price");
 
     setSearchQuery(q);
     setSortBy(sort);
     setInStockOnly(inStock);
+    setMinPrice(minPriceParam ? Number(minPriceParam) : null);
+    setMaxPrice(maxPriceParam ? Number(maxPriceParam) : null);
+    setFilters(parseCatalogFilters(urlParams));
     setCurrentPage(page);
-
-    // Reset category when URL changes
-    if (!categorySlug) {
-      setCategory(null);
-    }
   }, []);
 
   // Listen for search updates from SearchControls
@@ -93,10 +117,14 @@ function ProductsPageContent() {
         searchQuery: newQuery,
         sortBy: newSort,
         inStockOnly: newInStockOnly,
+        minPrice: newMinPrice,
+        maxPrice: newMaxPrice,
       } = event.detail;
       setSearchQuery(newQuery);
       setSortBy(newSort);
       setInStockOnly(newInStockOnly);
+      setMinPrice(newMinPrice);
+      setMaxPrice(newMaxPrice);
       setCurrentPage(1);
       setProducts([]); // Reset products for new search
       setHasMore(true);
@@ -120,7 +148,20 @@ function ProductsPageContent() {
     // On query/sort change, reset to page 1 and fetch
     setCurrentPage(1);
     fetchProducts(true, 1);
-  }, [searchQuery, sortBy, inStockOnly]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [searchQuery, sortBy, inStockOnly, minPrice, maxPrice, filters]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Facet selections live in the URL so filtered listings can be shared
+  const handleFiltersChange = (newFilters: CatalogFilters) => {
+    const url = new URL(window.location.href);
+    setCatalogFilterParams(url.searchParams, newFilters);
+    url.searchParams.set("page", "1");
+    window.history.pushState({}, "", url.toString());
+
+    setFilters(newFilters);
+    setProducts([]);
+    setHasMore(true);
+    setTotalCount(0);
+  };
 
   const fetchProducts = async (isInitial = false, pageParam?: number) => {
     try {
@@ -144,13 +185,16 @@ function ProductsPageContent() {
         params.append("in_stock_only", "true");
       }
 
-      // Add category parameter if present in URL
-      const urlParams = new URLSearchParams(window.location.search);
-      const categorySlug = urlParams.get("category");
-      if (categorySlug) {
-        params.append("category", categorySlug);
+      if (minPrice !== null) {
+        params.append("min_price", minPrice.toString());
+      }
+
+      if (maxPrice !== null) {
+        params.append("max_price", maxPrice.toString());
       }
 
+      setCatalogFilterParams(params, filters);
+
       const response = await fetch(`/api/products?${params}`);
 
       if (!response.ok) {
@@ -162,11 +206,11 @@ function ProductsPageContent() {
 
       if (isInitial) {
         setProducts(data.data);
-        if (data.category) {
-          setCategory(data.category);
-        }
+        setCategory(data.category || null);
+        setFacets(data.facets);
         // Only update totalCount on initial load to prevent it from changing during infinite scroll
         setTotalCount(data.pagination.totalCount);
+        setPriceHistogram(data.price_histogram);
       } else {
         setProducts((prev) => [...prev, ...data.data]);
       }
@@ -219,6 +263,17 @@ function ProductsPageContent() {
               >
                 Categories
               </Link>
+              {category.path.slice(0, -1).map((crumb) => (
+                <Fragment key={crumb.slug}>
+                  <span>/</span>
+                  <Link
+                    href={`/categories/${crumb.slug}`}
+                    className="hover:text-foreground transition-colors duration-200 whitespace-nowrap"
+                  >
+                    {crumb.name}
+                  </Link>
+                </Fragment>
+              ))}
               <span>/</span>
               <span className="text-foreground truncate">{category.name}</span>
             </nav>
@@ -235,35 +290,53 @@ function ProductsPageContent() {
           </div>
 
           {/* Search and Filters */}
-          <SearchControls key="search-controls" />
-
-          {/* Results count - separate from search controls to prevent re-renders */}
-          <div className="text-xs sm:text-sm text-muted-foreground mb-4 sm:mb-6 px-1">
-            {totalCount} products found
-          </div>
+          <SearchControls
+            key="search-controls"
+            priceHistogram={priceHistogram}
+            inStockCount={facets?.inStock}
+          />
 
-          {/* Inline loading indicator for subsequent fetches */}
-          {!initialLoad && loading && (
-            <div className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground mb-4 sm:mb-6 px-1">
-              <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-primary"></div>
-              Updating results...
+          <div className="lg:grid lg:grid-cols-[16rem_1fr] lg:gap-6 lg:items-start">
+            <div className="mb-4 sm:mb-6 lg:mb-0">
+              <CatalogFilterSidebar
+                facets={facets}
+                filters={filters}
+                onChange={handleFiltersChange}
+              />
             </div>
-          )}
 
-          {error && (
-            <div className="bg-accent border border-border rounded-xl p-3 sm:p-4 mb-6 sm:mb-8">
-              <p className="text-sm sm:text-base text-destructive">{error}</p>
-            </div>
-          )}
+            <div>
+              {/* Results count - separate from search controls to prevent re-renders */}
+              <div className="text-xs sm:text-sm text-muted-foreground mb-4 sm:mb-6 px-1">
+                {totalCount} products found
+              </div>
 
-          {/* Products Grid */}
-          <InfiniteProductGrid
-            products={products}
-            loading={loading}
-            hasMore={hasMore}
-            onLoadMore={loadMore}
-            showDescription={true}
-          />
+              {/* Inline loading indicator for subsequent fetches */}
+              {!initialLoad && loading && (
+                <div className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground mb-4 sm:mb-6 px-1">
+                  <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-primary"></div>
+                  Updating results...
+                </div>
+              )}
+
+              {error && (
+                <div className="bg-accent border border-border rounded-xl p-3 sm:p-4 mb-6 sm:mb-8">
+                  <p className="text-sm sm:text-base text-destructive">
+                    {error}
+                  </p>
+                </div>
+              )}
+
+              {/* Products Grid */}
+              <InfiniteProductGrid
+                products={products}
+                loading={loading}
+                hasMore={hasMore}
+                onLoadMore={loadMore}
+                showDescription={true}
+              />
+            </div>
+          </div>
         </div>
       </main>
       <Footer />
@@ -556,32 +556,6 @@ class APIPerformanceTester {
     );
     this.metrics.push(validateMetric);
 
-    // Test guest checkout (POST method with full checkout data)
-    const guestCheckoutMetric = await this.makeRequest(
-      "/api/checkout/guest",
-      "POST",
-      {
-        cartItems: [
-          {
-            product_id: "test-product-id",
-            quantity: 1,
-            selected_options: {},
-          },
-        ],
-        shippingAddress: {
-          name: "Test User",
-          line1: "123 Test St",
-          city: "Test City",
-          region: "Test State",
-          postal_code: "12345",
-          country: "US",
-        },
-        guestEmail: "test@example.com",
-        useSameAddress: true,
-      }
-    );
-    this.metrics.push(guestCheckoutMetric);
-
     // Test checkout submit (POST method with authenticated user)
     const submitMetric = await this.makeRequest(
       "/api/checkout/submit",
@@ -159,28 +159,48 @@ class PagePerformanceTester {
 
       // Create test orders (if we have products)
       if (this.testData.products.length > 0) {
-        const orderData = {
-          cartItems: [
-            {
-              product_id: this.testData.products[0].id,
-              quantity: 1,
-              selected_options: {},
-            },
-          ],
-          shippingAddress: {
-            name: "Test User",
-            line1: "123 Test St",
-            city: "Test City",
-            region: "Test State",
-            postal_code: "12345",
-            country: "US",
+        const cartItems = [
+          {
+            product_id: this.testData.products[0].id,
+            quantity: 1,
+            selected_options: {},
           },
+        ];
+        const shippingAddress = {
+          name: "Test User",
+          line1: "123 Test St",
+          city: "Test City",
+          region: "Test State",
+          postal_code: "12345",
+          country: "US",
+        };
+
+        // Checkout needs a shipping rate that serves the address
+        const validateResponse = await fetch(
+          `${this.baseUrl}/api/checkout/validate`,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ items: cartItems, shippingAddress }),
+          }
+        );
+        const validateResult = validateResponse.ok
+          ? await validateResponse.json()
+          : null;
+
+        const orderData = {
+          cartItems,
+          shippingAddress,
+          shippingRateId: validateResult?.shippingOptions?.[0]?.rateId,
+          paymentMethodId: "pm_fake_visa", // Needs PAYMENT_PROVIDER=fake
           guestEmail: "test@example.com",
           useSameAddress: true,
         };
 
         const createOrderResponse = await fetch(
-          `${this.baseUrl}/api/checkout/guest`,
+          `${this.baseUrl}/api/checkout/submit`,
           {
             method: "POST",
             headers: {
@@ -0,0 +1,85 @@
+/**
+ * Send Fake Payment Webhook Script
+ *
+ * Simulates a payment provider webhook for an order when running with
+ * PAYMENT_PROVIDER=fake, so order status transitions can be
+ * exercised without a real provider. The dev server must be running.
+ *
+ * Usage:
+ *   tsx scripts/send-fake-payment-webhook.ts <order-number> <event-type> [amount]
+ *
+ * Event types: payment.authorized, payment.succeeded, payment.failed,
+ *              payment.canceled, payment.refunded (amount in cents)
+ */
+
+import { config } from "dotenv";
+import { eq } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../src/lib/db";
+import { orders } from "../src/lib/db/schema";
+import {
+  FAKE_WEBHOOK_SIGNATURE_HEADER,
+  signFakeWebhookPayload,
+} from "../src/lib/payments/fake-provider";
+
+// Load environment variables
+config({ path: ".env.local" });
+
+const EVENT_TYPES = [
+  "payment.authorized",
+  "payment.succeeded",
+  "payment.failed",
+  "payment.canceled",
+  "payment.refunded",
+];
+
+async function main() {
+  const [orderNumber, eventType, amount] = process.argv.slice(2);
+
+  if (!orderNumber || !EVENT_TYPES.includes(eventType)) {
+    console.error(
+      "Usage: tsx scripts/send-fake-payment-webhook.ts <order-number> <event-type> [amount]"
+    );
+    console.error(`Event types: ${EVENT_TYPES.join(", ")}`);
+    process.exit(1);
+  }
+
+  const [order] = await db
+    .select({ id: orders.id, payment_intent_id: orders.payment_intent_id })
+    .from(orders)
+    .where(eq(orders.order_number, orderNumber))
+    .limit(1);
+
+  if (!order?.payment_intent_id) {
+    console.error(`❌ Order ${orderNumber} not found or has no payment intent`);
+    process.exit(1);
+  }
+
+  const payload = JSON.stringify({
+    id: `evt_fake_${uuidv4()}`,
+    type: eventType,
+    data: {
+      intent_id: order.payment_intent_id,
+      amount: amount ? parseInt(amount, 10) : undefined,
+    },
+  });
+
+  const siteUrl = process.env.SITE_URL || "http://localhost:3000";
+  const response = await fetch(`${siteUrl}/api/webhooks/payment`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [FAKE_WEBHOOK_SIGNATURE_HEADER]: signFakeWebhookPayload(payload),
+    },
+    body: payload,
+  });
+
+  console.log(`📨 ${eventType} → ${response.status}`);
+  console.log(await response.json());
+  process.exit(response.ok ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error("❌ Failed to send webhook:", error);
+  process.exit(1);
+});
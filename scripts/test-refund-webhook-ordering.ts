@@ -0,0 +1,152 @@
+/**
+ * Refund Webhook Ordering Test
+ *
+ * Checks that a payment.refunded webhook arriving while an admin refund is
+ * still pending leaves the order alone, so the refund closes it with the
+ * status and restock choice it was issued with. Runs the refund in the same
+ * steps issueRefund does, with the webhook delivered before it settles.
+ *
+ * Needs the dev server running with PAYMENT_PROVIDER=fake and a paid order
+ * charged by card. The order ends up cancelled, so use a disposable one.
+ *
+ * Usage:
+ *   tsx scripts/test-refund-webhook-ordering.ts <order-number>
+ */
+
+import { config } from "dotenv";
+import { eq } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../src/lib/db";
+import { customers, orders } from "../src/lib/db/schema";
+import { applyOrderStatusHooks } from "../src/lib/order-status";
+import { toMinorUnits } from "../src/lib/payments";
+import {
+  FAKE_WEBHOOK_SIGNATURE_HEADER,
+  signFakeWebhookPayload,
+} from "../src/lib/payments/fake-provider";
+import {
+  completeRefund,
+  getOrderRefundSummary,
+  reserveRefund,
+} from "../src/lib/refunds";
+
+// Load environment variables
+config({ path: ".env.local" });
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(message);
+  }
+  console.log(`✅ ${message}`);
+}
+
+async function getOrder(orderNumber: string) {
+  const [order] = await db
+    .select({
+      id: orders.id,
+      status: orders.status,
+      payment_intent_id: orders.payment_intent_id,
+      restocked_at: orders.restocked_at,
+    })
+    .from(orders)
+    .where(eq(orders.order_number, orderNumber))
+    .limit(1);
+  return order;
+}
+
+async function main() {
+  const [orderNumber] = process.argv.slice(2);
+
+  if (!orderNumber) {
+    console.error(
+      "Usage: tsx scripts/test-refund-webhook-ordering.ts <order-number>"
+    );
+    process.exit(1);
+  }
+
+  const order = await getOrder(orderNumber);
+  if (order?.status !== "paid" || !order.payment_intent_id) {
+    console.error(`❌ Order ${orderNumber} not found, not paid or not charged`);
+    process.exit(1);
+  }
+
+  const [admin] = await db
+    .select({ id: customers.id })
+    .from(customers)
+    .where(eq(customers.role, "admin"))
+    .limit(1);
+  if (!admin) {
+    console.error("❌ No admin account to issue the refund as");
+    process.exit(1);
+  }
+
+  // 1. Reserve a full refund, as issueRefund does before calling the provider
+  const summary = await getOrderRefundSummary(db, order.id);
+  const reservation = await db.transaction((tx) =>
+    reserveRefund(tx, {
+      orderId: order.id,
+      amount: summary?.refundable ?? 0,
+      items: null,
+      reason: "other",
+      note: "Refund webhook ordering test",
+      createdBy: admin.id,
+    })
+  );
+  if (!reservation.success) {
+    throw new Error(`Could not reserve the refund: ${reservation.error}`);
+  }
+  const { refund, currency } = reservation;
+
+  // 2. The provider's webhook for that refund arrives before it settles
+  const payload = JSON.stringify({
+    id: `evt_fake_${uuidv4()}`,
+    type: "payment.refunded",
+    data: {
+      intent_id: order.payment_intent_id,
+      amount: toMinorUnits(parseFloat(refund.payment_amount), currency),
+    },
+  });
+
+  const siteUrl = process.env.SITE_URL || "http://localhost:3000";
+  const response = await fetch(`${siteUrl}/api/webhooks/payment`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [FAKE_WEBHOOK_SIGNATURE_HEADER]: signFakeWebhookPayload(payload),
+    },
+    body: payload,
+  });
+  const result = await response.json();
+
+  assert(response.ok, `Webhook accepted (${response.status})`);
+  assert(!result.transition, "Webhook made no status transition");
+  assert(
+    (await getOrder(orderNumber)).status === "paid",
+    "Order still paid while the refund is pending"
+  );
+
+  // 3. The refund settles, closing the order as cancelled without restocking
+  const transition = await db.transaction(async (tx) => {
+    const transition = await completeRefund(tx, refund.id, {
+      actor: { id: admin.id, type: "admin" },
+      source: "admin",
+      closeAs: "cancelled",
+    });
+    if (transition) {
+      await applyOrderStatusHooks(tx, transition, { restock: false });
+    }
+    return transition;
+  });
+
+  const settled = await getOrder(orderNumber);
+  assert(transition?.to === "cancelled", "Refund closed the order");
+  assert(settled.status === "cancelled", "Order is cancelled, not refunded");
+  assert(settled.restocked_at === null, "Order was not restocked");
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("❌ Test failed:", error);
+  process.exit(1);
+});
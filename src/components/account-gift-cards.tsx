@@ -0,0 +1,184 @@
+import {
+  formatGiftCardCode,
+  getGiftCardSourceLabel,
+  GiftCardSource,
+} from "@/lib/gift-card-utils";
+import { formatPrice } from "@/lib/utils";
+import { useEffect, useState } from "react";
+
+interface AccountGiftCard {
+  id: string;
+  code: string;
+  source: GiftCardSource;
+  initial_balance: number;
+  balance: number;
+  created_at: string;
+}
+
+interface GiftCardBalance {
+  code: string; // Masked
+  source: GiftCardSource;
+  balance: number;
+  currency: string;
+}
+
+/**
+ * Gift cards and store credit on the customer's account, plus a balance
+ * lookup for codes received from someone else
+ */
+export function AccountGiftCards() {
+  const [giftCards, setGiftCards] = useState<AccountGiftCard[]>([]);
+  const [currency, setCurrency] = useState("USD");
+  const [loading, setLoading] = useState(true);
+  const [lookupCode, setLookupCode] = useState("");
+  const [lookupResult, setLookupResult] = useState<GiftCardBalance | null>(
+    null
+  );
+  const [lookupError, setLookupError] = useState("");
+  const [isLookingUp, setIsLookingUp] = useState(false);
+
+  useEffect(() => {
+    const fetchGiftCards = async () => {
+      try {
+        const response = await fetch("/api/gift-cards", {
+          credentials: "include",
+        });
+        if (response.ok) {
+          const result = await response.json();
+          setGiftCards(result.data.giftCards);
+          setCurrency(result.data.currency);
+        }
+      } catch (error) {
+        console.error("Error fetching gift cards:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchGiftCards();
+  }, []);
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!lookupCode.trim() || isLookingUp) return;
+
+    setIsLookingUp(true);
+    setLookupError("");
+    setLookupResult(null);
+
+    try {
+      const response = await fetch("/api/gift-cards/balance", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ code: lookupCode }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Gift card not found");
+      }
+
+      setLookupResult(result.data.giftCard);
+    } catch (error) {
+      setLookupError(
+        error instanceof Error ? error.message : "Gift card not found"
+      );
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const totalBalance = giftCards.reduce(
+    (sum, giftCard) => sum + giftCard.balance,
+    0
+  );
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border p-6">
+      <div className="flex items-baseline justify-between mb-4">
+        <h2 className="text-xl font-semibold text-foreground">
+          Gift Cards &amp; Store Credit
+        </h2>
+        {giftCards.length > 0 && (
+          <span className="text-sm text-muted-foreground">
+            {formatPrice(totalBalance, currency)} available
+          </span>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : giftCards.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          You don&apos;t have any gift cards or store credit yet.
+        </p>
+      ) : (
+        <div className="divide-y divide-border">
+          {giftCards.map((giftCard) => (
+            <div
+              key={giftCard.id}
+              className="flex items-center justify-between py-3"
+            >
+              <div className="min-w-0">
+                <p className="font-mono text-sm text-foreground">
+                  {formatGiftCardCode(giftCard.code)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {getGiftCardSourceLabel(giftCard.source)} ·{" "}
+                  {new Date(giftCard.created_at).toLocaleDateString()}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="font-medium text-foreground">
+                  {formatPrice(giftCard.balance, currency)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  of {formatPrice(giftCard.initial_balance, currency)}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleLookup} className="mt-6">
+        <label className="block text-sm font-medium text-muted-foreground mb-2">
+          Check a gift card balance
+        </label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={lookupCode}
+            onChange={(e) => {
+              setLookupCode(e.target.value);
+              setLookupError("");
+            }}
+            placeholder="Gift card code"
+            className="flex-1 min-w-0 px-3 py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary text-sm uppercase"
+          />
+          <button
+            type="submit"
+            disabled={!lookupCode.trim() || isLookingUp}
+            className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLookingUp ? "Checking..." : "Check"}
+          </button>
+        </div>
+        {lookupError && (
+          <p className="mt-1 text-sm text-destructive">{lookupError}</p>
+        )}
+        {lookupResult && (
+          <p className="mt-2 text-sm text-foreground">
+            <span className="font-mono">{lookupResult.code}</span>:{" "}
+            <span className="font-medium">
+              {formatPrice(lookupResult.balance, lookupResult.currency)}
+            </span>{" "}
+            remaining
+          </p>
+        )}
+      </form>
+    </div>
+  );
+}
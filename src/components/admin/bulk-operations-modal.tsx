@@ -1,3 +1,9 @@
+import {
+  emptySaleSchedule,
+  SaleScheduleFields,
+  SaleScheduleValues,
+  toSaleScheduleRequest,
+} from "@/components/admin/sale-schedule-modal";
 import { useState } from "react";
 
 interface BulkOperationsModalProps {
@@ -24,6 +30,7 @@ export function BulkOperationsModal({
   const [basePrice, setBasePrice] = useState<number>(0);
   const [priceAdjustment, setPriceAdjustment] = useState<number>(0);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [sale, setSale] = useState<SaleScheduleValues>(emptySaleSchedule);
   const [processing, setProcessing] = useState(false);
 
   if (!isOpen) return null;
@@ -55,6 +62,14 @@ export function BulkOperationsModal({
         case "adjust_price":
           data = { adjustment: priceAdjustment };
           break;
+        case "schedule_sale":
+          if (!(parseFloat(sale.value) > 0)) {
+            alert("Please enter the sale discount");
+            setProcessing(false);
+            return;
+          }
+          data = toSaleScheduleRequest(sale);
+          break;
         case "add_tags":
         case "remove_tags":
           if (selectedTags.length === 0) {
@@ -114,6 +129,7 @@ export function BulkOperationsModal({
     setBasePrice(0);
     setPriceAdjustment(0);
     setSelectedTags([]);
+    setSale(emptySaleSchedule);
   };
 
   const handleClose = () => {
@@ -174,6 +190,8 @@ export function BulkOperationsModal({
               <optgroup label="Pricing">
                 <option value="update_price">Set Base Price</option>
                 <option value="adjust_price">Adjust Price (+/-)</option>
+                <option value="schedule_sale">Schedule Sale</option>
+                <option value="end_sales">End Sales</option>
               </optgroup>
               <optgroup label="Tags">
                 <option value="add_tags">Add Tags</option>
@@ -265,6 +283,16 @@ export function BulkOperationsModal({
             </div>
           )}
 
+          {operation === "schedule_sale" && (
+            <SaleScheduleFields values={sale} onChange={setSale} />
+          )}
+
+          {operation === "end_sales" && (
+            <p className="text-sm text-muted-foreground">
+              Running sales end now and upcoming sales are cancelled.
+            </p>
+          )}
+
           {(operation === "add_tags" || operation === "remove_tags") && (
             <div>
               <label className="block text-sm font-medium text-foreground mb-2">
@@ -0,0 +1,725 @@
+import { Button } from "@/components/ui/button";
+import {
+  closestCenter,
+  DndContext,
+  DragEndEvent,
+  DragMoveEvent,
+  DragOverlay,
+  DragStartEvent,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  SortingStrategy,
+  useSortable,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CategoryNode,
+  getCategoryPlacements,
+  wouldCreateCategoryCycle,
+} from "@/lib/category-utils";
+import { slugify } from "@/lib/utils";
+import { useCallback, useEffect, useState } from "react";
+
+interface AdminCategory {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  thumbnail: string | null;
+  parent_id: string | null;
+  sort_order: number;
+  product_count: number;
+}
+
+type AdminCategoryNode = CategoryNode<AdminCategory>;
+
+interface CategoryFormData {
+  name: string;
+  slug: string;
+  description: string;
+  thumbnail: string;
+  parent_id: string | null;
+}
+
+// Where a dragged category lands relative to the row it is dropped on
+type DropPosition = "before" | "inside" | "after";
+
+const EMPTY_FORM: CategoryFormData = {
+  name: "",
+  slug: "",
+  description: "",
+  thumbnail: "",
+  parent_id: null,
+};
+
+function flattenTree(tree: AdminCategoryNode[]): AdminCategoryNode[] {
+  return tree.flatMap((node) => [node, ...flattenTree(node.children)]);
+}
+
+/**
+ * The tree with the dragged category moved next to, or into, the target
+ */
+function moveCategory(
+  tree: AdminCategoryNode[],
+  draggedId: string,
+  targetId: string,
+  position: DropPosition
+): AdminCategoryNode[] {
+  const dragged = flattenTree(tree).find((node) => node.id === draggedId);
+  if (!dragged) return tree;
+
+  const without = (nodes: AdminCategoryNode[]): AdminCategoryNode[] =>
+    nodes
+      .filter((node) => node.id !== draggedId)
+      .map((node) => ({ ...node, children: without(node.children) }));
+  const insert = (nodes: AdminCategoryNode[]): AdminCategoryNode[] =>
+    nodes.flatMap((node) => {
+      if (node.id !== targetId) {
+        return [{ ...node, children: insert(node.children) }];
+      }
+      if (position === "inside") {
+        return [{ ...node, children: [...node.children, dragged] }];
+      }
+      return position === "before" ? [dragged, node] : [node, dragged];
+    });
+
+  return insert(without(tree));
+}
+
+// Rows stay put while dragging; the drop indicator shows where the category
+// will land instead
+const keepRowsInPlace: SortingStrategy = () => null;
+
+function CategoryThumbnail({ src }: { src: string | null }) {
+  return src ? (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img src={src} alt="" className="h-8 w-8 rounded object-cover" />
+  ) : (
+    <div className="h-8 w-8 rounded bg-muted" />
+  );
+}
+
+function SortableCategoryRow({
+  category,
+  depth,
+  dropPosition,
+  onCreate,
+  onEdit,
+  onDelete,
+}: {
+  category: AdminCategoryNode;
+  depth: number;
+  dropPosition: DropPosition | null;
+  onCreate: (parentId: string) => void;
+  onEdit: (category: AdminCategoryNode) => void;
+  onDelete: (category: AdminCategoryNode) => void;
+}) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    setActivatorNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: category.id });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{
+        transform: CSS.Transform.toString(transform),
+        transition,
+        paddingLeft: `${0.75 + depth * 1.5}rem`,
+      }}
+      className={`flex items-center gap-3 px-3 py-2 border-b border-border bg-card transition-colors ${
+        isDragging ? "opacity-50" : ""
+      } ${dropPosition === "inside" ? "bg-primary/10" : "hover:bg-muted/50"} ${
+        dropPosition === "before" ? "border-t-2 border-t-primary" : ""
+      } ${dropPosition === "after" ? "border-b-2 border-b-primary" : ""}`}
+    >
+      {/* Only the handle starts a drag, so the list still scrolls on touch */}
+      <button
+        type="button"
+        ref={setActivatorNodeRef}
+        {...attributes}
+        {...listeners}
+        className="touch-none select-none px-1 text-muted-foreground cursor-grab active:cursor-grabbing"
+        aria-label={`Move ${category.name}`}
+      >
+        ⋮⋮
+      </button>
+      <CategoryThumbnail src={category.thumbnail} />
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-medium truncate">{category.name}</div>
+        <div className="text-xs text-muted-foreground font-mono truncate">
+          {category.slug}
+        </div>
+      </div>
+      <span className="text-xs text-muted-foreground whitespace-nowrap">
+        {category.product_count} products
+      </span>
+      <div className="flex gap-1">
+        <Button variant="ghost" size="sm" onClick={() => onCreate(category.id)}>
+          Add
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => onEdit(category)}>
+          Edit
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-destructive"
+          onClick={() => onDelete(category)}
+        >
+          Delete
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function CategoriesContent() {
+  const { toast } = useToast();
+  const [tree, setTree] = useState<AdminCategoryNode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCategory, setEditingCategory] =
+    useState<AdminCategoryNode | null>(null);
+  const [formData, setFormData] = useState<CategoryFormData>(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{
+    id: string;
+    position: DropPosition;
+  } | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    }),
+    // Arrow keys move about half a row at a time, so a category can be
+    // dropped between rows as well as onto them
+    useSensor(KeyboardSensor)
+  );
+
+  const fetchCategories = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/categories", {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch categories");
+
+      const result = await response.json();
+      setTree(result.data.categories);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to load categories",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  const allCategories = flattenTree(tree);
+
+  const handleCreate = (parentId: string | null) => {
+    setEditingCategory(null);
+    setFormData({ ...EMPTY_FORM, parent_id: parentId });
+    setFormErrors({});
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (category: AdminCategoryNode) => {
+    setEditingCategory(category);
+    setFormData({
+      name: category.name,
+      slug: category.slug,
+      description: category.description || "",
+      thumbnail: category.thumbnail || "",
+      parent_id: category.parent_id,
+    });
+    setFormErrors({});
+    setDialogOpen(true);
+  };
+
+  const handleThumbnailUpload = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const upload = new FormData();
+      upload.append("image", file);
+      // Stored alongside product images, under the category's slug
+      upload.append(
+        "productSlug",
+        `category-${formData.slug || slugify(formData.name) || "new"}`
+      );
+
+      const response = await fetch("/api/admin/upload-image", {
+        method: "POST",
+        body: upload,
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Upload failed");
+
+      const result = await response.json();
+      setFormData((prev) => ({ ...prev, thumbnail: result.url }));
+    } catch {
+      toast({
+        title: "Error",
+        description: `Failed to upload ${file.name}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setFormErrors({});
+
+    try {
+      const response = await fetch(
+        editingCategory
+          ? `/api/admin/categories/${editingCategory.id}`
+          : "/api/admin/categories",
+        {
+          method: editingCategory ? "PUT" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify({
+            name: formData.name,
+            slug: formData.slug || undefined,
+            description: formData.description || null,
+            thumbnail: formData.thumbnail || null,
+            parent_id: formData.parent_id,
+          }),
+        }
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        if (result.details) {
+          setFormErrors(
+            Object.fromEntries(
+              result.details.map(
+                (detail: { field: string; message: string }) => [
+                  detail.field,
+                  detail.message,
+                ]
+              )
+            )
+          );
+        }
+        throw new Error(result.error || "Failed to save category");
+      }
+
+      toast({
+        title: editingCategory ? "Category updated" : "Category created",
+        description: result.data.category.name,
+      });
+      setDialogOpen(false);
+      fetchCategories();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to save category",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (category: AdminCategoryNode) => {
+    if (
+      !confirm(
+        category.children.length > 0
+          ? `Delete ${category.name}? Its subcategories will move up a level and its products will stay in their other categories.`
+          : `Delete ${category.name}? Its products will stay in their other categories.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/categories/${category.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to delete category");
+
+      toast({
+        title: "Category deleted",
+        description: category.name,
+      });
+      fetchCategories();
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to delete category",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDragStart = ({ active }: DragStartEvent) => {
+    setDraggedId(String(active.id));
+    setDropTarget(null);
+  };
+
+  const handleDragMove = ({ active, over }: DragMoveEvent) => {
+    const dragged = active.rect.current.translated;
+    // A category cannot be dropped on or next to anything inside itself
+    if (
+      !over ||
+      !dragged ||
+      wouldCreateCategoryCycle(
+        allCategories,
+        String(active.id),
+        String(over.id)
+      )
+    ) {
+      if (dropTarget) setDropTarget(null);
+      return;
+    }
+    // Top and bottom quarters of the row place it alongside, the middle
+    // places it inside
+    const offset =
+      (dragged.top + dragged.height / 2 - over.rect.top) / over.rect.height;
+    const position: DropPosition =
+      offset < 0.25 ? "before" : offset > 0.75 ? "after" : "inside";
+    if (dropTarget?.id !== over.id || dropTarget.position !== position) {
+      setDropTarget({ id: String(over.id), position });
+    }
+  };
+
+  const handleDragCancel = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const handleDragEnd = async ({ active }: DragEndEvent) => {
+    const target = dropTarget;
+    const moving = String(active.id);
+    setDraggedId(null);
+    setDropTarget(null);
+    if (!target || target.id === moving) return;
+
+    const before = getCategoryPlacements(tree);
+    const moved = moveCategory(tree, moving, target.id, target.position);
+    // Only categories whose parent or position changed are saved
+    const changed = getCategoryPlacements(moved).filter(
+      (placement) =>
+        !before.some(
+          (previous) =>
+            previous.id === placement.id &&
+            previous.parent_id === placement.parent_id &&
+            previous.sort_order === placement.sort_order
+        )
+    );
+    if (changed.length === 0) return;
+
+    setTree(moved);
+    try {
+      const response = await fetch("/api/admin/categories/reorder", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ placements: changed }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to move category");
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to move category",
+        variant: "destructive",
+      });
+    } finally {
+      fetchCategories();
+    }
+  };
+
+  const renderCategory = (category: AdminCategoryNode, depth: number) => (
+    <li key={category.id}>
+      <SortableCategoryRow
+        category={category}
+        depth={depth}
+        dropPosition={
+          dropTarget?.id === category.id ? dropTarget.position : null
+        }
+        onCreate={handleCreate}
+        onEdit={handleEdit}
+        onDelete={handleDelete}
+      />
+      {category.children.length > 0 && (
+        <ul>
+          {category.children.map((child) => renderCategory(child, depth + 1))}
+        </ul>
+      )}
+    </li>
+  );
+
+  const draggedCategory = allCategories.find(
+    (category) => category.id === draggedId
+  );
+
+  // Categories that cannot be the parent of the one being edited
+  const excludedParents = editingCategory
+    ? flattenTree([editingCategory]).map((category) => category.id)
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Drag a category by its handle onto another to nest it, or onto the top
+          or bottom edge of a row to place it alongside. Category pages list the
+          products of their subcategories too.
+        </p>
+        <Button onClick={() => handleCreate(null)}>New Category</Button>
+      </div>
+
+      <div className="bg-card border rounded-lg overflow-hidden">
+        {loading && tree.length === 0 ? (
+          <p className="text-center py-8 text-sm">Loading...</p>
+        ) : tree.length === 0 ? (
+          <p className="text-center py-8 text-sm text-muted-foreground">
+            No categories yet
+          </p>
+        ) : (
+          <DndContext
+            sensors={sensors}
+            collisionDetection={closestCenter}
+            onDragStart={handleDragStart}
+            onDragMove={handleDragMove}
+            onDragEnd={handleDragEnd}
+            onDragCancel={handleDragCancel}
+          >
+            <SortableContext
+              items={allCategories.map((category) => category.id)}
+              strategy={keepRowsInPlace}
+            >
+              <ul>{tree.map((category) => renderCategory(category, 0))}</ul>
+            </SortableContext>
+            <DragOverlay>
+              {draggedCategory && (
+                <div className="flex items-center gap-3 px-3 py-2 rounded-md border border-border bg-card shadow-lg cursor-grabbing">
+                  <CategoryThumbnail src={draggedCategory.thumbnail} />
+                  <span className="text-sm font-medium truncate">
+                    {draggedCategory.name}
+                  </span>
+                </div>
+              )}
+            </DragOverlay>
+          </DndContext>
+        )}
+      </div>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editingCategory ? "Edit Category" : "New Category"}
+            </DialogTitle>
+            <DialogDescription>
+              Shown on the categories page and in catalog filters.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Name</label>
+                <Input
+                  value={formData.name}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, name: e.target.value }))
+                  }
+                  placeholder="Necklaces"
+                />
+                {formErrors.name && (
+                  <p className="mt-1 text-sm text-destructive">
+                    {formErrors.name}
+                  </p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Slug</label>
+                <Input
+                  value={formData.slug}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, slug: e.target.value }))
+                  }
+                  placeholder={slugify(formData.name) || "necklaces"}
+                  className="font-mono"
+                />
+                {formErrors.slug && (
+                  <p className="mt-1 text-sm text-destructive">
+                    {formErrors.slug}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Parent category
+              </label>
+              <select
+                value={formData.parent_id || ""}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    parent_id: e.target.value || null,
+                  }))
+                }
+                className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+              >
+                <option value="">None (top level)</option>
+                {allCategories
+                  .filter((category) => !excludedParents.includes(category.id))
+                  .map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+              </select>
+              {formErrors.parent_id && (
+                <p className="mt-1 text-sm text-destructive">
+                  {formErrors.parent_id}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Description
+              </label>
+              <textarea
+                value={formData.description}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    description: e.target.value,
+                  }))
+                }
+                rows={3}
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              />
+              {formErrors.description && (
+                <p className="mt-1 text-sm text-destructive">
+                  {formErrors.description}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Thumbnail
+              </label>
+              <div className="flex items-center gap-3">
+                {formData.thumbnail ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={formData.thumbnail}
+                    alt=""
+                    className="h-16 w-16 rounded object-cover"
+                  />
+                ) : (
+                  <div className="h-16 w-16 rounded bg-muted" />
+                )}
+                <div className="flex flex-col gap-2">
+                  <input
+                    type="file"
+                    accept="image/*"
+                    onChange={handleThumbnailUpload}
+                    disabled={isUploading}
+                    className="text-sm"
+                  />
+                  {formData.thumbnail && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="self-start"
+                      onClick={() =>
+                        setFormData((prev) => ({ ...prev, thumbnail: "" }))
+                      }
+                    >
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {isUploading && (
+                <p className="mt-1 text-sm text-muted-foreground">
+                  Uploading...
+                </p>
+              )}
+              {formErrors.thumbnail && (
+                <p className="mt-1 text-sm text-destructive">
+                  {formErrors.thumbnail}
+                </p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || isUploading}>
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,450 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  convertPrice,
+  CURRENCY_ROUNDING_RULES,
+  CurrencyRounding,
+  STORE_CURRENCY,
+  SUPPORTED_CURRENCIES,
+} from "@/lib/currency-utils";
+import { formatPrice } from "@/lib/utils";
+import { useCallback, useEffect, useState } from "react";
+
+interface AdminExchangeRate {
+  id: string;
+  currency: string;
+  rate: number;
+  rounding: CurrencyRounding;
+  is_active: boolean;
+  updated_at: string;
+}
+
+interface ExchangeRateFormData {
+  currency: string;
+  rate: string;
+  rounding: CurrencyRounding;
+  is_active: boolean;
+}
+
+const EMPTY_FORM: ExchangeRateFormData = {
+  currency: "",
+  rate: "",
+  rounding: "exact",
+  is_active: true,
+};
+
+// Shown next to each rate so the effect of the rounding rule is visible
+const SAMPLE_PRICE = 24.99;
+
+const FOREIGN_CURRENCIES = SUPPORTED_CURRENCIES.filter(
+  ({ code }) => code !== STORE_CURRENCY
+);
+
+function getRoundingLabel(rounding: CurrencyRounding) {
+  return (
+    CURRENCY_ROUNDING_RULES.find((rule) => rule.value === rounding)?.label ??
+    rounding
+  );
+}
+
+export function ExchangeRatesContent() {
+  const { toast } = useToast();
+  const [exchangeRates, setExchangeRates] = useState<AdminExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<AdminExchangeRate | null>(
+    null
+  );
+  const [formData, setFormData] = useState<ExchangeRateFormData>(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchExchangeRates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/exchange-rates", {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch exchange rates");
+
+      const result = await response.json();
+      setExchangeRates(result.data.exchangeRates);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to load exchange rates",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchExchangeRates();
+  }, [fetchExchangeRates]);
+
+  // Currencies without a rate yet, plus the one being edited
+  const availableCurrencies = FOREIGN_CURRENCIES.filter(
+    ({ code }) =>
+      code === editingRate?.currency ||
+      !exchangeRates.some((rate) => rate.currency === code)
+  );
+
+  const handleCreate = () => {
+    setEditingRate(null);
+    setFormData(EMPTY_FORM);
+    setFormErrors({});
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (exchangeRate: AdminExchangeRate) => {
+    setEditingRate(exchangeRate);
+    setFormData({
+      currency: exchangeRate.currency,
+      rate: String(exchangeRate.rate),
+      rounding: exchangeRate.rounding,
+      is_active: exchangeRate.is_active,
+    });
+    setFormErrors({});
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setFormErrors({});
+
+    try {
+      const response = await fetch(
+        editingRate
+          ? `/api/admin/exchange-rates/${editingRate.id}`
+          : "/api/admin/exchange-rates",
+        {
+          method: editingRate ? "PUT" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify({
+            currency: formData.currency,
+            rate: parseFloat(formData.rate) || 0,
+            rounding: formData.rounding,
+            is_active: formData.is_active,
+          }),
+        }
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        if (result.details) {
+          setFormErrors(
+            Object.fromEntries(
+              result.details.map(
+                (detail: { field: string; message: string }) => [
+                  detail.field,
+                  detail.message,
+                ]
+              )
+            )
+          );
+        }
+        throw new Error(result.error || "Failed to save exchange rate");
+      }
+
+      toast({
+        title: editingRate ? "Exchange rate updated" : "Exchange rate created",
+        description: result.data.exchangeRate.currency,
+      });
+      setDialogOpen(false);
+      fetchExchangeRates();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to save exchange rate",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (exchangeRate: AdminExchangeRate) => {
+    if (
+      !confirm(
+        `Delete ${exchangeRate.currency}? Visitors using it will see prices in ${STORE_CURRENCY} instead.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `/api/admin/exchange-rates/${exchangeRate.id}`,
+        {
+          method: "DELETE",
+          credentials: "include",
+        }
+      );
+      if (!response.ok) throw new Error("Failed to delete exchange rate");
+
+      toast({
+        title: "Exchange rate deleted",
+        description: exchangeRate.currency,
+      });
+      fetchExchangeRates();
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to delete exchange rate",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Prices are entered in {STORE_CURRENCY} and converted at these rates.
+          The rounding rule applies to product prices; option adjustments,
+          shipping and discounts are converted exactly. Orders keep the rate
+          they were charged at.
+        </p>
+        <Button
+          onClick={handleCreate}
+          disabled={!loading && availableCurrencies.length === 0}
+        >
+          New Currency
+        </Button>
+      </div>
+
+      {/* Table */}
+      <div className="bg-card border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Currency</TableHead>
+              <TableHead>Rate</TableHead>
+              <TableHead>Rounding</TableHead>
+              <TableHead>Example</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8">
+                  Loading...
+                </TableCell>
+              </TableRow>
+            ) : exchangeRates.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8">
+                  No exchange rates configured - prices are shown in{" "}
+                  {STORE_CURRENCY} only
+                </TableCell>
+              </TableRow>
+            ) : (
+              exchangeRates.map((exchangeRate) => (
+                <TableRow key={exchangeRate.id}>
+                  <TableCell className="font-mono font-medium">
+                    {exchangeRate.currency}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    1 {STORE_CURRENCY} = {exchangeRate.rate}{" "}
+                    {exchangeRate.currency}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {getRoundingLabel(exchangeRate.rounding)}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {formatPrice(SAMPLE_PRICE, STORE_CURRENCY)} →{" "}
+                    {formatPrice(
+                      convertPrice(SAMPLE_PRICE, exchangeRate),
+                      exchangeRate.currency
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      className={`${
+                        exchangeRate.is_active ? "bg-green-500" : "bg-gray-500"
+                      } text-white`}
+                    >
+                      {exchangeRate.is_active ? "active" : "inactive"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleEdit(exchangeRate)}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        onClick={() => handleDelete(exchangeRate)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editingRate ? "Edit Exchange Rate" : "New Currency"}
+            </DialogTitle>
+            <DialogDescription>
+              Visitors can switch to active currencies from the header.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  Currency
+                </label>
+                <Select
+                  value={formData.currency}
+                  onValueChange={(value) =>
+                    setFormData((prev) => ({ ...prev, currency: value }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select currency" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableCurrencies.map((currency) => (
+                      <SelectItem key={currency.code} value={currency.code}>
+                        {currency.code} - {currency.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {formErrors.currency && (
+                  <p className="mt-1 text-sm text-destructive">
+                    {formErrors.currency}
+                  </p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  Rate per 1 {STORE_CURRENCY}
+                </label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.000001"
+                  value={formData.rate}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, rate: e.target.value }))
+                  }
+                  placeholder="0.92"
+                />
+                {formErrors.rate && (
+                  <p className="mt-1 text-sm text-destructive">
+                    {formErrors.rate}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Price rounding
+              </label>
+              <Select
+                value={formData.rounding}
+                onValueChange={(value) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    rounding: value as CurrencyRounding,
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCY_ROUNDING_RULES.map((rule) => (
+                    <SelectItem key={rule.value} value={rule.value}>
+                      {rule.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={formData.is_active}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    is_active: e.target.checked,
+                  }))
+                }
+              />
+              Offer this currency to visitors
+            </label>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || !formData.currency}>
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
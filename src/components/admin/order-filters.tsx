@@ -62,13 +62,14 @@ export function OrderFilters({
             >
               <option value="">All Statuses</option>
               <option value="in_progress">
-                All In Progress (Received, Paid, Shipped)
+                All In Progress (Received, Paid, Partially Shipped, Shipped)
               </option>
               <option value="completed_group">
                 All Completed (Completed, Cancelled, Refunded)
               </option>
               <option value="received">Received</option>
               <option value="paid">Paid</option>
+              <option value="partially_shipped">Partially Shipped</option>
               <option value="shipped">Shipped</option>
               <option value="completed">Completed</option>
               <option value="cancelled">Cancelled</option>
@@ -1,6 +1,7 @@
 "use client";
 
 import { useToast } from "@/components/ui/toast";
+import { TAX_CATEGORIES, TaxCategory } from "@/lib/tax-utils";
 import { useEffect, useState } from "react";
 import MediaModal from "./media-modal";
 import ProductOptionsModal, { ProductOption } from "./product-options-modal";
@@ -14,6 +15,9 @@ interface Product {
   image?: string;
   base_price?: string;
   status: "active" | "inactive" | "draft";
+  tax_category?: TaxCategory;
+  weight_grams?: number | null;
+  is_gift_card?: boolean;
   created_at: string;
   updated_at: string;
   tags?: Array<{ id: string; name: string }>;
@@ -34,6 +38,7 @@ interface Product {
       price_adjustment: string;
       is_default: boolean;
       is_sold_out: boolean;
+      quantity_available?: number | null;
       sort_order: number;
     }>;
   }>;
@@ -66,6 +71,9 @@ export function ProductEditModal({
     image: "",
     base_price: "",
     status: "draft" as "active" | "inactive" | "draft",
+    tax_category: "standard" as TaxCategory,
+    weight_grams: "",
+    is_gift_card: false,
     tags: [] as string[],
   });
 
@@ -95,6 +103,12 @@ export function ProductEditModal({
         image: product.image || "",
         base_price: product.base_price || "",
         status: product.status,
+        tax_category: product.tax_category || "standard",
+        weight_grams:
+          product.weight_grams !== null && product.weight_grams !== undefined
+            ? String(product.weight_grams)
+            : "",
+        is_gift_card: product.is_gift_card ?? false,
         tags: product.tags?.map((tag) => tag.id) || [],
       });
       setProductOptions(
@@ -108,6 +122,7 @@ export function ProductEditModal({
             price_adjustment: value.price_adjustment,
             is_default: value.is_default,
             is_sold_out: value.is_sold_out,
+            quantity_available: value.quantity_available ?? null,
           })),
         })) || []
       );
@@ -184,6 +199,9 @@ export function ProductEditModal({
         credentials: "include",
         body: JSON.stringify({
           ...formData,
+          weight_grams: formData.weight_grams
+            ? parseInt(formData.weight_grams)
+            : null,
           options: productOptions,
         }),
       });
@@ -371,6 +389,66 @@ export function ProductEditModal({
                     <option value="inactive">Inactive</option>
                   </select>
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">
+                    Tax Category
+                  </label>
+                  <select
+                    value={formData.tax_category}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        tax_category: e.target.value as TaxCategory,
+                      })
+                    }
+                    className="w-full px-3 py-2 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    {TAX_CATEGORIES.map((category) => (
+                      <option key={category.value} value={category.value}>
+                        {category.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">
+                    Shipping Weight (g)
+                  </label>
+                  <input
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={formData.weight_grams}
+                    onChange={(e) =>
+                      setFormData({ ...formData, weight_grams: e.target.value })
+                    }
+                    className="w-full px-3 py-2 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    placeholder="Used for weight-based shipping rates"
+                  />
+                </div>
+
+                <label className="flex items-start text-sm text-foreground">
+                  <input
+                    type="checkbox"
+                    checked={formData.is_gift_card}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        is_gift_card: e.target.checked,
+                      })
+                    }
+                    className="mt-0.5 mr-2 h-4 w-4 rounded border-border text-primary focus:ring-primary"
+                  />
+                  <span>
+                    Gift card
+                    <span className="block text-muted-foreground">
+                      Each unit bought emails the shopper a gift card code worth
+                      its price. Stock is not tracked.
+                    </span>
+                  </span>
+                </label>
               </div>
 
               {/* Right Column - Quick Actions */}
@@ -27,6 +27,7 @@ export interface ProductOption {
     price_adjustment: string;
     is_default: boolean;
     is_sold_out: boolean;
+    quantity_available?: number | null; // Null when stock is not tracked
     sort_order?: number;
   }>;
 }
@@ -66,7 +67,7 @@ function SortableOptionItem({
     optionIndex: number,
     valueIndex: number,
     field: string,
-    value: string | boolean
+    value: string | boolean | number | null
   ) => void;
   onDragEnd: (event: any) => void;
   onValuesDragEnd: (optionIndex: number) => (event: any) => void;
@@ -287,7 +288,7 @@ function SortableValuesList({
     optionIndex: number,
     valueIndex: number,
     field: string,
-    value: string | boolean
+    value: string | boolean | number | null
   ) => void;
   onDragEnd: (event: any) => void;
 }) {
@@ -341,7 +342,7 @@ function SortableValueItem({
     optionIndex: number,
     valueIndex: number,
     field: string,
-    value: string | boolean
+    value: string | boolean | number | null
   ) => void;
 }) {
   const {
@@ -453,7 +454,39 @@ function SortableValueItem({
               </p>
             </div>
 
-            <div className="flex items-center justify-center">
+            <div>
+              <label className="block text-xs font-medium text-muted-foreground mb-1">
+                Stock
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={value.quantity_available ?? ""}
+                onChange={(e) =>
+                  onUpdate(
+                    optionIndex,
+                    valueIndex,
+                    "quantity_available",
+                    e.target.value === ""
+                      ? null
+                      : Math.max(0, parseInt(e.target.value, 10) || 0)
+                  )
+                }
+                placeholder="Not tracked"
+                className="w-full px-3 py-2 text-sm border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                {value.quantity_available === null ||
+                value.quantity_available === undefined
+                  ? "Uses product stock only"
+                  : value.quantity_available === 0
+                  ? "Sold out"
+                  : `${value.quantity_available} left`}
+              </p>
+            </div>
+
+            <div className="col-span-2 flex items-center">
               <label className="flex items-center text-xs font-medium text-muted-foreground cursor-pointer">
                 <input
                   type="checkbox"
@@ -582,7 +615,7 @@ export default function ProductOptionsModal({
     optionIndex: number,
     valueIndex: number,
     field: string,
-    value: string | boolean
+    value: string | boolean | number | null
   ) => {
     const newOptions = [...productOptions];
     newOptions[optionIndex].values[valueIndex] = {
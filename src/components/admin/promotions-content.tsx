@@ -0,0 +1,594 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { describePromotion, PromotionType } from "@/lib/promotion-utils";
+import { format } from "date-fns";
+import { useCallback, useEffect, useState } from "react";
+
+interface AdminPromotion {
+  id: string;
+  code: string;
+  type: PromotionType;
+  value: number;
+  starts_at: string | null;
+  ends_at: string | null;
+  usage_limit: number | null;
+  used: number;
+  is_active: boolean;
+  created_at: string;
+  status: "active" | "paused" | "scheduled" | "expired" | "exhausted";
+  stats: {
+    redemptions: number;
+    totalDiscount: number;
+    totalRevenue: number;
+    lastRedeemedAt: string | null;
+  };
+}
+
+interface PromotionFormData {
+  code: string;
+  type: PromotionType;
+  value: string;
+  starts_at: string; // datetime-local value
+  ends_at: string;
+  usage_limit: string;
+  is_active: boolean;
+}
+
+const EMPTY_FORM: PromotionFormData = {
+  code: "",
+  type: "percentage",
+  value: "",
+  starts_at: "",
+  ends_at: "",
+  usage_limit: "",
+  is_active: true,
+};
+
+const STATUS_STYLES: Record<AdminPromotion["status"], string> = {
+  active: "bg-green-500",
+  paused: "bg-gray-500",
+  scheduled: "bg-blue-500",
+  expired: "bg-red-500",
+  exhausted: "bg-yellow-500",
+};
+
+// datetime-local inputs work in local time without a timezone suffix
+function toDateTimeLocal(value: string | null): string {
+  return value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "";
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+}
+
+export function PromotionsContent() {
+  const { toast } = useToast();
+  const [promotions, setPromotions] = useState<AdminPromotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPromotion, setEditingPromotion] =
+    useState<AdminPromotion | null>(null);
+  const [formData, setFormData] = useState<PromotionFormData>(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchPromotions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/promotions", {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch promotions");
+
+      const result = await response.json();
+      setPromotions(result.data.promotions);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to load promotions",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPromotions();
+  }, [fetchPromotions]);
+
+  const handleCreate = () => {
+    setEditingPromotion(null);
+    setFormData(EMPTY_FORM);
+    setFormErrors({});
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (promotion: AdminPromotion) => {
+    setEditingPromotion(promotion);
+    setFormData({
+      code: promotion.code,
+      type: promotion.type,
+      value: promotion.type === "free_shipping" ? "" : String(promotion.value),
+      starts_at: toDateTimeLocal(promotion.starts_at),
+      ends_at: toDateTimeLocal(promotion.ends_at),
+      usage_limit: promotion.usage_limit ? String(promotion.usage_limit) : "",
+      is_active: promotion.is_active,
+    });
+    setFormErrors({});
+    setDialogOpen(true);
+  };
+
+  const savePromotion = async (
+    url: string,
+    method: "POST" | "PUT",
+    body: Record<string, unknown>
+  ) => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+      },
+      credentials: "include",
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+
+    if (!response.ok) {
+      if (result.details) {
+        setFormErrors(
+          Object.fromEntries(
+            result.details.map((detail: { field: string; message: string }) => [
+              detail.field,
+              detail.message,
+            ])
+          )
+        );
+      }
+      throw new Error(result.error || "Failed to save promotion");
+    }
+    return result.data.promotion as AdminPromotion;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setFormErrors({});
+
+    try {
+      const saved = await savePromotion(
+        editingPromotion
+          ? `/api/admin/promotions/${editingPromotion.id}`
+          : "/api/admin/promotions",
+        editingPromotion ? "PUT" : "POST",
+        {
+          code: formData.code,
+          type: formData.type,
+          value:
+            formData.type === "free_shipping"
+              ? 0
+              : parseFloat(formData.value) || 0,
+          starts_at: formData.starts_at
+            ? new Date(formData.starts_at).toISOString()
+            : null,
+          ends_at: formData.ends_at
+            ? new Date(formData.ends_at).toISOString()
+            : null,
+          usage_limit: formData.usage_limit
+            ? parseInt(formData.usage_limit)
+            : null,
+          is_active: formData.is_active,
+        }
+      );
+
+      toast({
+        title: editingPromotion ? "Promotion updated" : "Promotion created",
+        description: saved.code,
+      });
+      setDialogOpen(false);
+      fetchPromotions();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to save promotion",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (promotion: AdminPromotion) => {
+    try {
+      await savePromotion(`/api/admin/promotions/${promotion.id}`, "PUT", {
+        is_active: !promotion.is_active,
+      });
+      toast({
+        title: promotion.is_active ? "Promotion paused" : "Promotion resumed",
+        description: promotion.code,
+      });
+      fetchPromotions();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to update promotion",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (promotion: AdminPromotion) => {
+    if (
+      !confirm(
+        `Delete promotion ${promotion.code}? Orders that used it keep the code.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/promotions/${promotion.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to delete promotion");
+
+      toast({
+        title: "Promotion deleted",
+        description: promotion.code,
+      });
+      fetchPromotions();
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to delete promotion",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const totals = promotions.reduce(
+    (acc, promotion) => ({
+      active: acc.active + (promotion.status === "active" ? 1 : 0),
+      redemptions: acc.redemptions + promotion.stats.redemptions,
+      discount: acc.discount + promotion.stats.totalDiscount,
+    }),
+    { active: 0, redemptions: 0, discount: 0 }
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Statistics */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-card border rounded-lg p-4">
+          <div className="text-sm text-muted-foreground">Active Promotions</div>
+          <div className="text-2xl font-bold mt-1">{totals.active}</div>
+        </div>
+        <div className="bg-card border rounded-lg p-4">
+          <div className="text-sm text-muted-foreground">Redemptions</div>
+          <div className="text-2xl font-bold mt-1">{totals.redemptions}</div>
+        </div>
+        <div className="bg-card border rounded-lg p-4">
+          <div className="text-sm text-muted-foreground">Total Discounted</div>
+          <div className="text-2xl font-bold mt-1">
+            {formatCurrency(totals.discount)}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={handleCreate}>New Promotion</Button>
+      </div>
+
+      {/* Table */}
+      <div className="bg-card border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Discount</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Schedule</TableHead>
+              <TableHead>Usage</TableHead>
+              <TableHead>Redemptions</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8">
+                  Loading...
+                </TableCell>
+              </TableRow>
+            ) : promotions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8">
+                  No promotions yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              promotions.map((promotion) => (
+                <TableRow key={promotion.id}>
+                  <TableCell className="font-mono text-sm font-semibold">
+                    {promotion.code}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {describePromotion(promotion.type, promotion.value)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      className={`${
+                        STATUS_STYLES[promotion.status]
+                      } text-white`}
+                    >
+                      {promotion.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {promotion.starts_at || promotion.ends_at ? (
+                      <div className="flex flex-col">
+                        <span>
+                          From{" "}
+                          {promotion.starts_at
+                            ? format(
+                                new Date(promotion.starts_at),
+                                "MMM d, yyyy"
+                              )
+                            : "now"}
+                        </span>
+                        <span>
+                          Until{" "}
+                          {promotion.ends_at
+                            ? format(new Date(promotion.ends_at), "MMM d, yyyy")
+                            : "no end date"}
+                        </span>
+                      </div>
+                    ) : (
+                      "Always"
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {promotion.used}
+                    {promotion.usage_limit !== null &&
+                      ` / ${promotion.usage_limit}`}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <div className="flex flex-col">
+                      <span>{promotion.stats.redemptions} orders</span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatCurrency(promotion.stats.totalDiscount)} off ·{" "}
+                        {formatCurrency(promotion.stats.totalRevenue)} revenue
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleEdit(promotion)}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleToggleActive(promotion)}
+                      >
+                        {promotion.is_active ? "Pause" : "Resume"}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        onClick={() => handleDelete(promotion)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editingPromotion ? "Edit Promotion" : "New Promotion"}
+            </DialogTitle>
+            <DialogDescription>
+              Customers enter the code in their cart or at checkout.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Code</label>
+              <Input
+                value={formData.code}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    code: e.target.value.toUpperCase(),
+                  }))
+                }
+                placeholder="SUMMER15"
+                className="font-mono"
+              />
+              {formErrors.code && (
+                <p className="mt-1 text-sm text-destructive">
+                  {formErrors.code}
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Type</label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      type: value as PromotionType,
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">Percentage off</SelectItem>
+                    <SelectItem value="fixed_amount">
+                      Fixed amount off
+                    </SelectItem>
+                    <SelectItem value="free_shipping">Free shipping</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  {formData.type === "percentage" ? "Percent" : "Amount ($)"}
+                </label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.value}
+                  disabled={formData.type === "free_shipping"}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, value: e.target.value }))
+                  }
+                />
+                {formErrors.value && (
+                  <p className="mt-1 text-sm text-destructive">
+                    {formErrors.value}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Starts</label>
+                <Input
+                  type="datetime-local"
+                  value={formData.starts_at}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      starts_at: e.target.value,
+                    }))
+                  }
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Ends</label>
+                <Input
+                  type="datetime-local"
+                  value={formData.ends_at}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      ends_at: e.target.value,
+                    }))
+                  }
+                />
+                {formErrors.ends_at && (
+                  <p className="mt-1 text-sm text-destructive">
+                    {formErrors.ends_at}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Usage limit
+              </label>
+              <Input
+                type="number"
+                min="1"
+                step="1"
+                value={formData.usage_limit}
+                placeholder="Unlimited"
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    usage_limit: e.target.value,
+                  }))
+                }
+              />
+              {formErrors.usage_limit && (
+                <p className="mt-1 text-sm text-destructive">
+                  {formErrors.usage_limit}
+                </p>
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={formData.is_active}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    is_active: e.target.checked,
+                  }))
+                }
+              />
+              Active (uncheck to pause)
+            </label>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getReturnReasonLabel,
+  ReturnReason,
+  ReturnStatus,
+} from "@/lib/return-utils";
+import { formatPrice } from "@/lib/utils";
+import { useCallback, useEffect, useState } from "react";
+
+interface AdminReturnRequest {
+  id: string;
+  order_id: string;
+  order_number: string | null;
+  order_status: string;
+  currency: string;
+  email: string;
+  customer_name: string | null;
+  status: ReturnStatus;
+  reason: ReturnReason;
+  details: string | null;
+  items: Array<{
+    order_item_id: string;
+    quantity: number;
+    title: string;
+    unit_amount: number;
+  }>;
+  photos: string[];
+  admin_note: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+const STATUS_COLORS: Record<ReturnStatus, string> = {
+  requested: "bg-yellow-500",
+  approved: "bg-green-500",
+  denied: "bg-gray-500",
+};
+
+function getOrderLabel(returnRequest: AdminReturnRequest) {
+  return (
+    returnRequest.order_number ||
+    `#${returnRequest.order_id.slice(-8).toUpperCase()}`
+  );
+}
+
+export function ReturnsContent() {
+  const { toast } = useToast();
+  const [returnRequests, setReturnRequests] = useState<AdminReturnRequest[]>(
+    []
+  );
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<ReturnStatus | "all">(
+    "requested"
+  );
+  const [selectedRequest, setSelectedRequest] =
+    useState<AdminReturnRequest | null>(null);
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchReturnRequests = useCallback(async () => {
+    setLoading(true);
+    try {
+      const query = statusFilter === "all" ? "" : `?status=${statusFilter}`;
+      const response = await fetch(`/api/admin/returns${query}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch return requests");
+
+      const result = await response.json();
+      setReturnRequests(result.data.returnRequests);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to load return requests",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, toast]);
+
+  useEffect(() => {
+    fetchReturnRequests();
+  }, [fetchReturnRequests]);
+
+  const handleOpen = (returnRequest: AdminReturnRequest) => {
+    setSelectedRequest(returnRequest);
+    setNote("");
+  };
+
+  const handleReview = async (status: "approved" | "denied") => {
+    if (!selectedRequest) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/admin/returns/${selectedRequest.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ status, note: note.trim() || undefined }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to review return request");
+      }
+
+      toast({
+        title: status === "approved" ? "Return approved" : "Return denied",
+        description: `${getOrderLabel(selectedRequest)} - ${
+          selectedRequest.email
+        } was emailed`,
+      });
+      setSelectedRequest(null);
+      fetchReturnRequests();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to review return request",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Customers request returns from their order page. Approving emails them
+          to send the items back; refund the order once they arrive.
+        </p>
+        <Select
+          value={statusFilter}
+          onValueChange={(value) =>
+            setStatusFilter(value as ReturnStatus | "all")
+          }
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="requested">Pending</SelectItem>
+            <SelectItem value="approved">Approved</SelectItem>
+            <SelectItem value="denied">Denied</SelectItem>
+            <SelectItem value="all">All</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Table */}
+      <div className="bg-card border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Order</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Items</TableHead>
+              <TableHead>Requested</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8">
+                  Loading...
+                </TableCell>
+              </TableRow>
+            ) : returnRequests.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8">
+                  No return requests
+                </TableCell>
+              </TableRow>
+            ) : (
+              returnRequests.map((returnRequest) => (
+                <TableRow key={returnRequest.id}>
+                  <TableCell className="font-mono font-medium">
+                    {getOrderLabel(returnRequest)}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {returnRequest.customer_name && (
+                      <div>{returnRequest.customer_name}</div>
+                    )}
+                    <div className="text-muted-foreground">
+                      {returnRequest.email}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {getReturnReasonLabel(returnRequest.reason)}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {returnRequest.items.reduce(
+                      (sum, item) => sum + item.quantity,
+                      0
+                    )}{" "}
+                    item(s)
+                    {returnRequest.photos.length > 0 &&
+                      `, ${returnRequest.photos.length} photo(s)`}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(returnRequest.created_at).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      className={`${
+                        STATUS_COLORS[returnRequest.status]
+                      } text-white`}
+                    >
+                      {returnRequest.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleOpen(returnRequest)}
+                    >
+                      {returnRequest.status === "requested" ? "Review" : "View"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Review Dialog */}
+      <Dialog
+        open={selectedRequest !== null}
+        onOpenChange={(open) => !open && setSelectedRequest(null)}
+      >
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          {selectedRequest && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  Return for {getOrderLabel(selectedRequest)}
+                </DialogTitle>
+                <DialogDescription>
+                  {getReturnReasonLabel(selectedRequest.reason)} · requested{" "}
+                  {new Date(selectedRequest.created_at).toLocaleString()} ·
+                  order {selectedRequest.order_status}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4 mt-4">
+                <ul className="text-sm space-y-1">
+                  {selectedRequest.items.map((item) => (
+                    <li
+                      key={item.order_item_id}
+                      className="flex justify-between gap-3"
+                    >
+                      <span>
+                        {item.title} × {item.quantity}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {formatPrice(
+                          item.unit_amount * item.quantity,
+                          selectedRequest.currency
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+
+                {selectedRequest.details && (
+                  <p className="text-sm whitespace-pre-line">
+                    {selectedRequest.details}
+                  </p>
+                )}
+
+                {selectedRequest.photos.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {selectedRequest.photos.map((url) => (
+                      <a
+                        key={url}
+                        href={url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img
+                          src={url}
+                          alt="Return photo"
+                          className="w-20 h-20 object-cover rounded-md border"
+                        />
+                      </a>
+                    ))}
+                  </div>
+                )}
+
+                {selectedRequest.status === "requested" ? (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">
+                        Note to the customer (optional)
+                      </label>
+                      <textarea
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        maxLength={1000}
+                        rows={3}
+                        placeholder="Included in the email, e.g. where to send the items"
+                        className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                      />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => handleReview("denied")}
+                        disabled={isSaving}
+                      >
+                        Deny
+                      </Button>
+                      <Button
+                        onClick={() => handleReview("approved")}
+                        disabled={isSaving}
+                      >
+                        {isSaving ? "Saving..." : "Approve"}
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    {selectedRequest.status === "approved"
+                      ? "Approved"
+                      : "Denied"}
+                    {selectedRequest.reviewed_at &&
+                      ` on ${new Date(
+                        selectedRequest.reviewed_at
+                      ).toLocaleDateString()}`}
+                    {selectedRequest.admin_note &&
+                      `: ${selectedRequest.admin_note}`}
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
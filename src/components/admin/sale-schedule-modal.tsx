@@ -0,0 +1,372 @@
+"use client";
+
+import { calculateSalePrice, SaleDiscountType } from "@/lib/pricing-utils";
+import { format } from "date-fns";
+import { useCallback, useEffect, useState } from "react";
+
+export interface SaleScheduleValues {
+  type: SaleDiscountType;
+  value: string;
+  starts_at: string; // datetime-local, empty to start now
+  ends_at: string; // datetime-local, empty to run until ended
+}
+
+interface ScheduledSale {
+  id: string;
+  amount: number;
+  starts_at: string | null;
+  ends_at: string | null;
+  is_running: boolean;
+}
+
+interface SaleScheduleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  productId: string | null;
+  productTitle: string;
+  onSalesChanged?: () => void;
+}
+
+export const emptySaleSchedule: SaleScheduleValues = {
+  type: "percentage",
+  value: "",
+  starts_at: "",
+  ends_at: "",
+};
+
+/**
+ * Request body for the sale APIs; datetime-local values are read in the
+ * admin's own timezone
+ */
+export function toSaleScheduleRequest(values: SaleScheduleValues) {
+  return {
+    type: values.type,
+    value: parseFloat(values.value),
+    starts_at: values.starts_at
+      ? new Date(values.starts_at).toISOString()
+      : null,
+    ends_at: values.ends_at ? new Date(values.ends_at).toISOString() : null,
+  };
+}
+
+function formatSaleDate(value: string | null, fallback: string): string {
+  return value ? format(new Date(value), "MMM d, yyyy h:mm a") : fallback;
+}
+
+const inputClassName =
+  "w-full px-3 py-2 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary";
+
+/**
+ * Discount and date inputs shared by the single-product and bulk schedulers.
+ * Shows the resulting price when a regular price is given.
+ */
+export function SaleScheduleFields({
+  values,
+  onChange,
+  regularPrice,
+}: {
+  values: SaleScheduleValues;
+  onChange: (values: SaleScheduleValues) => void;
+  regularPrice?: number | null;
+}) {
+  const value = parseFloat(values.value);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">
+            Discount
+          </label>
+          <select
+            value={values.type}
+            onChange={(e) =>
+              onChange({
+                ...values,
+                type: e.target.value as SaleDiscountType,
+              })
+            }
+            className={inputClassName}
+          >
+            <option value="percentage">Percent off</option>
+            <option value="amount_off">Amount off ($)</option>
+            <option value="fixed_price">Sale price ($)</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">
+            {values.type === "percentage" ? "Percent" : "Amount ($)"}
+          </label>
+          <input
+            type="number"
+            value={values.value}
+            onChange={(e) => onChange({ ...values, value: e.target.value })}
+            min="0"
+            max={values.type === "percentage" ? "100" : undefined}
+            step={values.type === "percentage" ? "1" : "0.01"}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">
+            Starts
+          </label>
+          <input
+            type="datetime-local"
+            value={values.starts_at}
+            onChange={(e) => onChange({ ...values, starts_at: e.target.value })}
+            className={inputClassName}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Leave empty to start now
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">
+            Ends
+          </label>
+          <input
+            type="datetime-local"
+            value={values.ends_at}
+            onChange={(e) => onChange({ ...values, ends_at: e.target.value })}
+            className={inputClassName}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Leave empty to run until ended
+          </p>
+        </div>
+      </div>
+
+      {regularPrice != null && value > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Sale price:{" "}
+          <span className="font-medium text-foreground">
+            ${calculateSalePrice(regularPrice, values.type, value).toFixed(2)}
+          </span>{" "}
+          <span className="line-through">${regularPrice.toFixed(2)}</span>
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function SaleScheduleModal({
+  isOpen,
+  onClose,
+  productId,
+  productTitle,
+  onSalesChanged,
+}: SaleScheduleModalProps) {
+  const [sales, setSales] = useState<ScheduledSale[]>([]);
+  const [regularPrice, setRegularPrice] = useState<number | null>(null);
+  const [values, setValues] = useState<SaleScheduleValues>(emptySaleSchedule);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSales = useCallback(async () => {
+    if (!productId) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/products/${productId}/sales`, {
+        credentials: "include",
+      });
+      const result = await response.json();
+      if (response.ok) {
+        setSales(result.data.sales);
+        setRegularPrice(
+          result.data.product.base_price
+            ? parseFloat(result.data.product.base_price)
+            : null
+        );
+      } else {
+        setError(result.error || "Failed to load sales");
+      }
+    } catch (error) {
+      console.error("Error fetching sales:", error);
+      setError("Failed to load sales");
+    } finally {
+      setLoading(false);
+    }
+  }, [productId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setValues(emptySaleSchedule);
+      setError(null);
+      fetchSales();
+    }
+  }, [isOpen, fetchSales]);
+
+  const handleSchedule = async () => {
+    if (!productId) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/products/${productId}/sales`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(toSaleScheduleRequest(values)),
+      });
+      const result = await response.json();
+      if (response.ok) {
+        setSales(result.data.sales);
+        setValues(emptySaleSchedule);
+        onSalesChanged?.();
+      } else {
+        setError(result.details?.[0]?.message || result.error);
+      }
+    } catch (error) {
+      console.error("Error scheduling sale:", error);
+      setError("Failed to schedule sale");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEnd = async (sale: ScheduledSale) => {
+    if (!productId) return;
+    if (
+      !confirm(
+        sale.is_running ? "End this sale now?" : "Cancel this upcoming sale?"
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `/api/admin/products/${productId}/sales?saleId=${sale.id}`,
+        { method: "DELETE", credentials: "include" }
+      );
+      const result = await response.json();
+      if (response.ok) {
+        setSales(result.data.sales);
+        onSalesChanged?.();
+      } else {
+        setError(result.error);
+      }
+    } catch (error) {
+      console.error("Error ending sale:", error);
+      setError("Failed to end sale");
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-card rounded-lg max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-semibold text-foreground">Sales</h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              Schedule sales for:{" "}
+              <span className="font-medium">{productTitle}</span>
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-muted-foreground hover:text-muted-foreground transition-colors"
+          >
+            <svg
+              className="w-6 h-6"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-3 mb-4">
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+
+        <div className="mb-6">
+          <h4 className="text-sm font-medium text-foreground mb-2">
+            Upcoming and running
+          </h4>
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : sales.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No sales scheduled</p>
+          ) : (
+            <ul className="divide-y divide-border border border-border rounded-lg">
+              {sales.map((sale) => (
+                <li
+                  key={sale.id}
+                  className="flex items-center justify-between px-3 py-2"
+                >
+                  <div className="text-sm">
+                    <span className="font-medium text-foreground">
+                      ${sale.amount.toFixed(2)}
+                    </span>
+                    {sale.is_running && (
+                      <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-primary/10 text-primary">
+                        Running
+                      </span>
+                    )}
+                    <div className="text-xs text-muted-foreground">
+                      {formatSaleDate(sale.starts_at, "Started")} –{" "}
+                      {formatSaleDate(sale.ends_at, "No end date")}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleEnd(sale)}
+                    className="text-sm text-destructive hover:text-destructive/80"
+                  >
+                    {sale.is_running ? "End now" : "Cancel"}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <h4 className="text-sm font-medium text-foreground mb-2">
+          Schedule a sale
+        </h4>
+        <SaleScheduleFields
+          values={values}
+          onChange={setValues}
+          regularPrice={regularPrice}
+        />
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-muted-foreground hover:text-foreground"
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={handleSchedule}
+            disabled={saving || !(parseFloat(values.value) > 0)}
+            className="px-4 py-2 rounded-lg font-medium bg-primary text-primary-foreground hover:bg-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? "Scheduling..." : "Schedule Sale"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,842 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getShippingMethodLabel,
+  SHIPPING_METHODS,
+  SHIPPING_RATE_TYPES,
+  ShippingMethod,
+  ShippingRateTier,
+  ShippingRateType,
+} from "@/lib/shipping-rate-utils";
+import { useCallback, useEffect, useState } from "react";
+
+interface AdminShippingRate {
+  id: string;
+  zone_id: string;
+  method: ShippingMethod;
+  name: string;
+  rate_type: ShippingRateType;
+  amount: number;
+  tiers: ShippingRateTier[] | null;
+  free_over: number | null;
+  is_active: boolean;
+  sort_order: number;
+}
+
+interface AdminShippingZone {
+  id: string;
+  name: string;
+  locations: Array<{ country: string; region: string | null }>;
+  rates: AdminShippingRate[];
+}
+
+interface ZoneFormData {
+  name: string;
+  locations: string; // Comma separated, e.g. "US, CA-QC"
+}
+
+interface RateFormData {
+  method: ShippingMethod;
+  name: string;
+  rate_type: ShippingRateType;
+  amount: string;
+  tiers: Array<{ min: string; amount: string }>;
+  free_over: string;
+  is_active: boolean;
+}
+
+const EMPTY_RATE_FORM: RateFormData = {
+  method: "standard",
+  name: "",
+  rate_type: "flat",
+  amount: "",
+  tiers: [{ min: "0", amount: "" }],
+  free_over: "",
+  is_active: true,
+};
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+}
+
+function formatLocation(location: {
+  country: string;
+  region: string | null;
+}): string {
+  return location.region
+    ? `${location.country}-${location.region}`
+    : location.country;
+}
+
+// "US, US-CA" -> [{ country: "US" }, { country: "US", region: "CA" }]
+function parseLocations(value: string) {
+  return value
+    .split(",")
+    .map((entry) => entry.trim().toUpperCase())
+    .filter(Boolean)
+    .map((entry) => {
+      const [country, ...region] = entry.split("-");
+      return { country, region: region.join("-") || null };
+    });
+}
+
+function describeRate(rate: AdminShippingRate): string {
+  if (rate.rate_type === "flat") {
+    return formatCurrency(rate.amount);
+  }
+
+  const tiers = [...(rate.tiers || [])].sort((a, b) => a.min - b.min);
+  return tiers
+    .map((tier) =>
+      rate.rate_type === "weight"
+        ? `${tier.min}g+ ${formatCurrency(tier.amount)}`
+        : `${formatCurrency(tier.min)}+ ${formatCurrency(tier.amount)}`
+    )
+    .join(" · ");
+}
+
+export function ShippingContent() {
+  const { toast } = useToast();
+  const [zones, setZones] = useState<AdminShippingZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [zoneDialogOpen, setZoneDialogOpen] = useState(false);
+  const [editingZone, setEditingZone] = useState<AdminShippingZone | null>(
+    null
+  );
+  const [zoneForm, setZoneForm] = useState<ZoneFormData>({
+    name: "",
+    locations: "",
+  });
+
+  const [rateDialogOpen, setRateDialogOpen] = useState(false);
+  const [rateZone, setRateZone] = useState<AdminShippingZone | null>(null);
+  const [editingRate, setEditingRate] = useState<AdminShippingRate | null>(
+    null
+  );
+  const [rateForm, setRateForm] = useState<RateFormData>(EMPTY_RATE_FORM);
+
+  const fetchZones = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/shipping/zones", {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch shipping zones");
+
+      const result = await response.json();
+      setZones(result.data.zones);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to load shipping zones",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchZones();
+  }, [fetchZones]);
+
+  const sendRequest = async (
+    url: string,
+    method: "POST" | "PUT" | "DELETE",
+    body?: Record<string, unknown>
+  ) => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+      },
+      credentials: "include",
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const result = await response.json();
+
+    if (!response.ok) {
+      if (result.details) {
+        setFormErrors(
+          Object.fromEntries(
+            result.details.map((detail: { field: string; message: string }) => [
+              detail.field.split(".")[0],
+              detail.message,
+            ])
+          )
+        );
+      }
+      throw new Error(result.error || "Request failed");
+    }
+    return result.data;
+  };
+
+  const handleCreateZone = () => {
+    setEditingZone(null);
+    setZoneForm({ name: "", locations: "" });
+    setFormErrors({});
+    setZoneDialogOpen(true);
+  };
+
+  const handleEditZone = (zone: AdminShippingZone) => {
+    setEditingZone(zone);
+    setZoneForm({
+      name: zone.name,
+      locations: zone.locations.map(formatLocation).join(", "),
+    });
+    setFormErrors({});
+    setZoneDialogOpen(true);
+  };
+
+  const handleZoneSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setFormErrors({});
+
+    try {
+      await sendRequest(
+        editingZone
+          ? `/api/admin/shipping/zones/${editingZone.id}`
+          : "/api/admin/shipping/zones",
+        editingZone ? "PUT" : "POST",
+        {
+          name: zoneForm.name,
+          locations: parseLocations(zoneForm.locations),
+        }
+      );
+
+      toast({
+        title: editingZone ? "Zone updated" : "Zone created",
+        description: zoneForm.name,
+      });
+      setZoneDialogOpen(false);
+      fetchZones();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to save zone",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteZone = async (zone: AdminShippingZone) => {
+    if (
+      !confirm(
+        `Delete ${zone.name} and its shipping rates? Customers in this zone will not be able to check out.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await sendRequest(`/api/admin/shipping/zones/${zone.id}`, "DELETE");
+      toast({ title: "Zone deleted", description: zone.name });
+      fetchZones();
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to delete zone",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreateRate = (zone: AdminShippingZone) => {
+    setRateZone(zone);
+    setEditingRate(null);
+    setRateForm(EMPTY_RATE_FORM);
+    setFormErrors({});
+    setRateDialogOpen(true);
+  };
+
+  const handleEditRate = (zone: AdminShippingZone, rate: AdminShippingRate) => {
+    setRateZone(zone);
+    setEditingRate(rate);
+    setRateForm({
+      method: rate.method,
+      name: rate.name,
+      rate_type: rate.rate_type,
+      amount: rate.rate_type === "flat" ? String(rate.amount) : "",
+      tiers:
+        rate.tiers && rate.tiers.length > 0
+          ? rate.tiers.map((tier) => ({
+              min: String(tier.min),
+              amount: String(tier.amount),
+            }))
+          : EMPTY_RATE_FORM.tiers,
+      free_over: rate.free_over !== null ? String(rate.free_over) : "",
+      is_active: rate.is_active,
+    });
+    setFormErrors({});
+    setRateDialogOpen(true);
+  };
+
+  const handleRateSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rateZone) return;
+    setIsSaving(true);
+    setFormErrors({});
+
+    try {
+      await sendRequest(
+        editingRate
+          ? `/api/admin/shipping/rates/${editingRate.id}`
+          : "/api/admin/shipping/rates",
+        editingRate ? "PUT" : "POST",
+        {
+          zone_id: rateZone.id,
+          method: rateForm.method,
+          name: rateForm.name,
+          rate_type: rateForm.rate_type,
+          amount:
+            rateForm.rate_type === "flat"
+              ? parseFloat(rateForm.amount) || 0
+              : 0,
+          tiers:
+            rateForm.rate_type === "flat"
+              ? null
+              : rateForm.tiers
+                  .filter((tier) => tier.min !== "" && tier.amount !== "")
+                  .map((tier) => ({
+                    min: parseFloat(tier.min),
+                    amount: parseFloat(tier.amount),
+                  })),
+          free_over: rateForm.free_over ? parseFloat(rateForm.free_over) : null,
+          is_active: rateForm.is_active,
+        }
+      );
+
+      toast({
+        title: editingRate ? "Rate updated" : "Rate created",
+        description: rateForm.name,
+      });
+      setRateDialogOpen(false);
+      fetchZones();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to save rate",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleRate = async (rate: AdminShippingRate) => {
+    try {
+      await sendRequest(`/api/admin/shipping/rates/${rate.id}`, "PUT", {
+        is_active: !rate.is_active,
+      });
+      toast({
+        title: rate.is_active ? "Rate disabled" : "Rate enabled",
+        description: rate.name,
+      });
+      fetchZones();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to update rate",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteRate = async (rate: AdminShippingRate) => {
+    if (!confirm(`Delete ${rate.name}?`)) return;
+
+    try {
+      await sendRequest(`/api/admin/shipping/rates/${rate.id}`, "DELETE");
+      toast({ title: "Rate deleted", description: rate.name });
+      fetchZones();
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to delete rate",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateTier = (
+    index: number,
+    field: "min" | "amount",
+    value: string
+  ) => {
+    setRateForm((prev) => ({
+      ...prev,
+      tiers: prev.tiers.map((tier, i) =>
+        i === index ? { ...tier, [field]: value } : tier
+      ),
+    }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Each country or region belongs to one zone; a region listed in a zone
+          overrides its country. Customers only see the active rates of the zone
+          their shipping address falls in.
+        </p>
+        <Button onClick={handleCreateZone}>New Zone</Button>
+      </div>
+
+      {loading ? (
+        <div className="bg-card border rounded-lg p-8 text-center">
+          Loading...
+        </div>
+      ) : zones.length === 0 ? (
+        <div className="bg-card border rounded-lg p-8 text-center">
+          No shipping zones yet - customers cannot check out until one is added
+        </div>
+      ) : (
+        zones.map((zone) => (
+          <div key={zone.id} className="bg-card border rounded-lg">
+            <div className="flex flex-wrap items-center justify-between gap-2 p-4 border-b">
+              <div>
+                <h3 className="font-semibold">{zone.name}</h3>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {zone.locations.map((location) => (
+                    <Badge
+                      key={formatLocation(location)}
+                      variant="outline"
+                      className="font-mono text-xs"
+                    >
+                      {formatLocation(location)}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleCreateRate(zone)}
+                >
+                  Add Rate
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleEditZone(zone)}
+                >
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => handleDeleteZone(zone)}
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Free Over</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {zone.rates.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-6">
+                      No rates - add one so customers in this zone can check out
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  zone.rates.map((rate) => (
+                    <TableRow key={rate.id}>
+                      <TableCell className="font-medium">{rate.name}</TableCell>
+                      <TableCell className="text-sm">
+                        {getShippingMethodLabel(rate.method)}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {describeRate(rate)}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {rate.free_over !== null
+                          ? formatCurrency(rate.free_over)
+                          : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          className={`${
+                            rate.is_active ? "bg-green-500" : "bg-gray-500"
+                          } text-white`}
+                        >
+                          {rate.is_active ? "active" : "disabled"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEditRate(zone, rate)}
+                          >
+                            Edit
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleToggleRate(rate)}
+                          >
+                            {rate.is_active ? "Disable" : "Enable"}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive"
+                            onClick={() => handleDeleteRate(rate)}
+                          >
+                            Delete
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        ))
+      )}
+
+      {/* Zone Dialog */}
+      <Dialog open={zoneDialogOpen} onOpenChange={setZoneDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editingZone ? "Edit Zone" : "New Shipping Zone"}
+            </DialogTitle>
+            <DialogDescription>
+              Group the countries and regions that share shipping rates.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleZoneSubmit} className="space-y-4 mt-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Name</label>
+              <Input
+                value={zoneForm.name}
+                onChange={(e) =>
+                  setZoneForm((prev) => ({ ...prev, name: e.target.value }))
+                }
+                placeholder="Continental US"
+              />
+              {formErrors.name && (
+                <p className="mt-1 text-sm text-destructive">
+                  {formErrors.name}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Countries and regions
+              </label>
+              <Input
+                value={zoneForm.locations}
+                onChange={(e) =>
+                  setZoneForm((prev) => ({
+                    ...prev,
+                    locations: e.target.value,
+                  }))
+                }
+                placeholder="US, CA-QC, GB"
+                className="font-mono"
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                2-letter country codes, optionally with a region, separated by
+                commas
+              </p>
+              {formErrors.locations && (
+                <p className="mt-1 text-sm text-destructive">
+                  {formErrors.locations}
+                </p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setZoneDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rate Dialog */}
+      <Dialog open={rateDialogOpen} onOpenChange={setRateDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingRate ? "Edit Rate" : "New Rate"}</DialogTitle>
+            <DialogDescription>
+              Shipping method offered to {rateZone?.name}.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleRateSubmit} className="space-y-4 mt-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Method</label>
+                <Select
+                  value={rateForm.method}
+                  onValueChange={(value) =>
+                    setRateForm((prev) => ({
+                      ...prev,
+                      method: value as ShippingMethod,
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SHIPPING_METHODS.map((method) => (
+                      <SelectItem key={method.value} value={method.value}>
+                        {method.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  Pricing
+                </label>
+                <Select
+                  value={rateForm.rate_type}
+                  onValueChange={(value) =>
+                    setRateForm((prev) => ({
+                      ...prev,
+                      rate_type: value as ShippingRateType,
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SHIPPING_RATE_TYPES.map((rateType) => (
+                      <SelectItem key={rateType.value} value={rateType.value}>
+                        {rateType.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Name shown at checkout
+              </label>
+              <Input
+                value={rateForm.name}
+                onChange={(e) =>
+                  setRateForm((prev) => ({ ...prev, name: e.target.value }))
+                }
+                placeholder="Standard (5-7 business days)"
+              />
+              {formErrors.name && (
+                <p className="mt-1 text-sm text-destructive">
+                  {formErrors.name}
+                </p>
+              )}
+            </div>
+
+            {rateForm.rate_type === "flat" ? (
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  Price ($)
+                </label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={rateForm.amount}
+                  onChange={(e) =>
+                    setRateForm((prev) => ({ ...prev, amount: e.target.value }))
+                  }
+                />
+                {formErrors.amount && (
+                  <p className="mt-1 text-sm text-destructive">
+                    {formErrors.amount}
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  {rateForm.rate_type === "weight"
+                    ? "Tiers (from weight in grams)"
+                    : "Tiers (from order subtotal in $)"}
+                </label>
+                <div className="space-y-2">
+                  {rateForm.tiers.map((tier, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        step={rateForm.rate_type === "weight" ? "1" : "0.01"}
+                        value={tier.min}
+                        onChange={(e) =>
+                          updateTier(index, "min", e.target.value)
+                        }
+                        placeholder="From"
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={tier.amount}
+                        onChange={(e) =>
+                          updateTier(index, "amount", e.target.value)
+                        }
+                        placeholder="Price ($)"
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={rateForm.tiers.length === 1}
+                        onClick={() =>
+                          setRateForm((prev) => ({
+                            ...prev,
+                            tiers: prev.tiers.filter((_, i) => i !== index),
+                          }))
+                        }
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setRateForm((prev) => ({
+                        ...prev,
+                        tiers: [...prev.tiers, { min: "", amount: "" }],
+                      }))
+                    }
+                  >
+                    Add Tier
+                  </Button>
+                </div>
+                {formErrors.tiers && (
+                  <p className="mt-1 text-sm text-destructive">
+                    {formErrors.tiers}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Free when subtotal reaches ($)
+              </label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={rateForm.free_over}
+                placeholder="Never free"
+                onChange={(e) =>
+                  setRateForm((prev) => ({
+                    ...prev,
+                    free_over: e.target.value,
+                  }))
+                }
+              />
+              {formErrors.free_over && (
+                <p className="mt-1 text-sm text-destructive">
+                  {formErrors.free_over}
+                </p>
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={rateForm.is_active}
+                onChange={(e) =>
+                  setRateForm((prev) => ({
+                    ...prev,
+                    is_active: e.target.checked,
+                  }))
+                }
+              />
+              Offered at checkout
+            </label>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setRateDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,439 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { formatTaxRate, TAX_CATEGORIES, TaxCategory } from "@/lib/tax-utils";
+import { useCallback, useEffect, useState } from "react";
+
+interface AdminTaxRate {
+  id: string;
+  name: string;
+  country: string;
+  region: string | null;
+  tax_category: TaxCategory;
+  rate: number;
+  updated_at: string;
+}
+
+interface TaxRateFormData {
+  name: string;
+  country: string;
+  region: string;
+  tax_category: TaxCategory;
+  rate: string; // Percent, e.g. "8.25"
+}
+
+const EMPTY_FORM: TaxRateFormData = {
+  name: "",
+  country: "US",
+  region: "",
+  tax_category: "standard",
+  rate: "",
+};
+
+const CATEGORY_STYLES: Record<TaxCategory, string> = {
+  standard: "bg-blue-500",
+  reduced: "bg-yellow-500",
+  exempt: "bg-gray-500",
+};
+
+export function TaxRatesContent() {
+  const { toast } = useToast();
+  const [taxRates, setTaxRates] = useState<AdminTaxRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<AdminTaxRate | null>(null);
+  const [formData, setFormData] = useState<TaxRateFormData>(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchTaxRates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/tax-rates", {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch tax rates");
+
+      const result = await response.json();
+      setTaxRates(result.data.taxRates);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to load tax rates",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTaxRates();
+  }, [fetchTaxRates]);
+
+  const handleCreate = () => {
+    setEditingRate(null);
+    setFormData(EMPTY_FORM);
+    setFormErrors({});
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (taxRate: AdminTaxRate) => {
+    setEditingRate(taxRate);
+    setFormData({
+      name: taxRate.name,
+      country: taxRate.country,
+      region: taxRate.region || "",
+      tax_category: taxRate.tax_category,
+      rate: String(parseFloat((taxRate.rate * 100).toFixed(3))),
+    });
+    setFormErrors({});
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setFormErrors({});
+
+    try {
+      const response = await fetch(
+        editingRate
+          ? `/api/admin/tax-rates/${editingRate.id}`
+          : "/api/admin/tax-rates",
+        {
+          method: editingRate ? "PUT" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify({
+            name: formData.name,
+            country: formData.country,
+            region: formData.region || null,
+            tax_category: formData.tax_category,
+            // Stored as a fraction; rounded to the column's 5 decimal places
+            rate: Math.round((parseFloat(formData.rate) || 0) * 1000) / 100000,
+          }),
+        }
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        if (result.details) {
+          setFormErrors(
+            Object.fromEntries(
+              result.details.map(
+                (detail: { field: string; message: string }) => [
+                  detail.field,
+                  detail.message,
+                ]
+              )
+            )
+          );
+        }
+        throw new Error(result.error || "Failed to save tax rate");
+      }
+
+      toast({
+        title: editingRate ? "Tax rate updated" : "Tax rate created",
+        description: result.data.taxRate.name,
+      });
+      setDialogOpen(false);
+      fetchTaxRates();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to save tax rate",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (taxRate: AdminTaxRate) => {
+    if (
+      !confirm(
+        `Delete ${taxRate.name}? Orders to this location will no longer be charged this rate.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/tax-rates/${taxRate.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to delete tax rate");
+
+      toast({
+        title: "Tax rate deleted",
+        description: taxRate.name,
+      });
+      fetchTaxRates();
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to delete tax rate",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          A region rate overrides its country-wide rate. Products in a category
+          without its own rate are taxed at the standard rate; exempt products
+          are never taxed. Locations without a rate are not taxed.
+        </p>
+        <Button onClick={handleCreate}>New Tax Rate</Button>
+      </div>
+
+      {/* Table */}
+      <div className="bg-card border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Country</TableHead>
+              <TableHead>Region</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>Rate</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8">
+                  Loading...
+                </TableCell>
+              </TableRow>
+            ) : taxRates.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8">
+                  No tax rates configured - orders are not taxed
+                </TableCell>
+              </TableRow>
+            ) : (
+              taxRates.map((taxRate) => (
+                <TableRow key={taxRate.id}>
+                  <TableCell className="font-medium">{taxRate.name}</TableCell>
+                  <TableCell className="font-mono text-sm">
+                    {taxRate.country}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {taxRate.region || (
+                      <span className="text-muted-foreground">All regions</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      className={`${
+                        CATEGORY_STYLES[taxRate.tax_category]
+                      } text-white`}
+                    >
+                      {taxRate.tax_category}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {formatTaxRate(taxRate.rate)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleEdit(taxRate)}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        onClick={() => handleDelete(taxRate)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editingRate ? "Edit Tax Rate" : "New Tax Rate"}
+            </DialogTitle>
+            <DialogDescription>
+              Applied to orders shipping to this location.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Name</label>
+              <Input
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, name: e.target.value }))
+                }
+                placeholder="California sales tax"
+              />
+              {formErrors.name && (
+                <p className="mt-1 text-sm text-destructive">
+                  {formErrors.name}
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  Country
+                </label>
+                <Input
+                  value={formData.country}
+                  maxLength={2}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      country: e.target.value.toUpperCase(),
+                    }))
+                  }
+                  placeholder="US"
+                  className="font-mono"
+                />
+                {formErrors.country && (
+                  <p className="mt-1 text-sm text-destructive">
+                    {formErrors.country}
+                  </p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  State/Region
+                </label>
+                <Input
+                  value={formData.region}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      region: e.target.value.toUpperCase(),
+                    }))
+                  }
+                  placeholder="All regions"
+                  className="font-mono"
+                />
+                {formErrors.region && (
+                  <p className="mt-1 text-sm text-destructive">
+                    {formErrors.region}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  Tax category
+                </label>
+                <Select
+                  value={formData.tax_category}
+                  onValueChange={(value) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      tax_category: value as TaxCategory,
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {/* Exempt products are never taxed, so need no rate */}
+                    {TAX_CATEGORIES.filter(
+                      (category) => category.value !== "exempt"
+                    ).map((category) => (
+                      <SelectItem key={category.value} value={category.value}>
+                        {category.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  Rate (%)
+                </label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.001"
+                  value={formData.rate}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, rate: e.target.value }))
+                  }
+                  placeholder="8.25"
+                />
+                {formErrors.rate && (
+                  <p className="mt-1 text-sm text-destructive">
+                    {formErrors.rate}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
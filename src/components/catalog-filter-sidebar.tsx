@@ -0,0 +1,148 @@
+"use client";
+
+import {
+  CatalogFacets,
+  CatalogFilters,
+  countActiveFilters,
+  EMPTY_CATALOG_FILTERS,
+  FacetValue,
+  toggleFacetValue,
+} from "@/lib/catalog-filter-utils";
+import { useState } from "react";
+
+interface CatalogFilterSidebarProps {
+  facets: CatalogFacets | null;
+  filters: CatalogFilters;
+  onChange: (filters: CatalogFilters) => void;
+}
+
+interface FacetSectionProps {
+  title: string;
+  values: Array<FacetValue & { depth?: number }>;
+  selected: string[];
+  onToggle: (value: string) => void;
+}
+
+function FacetSection({
+  title,
+  values,
+  selected,
+  onToggle,
+}: FacetSectionProps) {
+  if (values.length === 0) return null;
+
+  return (
+    <fieldset className="border-t border-border pt-4 first:border-t-0 first:pt-0">
+      <legend className="text-sm font-semibold text-foreground mb-2">
+        {title}
+      </legend>
+      <ul className="space-y-1.5">
+        {values.map((facet) => {
+          const checked = selected.includes(facet.value);
+          return (
+            <li
+              key={facet.value}
+              style={{ paddingLeft: `${(facet.depth || 0) * 0.75}rem` }}
+            >
+              <label
+                className={`flex items-center gap-2 text-sm cursor-pointer ${
+                  facet.count === 0 && !checked
+                    ? "text-muted-foreground/60"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  onChange={() => onToggle(facet.value)}
+                  className="h-4 w-4 text-primary focus:ring-primary border-border rounded"
+                />
+                <span className="flex-1 truncate">{facet.label}</span>
+                <span className="text-xs tabular-nums">{facet.count}</span>
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+    </fieldset>
+  );
+}
+
+/**
+ * Multi-select catalog facets with how many products each value matches.
+ * Collapses behind a toggle on small screens.
+ */
+export function CatalogFilterSidebar({
+  facets,
+  filters,
+  onChange,
+}: CatalogFilterSidebarProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const activeCount = countActiveFilters(filters);
+
+  const toggle = (key: keyof CatalogFilters) => (value: string) =>
+    onChange({ ...filters, [key]: toggleFacetValue(filters[key], value) });
+
+  return (
+    <aside className="bg-card rounded-xl shadow-sm border border-border p-4 sm:p-5">
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-sm font-semibold text-foreground lg:cursor-default"
+          aria-expanded={isOpen}
+        >
+          Filters{activeCount > 0 && ` (${activeCount})`}
+          <span className="lg:hidden ml-1 text-muted-foreground">
+            {isOpen ? "▴" : "▾"}
+          </span>
+        </button>
+        {activeCount > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_CATALOG_FILTERS)}
+            className="text-xs text-primary hover:text-accent-foreground underline"
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+
+      <div className={`${isOpen ? "block" : "hidden"} lg:block mt-4 space-y-4`}>
+        {!facets ? (
+          <p className="text-sm text-muted-foreground">Loading filters...</p>
+        ) : (
+          <>
+            <FacetSection
+              title="Category"
+              values={facets.categories}
+              selected={filters.categories}
+              onToggle={toggle("categories")}
+            />
+            {facets.options.map((option) => (
+              <FacetSection
+                key={option.name}
+                title={option.label}
+                values={option.values}
+                selected={filters.options}
+                onToggle={toggle("options")}
+              />
+            ))}
+            <FacetSection
+              title="Price"
+              values={facets.priceBands}
+              selected={filters.priceBands}
+              onToggle={toggle("priceBands")}
+            />
+            <FacetSection
+              title="Tags"
+              values={facets.tags}
+              selected={filters.tags}
+              onToggle={toggle("tags")}
+            />
+          </>
+        )}
+      </div>
+    </aside>
+  );
+}
@@ -6,14 +6,14 @@ interface CategoryCardProps {
     id: string;
     name: string;
     slug: string;
-    description?: string;
-    thumbnail?: string;
+    description?: string | null;
+    thumbnail?: string | null;
   };
 }
 
 export function CategoryCard({ category }: CategoryCardProps) {
   return (
-    <PrefetchLink href={`/products?category=${category.slug}`}>
+    <PrefetchLink href={`/categories/${category.slug}`}>
       <div className="group relative bg-card rounded-xl sm:rounded-2xl shadow-sm border border-border hover:shadow-lg hover:border-border transition-all duration-200 overflow-hidden cursor-pointer">
         <div className="relative w-full h-36 sm:h-48">
           {category.thumbnail ? (
@@ -0,0 +1,28 @@
+"use client";
+
+import { useCurrency } from "@/contexts/currency-context";
+
+/**
+ * Currency picker for the header. Hidden until the store has more than one
+ * currency to offer.
+ */
+export function CurrencySwitcher({ className = "" }: { className?: string }) {
+  const { currency, currencies, setCurrency } = useCurrency();
+
+  if (currencies.length < 2) return null;
+
+  return (
+    <select
+      value={currency}
+      onChange={(e) => setCurrency(e.target.value)}
+      aria-label="Currency"
+      className={`px-2 py-2 text-sm font-medium bg-muted hover:bg-accent text-foreground rounded-xl border-0 focus:outline-none focus:ring-2 focus:ring-primary transition-colors duration-200 ${className}`}
+    >
+      {currencies.map((option) => (
+        <option key={option.code} value={option.code} title={option.label}>
+          {option.code}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,130 @@
+import { useCart } from "@/contexts/cart-context";
+import { useCurrency } from "@/contexts/currency-context";
+import { AppliedGiftCard } from "@/lib/gift-card-utils";
+import { useState } from "react";
+
+interface GiftCardInputProps {
+  onGiftCardChange: (
+    code: string | null,
+    giftCard: AppliedGiftCard | null
+  ) => void;
+}
+
+/**
+ * Gift card and store credit code entry for the checkout page.
+ * The code is checked against /api/checkout/validate for its balance; the
+ * balance is only spent when the order is submitted.
+ */
+export function GiftCardInput({ onGiftCardChange }: GiftCardInputProps) {
+  const { cart } = useCart();
+  const { formatPrice } = useCurrency();
+  const [code, setCode] = useState("");
+  const [appliedGiftCard, setAppliedGiftCard] =
+    useState<AppliedGiftCard | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleApply = async () => {
+    if (!code.trim() || isApplying) return;
+
+    setIsApplying(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/checkout/validate", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          items: (cart?.items || []).map((item) => ({
+            product_id: item.product_id,
+            quantity: item.quantity,
+            selected_options: item.selected_options,
+          })),
+          giftCardCode: code,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Unable to check gift card. Please try again.");
+      }
+
+      const result = await response.json();
+      if (!result.giftCard) {
+        throw new Error(result.giftCardError || "Invalid gift card code");
+      }
+
+      setAppliedGiftCard(result.giftCard);
+      onGiftCardChange(code.trim(), result.giftCard);
+      setCode("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid gift card code");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleRemove = () => {
+    setAppliedGiftCard(null);
+    onGiftCardChange(null, null);
+  };
+
+  if (appliedGiftCard) {
+    return (
+      <div className="flex items-center justify-between gap-2 rounded-lg border border-green-200 bg-green-50 px-3 py-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-green-800 truncate font-mono">
+            {appliedGiftCard.code}
+          </p>
+          <p className="text-xs text-green-700">
+            {formatPrice(appliedGiftCard.balance)} available
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleRemove}
+          className="text-xs sm:text-sm text-muted-foreground hover:text-foreground font-medium transition-colors touch-manipulation"
+        >
+          Remove
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value);
+            setError("");
+          }}
+          onKeyDown={(e) => {
+            // Apply the code instead of submitting the surrounding form
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleApply();
+            }
+          }}
+          placeholder="Gift card or store credit code"
+          className={`flex-1 min-w-0 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary text-base sm:text-sm uppercase touch-manipulation ${
+            error ? "border-destructive" : "border-border"
+          }`}
+        />
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={!code.trim() || isApplying}
+          className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation"
+        >
+          {isApplying ? "Applying..." : "Apply"}
+        </button>
+      </div>
+      {error && <p className="mt-1 text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
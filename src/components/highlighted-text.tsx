@@ -0,0 +1,27 @@
+import { HighlightSegment } from "@/lib/search-utils";
+
+interface HighlightedTextProps {
+  segments: HighlightSegment[];
+}
+
+/**
+ * Text with the words that matched a search marked
+ */
+export function HighlightedText({ segments }: HighlightedTextProps) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark
+            key={index}
+            className="bg-primary/15 text-inherit rounded-sm px-0.5 -mx-0.5"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -1,4 +1,5 @@
 import { ProductCard } from "@/components/product-card";
+import { HighlightSegment } from "@/lib/search-utils";
 import { useEffect, useRef } from "react";
 
 interface Product {
@@ -8,6 +9,8 @@ interface Product {
   description: string;
   image?: string;
   base_price?: string;
+  price?: string | null;
+  compare_at_price?: string | null;
   status: string;
   created_at: string;
   updated_at: string;
@@ -37,6 +40,10 @@ interface Product {
     name: string;
     color: string;
   }>;
+  highlights?: {
+    title: HighlightSegment[];
+    snippet: HighlightSegment[];
+  } | null; // Set for search results
 }
 
 interface InfiniteProductGridProps {
@@ -1,5 +1,7 @@
 "use client";
 
+import { CurrencySwitcher } from "@/components/currency-switcher";
+import { SearchAutocomplete } from "@/components/search-autocomplete";
 import { PrefetchLink } from "@/components/ui/prefetch-link";
 import { StatusIndicator } from "@/components/ui/status-indicator";
 import { useAuth } from "@/contexts/auth-context";
@@ -178,6 +180,34 @@ export function Header() {
     };
   }, [isThemeDropdownOpen]);
 
+  // The catalog has its own search box, which this would duplicate
+  const showSearch = router.pathname !== "/products";
+
+  const handleSearch = (query: string) => {
+    // The catalog search box restores the last query from here
+    localStorage.setItem("searchQuery", query);
+    closeMobileMenu();
+    router.push(`/products?q=${encodeURIComponent(query)}`);
+  };
+
+  const searchIcon = (
+    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+      <svg
+        className="h-4 w-4 text-muted-foreground"
+        fill="none"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+        />
+      </svg>
+    </div>
+  );
+
   const formatThemeName = (themeName: string) => {
     return themeName
       .split("-")
@@ -241,7 +271,21 @@ export function Header() {
               )}
             </nav>
 
+            {showSearch && (
+              <div className="hidden lg:block w-64">
+                <SearchAutocomplete
+                  placeholder="Search..."
+                  onSubmit={handleSearch}
+                  inputClassName="w-full pl-9 pr-3 py-2 text-sm border border-border rounded-xl focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent bg-muted focus:bg-card transition-all duration-200"
+                >
+                  {searchIcon}
+                </SearchAutocomplete>
+              </div>
+            )}
+
             <div className="flex items-center gap-3">
+              <CurrencySwitcher />
+
               {/* Mobile Cart Button */}
               <PrefetchLink href="/cart" className="md:hidden">
                 <button className="relative inline-flex items-center p-2 bg-primary hover:bg-primary/90 text-primary-foreground hover:text-primary-foreground font-medium rounded-xl transition-all duration-200 shadow-sm hover:shadow-md">
@@ -539,6 +583,17 @@ export function Header() {
                 className="flex-1 overflow-y-auto px-4 py-4 pb-32 space-y-4 mobile-scroll"
                 style={{ minHeight: 0 }}
               >
+                {showSearch && (
+                  <SearchAutocomplete
+                    placeholder="Search..."
+                    onSubmit={handleSearch}
+                    onNavigate={closeMobileMenu}
+                    inputClassName="w-full pl-9 pr-3 py-3 text-base border border-border rounded-xl focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent bg-muted focus:bg-card transition-all duration-200"
+                  >
+                    {searchIcon}
+                  </SearchAutocomplete>
+                )}
+
                 {/* Mobile Navigation Links */}
                 <nav className="space-y-3">
                   <PrefetchLink
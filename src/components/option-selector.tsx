@@ -6,6 +6,7 @@ interface Option {
   id: string;
   label: string;
   priceAdjustment: number;
+  isSoldOut?: boolean; // Still selectable so shoppers can ask to be notified
 }
 
 interface OptionSelectorProps {
@@ -58,7 +59,10 @@ export function OptionSelector({
     let badgeColor = "bg-muted text-foreground";
     let badgeText = "Included";
 
-    if (isSelected) {
+    if (option.isSoldOut) {
+      badgeColor = "bg-muted text-muted-foreground";
+      badgeText = "Sold out";
+    } else if (isSelected) {
       badgeColor = "bg-accent text-primary";
       badgeText = "Included";
     } else if (priceDiff === 0) {
@@ -117,9 +121,15 @@ export function OptionSelector({
                       onSelect(option);
                       setShowDropdown(false);
                     }}
-                    className="w-full p-3 sm:p-4 text-left hover:bg-muted border-b border-border last:border-b-0 flex justify-between items-center"
+                    className={`w-full p-3 sm:p-4 text-left hover:bg-muted border-b border-border last:border-b-0 flex justify-between items-center ${
+                      option.isSoldOut ? "opacity-60" : ""
+                    }`}
                   >
-                    <span className="font-medium text-foreground text-sm sm:text-base truncate">
+                    <span
+                      className={`font-medium text-foreground text-sm sm:text-base truncate ${
+                        option.isSoldOut ? "line-through" : ""
+                      }`}
+                    >
                       {option.label}
                     </span>
                     <span
@@ -155,10 +165,14 @@ export function OptionSelector({
                 selectedOption?.id === option.id
                   ? "border-primary bg-accent ring-2 ring-primary/20"
                   : "border-border hover:border-border hover:bg-muted"
-              }`}
+              } ${option.isSoldOut ? "opacity-60" : ""}`}
             >
               <div className="flex justify-between items-center">
-                <span className="font-medium text-sm sm:text-base text-foreground truncate">
+                <span
+                  className={`font-medium text-sm sm:text-base text-foreground truncate ${
+                    option.isSoldOut ? "line-through" : ""
+                  }`}
+                >
                   {option.label}
                 </span>
                 <span
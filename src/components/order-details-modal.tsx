@@ -1,10 +1,13 @@
+import { OrderStatusTimeline } from "@/components/order-status-timeline";
+import { OrderShipment, ShipmentList } from "@/components/shipment-list";
 import { StatusIndicator } from "@/components/ui/status-indicator";
+import { OrderStatusHistoryEntry } from "@/lib/order-status-utils";
+import { getRefundReasonLabel, RefundReason } from "@/lib/refund-utils";
 import {
-  formatTrackingNumber,
-  generateTrackingUrl,
-  getProviderDisplayName,
-  ShippingProvider,
-} from "@/lib/shipping-utils";
+  getShippingMethodLabel,
+  ShippingMethod,
+} from "@/lib/shipping-rate-utils";
+import { getUnshippedQuantities } from "@/lib/shipping-utils";
 import Image from "next/image";
 import Link from "next/link";
 import { useEffect } from "react";
@@ -39,9 +42,12 @@ interface Order {
   created_at: string;
   updated_at: string;
   items: OrderItem[];
+  shipping_method?: ShippingMethod | null;
   tracking_number?: string;
   shipping_provider?: string;
   shipped_at?: string;
+  delivered_at?: string | null;
+  shipments?: OrderShipment[];
   shippingAddress?: {
     name: string;
     line1: string;
@@ -51,6 +57,17 @@ interface Order {
     postal_code: string;
     country: string;
   };
+  statusHistory?: OrderStatusHistoryEntry[];
+  refunds?: Array<{
+    id: string;
+    amount: number;
+    reason: RefundReason;
+    note?: string | null;
+    status: "pending" | "succeeded" | "failed";
+    failure_message?: string | null;
+    created_at: string;
+    created_by_name?: string | null;
+  }>;
   customer?: {
     id: string;
     email: string;
@@ -61,6 +78,7 @@ interface Order {
     tax: number;
     shipping: number;
     total: number;
+    refunded?: number;
   };
 }
 
@@ -198,9 +216,78 @@ export function OrderDetailsModal({
                       {formatDate(order.updated_at)}
                     </span>
                   </div>
+                  {order.shipping_method && (
+                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center">
+                      <span className="text-muted-foreground text-xs sm:text-sm">
+                        Shipping Method:
+                      </span>
+                      <span className="text-sm sm:text-base">
+                        {getShippingMethodLabel(order.shipping_method)}
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
 
+              {/* Status History */}
+              {order.statusHistory && (
+                <div className="bg-muted p-4 rounded-lg">
+                  <h4 className="font-semibold text-foreground mb-3 text-sm sm:text-base">
+                    Status History
+                  </h4>
+                  <OrderStatusTimeline
+                    history={order.statusHistory}
+                    showActors={showCustomer}
+                  />
+                </div>
+              )}
+
+              {/* Refunds */}
+              {order.refunds && order.refunds.length > 0 && (
+                <div className="bg-muted p-4 rounded-lg">
+                  <h4 className="font-semibold text-foreground mb-3 text-sm sm:text-base">
+                    Refunds
+                  </h4>
+                  <ul className="space-y-2 text-sm">
+                    {order.refunds.map((refund) => (
+                      <li key={refund.id}>
+                        <div className="flex justify-between gap-2">
+                          <span className="text-foreground">
+                            {getRefundReasonLabel(refund.reason)}
+                            {refund.status !== "succeeded" && (
+                              <span className="text-muted-foreground">
+                                {" "}
+                                ({refund.status})
+                              </span>
+                            )}
+                          </span>
+                          <span
+                            className={
+                              refund.status === "succeeded"
+                                ? "text-foreground"
+                                : "text-muted-foreground line-through"
+                            }
+                          >
+                            {formatPrice(refund.amount, order.currency)}
+                          </span>
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(refund.created_at).toLocaleString()}
+                          {showCustomer &&
+                            refund.created_by_name &&
+                            ` by ${refund.created_by_name}`}
+                        </div>
+                        {(refund.note || refund.failure_message) && (
+                          <div className="text-xs text-muted-foreground">
+                            {refund.failure_message || refund.note}
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Shipping Address */}
               {order.shippingAddress && (
                 <div className="bg-muted p-4 rounded-lg">
@@ -232,73 +319,21 @@ export function OrderDetailsModal({
               )}
 
               {/* Tracking Information */}
-              {order.tracking_number && (
+              {order.shipments && order.shipments.length > 0 && (
                 <div className="bg-accent border border-border p-4 rounded-lg">
                   <h4 className="font-semibold text-accent-foreground mb-3 text-sm sm:text-base">
                     Tracking Information
                   </h4>
-                  <div className="space-y-3 text-sm">
-                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center">
-                      <span className="text-accent-foreground text-xs sm:text-sm">
-                        Tracking Number:
-                      </span>
-                      <span className="font-mono text-accent-foreground text-xs sm:text-sm break-all mt-1 sm:mt-0">
-                        {formatTrackingNumber(
-                          order.tracking_number,
-                          (order.shipping_provider as ShippingProvider) ||
-                            "other"
-                        )}
-                      </span>
-                    </div>
-                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center">
-                      <span className="text-accent-foreground text-xs sm:text-sm">
-                        Provider:
-                      </span>
-                      <span className="font-medium text-accent-foreground text-sm sm:text-base mt-1 sm:mt-0">
-                        {getProviderDisplayName(
-                          (order.shipping_provider as ShippingProvider) ||
-                            "other"
-                        )}
-                      </span>
-                    </div>
-                    {order.shipped_at && (
-                      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center">
-                        <span className="text-accent-foreground text-xs sm:text-sm">
-                          Shipped:
-                        </span>
-                        <span className="text-accent-foreground text-sm sm:text-base mt-1 sm:mt-0">
-                          {new Date(order.shipped_at).toLocaleDateString()}
-                        </span>
-                      </div>
-                    )}
-                    <div className="pt-2">
-                      <a
-                        href={generateTrackingUrl(
-                          order.tracking_number,
-                          (order.shipping_provider as ShippingProvider) ||
-                            "other"
-                        )}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="inline-flex items-center px-4 py-2 bg-primary text-primary-foreground text-sm font-medium rounded-lg hover:bg-primary transition-colors"
-                      >
-                        Track Package
-                        <svg
-                          className="w-4 h-4 ml-2"
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
-                        >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
-                          />
-                        </svg>
-                      </a>
-                    </div>
-                  </div>
+                  <ShipmentList
+                    shipments={order.shipments}
+                    unshippedCount={
+                      order.status === "partially_shipped"
+                        ? Object.values(
+                            getUnshippedQuantities(order.items, order.shipments)
+                          ).reduce((sum, quantity) => sum + quantity, 0)
+                        : 0
+                    }
+                  />
                 </div>
               )}
 
@@ -459,6 +494,29 @@ export function OrderDetailsModal({
                       {formatPrice(total, order.currency)}
                     </span>
                   </div>
+                  {!!order.totals?.refunded && (
+                    <>
+                      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center">
+                        <span className="text-muted-foreground text-xs sm:text-sm">
+                          Refunded:
+                        </span>
+                        <span className="text-sm sm:text-base text-destructive">
+                          -{formatPrice(order.totals.refunded, order.currency)}
+                        </span>
+                      </div>
+                      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center">
+                        <span className="font-semibold text-foreground text-sm sm:text-base">
+                          Net:
+                        </span>
+                        <span className="font-semibold text-foreground text-sm sm:text-base">
+                          {formatPrice(
+                            total - order.totals.refunded,
+                            order.currency
+                          )}
+                        </span>
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
             </div>
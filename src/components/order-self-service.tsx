@@ -0,0 +1,429 @@
+import { useToast } from "@/components/ui/toast";
+import {
+  getReturnReasonLabel,
+  isOrderCancellable,
+  isOrderReturnable,
+  MAX_RETURN_PHOTOS,
+  RETURN_REASONS,
+  RETURN_WINDOW_DAYS,
+  ReturnReason,
+  ReturnStatus,
+} from "@/lib/return-utils";
+import { useState } from "react";
+
+export interface OrderReturnRequest {
+  id: string;
+  status: ReturnStatus;
+  reason: ReturnReason;
+  items: Array<{ order_item_id: string; quantity: number }>;
+  admin_note: string | null;
+  created_at: string;
+}
+
+interface SelfServiceOrder {
+  id: string;
+  orderNumber: string;
+  status: string;
+  created_at: string;
+  items: Array<{
+    id: string;
+    quantity: number;
+    descriptive_title: string;
+    product_title: string;
+  }>;
+  returnRequests?: OrderReturnRequest[];
+}
+
+interface OrderSelfServiceProps {
+  order: SelfServiceOrder;
+  email?: string; // Proves ownership for guests; omit when signed in
+  onChange: () => void;
+  className?: string;
+}
+
+const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: "Return requested - we'll email you once it's reviewed",
+  approved: "Return approved - please send the items back",
+  denied: "Return request declined",
+};
+
+/**
+ * Customer actions on their own order: cancel it before it ships, or request
+ * a return once it has, plus the status of any return already requested
+ */
+export function OrderSelfService({
+  order,
+  email,
+  onChange,
+  className = "",
+}: OrderSelfServiceProps) {
+  const { addToast } = useToast();
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [showReturnForm, setShowReturnForm] = useState(false);
+  const [returnQuantities, setReturnQuantities] = useState<
+    Record<string, number>
+  >({});
+  const [returnReason, setReturnReason] = useState<ReturnReason>("damaged");
+  const [returnDetails, setReturnDetails] = useState("");
+  const [returnPhotos, setReturnPhotos] = useState<string[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [returnError, setReturnError] = useState("");
+
+  const returnRequests = order.returnRequests || [];
+  const canCancel = isOrderCancellable(order.status);
+
+  // Units not already claimed by a return that is still open
+  const returnableQuantities = Object.fromEntries(
+    order.items.map((item) => {
+      const claimed = returnRequests
+        .filter((returnRequest) => returnRequest.status !== "denied")
+        .flatMap((returnRequest) => returnRequest.items)
+        .filter((line) => line.order_item_id === item.id)
+        .reduce((sum, line) => sum + line.quantity, 0);
+      return [item.id, Math.max(item.quantity - claimed, 0)];
+    })
+  );
+  const canReturn =
+    isOrderReturnable(order.status, order.created_at) &&
+    Object.values(returnableQuantities).some((quantity) => quantity > 0);
+
+  const handleCancel = async () => {
+    if (
+      !confirm(
+        order.status === "paid"
+          ? `Cancel ${order.orderNumber}? Your payment will be refunded in full.`
+          : `Cancel ${order.orderNumber}?`
+      )
+    ) {
+      return;
+    }
+
+    setIsCancelling(true);
+    try {
+      const response = await fetch(`/api/orders/${order.id}/cancel`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ email }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to cancel order");
+      }
+
+      addToast({ title: "Order cancelled", type: "success" });
+      onChange();
+    } catch (error) {
+      addToast({
+        title:
+          error instanceof Error ? error.message : "Failed to cancel order",
+        type: "error",
+      });
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const openReturnForm = () => {
+    setReturnQuantities({});
+    setReturnReason("damaged");
+    setReturnDetails("");
+    setReturnPhotos([]);
+    setReturnError("");
+    setShowReturnForm(true);
+  };
+
+  const handlePhotoUpload = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setIsUploading(true);
+    setReturnError("");
+    try {
+      const uploaded: string[] = [];
+      for (const file of Array.from(files).slice(
+        0,
+        MAX_RETURN_PHOTOS - returnPhotos.length
+      )) {
+        const formData = new FormData();
+        formData.append("image", file);
+        if (email) formData.append("email", email);
+
+        const response = await fetch(`/api/orders/${order.id}/return-photos`, {
+          method: "POST",
+          credentials: "include",
+          body: formData,
+        });
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to upload photo");
+        }
+        uploaded.push(result.url);
+      }
+      setReturnPhotos((prev) => [...prev, ...uploaded]);
+    } catch (error) {
+      setReturnError(
+        error instanceof Error ? error.message : "Failed to upload photo"
+      );
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleReturnSubmit = async () => {
+    const items = Object.entries(returnQuantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+
+    if (items.length === 0) {
+      setReturnError("Choose at least one item to return");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setReturnError("");
+    try {
+      const response = await fetch(`/api/orders/${order.id}/returns`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          email,
+          items,
+          reason: returnReason,
+          details: returnDetails.trim() || undefined,
+          photos: returnPhotos,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          result.details?.[0]?.message ||
+            result.error ||
+            "Failed to request return"
+        );
+      }
+
+      addToast({ title: "Return requested", type: "success" });
+      setShowReturnForm(false);
+      onChange();
+    } catch (error) {
+      setReturnError(
+        error instanceof Error ? error.message : "Failed to request return"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!canCancel && !canReturn && returnRequests.length === 0) {
+    return null;
+  }
+
+  return (
+    // Keep clicks from reaching order cards that open on click
+    <div
+      className={`space-y-3 ${className}`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {returnRequests.map((returnRequest) => (
+        <div
+          key={returnRequest.id}
+          className="bg-muted border border-border rounded-lg p-3 text-sm"
+        >
+          <p className="font-medium text-foreground">
+            {RETURN_STATUS_LABELS[returnRequest.status]}
+          </p>
+          <p className="text-muted-foreground">
+            {getReturnReasonLabel(returnRequest.reason)} · requested{" "}
+            {new Date(returnRequest.created_at).toLocaleDateString()}
+          </p>
+          {returnRequest.admin_note && (
+            <p className="mt-1 text-foreground">{returnRequest.admin_note}</p>
+          )}
+        </div>
+      ))}
+
+      {(canCancel || canReturn) && (
+        <div className="flex flex-wrap gap-2">
+          {canCancel && (
+            <button
+              onClick={handleCancel}
+              disabled={isCancelling}
+              className="px-4 py-2 text-sm font-medium text-destructive border border-destructive rounded-md hover:bg-destructive/10 focus:outline-none focus:ring-2 focus:ring-destructive disabled:opacity-50"
+            >
+              {isCancelling ? "Cancelling..." : "Cancel Order"}
+            </button>
+          )}
+          {canReturn && (
+            <button
+              onClick={openReturnForm}
+              className="px-4 py-2 text-sm font-medium text-foreground bg-muted rounded-md hover:bg-muted/80 focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              Request a Return
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Return Request Modal */}
+      {showReturnForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-card rounded-lg p-6 w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-semibold text-foreground mb-4">
+              Return Items from {order.orderNumber}
+            </h3>
+            <p className="text-sm text-muted-foreground mb-4">
+              Returns can be requested within {RETURN_WINDOW_DAYS} days of
+              ordering. We&apos;ll review your request and email you what to do
+              next.
+            </p>
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-foreground mb-2">
+                Items
+              </label>
+              <div className="space-y-2">
+                {order.items
+                  .filter((item) => returnableQuantities[item.id] > 0)
+                  .map((item) => (
+                    <div
+                      key={item.id}
+                      className="flex items-center justify-between gap-3 text-sm"
+                    >
+                      <span className="min-w-0 truncate text-foreground">
+                        {item.descriptive_title || item.product_title}
+                      </span>
+                      <input
+                        type="number"
+                        min="0"
+                        max={returnableQuantities[item.id]}
+                        step="1"
+                        value={returnQuantities[item.id] ?? 0}
+                        onChange={(e) =>
+                          setReturnQuantities((prev) => ({
+                            ...prev,
+                            [item.id]: Math.min(
+                              Math.max(parseInt(e.target.value) || 0, 0),
+                              returnableQuantities[item.id]
+                            ),
+                          }))
+                        }
+                        className="w-16 px-2 py-1 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                      />
+                    </div>
+                  ))}
+              </div>
+            </div>
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-foreground mb-2">
+                Reason
+              </label>
+              <select
+                value={returnReason}
+                onChange={(e) =>
+                  setReturnReason(e.target.value as ReturnReason)
+                }
+                className="w-full px-3 py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                {RETURN_REASONS.map((reason) => (
+                  <option key={reason.value} value={reason.value}>
+                    {reason.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-foreground mb-2">
+                Details (optional)
+              </label>
+              <textarea
+                value={returnDetails}
+                onChange={(e) => setReturnDetails(e.target.value)}
+                maxLength={2000}
+                rows={3}
+                placeholder="Tell us what happened"
+                className="w-full px-3 py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-foreground mb-2">
+                Photos (optional, up to {MAX_RETURN_PHOTOS})
+              </label>
+              {returnPhotos.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {returnPhotos.map((url) => (
+                    <div key={url} className="relative">
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img
+                        src={url}
+                        alt="Return photo"
+                        className="w-16 h-16 object-cover rounded-md"
+                      />
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setReturnPhotos((prev) =>
+                            prev.filter((photo) => photo !== url)
+                          )
+                        }
+                        className="absolute -top-2 -right-2 w-5 h-5 text-xs bg-card border border-border rounded-full"
+                        aria-label="Remove photo"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {returnPhotos.length < MAX_RETURN_PHOTOS && (
+                <input
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  disabled={isUploading}
+                  onChange={(e) => {
+                    handlePhotoUpload(e.target.files);
+                    e.target.value = "";
+                  }}
+                  className="block w-full text-sm text-muted-foreground"
+                />
+              )}
+              {isUploading && (
+                <p className="mt-1 text-sm text-muted-foreground">
+                  Uploading...
+                </p>
+              )}
+            </div>
+
+            {returnError && (
+              <p className="mb-4 text-sm text-destructive">{returnError}</p>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setShowReturnForm(false)}
+                className="px-4 py-2 text-sm font-medium text-foreground bg-muted rounded-md hover:bg-muted/80 focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleReturnSubmit}
+                disabled={isSubmitting || isUploading}
+                className="px-4 py-2 text-sm font-medium text-primary-foreground bg-primary rounded-md hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50"
+              >
+                {isSubmitting ? "Submitting..." : "Request Return"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
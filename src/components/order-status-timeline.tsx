@@ -0,0 +1,71 @@
+import { StatusIndicator } from "@/components/ui/status-indicator";
+import {
+  getOrderStatusLabel,
+  OrderStatusHistoryEntry,
+} from "@/lib/order-status-utils";
+
+interface OrderStatusTimelineProps {
+  history: OrderStatusHistoryEntry[];
+  showActors?: boolean; // Admin view: name the admin behind each change
+}
+
+export function OrderStatusTimeline({
+  history,
+  showActors = false,
+}: OrderStatusTimelineProps) {
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  const getActorLabel = (entry: OrderStatusHistoryEntry) => {
+    if (entry.actor_type === "admin") {
+      return showActors ? entry.actor_name || "Admin" : "Store";
+    }
+    if (entry.actor_type === "customer") {
+      return "Customer";
+    }
+    return "Automatic update";
+  };
+
+  if (history.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">No status changes yet</p>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4">
+      {history.map((entry) => (
+        <li key={entry.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary border-2 border-card" />
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-foreground">
+              {getOrderStatusLabel(entry)}
+            </span>
+            {entry.from_status && (
+              <StatusIndicator
+                status={entry.to_status}
+                type="order"
+                className="text-xs"
+              />
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {formatDate(entry.created_at)} · {getActorLabel(entry)}
+          </p>
+          {entry.note && (
+            <p className="text-sm text-foreground mt-1 whitespace-pre-line">
+              {entry.note}
+            </p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
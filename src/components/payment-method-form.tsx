@@ -0,0 +1,205 @@
+import {
+  forwardRef,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
+
+/**
+ * Payment method form for checkout
+ * Renders the card form for the configured payment provider and turns the
+ * customer's input into a payment method id that checkout/submit can charge.
+ */
+
+const PAYMENT_PROVIDER = process.env.NEXT_PUBLIC_PAYMENT_PROVIDER || "fake";
+const STRIPE_PUBLISHABLE_KEY =
+  process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY || "";
+const STRIPE_JS_URL = "https://js.stripe.com/v3";
+
+// Mirrors the test payment methods accepted by the fake provider
+const FAKE_PAYMENT_METHODS = [
+  { id: "pm_fake_visa", label: "Test card - succeeds" },
+  { id: "pm_fake_declined", label: "Test card - declined" },
+  { id: "pm_fake_insufficient_funds", label: "Test card - insufficient funds" },
+];
+
+export interface PaymentMethodFormHandle {
+  /**
+   * Create a payment method from the form. Throws with a customer-facing
+   * message if the card details are incomplete or rejected.
+   */
+  createPaymentMethod: () => Promise<string>;
+
+  /**
+   * Complete customer authentication (e.g. 3-D Secure) for an intent that
+   * came back from checkout with requiresAction.
+   */
+  handleNextAction: (clientSecret: string) => Promise<void>;
+}
+
+interface PaymentMethodFormProps {
+  billingName?: string;
+  billingEmail?: string;
+}
+
+let stripeScriptPromise: Promise<any> | null = null;
+
+function loadStripe(): Promise<any> {
+  if (!stripeScriptPromise) {
+    stripeScriptPromise = new Promise((resolve, reject) => {
+      const existing = (window as any).Stripe;
+      if (existing) {
+        resolve(existing(STRIPE_PUBLISHABLE_KEY));
+        return;
+      }
+
+      const script = document.createElement("script");
+      script.src = STRIPE_JS_URL;
+      script.async = true;
+      script.onload = () =>
+        resolve((window as any).Stripe(STRIPE_PUBLISHABLE_KEY));
+      script.onerror = () => {
+        stripeScriptPromise = null;
+        reject(new Error("Failed to load payment form"));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return stripeScriptPromise;
+}
+
+export const PaymentMethodForm = forwardRef<
+  PaymentMethodFormHandle,
+  PaymentMethodFormProps
+>(function PaymentMethodForm({ billingName, billingEmail }, ref) {
+  const [fakeMethod, setFakeMethod] = useState<string>(
+    FAKE_PAYMENT_METHODS[0].id
+  );
+  const [stripeError, setStripeError] = useState("");
+  const [isStripeReady, setIsStripeReady] = useState(false);
+  const cardContainerRef = useRef<HTMLDivElement>(null);
+  const stripeRef = useRef<any>(null);
+  const cardElementRef = useRef<any>(null);
+
+  // Mount the Stripe card element
+  useEffect(() => {
+    if (PAYMENT_PROVIDER !== "stripe") return;
+
+    let cancelled = false;
+    loadStripe()
+      .then((stripe) => {
+        if (cancelled || !cardContainerRef.current) return;
+        stripeRef.current = stripe;
+        const card = stripe.elements().create("card", {
+          hidePostalCode: true,
+        });
+        card.mount(cardContainerRef.current);
+        card.on("change", (event: any) => {
+          setStripeError(event.error?.message || "");
+        });
+        cardElementRef.current = card;
+        setIsStripeReady(true);
+      })
+      .catch((error: Error) => {
+        setStripeError(error.message);
+      });
+
+    return () => {
+      cancelled = true;
+      cardElementRef.current?.destroy();
+      cardElementRef.current = null;
+    };
+  }, []);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      createPaymentMethod: async () => {
+        if (PAYMENT_PROVIDER !== "stripe") {
+          return fakeMethod;
+        }
+
+        if (!stripeRef.current || !cardElementRef.current) {
+          throw new Error("Payment form is still loading");
+        }
+
+        const { paymentMethod, error } =
+          await stripeRef.current.createPaymentMethod({
+            type: "card",
+            card: cardElementRef.current,
+            billing_details: {
+              name: billingName || undefined,
+              email: billingEmail || undefined,
+            },
+          });
+
+        if (error) {
+          throw new Error(error.message || "Card details are invalid");
+        }
+        return paymentMethod.id;
+      },
+      handleNextAction: async (clientSecret: string) => {
+        if (PAYMENT_PROVIDER !== "stripe" || !stripeRef.current) {
+          return;
+        }
+
+        const { error } = await stripeRef.current.handleNextAction({
+          clientSecret,
+        });
+        if (error) {
+          throw new Error(error.message || "Payment authentication failed");
+        }
+      },
+    }),
+    [fakeMethod, billingName, billingEmail]
+  );
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border p-4 sm:p-6 mb-4 sm:mb-6">
+      <h2 className="text-lg sm:text-xl font-semibold text-foreground mb-3 sm:mb-4">
+        Payment
+      </h2>
+
+      {PAYMENT_PROVIDER === "stripe" ? (
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">
+            Card Details *
+          </label>
+          <div
+            ref={cardContainerRef}
+            className={`w-full px-3 py-3 border rounded-md bg-background ${
+              stripeError ? "border-destructive" : "border-border"
+            } ${isStripeReady ? "" : "animate-pulse min-h-[2.75rem]"}`}
+          />
+          {stripeError && (
+            <p className="mt-1 text-sm text-destructive">{stripeError}</p>
+          )}
+          <p className="mt-2 text-xs text-muted-foreground">
+            Your card is only charged once your order has been placed.
+          </p>
+        </div>
+      ) : (
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">
+            Test Payment Method
+          </label>
+          <select
+            value={fakeMethod}
+            onChange={(e) => setFakeMethod(e.target.value)}
+            className="w-full px-3 py-3 sm:py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary text-base touch-manipulation"
+          >
+            {FAKE_PAYMENT_METHODS.map((method) => (
+              <option key={method.id} value={method.id}>
+                {method.label}
+              </option>
+            ))}
+          </select>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Payments are simulated locally - no card will be charged.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+});
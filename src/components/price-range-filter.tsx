@@ -0,0 +1,95 @@
+"use client";
+
+import { PriceHistogram } from "@/lib/pricing-utils";
+
+interface PriceRangeFilterProps {
+  histogram: PriceHistogram;
+  minPrice: number | null; // Null when not bounded
+  maxPrice: number | null;
+  onChange: (minPrice: number | null, maxPrice: number | null) => void;
+}
+
+const thumbClassName =
+  "absolute inset-x-0 top-0 w-full h-5 appearance-none bg-transparent pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-primary [&::-webkit-slider-thumb]:cursor-pointer [&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:border-0 [&::-moz-range-thumb]:bg-primary [&::-moz-range-thumb]:cursor-pointer";
+
+/**
+ * Price range slider over a histogram of the prices in the listing. Bounds
+ * dragged back to the ends of the range are cleared.
+ */
+export function PriceRangeFilter({
+  histogram,
+  minPrice,
+  maxPrice,
+  onChange,
+}: PriceRangeFilterProps) {
+  const low = Math.max(minPrice ?? histogram.min, histogram.min);
+  const high = Math.min(maxPrice ?? histogram.max, histogram.max);
+  const tallest = Math.max(...histogram.buckets.map(({ count }) => count), 1);
+
+  const formatPrice = (price: number) =>
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: histogram.currency,
+      maximumFractionDigits: 0,
+    }).format(price);
+
+  const handleLowChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Math.min(Number(e.target.value), high);
+    onChange(value <= histogram.min ? null : value, maxPrice);
+  };
+
+  const handleHighChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Math.max(Number(e.target.value), low);
+    onChange(minPrice, value >= histogram.max ? null : value);
+  };
+
+  return (
+    <div className="w-full">
+      <div className="flex items-end gap-0.5 h-12 mb-1" aria-hidden="true">
+        {histogram.buckets.map((bucket, index) => (
+          <div
+            key={index}
+            className={`flex-1 rounded-t-sm ${
+              bucket.max > low && bucket.min < high
+                ? "bg-primary/60"
+                : "bg-muted-foreground/20"
+            }`}
+            style={{
+              height: `${Math.max((bucket.count / tallest) * 100, 4)}%`,
+            }}
+            title={`${formatPrice(bucket.min)} – ${formatPrice(bucket.max)}: ${
+              bucket.count
+            }`}
+          />
+        ))}
+      </div>
+      <div className="relative h-5">
+        <div className="absolute inset-x-0 top-2 h-1 rounded-full bg-muted-foreground/20" />
+        <input
+          type="range"
+          min={histogram.min}
+          max={histogram.max}
+          step={1}
+          value={low}
+          onChange={handleLowChange}
+          aria-label="Minimum price"
+          className={thumbClassName}
+        />
+        <input
+          type="range"
+          min={histogram.min}
+          max={histogram.max}
+          step={1}
+          value={high}
+          onChange={handleHighChange}
+          aria-label="Maximum price"
+          className={thumbClassName}
+        />
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground mt-1">
+        <span>{formatPrice(low)}</span>
+        <span>{formatPrice(high)}</span>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,8 @@
+import { HighlightedText } from "@/components/highlighted-text";
 import { PrefetchLink } from "@/components/ui/prefetch-link";
+import { useCurrency } from "@/contexts/currency-context";
+import { getPercentOff } from "@/lib/pricing-utils";
+import { HighlightSegment } from "@/lib/search-utils";
 import { cleanProductTitle } from "@/lib/utils";
 import Image from "next/image";
 
@@ -10,6 +14,8 @@ interface ProductCardProps {
     description?: string;
     image?: string;
     base_price?: string;
+    price?: string | null; // Current price, the sale price during a sale
+    compare_at_price?: string | null;
     quantity_available?: number;
     variants: Array<{
       price: number | string;
@@ -35,6 +41,10 @@ interface ProductCardProps {
       name: string;
       color: string;
     }>;
+    highlights?: {
+      title: HighlightSegment[];
+      snippet: HighlightSegment[];
+    } | null; // Set for search results
   };
   showDescription?: boolean;
 }
@@ -43,6 +53,7 @@ export function ProductCard({
   product,
   showDescription = false,
 }: ProductCardProps) {
+  const { currency } = useCurrency();
   const formatPrice = (price: number | string, currency: string = "USD") => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -51,7 +62,7 @@ export function ProductCard({
   };
 
   const getPriceRange = () => {
-    const basePrice = parseFloat(product.base_price || "0");
+    const basePrice = parseFloat(product.price ?? product.base_price ?? "0");
 
     if (!product.options || product.options.length === 0) {
       return { min: basePrice, max: basePrice, hasRange: false };
@@ -89,7 +100,6 @@ export function ProductCard({
   };
 
   const priceRange = getPriceRange();
-  const currency = "USD";
 
   const priceDisplay = () => {
     if (priceRange.min === 0 && priceRange.max === 0)
@@ -100,6 +110,16 @@ export function ProductCard({
     return formatPrice(priceRange.min, currency);
   };
 
+  // "Was" price of the cheapest combination while a sale is running
+  const percentOff = product.price
+    ? getPercentOff(product.price, product.compare_at_price)
+    : null;
+  const compareAtMin =
+    percentOff !== null
+      ? parseFloat(product.compare_at_price!) +
+        (priceRange.min - parseFloat(product.price!))
+      : null;
+
   const isOutOfStock =
     (product.quantity_available ||
       product.variants?.[0]?.quantity_available ||
@@ -147,14 +167,28 @@ export function ProductCard({
             </div>
           )}
 
+          {/* Sale badge */}
+          {percentOff !== null && !isOutOfStock && (
+            <div className="absolute top-2 left-2 sm:top-3 sm:left-3">
+              <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-semibold bg-destructive text-primary-foreground shadow-sm">
+                {percentOff}% off
+              </span>
+            </div>
+          )}
+
           {/* Overlay gradient for legibility */}
           <div className="absolute inset-x-0 bottom-0 h-16 sm:h-20 bg-gradient-to-t from-black/40 to-transparent pointer-events-none group-hover:scale-105 transition-transform duration-300" />
 
           {/* Price pill */}
           {priceRange.min > 0 && (
             <div className="absolute bottom-2 left-2 sm:bottom-3 sm:left-3">
-              <span className="inline-flex items-center px-2 py-1 sm:px-2.5 sm:py-1.5 rounded-full text-xs font-semibold bg-card/90 text-foreground shadow-sm backdrop-blur">
+              <span className="inline-flex items-center gap-1.5 px-2 py-1 sm:px-2.5 sm:py-1.5 rounded-full text-xs font-semibold bg-card/90 text-foreground shadow-sm backdrop-blur">
                 {priceDisplay()}
+                {compareAtMin !== null && (
+                  <span className="line-through font-normal text-muted-foreground">
+                    {formatPrice(compareAtMin, currency)}
+                  </span>
+                )}
               </span>
             </div>
           )}
@@ -167,8 +201,18 @@ export function ProductCard({
               isOutOfStock ? "text-muted-foreground" : "text-foreground"
             }`}
           >
-            {cleanProductTitle(product.title)}
+            {product.highlights ? (
+              <HighlightedText segments={product.highlights.title} />
+            ) : (
+              cleanProductTitle(product.title)
+            )}
           </h3>
+          {showDescription &&
+            product.highlights?.snippet.some((segment) => segment.match) && (
+              <p className="text-xs text-muted-foreground mb-1 line-clamp-2">
+                <HighlightedText segments={product.highlights.snippet} />
+              </p>
+            )}
           {isOutOfStock && (
             <p className="text-xs text-destructive font-medium">
               Currently unavailable
@@ -0,0 +1,156 @@
+import { useCart } from "@/contexts/cart-context";
+import { useCurrency } from "@/contexts/currency-context";
+import { AppliedPromotion, describePromotion } from "@/lib/promotion-utils";
+import { useEffect, useState } from "react";
+
+interface PromotionCodeInputProps {
+  onPromotionChange: (promotion: AppliedPromotion | null) => void;
+}
+
+/**
+ * Promotion code entry for the cart and checkout pages.
+ * The applied code is kept on the cart so it carries over to checkout, and is
+ * checked against /api/checkout/validate whenever it is applied or restored.
+ */
+export function PromotionCodeInput({
+  onPromotionChange,
+}: PromotionCodeInputProps) {
+  const { cart, setPromotionCode } = useCart();
+  const { currency } = useCurrency();
+  const [code, setCode] = useState("");
+  const [appliedPromotion, setAppliedPromotion] =
+    useState<AppliedPromotion | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState("");
+
+  const validateCode = async (promotionCode: string) => {
+    const response = await fetch("/api/checkout/validate", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      credentials: "include",
+      body: JSON.stringify({
+        items: (cart?.items || []).map((item) => ({
+          product_id: item.product_id,
+          quantity: item.quantity,
+          selected_options: item.selected_options,
+        })),
+        promotionCode,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error("Unable to check promotion code. Please try again.");
+    }
+
+    const result = await response.json();
+    if (!result.promotion) {
+      throw new Error(result.promotionError || "Invalid promotion code");
+    }
+    return result.promotion as AppliedPromotion;
+  };
+
+  // Restore a code applied earlier, e.g. on the cart page
+  useEffect(() => {
+    const savedCode = cart?.promotion_code;
+    if (!savedCode || appliedPromotion) return;
+
+    validateCode(savedCode)
+      .then((promotion) => {
+        setAppliedPromotion(promotion);
+        onPromotionChange(promotion);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Invalid promotion code");
+        setPromotionCode(null);
+        onPromotionChange(null);
+      });
+  }, [cart?.promotion_code]);
+
+  const handleApply = async () => {
+    if (!code.trim() || isApplying) return;
+
+    setIsApplying(true);
+    setError("");
+
+    try {
+      const promotion = await validateCode(code);
+      setAppliedPromotion(promotion);
+      setPromotionCode(promotion.code);
+      onPromotionChange(promotion);
+      setCode("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid promotion code");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleRemove = () => {
+    setAppliedPromotion(null);
+    setPromotionCode(null);
+    onPromotionChange(null);
+  };
+
+  if (appliedPromotion) {
+    return (
+      <div className="flex items-center justify-between gap-2 rounded-lg border border-green-200 bg-green-50 px-3 py-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-green-800 truncate">
+            {appliedPromotion.code}
+          </p>
+          <p className="text-xs text-green-700">
+            {describePromotion(
+              appliedPromotion.type,
+              appliedPromotion.value,
+              currency
+            )}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleRemove}
+          className="text-xs sm:text-sm text-muted-foreground hover:text-foreground font-medium transition-colors touch-manipulation"
+        >
+          Remove
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value);
+            setError("");
+          }}
+          onKeyDown={(e) => {
+            // Apply the code instead of submitting the surrounding form
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleApply();
+            }
+          }}
+          placeholder="Promotion code"
+          className={`flex-1 min-w-0 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary text-base sm:text-sm uppercase touch-manipulation ${
+            error ? "border-destructive" : "border-border"
+          }`}
+        />
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={!code.trim() || isApplying}
+          className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation"
+        >
+          {isApplying ? "Applying..." : "Apply"}
+        </button>
+      </div>
+      {error && <p className="mt-1 text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+"use client";
+
+import { HighlightedText } from "@/components/highlighted-text";
+import { CATALOG_FILTER_PARAMS } from "@/lib/catalog-filter-utils";
+import {
+  HighlightSegment,
+  MIN_SUGGESTION_QUERY_LENGTH,
+  SearchSuggestions,
+} from "@/lib/search-utils";
+import Image from "next/image";
+import { useRouter } from "next/router";
+import { useEffect, useId, useRef, useState } from "react";
+
+interface SearchAutocompleteProps {
+  inputRef?: React.RefObject<HTMLInputElement | null>;
+  placeholder?: string;
+  inputClassName?: string;
+  onChange?: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onSubmit?: (query: string) => void; // Enter without a suggestion picked
+  onNavigate?: () => void; // After a suggestion is followed
+  children?: React.ReactNode; // Icons drawn over the input
+}
+
+interface SuggestionItem {
+  key: string;
+  href: string;
+  label: HighlightSegment[];
+  kind: "product" | "category" | "tag";
+  detail: string | null;
+  thumbnail: string | null;
+}
+
+// Fetch once typing pauses; short, since the endpoint is cached and cheap
+const SUGGESTION_DEBOUNCE_MS = 150;
+
+function toItems(suggestions: SearchSuggestions): SuggestionItem[] {
+  return [
+    ...suggestions.products.map((product) => ({
+      key: `product:${product.id}`,
+      href: `/products/${product.slug}`,
+      label: product.title,
+      kind: "product" as const,
+      detail: null,
+      thumbnail: product.thumbnail,
+    })),
+    ...suggestions.categories.map((category) => ({
+      key: `category:${category.slug}`,
+      href: `/categories/${category.slug}`,
+      label: category.name,
+      kind: "category" as const,
+      detail: category.parent ? `in ${category.parent}` : "Category",
+      thumbnail: null,
+    })),
+    ...suggestions.tags.map((tag) => ({
+      key: `tag:${tag.name}`,
+      href: `/products?${CATALOG_FILTER_PARAMS.tags}=${encodeURIComponent(
+        tag.name
+      )}`,
+      label: tag.highlights,
+      kind: "tag" as const,
+      detail: "Tag",
+      thumbnail: null,
+    })),
+  ];
+}
+
+/**
+ * Search input with a dropdown of matching products, categories and tags.
+ * Arrow keys move through the suggestions, Enter follows the highlighted
+ * one and Escape closes the list.
+ */
+export function SearchAutocomplete({
+  inputRef,
+  placeholder,
+  inputClassName,
+  onChange,
+  onSubmit,
+  onNavigate,
+  children,
+}: SearchAutocompleteProps) {
+  const router = useRouter();
+  const listId = useId();
+  const localInputRef = useRef<HTMLInputElement>(null);
+  const input = inputRef || localInputRef;
+  const debounceTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  const abortRef = useRef<AbortController | null>(null);
+  const cacheRef = useRef(new Map<string, SuggestionItem[]>());
+  const [items, setItems] = useState<SuggestionItem[]>([]);
+  const [query, setQuery] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  useEffect(() => {
+    return () => {
+      clearTimeout(debounceTimeoutRef.current);
+      abortRef.current?.abort();
+    };
+  }, []);
+
+  const fetchSuggestions = async (value: string) => {
+    abortRef.current?.abort();
+    const key = value.trim().toLowerCase();
+    const cached = cacheRef.current.get(key);
+    if (cached) {
+      setItems(cached);
+      setActiveIndex(-1);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const response = await fetch(
+        `/api/search/suggestions?q=${encodeURIComponent(value.trim())}`,
+        { signal: controller.signal }
+      );
+      if (!response.ok) throw new Error("Failed to fetch suggestions");
+
+      const result = await response.json();
+      const nextItems = toItems(result.data);
+      cacheRef.current.set(key, nextItems);
+      setItems(nextItems);
+      setActiveIndex(-1);
+    } catch (error) {
+      // Superseded by a newer keystroke
+      if (error instanceof DOMException && error.name === "AbortError") return;
+      console.error("Error fetching search suggestions:", error);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange?.(e);
+    const value = e.target.value;
+    setQuery(value);
+    setIsOpen(true);
+    clearTimeout(debounceTimeoutRef.current);
+
+    if (value.trim().length < MIN_SUGGESTION_QUERY_LENGTH) {
+      abortRef.current?.abort();
+      setItems([]);
+      setActiveIndex(-1);
+      return;
+    }
+    debounceTimeoutRef.current = setTimeout(
+      () => fetchSuggestions(value),
+      SUGGESTION_DEBOUNCE_MS
+    );
+  };
+
+  const followSuggestion = (item: SuggestionItem) => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+    onNavigate?.();
+    // The catalog page reads its filters when it loads, so a tag picked
+    // while already on it needs a full load
+    if (item.href.split("?")[0] === router.asPath.split("?")[0]) {
+      window.location.assign(item.href);
+    } else {
+      router.push(item.href);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const showing = isOpen && items.length > 0;
+    if (e.key === "ArrowDown" && showing) {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % items.length);
+    } else if (e.key === "ArrowUp" && showing) {
+      e.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? items.length : index) - 1);
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+      setActiveIndex(-1);
+    } else if (e.key === "Enter") {
+      if (showing && activeIndex >= 0) {
+        e.preventDefault();
+        followSuggestion(items[activeIndex]);
+      } else if (onSubmit && e.currentTarget.value.trim()) {
+        e.preventDefault();
+        setIsOpen(false);
+        onSubmit(e.currentTarget.value.trim());
+      }
+    }
+  };
+
+  const showDropdown =
+    isOpen &&
+    items.length > 0 &&
+    query.trim().length >= MIN_SUGGESTION_QUERY_LENGTH;
+
+  return (
+    <div className="relative">
+      {children}
+      <input
+        ref={input}
+        type="text"
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={
+          showDropdown && activeIndex >= 0
+            ? `${listId}-${activeIndex}`
+            : undefined
+        }
+        autoComplete="off"
+        placeholder={placeholder}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        className={inputClassName}
+      />
+      {showDropdown && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-1 z-50 max-h-96 overflow-y-auto bg-card border border-border rounded-lg shadow-lg py-1"
+        >
+          {items.map((item, index) => (
+            <li
+              key={item.key}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so the click is not lost to blur
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => followSuggestion(item)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center gap-3 px-3 py-2 cursor-pointer text-sm ${
+                index === activeIndex ? "bg-muted" : ""
+              }`}
+            >
+              {item.kind === "product" && (
+                <div className="relative h-9 w-9 flex-none overflow-hidden rounded bg-muted">
+                  {item.thumbnail && (
+                    <Image
+                      src={item.thumbnail}
+                      alt=""
+                      fill
+                      sizes="36px"
+                      className="object-cover"
+                    />
+                  )}
+                </div>
+              )}
+              <span className="flex-1 truncate text-foreground">
+                <HighlightedText segments={item.label} />
+              </span>
+              {item.detail && (
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {item.detail}
+                </span>
+              )}
+            </li>
+          ))}
+          {onSubmit && (
+            <li
+              role="option"
+              aria-selected={false}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                setIsOpen(false);
+                onSubmit(query.trim());
+              }}
+              className="px-3 py-2 border-t border-border cursor-pointer text-sm text-primary hover:bg-muted"
+            >
+              See all results for &ldquo;{query.trim()}&rdquo;
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
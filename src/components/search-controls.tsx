@@ -1,13 +1,45 @@
 "use client";
 
+import { PriceRangeFilter } from "@/components/price-range-filter";
+import { SearchAutocomplete } from "@/components/search-autocomplete";
+import { PriceHistogram } from "@/lib/pricing-utils";
 import { useEffect, useRef, useState } from "react";
 
+interface SearchControlsProps {
+  priceHistogram?: PriceHistogram | null; // From the latest full listing
+  inStockCount?: number; // Matching products in stock, from the facets
+}
+
+// Price bounds are kept in the URL only, not remembered between visits
+const setPriceParams = (
+  url: URL,
+  minPrice: number | null,
+  maxPrice: number | null
+) => {
+  if (minPrice !== null) {
+    url.searchParams.set("min_price", minPrice.toString());
+  } else {
+    url.searchParams.delete("min_price");
+  }
+  if (maxPrice !== null) {
+    url.searchParams.set("max_price", maxPrice.toString());
+  } else {
+    url.searchParams.delete("max_price");
+  }
+};
+
 // Search controls component - completely isolated to prevent re-renders
-export const SearchControls = () => {
+export const SearchControls = ({
+  priceHistogram,
+  inStockCount,
+}: SearchControlsProps) => {
   const [isSearching, setIsSearching] = useState(false);
   const [isChangingSort, setIsChangingSort] = useState(false);
   const [inStockOnly, setInStockOnly] = useState(false);
+  const [minPrice, setMinPrice] = useState<number | null>(null);
+  const [maxPrice, setMaxPrice] = useState<number | null>(null);
   const debounceTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  const priceDebounceTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const sortSelectRef = useRef<HTMLSelectElement>(null);
 
@@ -24,6 +56,12 @@ export const SearchControls = () => {
       sortSelectRef.current.value = savedSort;
     }
     setInStockOnly(savedInStockOnly);
+
+    const urlParams = new URLSearchParams(window.location.search);
+    const savedMinPrice = urlParams.get("min_price");
+    const savedMaxPrice = urlParams.get("max_price");
+    setMinPrice(savedMinPrice ? Number(savedMinPrice) : null);
+    setMaxPrice(savedMaxPrice ? Number(savedMaxPrice) : null);
   }, []);
 
   const handleSearchInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -55,6 +93,7 @@ export const SearchControls = () => {
       } else {
         url.searchParams.delete("in_stock_only");
       }
+      setPriceParams(url, minPrice, maxPrice);
 
       // Update URL without triggering a full page reload
       window.history.pushState({}, "", url.toString());
@@ -62,7 +101,13 @@ export const SearchControls = () => {
       // Trigger a custom event that the parent can listen to
       window.dispatchEvent(
         new CustomEvent("searchUpdate", {
-          detail: { searchQuery: value, sortBy: sortValue, inStockOnly },
+          detail: {
+            searchQuery: value,
+            sortBy: sortValue,
+            inStockOnly,
+            minPrice,
+            maxPrice,
+          },
         })
       );
 
@@ -93,6 +138,7 @@ export const SearchControls = () => {
     } else {
       url.searchParams.delete("in_stock_only");
     }
+    setPriceParams(url, minPrice, maxPrice);
 
     // Update URL without triggering a full page reload
     window.history.pushState({}, "", url.toString());
@@ -100,7 +146,13 @@ export const SearchControls = () => {
     // Trigger a custom event that the parent can listen to
     window.dispatchEvent(
       new CustomEvent("searchUpdate", {
-        detail: { searchQuery: searchValue, sortBy: value, inStockOnly },
+        detail: {
+          searchQuery: searchValue,
+          sortBy: value,
+          inStockOnly,
+          minPrice,
+          maxPrice,
+        },
       })
     );
 
@@ -132,6 +184,7 @@ export const SearchControls = () => {
     } else {
       url.searchParams.delete("in_stock_only");
     }
+    setPriceParams(url, minPrice, maxPrice);
 
     // Update URL without triggering a full page reload
     window.history.pushState({}, "", url.toString());
@@ -143,16 +196,73 @@ export const SearchControls = () => {
           searchQuery: searchValue,
           sortBy: sortValue,
           inStockOnly: checked,
+          minPrice,
+          maxPrice,
         },
       })
     );
   };
 
+  const handlePriceChange = (
+    newMinPrice: number | null,
+    newMaxPrice: number | null
+  ) => {
+    setMinPrice(newMinPrice);
+    setMaxPrice(newMaxPrice);
+
+    if (priceDebounceTimeoutRef.current) {
+      clearTimeout(priceDebounceTimeoutRef.current);
+    }
+
+    // Wait for the slider to settle before searching
+    priceDebounceTimeoutRef.current = setTimeout(() => {
+      const url = new URL(window.location.href);
+      const searchValue = searchInputRef.current?.value || "";
+      if (searchValue) {
+        url.searchParams.set("q", searchValue);
+      } else {
+        url.searchParams.delete("q");
+      }
+
+      const sortValue = sortSelectRef.current?.value || "relevance";
+      url.searchParams.set("sort", sortValue);
+      url.searchParams.set("page", "1");
+
+      if (inStockOnly) {
+        url.searchParams.set("in_stock_only", "true");
+      } else {
+        url.searchParams.delete("in_stock_only");
+      }
+      setPriceParams(url, newMinPrice, newMaxPrice);
+
+      // Update URL without triggering a full page reload
+      window.history.pushState({}, "", url.toString());
+
+      // Trigger a custom event that the parent can listen to
+      window.dispatchEvent(
+        new CustomEvent("searchUpdate", {
+          detail: {
+            searchQuery: searchValue,
+            sortBy: sortValue,
+            inStockOnly,
+            minPrice: newMinPrice,
+            maxPrice: newMaxPrice,
+          },
+        })
+      );
+    }, 300);
+  };
+
   return (
     <div className="bg-card rounded-xl shadow-sm border border-border p-4 sm:p-6 mb-6 sm:mb-8">
       {/* Mobile-First Search Bar */}
       <div className="relative mb-4 sm:mb-6">
-        <div className="relative">
+        <SearchAutocomplete
+          inputRef={searchInputRef}
+          placeholder="Search crystal jewelry..."
+          onChange={handleSearchInputChange}
+          inputClassName="w-full pl-10 sm:pl-12 pr-10 sm:pr-12 py-2.5 sm:py-3 text-sm sm:text-base border border-border rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent bg-muted focus:bg-card transition-all duration-200"
+        >
           <div className="absolute inset-y-0 left-0 pl-3 sm:pl-4 flex items-center pointer-events-none">
             <svg
               className="h-4 w-4 sm:h-5 sm:w-5 text-muted-foreground"
@@ -168,19 +278,12 @@ export const SearchControls = () => {
               />
             </svg>
           </div>
-          <input
-            ref={searchInputRef}
-            type="text"
-            placeholder="Search crystal jewelry..."
-            onChange={handleSearchInputChange}
-            className="w-full pl-10 sm:pl-12 pr-10 sm:pr-12 py-2.5 sm:py-3 text-sm sm:text-base border border-border rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent bg-muted focus:bg-card transition-all duration-200"
-          />
           {isSearching && (
             <div className="absolute right-3 sm:right-4 top-1/2 -translate-y-1/2">
               <div className="animate-spin rounded-full h-4 w-4 sm:h-5 sm:w-5 border-2 border-primary border-t-transparent"></div>
             </div>
           )}
-        </div>
+        </SearchAutocomplete>
       </div>
 
       {/* Mobile-Optimized Controls */}
@@ -247,10 +350,26 @@ export const SearchControls = () => {
               className="text-sm text-muted-foreground cursor-pointer"
             >
               In stock only
+              {inStockCount !== undefined && ` (${inStockCount})`}
             </label>
           </div>
         </div>
       </div>
+
+      {/* Price Filter */}
+      {priceHistogram && (
+        <div className="mt-4 sm:mt-6 sm:max-w-sm">
+          <label className="block text-sm font-semibold text-foreground mb-2">
+            Price
+          </label>
+          <PriceRangeFilter
+            histogram={priceHistogram}
+            minPrice={minPrice}
+            maxPrice={maxPrice}
+            onChange={handlePriceChange}
+          />
+        </div>
+      )}
     </div>
   );
 };
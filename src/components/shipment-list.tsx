@@ -0,0 +1,106 @@
+import {
+  TrackingEventEntry,
+  TrackingTimeline,
+} from "@/components/tracking-timeline";
+import {
+  formatTrackingNumber,
+  generateTrackingUrl,
+  getProviderDisplayName,
+  getTrackingStatusLabel,
+  ShippingProvider,
+  TrackingStatus,
+} from "@/lib/shipping-utils";
+
+export interface OrderShipment {
+  id: string;
+  tracking_number: string;
+  carrier: ShippingProvider;
+  shipped_at: string;
+  tracking_status: TrackingStatus | null;
+  delivered_at: string | null;
+  items: Array<{ order_item_id: string; quantity: number; title: string }>;
+  events: TrackingEventEntry[];
+}
+
+interface ShipmentListProps {
+  shipments: OrderShipment[]; // Oldest first
+  unshippedCount?: number; // Units still waiting for a package
+}
+
+/**
+ * The packages an order went out in, each with its items, tracking number
+ * and carrier scan history
+ */
+export function ShipmentList({
+  shipments,
+  unshippedCount = 0,
+}: ShipmentListProps) {
+  return (
+    <div className="space-y-4 text-sm">
+      {shipments.map((shipment, index) => (
+        <div
+          key={shipment.id}
+          className={index > 0 ? "border-t border-border pt-4" : undefined}
+        >
+          {shipments.length > 1 && (
+            <p className="font-medium text-accent-foreground mb-2">
+              Package {index + 1} of {shipments.length}
+            </p>
+          )}
+          <ul className="mb-3 space-y-1 text-accent-foreground">
+            {shipment.items.map((item) => (
+              <li key={item.order_item_id}>
+                {item.title} × {item.quantity}
+              </li>
+            ))}
+          </ul>
+          <div className="space-y-2 text-accent-foreground">
+            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-1">
+              <span>
+                <strong>{getProviderDisplayName(shipment.carrier)}:</strong>{" "}
+                <span className="font-mono break-all">
+                  {formatTrackingNumber(
+                    shipment.tracking_number,
+                    shipment.carrier
+                  )}
+                </span>
+              </span>
+              <a
+                href={generateTrackingUrl(
+                  shipment.tracking_number,
+                  shipment.carrier
+                )}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary hover:text-accent-foreground underline"
+              >
+                Track Package
+              </a>
+            </div>
+            <div>
+              <strong>Shipped:</strong>{" "}
+              {new Date(shipment.shipped_at).toLocaleDateString()}
+            </div>
+            {shipment.tracking_status && (
+              <div>
+                <strong>Status:</strong>{" "}
+                {getTrackingStatusLabel(shipment.tracking_status)}
+                {shipment.delivered_at &&
+                  ` ${new Date(shipment.delivered_at).toLocaleDateString()}`}
+              </div>
+            )}
+            <div className="pt-2">
+              <TrackingTimeline events={shipment.events} />
+            </div>
+          </div>
+        </div>
+      ))}
+      {unshippedCount > 0 && (
+        <p className="border-t border-border pt-4 text-muted-foreground">
+          {unshippedCount} more item{unshippedCount === 1 ? "" : "s"} will
+          follow in a separate package.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useCurrency } from "@/contexts/currency-context";
+import { ShippingQuote } from "@/lib/shipping-rate-utils";
+
+interface ShippingMethodPickerProps {
+  options: ShippingQuote[];
+  selectedRateId: string | null;
+  onSelect: (rateId: string) => void;
+  isLoading: boolean;
+  error?: string;
+}
+
+/**
+ * Shipping method choice for the checkout page. Options and prices come from
+ * /api/checkout/validate for the current shipping address; the chosen rate is
+ * priced again when the order is submitted.
+ */
+export function ShippingMethodPicker({
+  options,
+  selectedRateId,
+  onSelect,
+  isLoading,
+  error,
+}: ShippingMethodPickerProps) {
+  const { formatPrice: formatCurrency } = useCurrency();
+  const formatPrice = (price: number) =>
+    price === 0 ? "Free" : formatCurrency(price);
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border p-4 sm:p-6 mb-4 sm:mb-6">
+      <h2 className="text-lg sm:text-xl font-semibold text-foreground mb-3 sm:mb-4">
+        Shipping Method
+      </h2>
+
+      {isLoading && options.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Loading shipping options...
+        </p>
+      ) : options.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          We don&apos;t ship to this address yet. Please check the country and
+          state/region.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {options.map((option) => (
+            <label
+              key={option.rateId}
+              className={`flex items-center justify-between gap-3 p-3 border rounded-md cursor-pointer transition-colors touch-manipulation ${
+                selectedRateId === option.rateId
+                  ? "border-primary bg-primary/5"
+                  : "border-border hover:bg-accent"
+              }`}
+            >
+              <span className="flex items-center gap-3">
+                <input
+                  type="radio"
+                  name="shippingMethod"
+                  value={option.rateId}
+                  checked={selectedRateId === option.rateId}
+                  onChange={() => onSelect(option.rateId)}
+                  className="h-4 w-4 text-primary focus:ring-primary"
+                />
+                <span className="text-sm sm:text-base text-foreground">
+                  {option.name}
+                </span>
+              </span>
+              <span className="text-sm sm:text-base font-medium text-foreground">
+                {formatPrice(option.amount)}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -5,12 +5,17 @@ interface StockNotificationSignupProps {
   productSlug: string;
   productTitle: string;
   isOutOfStock: boolean;
+  // Subscribe to a single variant instead of the whole product
+  optionName?: string;
+  optionValue?: string;
 }
 
 export function StockNotificationSignup({
   productSlug,
   productTitle,
   isOutOfStock,
+  optionName,
+  optionValue,
 }: StockNotificationSignupProps) {
   const { user } = useAuth();
   const [email, setEmail] = useState("");
@@ -50,9 +55,10 @@ export function StockNotificationSignup({
     try {
       // Check subscription status using GET endpoint
       const response = await fetch(
-        `/api/products/${productSlug}/stock-notification?email=${encodeURIComponent(
-          userEmail
-        )}`,
+        `/api/products/${productSlug}/stock-notification?${new URLSearchParams({
+          email: userEmail,
+          ...(optionName && optionValue ? { optionName, optionValue } : {}),
+        })}`,
         {
           method: "GET",
         }
@@ -95,7 +101,7 @@ export function StockNotificationSignup({
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({ email: email.trim() }),
+          body: JSON.stringify({ email: email.trim(), optionName, optionValue }),
         }
       );
 
@@ -179,8 +185,10 @@ export function StockNotificationSignup({
         <div className="flex-1">
           <h3 className="text-accent-foreground font-medium text-sm">Out of Stock</h3>
           <p className="text-accent-foreground text-sm mt-1">
-            This item is currently out of stock. Sign up to be notified when
-            it's back!
+            {optionValue
+              ? `${productTitle} is currently sold out.`
+              : "This item is currently out of stock."}{" "}
+            Sign up to be notified when it's back!
           </p>
 
           <form onSubmit={handleSubmit} className="mt-3">
@@ -0,0 +1,57 @@
+import { getTrackingStatusLabel, TrackingStatus } from "@/lib/shipping-utils";
+
+export interface TrackingEventEntry {
+  id: string;
+  status: TrackingStatus;
+  description: string;
+  location: string | null;
+  occurred_at: string;
+}
+
+interface TrackingTimelineProps {
+  events: TrackingEventEntry[]; // Oldest first
+}
+
+/**
+ * Carrier scan history for a package, newest first
+ */
+export function TrackingTimeline({ events }: TrackingTimelineProps) {
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  if (events.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No tracking updates from the carrier yet
+      </p>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-3">
+      {[...events].reverse().map((event, index) => (
+        <li key={event.id} className="ml-4">
+          <span
+            className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-card ${
+              index === 0 ? "bg-primary" : "bg-muted-foreground"
+            }`}
+          />
+          <p className="text-sm font-medium text-foreground">
+            {getTrackingStatusLabel(event.status)}
+          </p>
+          <p className="text-sm text-foreground">{event.description}</p>
+          <p className="text-xs text-muted-foreground">
+            {formatDate(event.occurred_at)}
+            {event.location && ` · ${event.location}`}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -38,6 +38,7 @@ export function StatusIndicator({
     const orderColors = {
       received: theme.badge.received,
       paid: theme.badge.paid,
+      partially_shipped: theme.badge.shipped,
       shipped: theme.badge.shipped,
       completed: theme.badge.completed,
       cancelled: theme.badge.cancelled,
@@ -49,7 +50,8 @@ export function StatusIndicator({
   };
 
   const formatStatus = (status: string) => {
-    return status.charAt(0).toUpperCase() + status.slice(1);
+    const words = status.replace(/_/g, " ");
+    return words.charAt(0).toUpperCase() + words.slice(1);
   };
 
   return (
@@ -1,4 +1,20 @@
-import React, { createContext, useContext, useEffect, useState } from "react";
+import { useToast } from "@/components/ui/toast";
+import { useAuth } from "@/contexts/auth-context";
+import {
+  CartLineIssue,
+  CartPriceChange,
+  describeCartMerge,
+  formatCartLineTitle,
+  getCartLineKey,
+  RefreshedCartLine,
+} from "@/lib/cart-utils";
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
 
 interface CartItem {
   id: string;
@@ -6,6 +22,11 @@ interface CartItem {
   quantity: number;
   selected_options?: Record<string, string>; // option_name -> option_value mapping (e.g., "crystal_type" -> "rose_quartz")
   descriptive_title?: string;
+  // Set by refreshCart from the server's current pricing and stock
+  unit_amount?: number;
+  compare_at_amount?: number | null;
+  issue?: CartLineIssue | null;
+  available_quantity?: number | null;
   // Product data will be fetched from server when displaying cart
   product?: {
     id: string;
@@ -13,6 +34,7 @@ interface CartItem {
     slug: string;
     image?: string;
     base_price: number;
+    compare_at_price?: number | null;
     currency: string;
     options?: Array<{
       id: string;
@@ -24,6 +46,7 @@ interface CartItem {
         price_adjustment: number;
         is_default: boolean;
         is_sold_out: boolean;
+        quantity_available?: number | null;
       }>;
     }>;
   };
@@ -33,6 +56,7 @@ interface Cart {
   id: string;
   currency: string;
   items: CartItem[];
+  promotion_code?: string; // Applied on the cart page, re-validated at checkout
 }
 
 interface CartContextType {
@@ -48,18 +72,40 @@ interface CartContextType {
   updateQuantity: (itemId: string, quantity: number) => void;
   removeItem: (itemId: string) => void;
   clearCart: () => void;
+  replaceItems: (
+    items: Array<{
+      product_id: string;
+      quantity: number;
+      selected_options?: Record<string, string>;
+      descriptive_title?: string | null;
+    }>
+  ) => void;
+  setPromotionCode: (code: string | null) => void;
   syncToServer: () => Promise<void>;
+  getItemPrice: (item: CartItem) => number;
   getTotalItems: () => number;
   getTotalPrice: () => number;
-  fetchCartProductData: () => Promise<void>;
+  refreshCart: () => Promise<void>;
+  priceChanges: CartPriceChange[];
+  dismissPriceChanges: () => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+// Session key recording which signed-in customer this tab's cart was merged for
+const MERGED_USER_KEY = "cart_merged_user";
+
 export function CartProvider({ children }: { children: React.ReactNode }) {
+  const { user, loading: authLoading } = useAuth();
+  const { addToast } = useToast();
   const [cart, setCart] = useState<Cart | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Customer whose saved cart has been merged in; server sync waits for it
+  const [mergedUserId, setMergedUserId] = useState<string | null>(null);
+  const mergingRef = useRef(false);
+  // Lines whose price moved since the shopper last saw it, until dismissed
+  const [priceChanges, setPriceChanges] = useState<CartPriceChange[]>([]);
 
   // Load cart from localStorage
   const loadCartFromStorage = () => {
@@ -109,12 +155,11 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
   ) => {
     if (!cart) return;
 
-    const itemKey = `${productId}-${JSON.stringify(selectedOptions || {})}`;
+    const itemKey = getCartLineKey(productId, selectedOptions);
 
     const existingItemIndex = cart.items.findIndex(
       (item) =>
-        `${item.product_id}-${JSON.stringify(item.selected_options || {})}` ===
-        itemKey
+        getCartLineKey(item.product_id, item.selected_options) === itemKey
     );
 
     let updatedItems;
@@ -195,6 +240,45 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     saveCartToStorage(emptyCart);
   };
 
+  // Replace the cart's items, e.g. from an abandoned cart restore link or a
+  // sign-in merge
+  const replaceItems: CartContextType["replaceItems"] = (items) => {
+    if (!cart) return;
+
+    const replacedItems: CartItem[] = items.map((item) => ({
+      id: Math.random().toString(36).substr(2, 9),
+      product_id: item.product_id,
+      quantity: item.quantity,
+      selected_options: item.selected_options,
+      descriptive_title: item.descriptive_title || undefined,
+      // Reuse product data already loaded for the same product
+      product: cart.items.find(
+        (existing) => existing.product_id === item.product_id
+      )?.product,
+    }));
+
+    const updatedCart = {
+      ...cart,
+      items: replacedItems,
+    };
+
+    setCart(updatedCart);
+    saveCartToStorage(updatedCart);
+  };
+
+  // Apply or remove a promotion code (client-side only)
+  const setPromotionCode = (code: string | null) => {
+    if (!cart) return;
+
+    const updatedCart = {
+      ...cart,
+      promotion_code: code || undefined,
+    };
+
+    setCart(updatedCart);
+    saveCartToStorage(updatedCart);
+  };
+
   // Sync cart to server (for checkout)
   const syncToServer = async () => {
     if (!cart || cart.items.length === 0) return;
@@ -239,98 +323,256 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     return cart.items.reduce((total, item) => total + item.quantity, 0);
   };
 
-  // Calculate total price (requires product data to be loaded)
-  const getTotalPrice = () => {
-    if (!cart?.items) return 0;
-    return cart.items.reduce((total, item) => {
-      if (!item.product) return total; // Skip items without product data
-      const basePriceValue = item.product.base_price;
-      const basePrice =
-        typeof basePriceValue === "number"
-          ? basePriceValue
-          : parseFloat(String(basePriceValue || "0"));
-      let finalPrice = basePrice;
-
-      // Add option price adjustments
-      if (item.selected_options && item.product.options) {
-        item.product.options.forEach((option: any) => {
-          const selectedValueName = item.selected_options![option.name];
-          if (selectedValueName) {
-            const selectedValue = option.values?.find(
-              (v: any) => v.name === selectedValueName
-            );
-            if (selectedValue) {
-              const priceAdjustment = selectedValue.price_adjustment;
-              finalPrice += parseFloat(String(priceAdjustment || "0"));
-            }
+  // Unit price of a line: the server's last quote, otherwise worked out from
+  // the loaded product data
+  const getItemPrice = (item: CartItem) => {
+    if (typeof item.unit_amount === "number") return item.unit_amount;
+    if (!item.product) return 0;
+
+    const basePriceValue = item.product.base_price;
+    let finalPrice =
+      typeof basePriceValue === "number"
+        ? basePriceValue
+        : parseFloat(String(basePriceValue || "0"));
+
+    // Add option price adjustments
+    if (item.selected_options && item.product.options) {
+      item.product.options.forEach((option: any) => {
+        const selectedValueName = item.selected_options![option.name];
+        if (selectedValueName) {
+          const selectedValue = option.values?.find(
+            (v: any) => v.name === selectedValueName
+          );
+          if (selectedValue) {
+            const priceAdjustment = selectedValue.price_adjustment;
+            finalPrice += parseFloat(String(priceAdjustment || "0"));
           }
-        });
-      }
+        }
+      });
+    }
 
-      return total + finalPrice * item.quantity;
-    }, 0);
+    return finalPrice;
   };
 
-  // Fetch product data for cart items
-  const fetchCartProductData = async () => {
+  // Calculate total price (requires product data or a refresh)
+  const getTotalPrice = () => {
+    if (!cart?.items) return 0;
+    return cart.items.reduce(
+      (total, item) => total + getItemPrice(item) * item.quantity,
+      0
+    );
+  };
+
+  // Reprice and revalidate every line in one request, loading product data
+  // for display along the way
+  const refreshCart = async () => {
     if (!cart?.items || cart.items.length === 0) return;
 
-    // Check if we already have product data for all items
+    // Only block the page while product data is missing
     const needsProductData = cart.items.some((item) => !item.product);
-    if (!needsProductData) return;
 
     try {
-      setLoading(true);
+      if (needsProductData) setLoading(true);
 
-      // Get unique product IDs
-      const productIds = [
-        ...new Set(cart.items.map((item) => item.product_id)),
-      ];
-
-      // Fetch product data for all products
-      const productPromises = productIds.map(async (productId) => {
-        const response = await fetch(`/api/products/${productId}`);
-        if (response.ok) {
-          const data = await response.json();
-          return data.data;
-        }
-        return null;
-      });
+      const sentItems = cart.items.map((item) => ({
+        product_id: item.product_id,
+        quantity: item.quantity,
+        selected_options: item.selected_options,
+        unit_amount: item.unit_amount ?? null,
+      }));
 
-      const products = await Promise.all(productPromises);
-      const productMap = new Map();
-      products.forEach((product) => {
-        if (product) {
-          productMap.set(product.id, product);
-        }
+      const response = await fetch("/api/cart/refresh", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ items: sentItems }),
       });
 
-      // Update cart items with product data
-      const updatedItems = cart.items.map((item) => ({
-        ...item,
-        product: productMap.get(item.product_id),
-      }));
+      if (!response.ok) {
+        throw new Error("Failed to refresh cart");
+      }
 
-      const updatedCart = {
-        ...cart,
-        items: updatedItems,
-      };
+      const result = await response.json();
+      const lines: RefreshedCartLine[] = result.data.lines;
+      const productMap = new Map<string, CartItem["product"]>(
+        result.data.products.map((product: CartItem["product"]) => [
+          product!.id,
+          product,
+        ])
+      );
+      const linesByKey = new Map(
+        lines.map((line) => [
+          getCartLineKey(line.product_id, line.selected_options),
+          line,
+        ])
+      );
+
+      const changes: CartPriceChange[] = lines
+        .filter((line) => line.price_changed)
+        .map((line) => ({
+          key: getCartLineKey(line.product_id, line.selected_options),
+          title: formatCartLineTitle(
+            productMap.get(line.product_id)?.title || "An item",
+            line.selected_options
+          ),
+          previous: line.previous_unit_amount!,
+          current: line.unit_amount!,
+        }));
+
+      if (changes.length > 0) {
+        setPriceChanges((prev) => [
+          ...prev.filter(
+            (change) => !changes.some((next) => next.key === change.key)
+          ),
+          ...changes,
+        ]);
+      }
+
+      // Applied to the latest cart, which may have changed while waiting
+      setCart((prev) => {
+        if (!prev) return prev;
 
-      setCart(updatedCart);
-      saveCartToStorage(updatedCart);
+        const updatedCart = {
+          ...prev,
+          items: prev.items.map((item) => {
+            const line = linesByKey.get(
+              getCartLineKey(item.product_id, item.selected_options)
+            );
+            return {
+              ...item,
+              product: productMap.get(item.product_id) || item.product,
+              ...(line && {
+                unit_amount: line.unit_amount ?? undefined,
+                compare_at_amount: line.compare_at_amount,
+                issue: line.quantity === item.quantity ? line.issue : null,
+                available_quantity: line.available_quantity,
+              }),
+            };
+          }),
+        };
+
+        saveCartToStorage(updatedCart);
+        return updatedCart;
+      });
     } catch (error) {
-      console.error("Error fetching cart product data:", error);
+      console.error("Error refreshing cart:", error);
       setError("Failed to load product data");
     } finally {
       setLoading(false);
     }
   };
 
+  const dismissPriceChanges = () => setPriceChanges([]);
+
   // Load cart from localStorage on mount
   useEffect(() => {
     loadCartFromStorage();
   }, []);
 
+  // On sign-in, merge this browser's cart with the customer's saved cart
+  // rather than overwriting either. Runs once per customer per tab session.
+  useEffect(() => {
+    if (authLoading || !cart) return;
+
+    if (!user) {
+      sessionStorage.removeItem(MERGED_USER_KEY);
+      setMergedUserId(null);
+      return;
+    }
+
+    if (sessionStorage.getItem(MERGED_USER_KEY) === user.id) {
+      setMergedUserId(user.id);
+      return;
+    }
+
+    if (mergingRef.current) return;
+    mergingRef.current = true;
+
+    const mergeCart = async () => {
+      try {
+        const response = await fetch("/api/cart/merge", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify({
+            items: cart.items.map((item) => ({
+              product_id: item.product_id,
+              quantity: item.quantity,
+              selected_options: item.selected_options,
+            })),
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to merge cart");
+        }
+
+        const result = await response.json();
+        replaceItems(result.data.items);
+        sessionStorage.setItem(MERGED_USER_KEY, user.id);
+        setMergedUserId(user.id);
+
+        const summary = describeCartMerge(result.data.changes);
+        if (summary) {
+          addToast({
+            title: "Your cart was updated",
+            description: summary,
+            type: "info",
+            duration: 8000,
+          });
+        }
+      } catch (err) {
+        // Left unmerged (and unsynced) until the next page load retries
+        console.error("Cart merge error:", err);
+      } finally {
+        mergingRef.current = false;
+      }
+    };
+
+    mergeCart();
+  }, [user?.id, authLoading, !!cart]);
+
+  // Keep signed-in customers' carts on the server so abandoned carts can be
+  // followed up by email. Only the items matter, not loaded product data.
+  const serverSyncKey = cart
+    ? JSON.stringify(
+        cart.items.map((item) => [
+          item.product_id,
+          item.quantity,
+          item.selected_options || {},
+        ])
+      )
+    : null;
+
+  useEffect(() => {
+    if (!user || mergedUserId !== user.id || !cart || serverSyncKey === null)
+      return;
+
+    const timeout = setTimeout(() => {
+      fetch("/api/cart/sync", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          items: cart.items.map((item) => ({
+            product_id: item.product_id,
+            quantity: item.quantity,
+            selected_options: item.selected_options,
+          })),
+        }),
+      }).catch((err) => {
+        console.error("Background cart sync error:", err);
+      });
+    }, 2000);
+
+    return () => clearTimeout(timeout);
+  }, [user?.id, mergedUserId, serverSyncKey]);
+
   const value: CartContextType = {
     cart,
     loading,
@@ -339,10 +581,15 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     updateQuantity,
     removeItem,
     clearCart,
+    replaceItems,
+    setPromotionCode,
     syncToServer,
+    getItemPrice,
     getTotalItems,
     getTotalPrice,
-    fetchCartProductData,
+    refreshCart,
+    priceChanges,
+    dismissPriceChanges,
   };
 
   return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
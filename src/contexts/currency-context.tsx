@@ -0,0 +1,88 @@
+import {
+  CURRENCY_COOKIE,
+  isSupportedCurrency,
+  STORE_CURRENCY,
+} from "@/lib/currency-utils";
+import { formatPrice as formatCurrencyPrice } from "@/lib/utils";
+import React, { createContext, useContext, useEffect, useState } from "react";
+
+interface CurrencyOption {
+  code: string;
+  label: string;
+}
+
+interface CurrencyContextType {
+  currency: string; // Currency the storefront APIs are pricing in
+  currencies: CurrencyOption[];
+  setCurrency: (currency: string) => void;
+  formatPrice: (price: number | string) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(
+  undefined
+);
+
+function readCurrencyCookie(): string | null {
+  const match = document.cookie.match(
+    new RegExp(`(?:^|; )${CURRENCY_COOKIE}=([^;]*)`)
+  );
+  return match && isSupportedCurrency(match[1]) ? match[1] : null;
+}
+
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const [currency, setCurrencyState] = useState(STORE_CURRENCY);
+  const [currencies, setCurrencies] = useState<CurrencyOption[]>([]);
+
+  useEffect(() => {
+    // The cookie is a good first guess; the API says whether the store
+    // actually has a rate for it
+    const cookieCurrency = readCurrencyCookie();
+    if (cookieCurrency) setCurrencyState(cookieCurrency);
+
+    const fetchCurrencies = async () => {
+      try {
+        const response = await fetch("/api/currencies");
+        if (response.ok) {
+          const result = await response.json();
+          setCurrencies(result.data.currencies);
+          setCurrencyState(result.data.current);
+        }
+      } catch (error) {
+        console.error("Failed to load currencies:", error);
+      }
+    };
+    fetchCurrencies();
+  }, []);
+
+  const setCurrency = (nextCurrency: string) => {
+    if (nextCurrency === currency || !isSupportedCurrency(nextCurrency)) return;
+
+    document.cookie = `${CURRENCY_COOKIE}=${nextCurrency}; Path=/; SameSite=Lax; Max-Age=${
+      60 * 60 * 24 * 365
+    }`; // 1 year
+    // Every price on the page came from the server in the old currency
+    window.location.reload();
+  };
+
+  const formatPrice = (price: number | string) =>
+    formatCurrencyPrice(
+      typeof price === "string" ? parseFloat(price) : price,
+      currency
+    );
+
+  return (
+    <CurrencyContext.Provider
+      value={{ currency, currencies, setCurrency, formatPrice }}
+    >
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error("useCurrency must be used within a CurrencyProvider");
+  }
+  return context;
+}
@@ -0,0 +1,209 @@
+import crypto from "crypto";
+import { and, count, eq, gte, isNull, lte, sql } from "drizzle-orm";
+import { DbExecutor } from "./db";
+import {
+  abandonedCartEmails,
+  cartItems,
+  carts,
+  customers,
+  orders,
+  products,
+} from "./db/schema";
+import { sendAbandonedCartEmail } from "./email";
+
+// Carts older than this are left alone - the shopper has moved on
+export const ABANDONED_CART_MAX_AGE_DAYS = 7;
+// Orders placed this long after a reminder count as recovered
+export const RECOVERY_WINDOW_DAYS = 7;
+// Reminders sent per job run, to stay within the SMTP provider's limits
+const REMINDER_BATCH_SIZE = 50;
+
+/**
+ * Hours a signed-in customer's cart must sit untouched before a reminder is
+ * sent. Set with ABANDONED_CART_THRESHOLD_HOURS; defaults to 24.
+ */
+export function getAbandonedCartThresholdHours(): number {
+  const hours = parseFloat(process.env.ABANDONED_CART_THRESHOLD_HOURS || "");
+  return Number.isFinite(hours) && hours > 0 ? hours : 24;
+}
+
+/**
+ * Email customers whose carts have been idle past the threshold. Each cart
+ * gets one reminder per idle period, and none once the customer has ordered
+ * since they last touched it. Returns how many carts qualified and how many
+ * reminders went out.
+ */
+export async function sendAbandonedCartReminders(
+  executor: DbExecutor,
+  now: Date = new Date()
+): Promise<{ found: number; sent: number }> {
+  const idleSince = new Date(
+    now.getTime() - getAbandonedCartThresholdHours() * 60 * 60 * 1000
+  );
+  const oldestCart = new Date(
+    now.getTime() - ABANDONED_CART_MAX_AGE_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  const abandonedCarts = await executor
+    .select({
+      cart_id: carts.id,
+      customer_id: customers.id,
+      email: customers.email,
+      name: customers.name,
+    })
+    .from(carts)
+    .innerJoin(customers, eq(customers.id, carts.customer_id))
+    .where(
+      and(
+        lte(carts.updated_at, idleSince),
+        gte(carts.updated_at, oldestCart),
+        sql`EXISTS (SELECT 1 FROM ${cartItems} WHERE ${cartItems.cart_id} = ${carts.id})`,
+        sql`NOT EXISTS (SELECT 1 FROM ${abandonedCartEmails} WHERE ${abandonedCartEmails.cart_id} = ${carts.id} AND ${abandonedCartEmails.sent_at} >= ${carts.updated_at})`,
+        sql`NOT EXISTS (SELECT 1 FROM ${orders} WHERE ${orders.customer_id} = ${carts.customer_id} AND ${orders.created_at} >= ${carts.updated_at})`
+      )
+    )
+    .orderBy(carts.updated_at)
+    .limit(REMINDER_BATCH_SIZE);
+
+  let sent = 0;
+  for (const cart of abandonedCarts) {
+    const items = await executor
+      .select({
+        title: sql<string>`COALESCE(${cartItems.descriptive_title}, ${products.title})`,
+        quantity: cartItems.quantity,
+        unit_amount: cartItems.unit_amount,
+      })
+      .from(cartItems)
+      .innerJoin(products, eq(products.id, cartItems.product_id))
+      .where(eq(cartItems.cart_id, cart.cart_id));
+
+    if (items.length === 0) continue;
+
+    const token = crypto.randomBytes(32).toString("hex");
+    const emailResult = await sendAbandonedCartEmail({
+      email: cart.email,
+      customerName: cart.name,
+      items: items.map((item) => ({
+        title: item.title,
+        quantity: item.quantity,
+        unit_amount: parseFloat(item.unit_amount),
+      })),
+      restoreToken: token,
+    });
+
+    // Unsent reminders are retried on the next run
+    if (!emailResult.success) continue;
+
+    await executor.insert(abandonedCartEmails).values({
+      cart_id: cart.cart_id,
+      customer_id: cart.customer_id,
+      token,
+      item_count: items.reduce((total, item) => total + item.quantity, 0),
+      sent_at: now,
+    });
+    sent++;
+  }
+
+  return { found: abandonedCarts.length, sent };
+}
+
+/**
+ * Look up the cart behind a reminder's restore link and record the click.
+ * Returns null when the token is unknown or the cart no longer exists.
+ */
+export async function restoreAbandonedCart(
+  executor: DbExecutor,
+  token: string
+) {
+  const reminder = await executor
+    .select({
+      id: abandonedCartEmails.id,
+      cart_id: abandonedCartEmails.cart_id,
+      restored_at: abandonedCartEmails.restored_at,
+    })
+    .from(abandonedCartEmails)
+    .where(eq(abandonedCartEmails.token, token))
+    .limit(1);
+
+  if (reminder.length === 0 || !reminder[0].cart_id) {
+    return null;
+  }
+
+  const items = await executor
+    .select({
+      product_id: cartItems.product_id,
+      quantity: cartItems.quantity,
+      selected_options: cartItems.selected_options,
+      descriptive_title: cartItems.descriptive_title,
+    })
+    .from(cartItems)
+    .where(eq(cartItems.cart_id, reminder[0].cart_id));
+
+  if (!reminder[0].restored_at) {
+    await executor
+      .update(abandonedCartEmails)
+      .set({ restored_at: new Date() })
+      .where(eq(abandonedCartEmails.id, reminder[0].id));
+  }
+
+  return { cartId: reminder[0].cart_id, items };
+}
+
+/**
+ * Attribute a new order to the customer's recent reminders, if any
+ */
+export async function markCartRecovered(
+  executor: DbExecutor,
+  customerId: string,
+  orderId: string,
+  now: Date = new Date()
+) {
+  await executor
+    .update(abandonedCartEmails)
+    .set({ recovered_order_id: orderId, recovered_at: now })
+    .where(
+      and(
+        eq(abandonedCartEmails.customer_id, customerId),
+        isNull(abandonedCartEmails.recovered_at),
+        gte(
+          abandonedCartEmails.sent_at,
+          new Date(now.getTime() - RECOVERY_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+        )
+      )
+    );
+}
+
+/**
+ * Reminder, click-through and recovery totals for reminders sent in a range
+ */
+export async function getAbandonedCartStats(
+  executor: DbExecutor,
+  range: { start: Date; end: Date }
+) {
+  const result = await executor
+    .select({
+      sent: count(),
+      restored: count(abandonedCartEmails.restored_at),
+      recovered: count(abandonedCartEmails.recovered_at),
+      // In the store currency, whatever the orders were placed in
+      recoveredRevenue: sql<string>`COALESCE(SUM(${orders.total} / ${orders.exchange_rate}), 0)`,
+    })
+    .from(abandonedCartEmails)
+    .leftJoin(orders, eq(orders.id, abandonedCartEmails.recovered_order_id))
+    .where(
+      and(
+        gte(abandonedCartEmails.sent_at, range.start),
+        lte(abandonedCartEmails.sent_at, range.end)
+      )
+    );
+
+  const { sent, restored, recovered, recoveredRevenue } = result[0];
+
+  return {
+    sent,
+    restored,
+    recovered,
+    recoveredRevenue: Number(recoveredRevenue),
+    recoveryRate: sent > 0 ? (recovered / sent) * 100 : 0,
+  };
+}
@@ -35,6 +35,7 @@ function sanitizeRequestBody(body: any): any {
     "expiryDate",
     "cardToken",
     "paymentIntentId",
+    "paymentMethodId",
     "clientSecret",
     "secret",
     "token",
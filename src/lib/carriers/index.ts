@@ -0,0 +1,52 @@
+import { ShippingProvider } from "../shipping-utils";
+import { mockCarrierAdapter } from "./mock-adapter";
+import { CarrierAdapter } from "./types";
+import { upsCarrierAdapter } from "./ups-adapter";
+
+export * from "./types";
+
+const adapters: Record<string, CarrierAdapter> = {
+  mock: mockCarrierAdapter,
+  ups: upsCarrierAdapter,
+};
+
+function getConfiguredAdapterNames(): string[] {
+  const configured =
+    process.env.CARRIER_ADAPTERS ??
+    (process.env.NODE_ENV === "development" ? "mock" : "");
+  return configured
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Whether any carrier adapter is configured. Without one no package is
+ * tracked, so shipped orders are never completed automatically.
+ */
+export function hasCarrierAdapters(): boolean {
+  return getConfiguredAdapterNames().length > 0;
+}
+
+/**
+ * Get the configured carrier adapter for a carrier, or null when none of the
+ * configured adapters tracks it.
+ * CARRIER_ADAPTERS is a comma-separated list of adapter names, tried in
+ * order. Only development defaults to the local mock adapter, whose made-up
+ * deliveries would otherwise complete real orders.
+ */
+export function getCarrierAdapter(
+  carrier: ShippingProvider
+): CarrierAdapter | null {
+  for (const name of getConfiguredAdapterNames()) {
+    const adapter = adapters[name];
+    if (!adapter) {
+      throw new Error(`Unknown carrier adapter: ${name}`);
+    }
+    if (adapter.carriers.includes(carrier)) {
+      return adapter;
+    }
+  }
+
+  return null;
+}
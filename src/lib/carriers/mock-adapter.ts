@@ -0,0 +1,96 @@
+import { TrackingStatus } from "../shipping-utils";
+import { CarrierAdapter, CarrierTrackingEvent } from "./types";
+
+/**
+ * Local mock carrier for development and offline testing.
+ * Packages move along a fixed schedule counted from when the order shipped,
+ * so a poll a few days after shipping marks it delivered.
+ *
+ * Test tracking numbers (any carrier):
+ * - ending in 0000: stuck with a delivery exception
+ * - ending in 9999: unknown to the carrier
+ * - anything else: delivered three days after shipping
+ */
+
+const HOUR = 60 * 60 * 1000;
+
+// Hours after shipping that each step happens
+const SCHEDULE: Array<{
+  afterHours: number;
+  status: TrackingStatus;
+  description: string;
+  location: string | null;
+}> = [
+  {
+    afterHours: 0,
+    status: "pre_transit",
+    description: "Shipping label created",
+    location: "Anacortes, WA",
+  },
+  {
+    afterHours: 6,
+    status: "in_transit",
+    description: "Accepted at origin facility",
+    location: "Anacortes, WA",
+  },
+  {
+    afterHours: 30,
+    status: "in_transit",
+    description: "Arrived at regional facility",
+    location: "Seattle, WA",
+  },
+  {
+    afterHours: 66,
+    status: "out_for_delivery",
+    description: "Out for delivery",
+    location: null,
+  },
+  {
+    afterHours: 72,
+    status: "delivered",
+    description: "Delivered, front door",
+    location: null,
+  },
+];
+
+export const mockCarrierAdapter: CarrierAdapter = {
+  name: "mock",
+  carriers: ["usps", "ups", "fedex", "other"],
+
+  async getTracking(trackingNumber, _carrier, { shippedAt }) {
+    const cleaned = trackingNumber.replace(/\s/g, "");
+
+    if (cleaned.endsWith("9999") || !shippedAt) {
+      return { status: "unknown", events: [], deliveredAt: null };
+    }
+
+    const now = Date.now();
+    const schedule = cleaned.endsWith("0000")
+      ? [
+          ...SCHEDULE.slice(0, 3),
+          {
+            afterHours: 48,
+            status: "exception" as const,
+            description: "Delivery attempted - business closed",
+            location: null,
+          },
+        ]
+      : SCHEDULE;
+
+    const events: CarrierTrackingEvent[] = schedule
+      .map((step) => ({
+        status: step.status,
+        description: step.description,
+        location: step.location,
+        occurredAt: new Date(shippedAt.getTime() + step.afterHours * HOUR),
+      }))
+      .filter((event) => event.occurredAt.getTime() <= now);
+
+    const latest = events[events.length - 1];
+    return {
+      status: latest?.status ?? "pre_transit",
+      events,
+      deliveredAt: latest?.status === "delivered" ? latest.occurredAt : null,
+    };
+  },
+};
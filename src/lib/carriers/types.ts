@@ -0,0 +1,41 @@
+import { ShippingProvider, TrackingStatus } from "../shipping-utils";
+
+/**
+ * Carrier tracking abstraction
+ * Every adapter (the local mock, a carrier or aggregator API, ...) implements
+ * this interface so the tracking poll never talks to a carrier directly.
+ */
+
+export interface CarrierTrackingEvent {
+  status: TrackingStatus;
+  description: string; // As worded by the carrier
+  location: string | null;
+  occurredAt: Date;
+}
+
+export interface CarrierTracking {
+  status: TrackingStatus; // Current status of the package
+  events: CarrierTrackingEvent[]; // Oldest first
+  deliveredAt: Date | null;
+}
+
+export interface CarrierAdapter {
+  readonly name: string;
+
+  /**
+   * Carriers this adapter can track. The poll skips packages whose carrier
+   * no configured adapter supports.
+   */
+  readonly carriers: ShippingProvider[];
+
+  /**
+   * Fetch the full tracking history for a package. Throws on network or
+   * carrier errors; an unknown tracking number is returned with status
+   * "unknown" and no events.
+   */
+  getTracking(
+    trackingNumber: string,
+    carrier: ShippingProvider,
+    context: { shippedAt: Date | null }
+  ): Promise<CarrierTracking>;
+}
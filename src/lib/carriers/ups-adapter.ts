@@ -0,0 +1,179 @@
+import { v4 as uuidv4 } from "uuid";
+import { getSecretAsync } from "../encryption/async-secrets";
+import { TrackingStatus } from "../shipping-utils";
+import { CarrierAdapter, CarrierTrackingEvent } from "./types";
+
+/**
+ * UPS carrier adapter
+ * Reads package history from the UPS Tracking API, authenticating with an
+ * OAuth client-credentials token from a UPS developer app.
+ * UPS_API_URL points it at the UPS test environment instead.
+ */
+
+const UPS_API_BASE = process.env.UPS_API_URL || "https://onlinetools.ups.com";
+// Renew the token this long before UPS expires it
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// The parts of the UPS tracking response this adapter reads
+interface UpsActivity {
+  location?: {
+    address?: {
+      city?: string;
+      stateProvince?: string;
+      countryCode?: string;
+    };
+  };
+  status?: { type?: string; description?: string };
+  date?: string; // YYYYMMDD, local to the scan
+  time?: string; // HHMMSS, local to the scan
+  gmtOffset?: string; // e.g. "-05:00"
+}
+
+interface UpsTrackResponse {
+  trackResponse?: {
+    shipment?: Array<{
+      package?: Array<{ activity?: UpsActivity[] }>;
+    }>;
+  };
+}
+
+let accessToken: { value: string; expiresAt: number } | null = null;
+
+async function getAccessToken(): Promise<string> {
+  if (accessToken && accessToken.expiresAt > Date.now()) {
+    return accessToken.value;
+  }
+
+  const clientId = await getSecretAsync("UPS_CLIENT_ID");
+  const clientSecret = await getSecretAsync("UPS_CLIENT_SECRET");
+  if (!clientId || !clientSecret) {
+    throw new Error("UPS client credentials not configured");
+  }
+
+  const response = await fetch(`${UPS_API_BASE}/security/v1/oauth/token`, {
+    method: "POST",
+    headers: {
+      Authorization: `Basic ${Buffer.from(
+        `${clientId}:${clientSecret}`
+      ).toString("base64")}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: "grant_type=client_credentials",
+  });
+
+  if (!response.ok) {
+    throw new Error(`UPS authentication failed: ${response.status}`);
+  }
+
+  const body: { access_token: string; expires_in: string } =
+    await response.json();
+  accessToken = {
+    value: body.access_token,
+    expiresAt:
+      Date.now() +
+      parseInt(body.expires_in, 10) * 1000 -
+      TOKEN_EXPIRY_MARGIN_MS,
+  };
+  return accessToken.value;
+}
+
+/**
+ * Map a UPS activity status type onto the normalized tracking status
+ */
+function mapStatus(status: UpsActivity["status"]): TrackingStatus {
+  if (/out for delivery/i.test(status?.description || "")) {
+    return "out_for_delivery";
+  }
+
+  switch (status?.type) {
+    case "M": // Label created, billing information received
+      return "pre_transit";
+    case "P": // Picked up
+    case "I":
+      return "in_transit";
+    case "O":
+      return "out_for_delivery";
+    case "D":
+      return "delivered";
+    case "X": // Exception
+    case "RS": // Returned to sender
+      return "exception";
+    default:
+      return "unknown";
+  }
+}
+
+function toEvent(activity: UpsActivity): CarrierTrackingEvent | null {
+  const { date, time = "000000", gmtOffset } = activity;
+  if (!date || !/^\d{8}$/.test(date)) {
+    return null;
+  }
+
+  const day = `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`;
+  const clock = `${time.slice(0, 2)}:${time.slice(2, 4)}:${time.slice(4, 6)}`;
+  const occurredAt = new Date(`${day}T${clock}${gmtOffset || "Z"}`);
+  if (isNaN(occurredAt.getTime())) {
+    return null;
+  }
+
+  const address = activity.location?.address;
+  const location =
+    [address?.city, address?.stateProvince || address?.countryCode]
+      .filter(Boolean)
+      .join(", ") || null;
+
+  return {
+    status: mapStatus(activity.status),
+    description: activity.status?.description?.trim() || "Tracking update",
+    location,
+    occurredAt,
+  };
+}
+
+export const upsCarrierAdapter: CarrierAdapter = {
+  name: "ups",
+  carriers: ["ups"],
+
+  async getTracking(trackingNumber) {
+    const token = await getAccessToken();
+    const cleaned = trackingNumber.replace(/\s/g, "").toUpperCase();
+
+    const response = await fetch(
+      `${UPS_API_BASE}/api/track/v1/details/${encodeURIComponent(
+        cleaned
+      )}?locale=en_US`,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          transId: uuidv4(),
+          transactionSrc: "tracking-poll",
+        },
+      }
+    );
+
+    // UPS answers 404 for a tracking number it has no record of
+    if (response.status === 404) {
+      return { status: "unknown", events: [], deliveredAt: null };
+    }
+    if (!response.ok) {
+      throw new Error(`UPS tracking request failed: ${response.status}`);
+    }
+
+    const body: UpsTrackResponse = await response.json();
+    const activity =
+      body.trackResponse?.shipment?.[0]?.package?.[0]?.activity ?? [];
+
+    // UPS lists the newest scan first
+    const events = activity
+      .map(toEvent)
+      .filter((event): event is CarrierTrackingEvent => event !== null)
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+    const latest = events[events.length - 1];
+    return {
+      status: latest?.status ?? "unknown",
+      events,
+      deliveredAt: latest?.status === "delivered" ? latest.occurredAt : null,
+    };
+  },
+};
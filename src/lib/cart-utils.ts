@@ -0,0 +1,153 @@
+/**
+ * Cart utilities
+ * Pure helpers shared by the cart context and the server-side cart merge and
+ * refresh.
+ */
+
+export interface CartLine {
+  product_id: string;
+  quantity: number;
+  selected_options?: Record<string, string> | null;
+}
+
+export interface CartMergeChanges {
+  added: number; // Lines only the account's saved cart had
+  adjusted: Array<{ title: string; requested: number; quantity: number }>;
+  removed: Array<{ title: string; reason: "unavailable" | "out_of_stock" }>;
+}
+
+// Why a cart line cannot be bought as it stands
+export type CartLineIssue =
+  | "unavailable" // Product removed, unpublished or unpriced
+  | "option_removed" // A selected option value no longer exists
+  | "out_of_stock"
+  | "insufficient_stock"; // Fewer in stock than the line's quantity
+
+export interface RefreshedCartLine {
+  product_id: string;
+  selected_options: Record<string, string>;
+  quantity: number;
+  unit_amount: number | null; // Current price including option adjustments
+  compare_at_amount: number | null; // Per-unit "was" price during a sale
+  previous_unit_amount: number | null; // The price the shopper last saw
+  price_changed: boolean;
+  issue: CartLineIssue | null;
+  available_quantity: number | null;
+}
+
+export interface CartPriceChange {
+  key: string; // getCartLineKey of the line
+  title: string;
+  previous: number;
+  current: number;
+}
+
+/**
+ * Identifies a cart line by product and selected options, independent of the
+ * order the options were chosen in
+ */
+export function getCartLineKey(
+  productId: string,
+  selectedOptions?: Record<string, string> | null
+): string {
+  const options = Object.entries(selectedOptions || {}).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+  return `${productId}-${JSON.stringify(options)}`;
+}
+
+/**
+ * Line title naming the chosen options, e.g. "Amethyst Point (size: Large)"
+ */
+export function formatCartLineTitle(
+  title: string,
+  selectedOptions?: Record<string, string> | null
+): string {
+  const options = Object.entries(selectedOptions || {});
+  if (options.length === 0) return title;
+  return `${title} (${options
+    .map(([name, value]) => `${name}: ${value}`)
+    .join(", ")})`;
+}
+
+/**
+ * Union two carts line by line. A line in both keeps the larger quantity, so
+ * merging the same cart twice changes nothing.
+ */
+export function unionCartLines<T extends CartLine>(
+  local: T[],
+  saved: T[]
+): { lines: T[]; added: number } {
+  const lines = new Map<string, T>();
+  for (const line of local) {
+    const key = getCartLineKey(line.product_id, line.selected_options);
+    const existing = lines.get(key);
+    lines.set(
+      key,
+      existing && existing.quantity >= line.quantity ? existing : line
+    );
+  }
+
+  let added = 0;
+  for (const line of saved) {
+    const key = getCartLineKey(line.product_id, line.selected_options);
+    const existing = lines.get(key);
+    if (!existing) {
+      lines.set(key, line);
+      added++;
+    } else if (line.quantity > existing.quantity) {
+      lines.set(key, { ...existing, quantity: line.quantity });
+    }
+  }
+
+  return { lines: [...lines.values()], added };
+}
+
+/**
+ * One-sentence summary of a cart merge for a toast, or null when nothing
+ * the shopper would notice changed
+ */
+export function describeCartMerge(changes: CartMergeChanges): string | null {
+  const parts: string[] = [];
+
+  if (changes.added > 0) {
+    parts.push(
+      `${changes.added} item${
+        changes.added === 1 ? "" : "s"
+      } added from your saved cart`
+    );
+  }
+  for (const item of changes.adjusted) {
+    parts.push(
+      `${item.title} reduced from ${item.requested} to ${item.quantity} (limited stock)`
+    );
+  }
+  for (const item of changes.removed) {
+    parts.push(
+      `${item.title} removed (${
+        item.reason === "out_of_stock" ? "out of stock" : "no longer available"
+      })`
+    );
+  }
+
+  return parts.length > 0 ? `${parts.join("; ")}.` : null;
+}
+
+/**
+ * Short explanation of a cart line issue, shown under the line
+ */
+export function getCartLineIssueMessage(
+  issue: CartLineIssue,
+  availableQuantity?: number | null
+): string {
+  switch (issue) {
+    case "unavailable":
+      return "This item is no longer available";
+    case "option_removed":
+      return "An option you chose is no longer offered";
+    case "out_of_stock":
+      return "This item is out of stock";
+    case "insufficient_stock":
+      return `Only ${availableQuantity ?? 0} left in stock`;
+  }
+}
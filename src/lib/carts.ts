@@ -0,0 +1,465 @@
+import { desc, eq, inArray } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import {
+  CartLine,
+  CartMergeChanges,
+  formatCartLineTitle,
+  RefreshedCartLine,
+  unionCartLines,
+} from "./cart-utils";
+import {
+  convertAmount,
+  CurrencyRate,
+  STORE_CURRENCY,
+  STORE_CURRENCY_RATE,
+} from "./currency-utils";
+import { DbExecutor } from "./db";
+import {
+  cartItems,
+  carts,
+  productMedia,
+  productOptions,
+  productOptionValues,
+  products,
+} from "./db/schema";
+import { getProductImageUrlFromMedia } from "./image-utils";
+import { getAvailableQuantities } from "./inventory-reservations";
+import { getOptionValueDemand } from "./option-inventory";
+import { getActivePrices, getLineUnitPrices } from "./pricing";
+
+/**
+ * The server-side cart to use for a signed-in customer: the browser's cart
+ * when it is unclaimed or already theirs, otherwise their most recent cart,
+ * otherwise a new one. A cart belonging to another customer (shared browser)
+ * is never used.
+ */
+export async function resolveCustomerCartId(
+  executor: DbExecutor,
+  customerId: string,
+  cookieCartId?: string
+): Promise<string> {
+  if (cookieCartId) {
+    const existingCart = await executor
+      .select({ customer_id: carts.customer_id })
+      .from(carts)
+      .where(eq(carts.id, cookieCartId))
+      .limit(1);
+
+    if (
+      existingCart.length > 0 &&
+      (!existingCart[0].customer_id ||
+        existingCart[0].customer_id === customerId)
+    ) {
+      return cookieCartId;
+    }
+  }
+
+  const customerCart = await executor
+    .select({ id: carts.id })
+    .from(carts)
+    .where(eq(carts.customer_id, customerId))
+    .orderBy(desc(carts.updated_at))
+    .limit(1);
+
+  if (customerCart.length > 0) {
+    return customerCart[0].id;
+  }
+
+  const newCart = await executor
+    .insert(carts)
+    .values({ id: uuidv4(), customer_id: customerId, currency: STORE_CURRENCY })
+    .returning({ id: carts.id });
+
+  return newCart[0].id;
+}
+
+/**
+ * Option values offered for each product, keyed by
+ * `${productId}:${optionName}:${valueName}`
+ */
+async function getProductOptionValues(
+  executor: DbExecutor,
+  productIds: string[]
+) {
+  const rows =
+    productIds.length > 0
+      ? await executor
+          .select({
+            product_id: productOptions.product_id,
+            option_id: productOptions.id,
+            option_name: productOptions.name,
+            option_display_name: productOptions.display_name,
+            option_sort_order: productOptions.sort_order,
+            value_id: productOptionValues.id,
+            value_name: productOptionValues.name,
+            price_adjustment: productOptionValues.price_adjustment,
+            is_default: productOptionValues.is_default,
+            is_sold_out: productOptionValues.is_sold_out,
+            quantity_available: productOptionValues.quantity_available,
+            value_sort_order: productOptionValues.sort_order,
+          })
+          .from(productOptionValues)
+          .innerJoin(
+            productOptions,
+            eq(productOptionValues.option_id, productOptions.id)
+          )
+          .where(inArray(productOptions.product_id, productIds))
+          .orderBy(productOptions.sort_order, productOptionValues.sort_order)
+      : [];
+
+  return new Map(
+    rows.map((row) => [
+      `${row.product_id}:${row.option_name}:${row.value_name}`,
+      row,
+    ])
+  );
+}
+
+/**
+ * Units available to each line, in order. Lines of the same product, or
+ * sharing a stock-tracked option value, draw from the same stock, so earlier
+ * lines are served first.
+ */
+async function allocateCartStock(
+  executor: DbExecutor,
+  lines: CartLine[]
+): Promise<number[]> {
+  const [productStock, optionDemand] = await Promise.all([
+    getAvailableQuantities(executor, [
+      ...new Set(lines.map((line) => line.product_id)),
+    ]),
+    getOptionValueDemand(
+      executor,
+      lines.map((line) => ({
+        productId: line.product_id,
+        quantity: line.quantity,
+        selectedOptions: line.selected_options,
+      }))
+    ),
+  ]);
+
+  // Stock left to hand out, shared by lines of the same product or value
+  const remainingByProduct = new Map(productStock);
+  const remainingByValue = new Map(
+    optionDemand.map((value) => [
+      `${value.productId}:${value.optionName}:${value.valueName}`,
+      value.available,
+    ])
+  );
+
+  return lines.map((line) => {
+    const valueKeys = Object.entries(line.selected_options || {})
+      .map(([name, value]) => `${line.product_id}:${name}:${value}`)
+      .filter((key) => remainingByValue.has(key));
+
+    const available = Math.max(
+      Math.min(
+        remainingByProduct.get(line.product_id) || 0,
+        ...valueKeys.map((key) => remainingByValue.get(key)!)
+      ),
+      0
+    );
+    const allocated = Math.min(line.quantity, available);
+
+    remainingByProduct.set(
+      line.product_id,
+      (remainingByProduct.get(line.product_id) || 0) - allocated
+    );
+    for (const key of valueKeys) {
+      remainingByValue.set(key, remainingByValue.get(key)! - allocated);
+    }
+
+    return available;
+  });
+}
+
+/**
+ * Replace a customer's cart items, priced at today's prices including any
+ * running sale. Claims the cart for the customer and restarts its idle clock
+ * so abandoned cart reminders measure from the latest change. Lines for
+ * unknown or unpriced products are skipped.
+ */
+export async function replaceCartItems(
+  executor: DbExecutor,
+  cartId: string,
+  customerId: string,
+  items: CartLine[]
+) {
+  await executor
+    .update(carts)
+    .set({ customer_id: customerId, updated_at: new Date() })
+    .where(eq(carts.id, cartId));
+
+  // Clear existing cart items
+  await executor.delete(cartItems).where(eq(cartItems.cart_id, cartId));
+
+  const unitAmounts = await getLineUnitPrices(executor, items);
+
+  for (const [index, item] of items.entries()) {
+    const unitAmount = unitAmounts[index];
+    if (unitAmount === null) {
+      console.warn(`No price found for product ${item.product_id}, skipping`);
+      continue;
+    }
+
+    // Add item to cart (descriptive_title will be generated client-side)
+    await executor.insert(cartItems).values({
+      id: uuidv4(),
+      cart_id: cartId,
+      product_id: item.product_id,
+      quantity: item.quantity,
+      unit_amount: unitAmount.toFixed(2),
+      selected_options: item.selected_options || null,
+    });
+  }
+}
+
+/**
+ * Merge the cart a customer built in this browser with the one saved to
+ * their account, then trim quantities to what is in stock. The merged cart is
+ * saved and returned with a summary of what changed for the shopper.
+ */
+export async function mergeCustomerCart(
+  executor: DbExecutor,
+  customerId: string,
+  localItems: CartLine[],
+  cookieCartId?: string
+): Promise<{ cartId: string; items: CartLine[]; changes: CartMergeChanges }> {
+  const cartId = await resolveCustomerCartId(
+    executor,
+    customerId,
+    cookieCartId
+  );
+
+  const savedItems = await executor
+    .select({
+      product_id: cartItems.product_id,
+      quantity: cartItems.quantity,
+      selected_options: cartItems.selected_options,
+    })
+    .from(cartItems)
+    .where(eq(cartItems.cart_id, cartId));
+
+  const { lines, added } = unionCartLines<CartLine>(
+    localItems,
+    savedItems.map((item) => ({
+      ...item,
+      selected_options: item.selected_options as Record<string, string> | null,
+    }))
+  );
+
+  const changes: CartMergeChanges = { added, adjusted: [], removed: [] };
+  const productIds = [...new Set(lines.map((line) => line.product_id))];
+
+  const productRows =
+    productIds.length > 0
+      ? await executor
+          .select({
+            id: products.id,
+            title: products.title,
+            status: products.status,
+          })
+          .from(products)
+          .where(inArray(products.id, productIds))
+      : [];
+  const productsById = new Map(productRows.map((row) => [row.id, row]));
+
+  const activeLines: CartLine[] = [];
+  for (const line of lines) {
+    const product = productsById.get(line.product_id);
+    if (!product || product.status !== "active") {
+      changes.removed.push({
+        title: product?.title || "An item",
+        reason: "unavailable",
+      });
+      continue;
+    }
+    activeLines.push(line);
+  }
+
+  const available = await allocateCartStock(executor, activeLines);
+
+  const merged: CartLine[] = [];
+  for (const [index, line] of activeLines.entries()) {
+    const quantity = Math.min(line.quantity, available[index]);
+
+    const title = formatCartLineTitle(
+      productsById.get(line.product_id)!.title,
+      line.selected_options
+    );
+
+    if (quantity <= 0) {
+      changes.removed.push({ title, reason: "out_of_stock" });
+      continue;
+    }
+    if (quantity < line.quantity) {
+      changes.adjusted.push({ title, requested: line.quantity, quantity });
+    }
+
+    merged.push({ ...line, quantity });
+  }
+
+  await replaceCartItems(executor, cartId, customerId, merged);
+
+  return { cartId, items: merged, changes };
+}
+
+/**
+ * Reprice and revalidate a cart in one pass: every line gets today's price
+ * (base price, option adjustments and any running sale) and is flagged when
+ * it can no longer be bought as it stands. `unit_amount` on an incoming line
+ * is the price the shopper last saw, used to flag price changes. Display
+ * data for each product is returned alongside so the cart needs no further
+ * requests. Prices are in the given currency.
+ */
+export async function refreshCartLines(
+  executor: DbExecutor,
+  lines: Array<CartLine & { unit_amount?: number | null }>,
+  currencyRate: CurrencyRate = STORE_CURRENCY_RATE,
+  now: Date = new Date()
+) {
+  const productIds = [...new Set(lines.map((line) => line.product_id))];
+
+  const [productRows, mediaRows, activePrices, optionValues] =
+    await Promise.all([
+      productIds.length > 0
+        ? executor
+            .select({
+              id: products.id,
+              title: products.title,
+              slug: products.slug,
+              image: products.image,
+              status: products.status,
+            })
+            .from(products)
+            .where(inArray(products.id, productIds))
+        : [],
+      productIds.length > 0
+        ? executor
+            .select({
+              product_id: productMedia.product_id,
+              blob_url: productMedia.blob_url,
+              sort: productMedia.sort,
+            })
+            .from(productMedia)
+            .where(inArray(productMedia.product_id, productIds))
+        : [],
+      getActivePrices(executor, productIds, currencyRate, now),
+      getProductOptionValues(executor, productIds),
+    ]);
+  const productsById = new Map(productRows.map((row) => [row.id, row]));
+
+  const [unitAmounts, available] = await Promise.all([
+    getLineUnitPrices(executor, lines, currencyRate, now),
+    allocateCartStock(executor, lines),
+  ]);
+
+  const refreshed: RefreshedCartLine[] = lines.map((line, index) => {
+    const product = productsById.get(line.product_id);
+    const price = activePrices.get(line.product_id);
+    const selectedOptions = line.selected_options || {};
+    const unitAmount = unitAmounts[index];
+    const previous =
+      typeof line.unit_amount === "number" ? line.unit_amount : null;
+
+    const optionRemoved = Object.entries(selectedOptions).some(
+      ([name, value]) =>
+        !optionValues.has(`${line.product_id}:${name}:${value}`)
+    );
+
+    let issue: RefreshedCartLine["issue"] = null;
+    if (!product || product.status !== "active" || unitAmount === null) {
+      issue = "unavailable";
+    } else if (optionRemoved) {
+      issue = "option_removed";
+    } else if (available[index] <= 0) {
+      issue = "out_of_stock";
+    } else if (available[index] < line.quantity) {
+      issue = "insufficient_stock";
+    }
+
+    return {
+      product_id: line.product_id,
+      selected_options: selectedOptions,
+      quantity: line.quantity,
+      unit_amount: unitAmount,
+      compare_at_amount:
+        price?.compare_at_amount && unitAmount !== null
+          ? Math.round(
+              (unitAmount + price.compare_at_amount - price.amount) * 100
+            ) / 100
+          : null,
+      previous_unit_amount: previous,
+      price_changed:
+        previous !== null &&
+        unitAmount !== null &&
+        Math.abs(previous - unitAmount) >= 0.005,
+      issue,
+      available_quantity: product ? available[index] : null,
+    };
+  });
+
+  // Display data in the shape the storefront product API returns
+  const optionsByProduct = new Map<
+    string,
+    Map<
+      string,
+      {
+        id: string;
+        name: string;
+        display_name: string;
+        values: Array<{
+          id: string;
+          name: string;
+          price_adjustment: number;
+          is_default: boolean;
+          is_sold_out: boolean;
+          quantity_available: number | null;
+        }>;
+      }
+    >
+  >();
+  for (const value of optionValues.values()) {
+    const options = optionsByProduct.get(value.product_id) || new Map();
+    optionsByProduct.set(value.product_id, options);
+
+    if (!options.has(value.option_id)) {
+      options.set(value.option_id, {
+        id: value.option_id,
+        name: value.option_name,
+        display_name: value.option_display_name,
+        values: [],
+      });
+    }
+    options.get(value.option_id)!.values.push({
+      id: value.value_id,
+      name: value.value_name,
+      price_adjustment: convertAmount(
+        parseFloat(value.price_adjustment),
+        currencyRate
+      ),
+      is_default: value.is_default,
+      is_sold_out: value.is_sold_out,
+      quantity_available: value.quantity_available,
+    });
+  }
+
+  const cartProducts = productRows.map((product) => {
+    const price = activePrices.get(product.id);
+    return {
+      id: product.id,
+      title: product.title,
+      slug: product.slug,
+      image: getProductImageUrlFromMedia(
+        product.image?.startsWith("http") ? product.image : null,
+        mediaRows.filter((media) => media.product_id === product.id)
+      ),
+      base_price: price?.amount ?? 0,
+      compare_at_price: price?.compare_at_amount ?? null,
+      currency: currencyRate.currency,
+      options: [...(optionsByProduct.get(product.id)?.values() || [])],
+    };
+  });
+
+  return { lines: refreshed, products: cartProducts };
+}
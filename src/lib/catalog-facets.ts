@@ -0,0 +1,395 @@
+import { and, asc, eq, inArray, or, SQL, sql } from "drizzle-orm";
+import {
+  CatalogFacets,
+  CatalogFilters,
+  CategoryFacetValue,
+  FacetValue,
+  parseOptionFilter,
+  PRICE_BANDS,
+} from "./catalog-filter-utils";
+import { CategoryRow, getCategoryList } from "./categories";
+import {
+  getCategoryAncestorIds,
+  getCategoryDescendantIds,
+} from "./category-utils";
+import { convertAmount, CurrencyRate } from "./currency-utils";
+import { DbExecutor } from "./db";
+import {
+  inventory,
+  productCategories,
+  productOptions,
+  productOptionValues,
+  products,
+  productSearchIndex,
+  productTags,
+  tags,
+} from "./db/schema";
+import { activePriceSql } from "./pricing";
+
+// Facet conditions are keyed so each facet's counts can leave out its own
+// selection: "tags", "categories", "priceBands", "availability" and
+// "option:<name>" for each option name
+export type FacetConditions = Map<string, SQL>;
+
+/**
+ * Products with stock not held by in-progress checkouts
+ */
+export function inStockSql() {
+  return sql`EXISTS (
+    SELECT 1 FROM ${inventory}
+    WHERE ${inventory.product_id} = ${products.id}
+    AND ${inventory.quantity_available} - ${inventory.quantity_reserved} > 0
+  )`;
+}
+
+function priceBandSql(price: SQL, band: (typeof PRICE_BANDS)[number]) {
+  return band.max === null
+    ? sql`${price} >= ${band.min}`
+    : sql`(${price} >= ${band.min} AND ${price} < ${band.max})`;
+}
+
+/**
+ * SQL conditions on products for the selected facet values. Selected
+ * categories match products in their child categories too. Unknown
+ * category slugs are returned so the caller can reject them.
+ */
+export async function getFacetConditions(
+  executor: DbExecutor,
+  filters: CatalogFilters
+): Promise<{
+  conditions: FacetConditions;
+  selectedCategories: CategoryRow[];
+  unknownCategories: string[];
+}> {
+  const conditions: FacetConditions = new Map();
+
+  if (filters.tags.length > 0) {
+    conditions.set(
+      "tags",
+      sql`EXISTS (
+        SELECT 1 FROM ${productTags}
+        INNER JOIN ${tags} ON ${tags.id} = ${productTags.tag_id}
+        WHERE ${productTags.product_id} = ${products.id}
+        AND ${inArray(tags.name, filters.tags)}
+      )`
+    );
+  }
+
+  let selectedCategories: CategoryRow[] = [];
+  let unknownCategories: string[] = [];
+  if (filters.categories.length > 0) {
+    const tree = await getCategoryList(executor);
+    selectedCategories = tree.filter((category) =>
+      filters.categories.includes(category.slug)
+    );
+    unknownCategories = filters.categories.filter(
+      (slug) => !selectedCategories.some((category) => category.slug === slug)
+    );
+
+    const categoryIds = [
+      ...new Set(
+        selectedCategories.flatMap((category) =>
+          getCategoryDescendantIds(tree, category.id)
+        )
+      ),
+    ];
+    if (categoryIds.length > 0) {
+      conditions.set(
+        "categories",
+        sql`EXISTS (
+          SELECT 1 FROM ${productCategories}
+          WHERE ${productCategories.product_id} = ${products.id}
+          AND ${inArray(productCategories.category_id, categoryIds)}
+        )`
+      );
+    }
+  }
+
+  const optionValues = new Map<string, string[]>();
+  for (const entry of filters.options) {
+    const option = parseOptionFilter(entry);
+    if (!option) continue;
+    optionValues.set(option.name, [
+      ...(optionValues.get(option.name) || []),
+      option.value,
+    ]);
+  }
+  for (const [name, values] of optionValues) {
+    conditions.set(
+      `option:${name}`,
+      sql`EXISTS (
+        SELECT 1 FROM ${productOptions}
+        INNER JOIN ${productOptionValues} ON ${
+        productOptionValues.option_id
+      } = ${productOptions.id}
+        WHERE ${productOptions.product_id} = ${products.id}
+        AND ${productOptions.name} = ${name}
+        AND ${inArray(productOptionValues.name, values)}
+      )`
+    );
+  }
+
+  const bands = PRICE_BANDS.filter((band) =>
+    filters.priceBands.includes(band.id)
+  );
+  if (bands.length > 0) {
+    const price = activePriceSql();
+    conditions.set(
+      "priceBands",
+      or(...bands.map((band) => priceBandSql(price, band)))!
+    );
+  }
+
+  return { conditions, selectedCategories, unknownCategories };
+}
+
+/**
+ * Selected values stay listed, with a zero count, so they can be cleared
+ */
+function withSelectedValues(
+  values: FacetValue[],
+  selected: string[]
+): FacetValue[] {
+  const missing = selected
+    .filter((value) => !values.some((facet) => facet.value === value))
+    .map((value) => ({ value, label: value, count: 0 }));
+  return [...values, ...missing];
+}
+
+/**
+ * Counts for every facet value among the products matching the base
+ * conditions. Each facet's counts apply the other facets' selections but
+ * not its own, so they tell how many products picking a value would add.
+ */
+export async function getCatalogFacets(
+  executor: DbExecutor,
+  {
+    baseConditions,
+    facetConditions,
+    filters,
+    currencyRate,
+  }: {
+    baseConditions: SQL[];
+    facetConditions: FacetConditions;
+    filters: CatalogFilters;
+    currencyRate: CurrencyRate;
+  }
+): Promise<CatalogFacets> {
+  const matchingExcept = (key?: string) =>
+    and(
+      ...baseConditions,
+      ...[...facetConditions]
+        .filter(([facetKey]) => facetKey !== key)
+        .map(([, condition]) => condition)
+    );
+  const productCount = sql<number>`count(distinct ${products.id})`.mapWith(
+    Number
+  );
+
+  const tagRows = await executor
+    .select({ name: tags.name, count: productCount })
+    .from(products)
+    .innerJoin(productTags, eq(productTags.product_id, products.id))
+    .innerJoin(tags, eq(tags.id, productTags.tag_id))
+    .leftJoin(
+      productSearchIndex,
+      eq(productSearchIndex.product_id, products.id)
+    )
+    .where(matchingExcept("tags"))
+    .groupBy(tags.name)
+    .orderBy(asc(tags.name));
+
+  // Products in a child category count towards its parents too
+  const [tree, categoryRows] = await Promise.all([
+    getCategoryList(executor),
+    executor
+      .selectDistinct({
+        product_id: productCategories.product_id,
+        category_id: productCategories.category_id,
+      })
+      .from(products)
+      .innerJoin(
+        productCategories,
+        eq(productCategories.product_id, products.id)
+      )
+      .leftJoin(
+        productSearchIndex,
+        eq(productSearchIndex.product_id, products.id)
+      )
+      .where(matchingExcept("categories")),
+  ]);
+  const categoryProducts = new Map<string, Set<string>>();
+  for (const row of categoryRows) {
+    for (const categoryId of [
+      row.category_id,
+      ...getCategoryAncestorIds(tree, row.category_id),
+    ]) {
+      if (!categoryProducts.has(categoryId)) {
+        categoryProducts.set(categoryId, new Set());
+      }
+      categoryProducts.get(categoryId)!.add(row.product_id);
+    }
+  }
+  const categoryValues: CategoryFacetValue[] = [];
+  const addCategories = (parentId: string | null, depth: number) => {
+    for (const category of tree) {
+      if (category.parent_id !== parentId) continue;
+      const count = categoryProducts.get(category.id)?.size || 0;
+      if (count === 0 && !filters.categories.includes(category.slug)) continue;
+      categoryValues.push({
+        value: category.slug,
+        label: category.name,
+        count,
+        depth,
+      });
+      addCategories(category.id, depth + 1);
+    }
+  };
+  addCategories(null, 0);
+
+  // Option names with a selection each need their own counts; the others
+  // share one query
+  const selectedOptionNames = [...facetConditions.keys()]
+    .filter((key) => key.startsWith("option:"))
+    .map((key) => key.slice("option:".length));
+  const optionQuery = (where: SQL | undefined) =>
+    executor
+      .select({
+        name: productOptions.name,
+        label: sql<string>`min(${productOptions.display_name})`,
+        value: productOptionValues.name,
+        count: productCount,
+      })
+      .from(products)
+      .innerJoin(productOptions, eq(productOptions.product_id, products.id))
+      .innerJoin(
+        productOptionValues,
+        eq(productOptionValues.option_id, productOptions.id)
+      )
+      .leftJoin(
+        productSearchIndex,
+        eq(productSearchIndex.product_id, products.id)
+      )
+      .where(where)
+      .groupBy(productOptions.name, productOptionValues.name)
+      .orderBy(asc(productOptions.name), asc(productOptionValues.name));
+  const optionRows = [
+    ...(await optionQuery(matchingExcept())).filter(
+      (row) => !selectedOptionNames.includes(row.name)
+    ),
+    ...(
+      await Promise.all(
+        selectedOptionNames.map((name) =>
+          optionQuery(
+            and(matchingExcept(`option:${name}`), eq(productOptions.name, name))
+          )
+        )
+      )
+    ).flat(),
+  ];
+  const optionFacets = new Map<
+    string,
+    { name: string; label: string; values: FacetValue[] }
+  >();
+  for (const row of optionRows) {
+    if (!optionFacets.has(row.name)) {
+      optionFacets.set(row.name, {
+        name: row.name,
+        label: row.label,
+        values: [],
+      });
+    }
+    optionFacets.get(row.name)!.values.push({
+      value: `${row.name}:${row.value}`,
+      label: row.value,
+      count: row.count,
+    });
+  }
+  for (const entry of filters.options) {
+    const option = parseOptionFilter(entry);
+    if (!option) continue;
+    if (!optionFacets.has(option.name)) {
+      optionFacets.set(option.name, {
+        name: option.name,
+        label: option.name,
+        values: [],
+      });
+    }
+    const facet = optionFacets.get(option.name)!;
+    facet.values = withSelectedValues(facet.values, [entry]).map((value) =>
+      value.value === entry && value.count === 0
+        ? { ...value, label: option.value }
+        : value
+    );
+  }
+
+  // Bands are matched on the current price, so sales move products between them
+  const priced = executor
+    .select({ price: activePriceSql().as("price") })
+    .from(products)
+    .leftJoin(
+      productSearchIndex,
+      eq(productSearchIndex.product_id, products.id)
+    )
+    .where(matchingExcept("priceBands"))
+    .as("priced");
+  const bandRows = await executor
+    .select({
+      band: sql<string>`CASE ${sql.join(
+        PRICE_BANDS.map(
+          (band) =>
+            sql`WHEN ${priceBandSql(sql`${priced.price}`, band)} THEN ${
+              band.id
+            }`
+        ),
+        sql` `
+      )} END`,
+      count: sql<number>`count(*)`.mapWith(Number),
+    })
+    .from(priced)
+    .where(sql`${priced.price} IS NOT NULL`)
+    .groupBy(sql`1`);
+
+  const formatPrice = (amount: number) =>
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: currencyRate.currency,
+      maximumFractionDigits: 0,
+    }).format(Math.round(convertAmount(amount, currencyRate)));
+  const priceBands = PRICE_BANDS.map((band) => ({
+    value: band.id,
+    label:
+      band.max === null
+        ? `${formatPrice(band.min)} and up`
+        : band.min === 0
+        ? `Under ${formatPrice(band.max)}`
+        : `${formatPrice(band.min)} – ${formatPrice(band.max)}`,
+    count: bandRows.find((row) => row.band === band.id)?.count || 0,
+  })).filter(
+    (band) => band.count > 0 || filters.priceBands.includes(band.value)
+  );
+
+  const [inStock] = await executor
+    .select({ count: productCount })
+    .from(products)
+    .leftJoin(
+      productSearchIndex,
+      eq(productSearchIndex.product_id, products.id)
+    )
+    .where(and(matchingExcept("availability"), inStockSql()));
+
+  return {
+    tags: withSelectedValues(
+      tagRows.map((row) => ({
+        value: row.name,
+        label: row.name,
+        count: row.count,
+      })),
+      filters.tags
+    ),
+    categories: categoryValues,
+    options: [...optionFacets.values()],
+    priceBands,
+    inStock: inStock?.count || 0,
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Catalog facet utilities
+ * Filter state shared by the products API and the storefront filter
+ * sidebar. Each facet is a comma-separated list in the URL; values within a
+ * facet are alternatives, facets narrow each other.
+ */
+
+export interface CatalogFilters {
+  tags: string[]; // Tag names
+  categories: string[]; // Category slugs, each including its children
+  options: string[]; // "option_name:Value name", e.g. "crystal_type:Amethyst"
+  priceBands: string[]; // PRICE_BANDS ids
+}
+
+export const EMPTY_CATALOG_FILTERS: CatalogFilters = {
+  tags: [],
+  categories: [],
+  options: [],
+  priceBands: [],
+};
+
+// URL parameter of each facet. "category" predates the other facets and is
+// what category cards link to.
+export const CATALOG_FILTER_PARAMS: Record<keyof CatalogFilters, string> = {
+  tags: "tags",
+  categories: "category",
+  options: "options",
+  priceBands: "price_bands",
+};
+
+// Price bands in the store currency; the last one has no upper bound
+export const PRICE_BANDS = [
+  { id: "under_25", min: 0, max: 25 },
+  { id: "25_50", min: 25, max: 50 },
+  { id: "50_100", min: 50, max: 100 },
+  { id: "100_200", min: 100, max: 200 },
+  { id: "200_plus", min: 200, max: null },
+] as const;
+
+export type PriceBandId = (typeof PRICE_BANDS)[number]["id"];
+
+export interface FacetValue {
+  value: string; // As used in the URL
+  label: string;
+  count: number; // Matching products if this value were also selected
+}
+
+export interface CategoryFacetValue extends FacetValue {
+  depth: number; // 0 for top-level categories
+}
+
+export interface CatalogFacets {
+  tags: FacetValue[];
+  categories: CategoryFacetValue[]; // Parents before their children
+  options: Array<{ name: string; label: string; values: FacetValue[] }>;
+  priceBands: FacetValue[];
+  inStock: number; // Matching products that are in stock
+}
+
+/**
+ * Split a comma-separated facet parameter, also accepting the parameter
+ * repeated
+ */
+export function parseFacetParam(value: string | string[] | undefined | null) {
+  const parts = Array.isArray(value) ? value : value ? [value] : [];
+  return [
+    ...new Set(
+      parts
+        .flatMap((part) => part.split(","))
+        .map((part) => part.trim())
+        .filter(Boolean)
+    ),
+  ];
+}
+
+/**
+ * Catalog filters from URL search parameters
+ */
+export function parseCatalogFilters(params: URLSearchParams): CatalogFilters {
+  return {
+    tags: parseFacetParam(params.getAll(CATALOG_FILTER_PARAMS.tags)),
+    categories: parseFacetParam(
+      params.getAll(CATALOG_FILTER_PARAMS.categories)
+    ),
+    options: parseFacetParam(params.getAll(CATALOG_FILTER_PARAMS.options)),
+    priceBands: parseFacetParam(
+      params.getAll(CATALOG_FILTER_PARAMS.priceBands)
+    ),
+  };
+}
+
+/**
+ * Write catalog filters into URL search parameters, removing empty facets
+ */
+export function setCatalogFilterParams(
+  params: URLSearchParams,
+  filters: CatalogFilters
+) {
+  for (const key of Object.keys(CATALOG_FILTER_PARAMS) as Array<
+    keyof CatalogFilters
+  >) {
+    const param = CATALOG_FILTER_PARAMS[key];
+    if (filters[key].length > 0) {
+      params.set(param, filters[key].join(","));
+    } else {
+      params.delete(param);
+    }
+  }
+}
+
+/**
+ * Option name and value of an options facet entry
+ */
+export function parseOptionFilter(
+  entry: string
+): { name: string; value: string } | null {
+  const separator = entry.indexOf(":");
+  if (separator <= 0 || separator === entry.length - 1) return null;
+  return {
+    name: entry.slice(0, separator),
+    value: entry.slice(separator + 1),
+  };
+}
+
+/**
+ * Add a facet value when missing, remove it when present
+ */
+export function toggleFacetValue(values: string[], value: string): string[] {
+  return values.includes(value)
+    ? values.filter((existing) => existing !== value)
+    : [...values, value];
+}
+
+export function countActiveFilters(filters: CatalogFilters): number {
+  return (
+    filters.tags.length +
+    filters.categories.length +
+    filters.options.length +
+    filters.priceBands.length
+  );
+}
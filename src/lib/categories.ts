@@ -0,0 +1,109 @@
+import { asc, eq } from "drizzle-orm";
+import { CategoryPlacement, wouldCreateCategoryCycle } from "./category-utils";
+import { DbExecutor } from "./db";
+import { categories } from "./db/schema";
+
+export type CategoryRow = typeof categories.$inferSelect;
+
+/**
+ * Every category, siblings in their admin-arranged order
+ */
+export async function getCategoryList(
+  executor: DbExecutor
+): Promise<CategoryRow[]> {
+  return executor
+    .select()
+    .from(categories)
+    .orderBy(asc(categories.sort_order), asc(categories.name));
+}
+
+/**
+ * Next sort_order under a parent, so new categories go last
+ */
+export function getNextSortOrder(
+  list: CategoryRow[],
+  parentId: string | null
+): number {
+  const siblings = list.filter((category) => category.parent_id === parentId);
+  return siblings.length === 0
+    ? 0
+    : Math.max(...siblings.map((category) => category.sort_order)) + 1;
+}
+
+/**
+ * Why a set of placements cannot be applied to the tree, or null when it
+ * can. Placements are applied together, so cycles are checked against the
+ * tree they produce.
+ */
+export function validateCategoryPlacements(
+  list: CategoryRow[],
+  placements: CategoryPlacement[]
+): string | null {
+  const ids = new Set(list.map((category) => category.id));
+  for (const placement of placements) {
+    if (!ids.has(placement.id)) return "Category not found";
+    if (placement.parent_id && !ids.has(placement.parent_id)) {
+      return "Parent category not found";
+    }
+  }
+
+  const moved = list.map((category) => {
+    const placement = placements.find(({ id }) => id === category.id);
+    return placement
+      ? { ...category, parent_id: placement.parent_id }
+      : category;
+  });
+  if (
+    placements.some((placement) =>
+      wouldCreateCategoryCycle(moved, placement.id, placement.parent_id)
+    )
+  ) {
+    return "A category cannot be moved inside itself";
+  }
+  return null;
+}
+
+/**
+ * Apply placements from the admin category manager
+ */
+export async function applyCategoryPlacements(
+  executor: DbExecutor,
+  placements: CategoryPlacement[]
+) {
+  const now = new Date();
+  for (const placement of placements) {
+    await executor
+      .update(categories)
+      .set({
+        parent_id: placement.parent_id,
+        sort_order: placement.sort_order,
+        updated_at: now,
+      })
+      .where(eq(categories.id, placement.id));
+  }
+}
+
+/**
+ * Remove a category. Its children move up to its parent, after the parent's
+ * existing children, and its products keep their other categories.
+ */
+export async function deleteCategory(
+  executor: DbExecutor,
+  list: CategoryRow[],
+  category: CategoryRow
+) {
+  const children = list.filter((child) => child.parent_id === category.id);
+  const nextSortOrder = getNextSortOrder(
+    list.filter((sibling) => sibling.id !== category.id),
+    category.parent_id
+  );
+  await applyCategoryPlacements(
+    executor,
+    children.map((child, index) => ({
+      id: child.id,
+      parent_id: category.parent_id,
+      sort_order: nextSortOrder + index,
+    }))
+  );
+  await executor.delete(categories).where(eq(categories.id, category.id));
+}
@@ -0,0 +1,157 @@
+/**
+ * Category tree utilities
+ * Pure helpers shared by the category APIs, the catalog facets, the admin
+ * category manager and the storefront breadcrumbs. Categories arrive as a
+ * flat list linked by parent_id, already sorted by sort_order.
+ */
+
+export interface CategoryTreeItem {
+  id: string;
+  slug: string;
+  name: string;
+  parent_id: string | null;
+}
+
+export type CategoryNode<T extends CategoryTreeItem = CategoryTreeItem> = T & {
+  children: CategoryNode<T>[];
+};
+
+export interface CategoryBreadcrumb {
+  slug: string;
+  name: string;
+}
+
+// Position of one category after a drag-and-drop in the admin
+export interface CategoryPlacement {
+  id: string;
+  parent_id: string | null;
+  sort_order: number;
+}
+
+/**
+ * Nest a flat category list, keeping the list's order among siblings.
+ * Categories whose parent is missing, or that sit in a cycle, are placed at
+ * the top level so none are lost.
+ */
+export function buildCategoryTree<T extends CategoryTreeItem>(
+  list: T[]
+): CategoryNode<T>[] {
+  const nodes = new Map<string, CategoryNode<T>>(
+    list.map((category) => [category.id, { ...category, children: [] }])
+  );
+  const roots: CategoryNode<T>[] = [];
+
+  for (const category of list) {
+    const node = nodes.get(category.id)!;
+    const parent = category.parent_id ? nodes.get(category.parent_id) : null;
+    if (
+      parent &&
+      parent.id !== node.id &&
+      !getCategoryAncestorIds(list, parent.id).includes(node.id)
+    ) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * The category's parents, nearest first
+ */
+export function getCategoryAncestorIds(
+  list: CategoryTreeItem[],
+  categoryId: string
+): string[] {
+  const byId = new Map(list.map((category) => [category.id, category]));
+  const ancestors: string[] = [];
+  let parentId = byId.get(categoryId)?.parent_id;
+  while (
+    parentId &&
+    byId.has(parentId) &&
+    parentId !== categoryId &&
+    !ancestors.includes(parentId)
+  ) {
+    ancestors.push(parentId);
+    parentId = byId.get(parentId)!.parent_id;
+  }
+  return ancestors;
+}
+
+/**
+ * The category and every category below it
+ */
+export function getCategoryDescendantIds(
+  list: CategoryTreeItem[],
+  categoryId: string
+): string[] {
+  const ids = [categoryId];
+  // Ids are collected breadth first; the seen check guards against cycles
+  for (let i = 0; i < ids.length; i++) {
+    for (const child of list) {
+      if (child.parent_id === ids[i] && !ids.includes(child.id)) {
+        ids.push(child.id);
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Breadcrumbs from the top-level category down to the category itself
+ */
+export function getCategoryPath(
+  list: CategoryTreeItem[],
+  categoryId: string
+): CategoryBreadcrumb[] {
+  const byId = new Map(list.map((category) => [category.id, category]));
+  return [...getCategoryAncestorIds(list, categoryId).reverse(), categoryId]
+    .map((id) => byId.get(id))
+    .filter((category): category is CategoryTreeItem => Boolean(category))
+    .map(({ slug, name }) => ({ slug, name }));
+}
+
+/**
+ * Whether moving a category under the new parent would make it its own
+ * ancestor
+ */
+export function wouldCreateCategoryCycle(
+  list: CategoryTreeItem[],
+  categoryId: string,
+  parentId: string | null
+): boolean {
+  if (!parentId) return false;
+  return getCategoryDescendantIds(list, categoryId).includes(parentId);
+}
+
+/**
+ * Flatten a tree back into placements, numbering siblings from zero
+ */
+export function getCategoryPlacements(
+  tree: CategoryNode[],
+  parentId: string | null = null
+): CategoryPlacement[] {
+  return tree.flatMap((node, index) => [
+    { id: node.id, parent_id: parentId, sort_order: index },
+    ...getCategoryPlacements(node.children, node.id),
+  ]);
+}
+
+/**
+ * Breadcrumbs for a product in several categories: the path of its most
+ * specific category, the first in tree order when paths are equally deep
+ */
+export function getDeepestCategoryPath(
+  list: CategoryTreeItem[],
+  categoryIds: string[]
+): CategoryBreadcrumb[] {
+  let deepest: CategoryBreadcrumb[] = [];
+  for (const category of list) {
+    if (!categoryIds.includes(category.id)) continue;
+    const path = getCategoryPath(list, category.id);
+    if (path.length > deepest.length) deepest = path;
+  }
+  return deepest;
+}
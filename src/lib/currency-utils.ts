@@ -0,0 +1,122 @@
+/**
+ * Currency utilities
+ * Pure helpers shared by the middleware, the currency switcher and the
+ * server-side price conversion so every price is converted the same way.
+ */
+
+// Currency product prices, shipping rates and promotions are entered in
+export const STORE_CURRENCY = "USD";
+
+// Cookie holding the visitor's currency, seeded by the middleware from their
+// country and changed with the header switcher
+export const CURRENCY_COOKIE = "currency";
+
+export const SUPPORTED_CURRENCIES: Array<{ code: string; label: string }> = [
+  { code: "USD", label: "US Dollar" },
+  { code: "CAD", label: "Canadian Dollar" },
+  { code: "GBP", label: "British Pound" },
+  { code: "EUR", label: "Euro" },
+  { code: "AUD", label: "Australian Dollar" },
+  { code: "JPY", label: "Japanese Yen" },
+];
+
+export const CURRENCY_ROUNDING_RULES = [
+  { value: "exact", label: "Exact" }, // To the currency's smallest unit
+  { value: "whole", label: "Nearest whole unit" },
+  { value: "ending_99", label: "Up to .99" },
+  { value: "nearest_10", label: "Nearest 10" },
+] as const;
+
+export type CurrencyRounding =
+  (typeof CURRENCY_ROUNDING_RULES)[number]["value"];
+
+export interface CurrencyRate {
+  currency: string;
+  rate: number; // Units of this currency per unit of the store currency
+  rounding: CurrencyRounding;
+}
+
+export const STORE_CURRENCY_RATE: CurrencyRate = {
+  currency: STORE_CURRENCY,
+  rate: 1,
+  rounding: "exact",
+};
+
+export function isSupportedCurrency(currency: string): boolean {
+  return SUPPORTED_CURRENCIES.some(({ code }) => code === currency);
+}
+
+/**
+ * Default currency for a visitor's country
+ */
+export function getCurrencyForCountry(country: string): string {
+  const currencyMap: Record<string, string> = {
+    US: "USD",
+    CA: "CAD",
+    GB: "GBP",
+    EU: "EUR",
+    AU: "AUD",
+    JP: "JPY",
+  };
+
+  return currencyMap[country] || STORE_CURRENCY;
+}
+
+/**
+ * Decimal places of a currency's smallest unit, e.g. 2 for USD, 0 for JPY
+ */
+export function getCurrencyDecimals(currency: string): number {
+  return (
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).resolvedOptions().maximumFractionDigits ?? 2
+  );
+}
+
+function roundToDecimals(amount: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * Convert a store currency amount exactly, to the currency's smallest unit.
+ * Used for option adjustments, shipping and fixed discounts.
+ */
+export function convertAmount(amount: number, currencyRate: CurrencyRate) {
+  return roundToDecimals(
+    amount * currencyRate.rate,
+    getCurrencyDecimals(currencyRate.currency)
+  );
+}
+
+/**
+ * Convert a store currency product price, applying the currency's rounding
+ * rule so converted prices look deliberate rather than computed
+ */
+export function convertPrice(amount: number, currencyRate: CurrencyRate) {
+  const converted = amount * currencyRate.rate;
+
+  switch (currencyRate.rounding) {
+    case "whole":
+      return Math.round(converted);
+    case "ending_99":
+      // Currencies without minor units have no .99 to end on
+      if (getCurrencyDecimals(currencyRate.currency) === 0) {
+        return Math.ceil(converted);
+      }
+      return Math.max(Math.ceil(converted) - 0.01, 0);
+    case "nearest_10":
+      return Math.round(converted / 10) * 10;
+    default:
+      return convertAmount(amount, currencyRate);
+  }
+}
+
+/**
+ * Store currency equivalent of a converted amount, for comparing against
+ * thresholds entered in the store currency
+ */
+export function toStoreAmount(amount: number, currencyRate: CurrencyRate) {
+  return amount / currencyRate.rate;
+}
@@ -0,0 +1,69 @@
+import { and, asc, eq } from "drizzle-orm";
+import { NextApiRequest } from "next";
+import {
+  CURRENCY_COOKIE,
+  CurrencyRate,
+  STORE_CURRENCY,
+  STORE_CURRENCY_RATE,
+  SUPPORTED_CURRENCIES,
+} from "./currency-utils";
+import { DbExecutor } from "./db";
+import { exchangeRates } from "./db/schema";
+
+/**
+ * Rate for a currency. Falls back to the store currency when the currency
+ * has no active exchange rate, so a stale cookie never blocks a purchase.
+ */
+export async function getCurrencyRate(
+  executor: DbExecutor,
+  currency?: string | null
+): Promise<CurrencyRate> {
+  const code = currency?.trim().toUpperCase();
+  if (!code || code === STORE_CURRENCY) return STORE_CURRENCY_RATE;
+
+  const result = await executor
+    .select()
+    .from(exchangeRates)
+    .where(
+      and(eq(exchangeRates.currency, code), eq(exchangeRates.is_active, true))
+    )
+    .limit(1);
+
+  if (result.length === 0) return STORE_CURRENCY_RATE;
+
+  return {
+    currency: result[0].currency,
+    rate: parseFloat(result[0].rate),
+    rounding: result[0].rounding,
+  };
+}
+
+/**
+ * Rate for the currency the visitor chose, read from the currency cookie the
+ * middleware seeds from their country
+ */
+export async function getRequestCurrency(
+  executor: DbExecutor,
+  req: NextApiRequest
+): Promise<CurrencyRate> {
+  return getCurrencyRate(executor, req.cookies[CURRENCY_COOKIE]);
+}
+
+/**
+ * Currencies visitors can shop in: the store currency plus every supported
+ * currency with an active exchange rate
+ */
+export async function getAvailableCurrencies(executor: DbExecutor) {
+  const rates = await executor
+    .select({ currency: exchangeRates.currency })
+    .from(exchangeRates)
+    .where(eq(exchangeRates.is_active, true))
+    .orderBy(asc(exchangeRates.currency));
+
+  const codes = new Set([
+    STORE_CURRENCY,
+    ...rates.map((rate) => rate.currency),
+  ]);
+
+  return SUPPORTED_CURRENCIES.filter(({ code }) => codes.has(code));
+}
@@ -31,4 +31,9 @@ export const pool = new Pool({
 
 export const db = drizzle(pool, { schema });
 
+// Either the shared db instance or a transaction handle
+export type DbExecutor =
+  | typeof db
+  | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 export * from "./schema";
@@ -1,6 +1,8 @@
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import {
+  AnyPgColumn,
   boolean,
+  customType,
   decimal,
   index,
   inet,
@@ -9,6 +11,7 @@ import {
   pgTable,
   text,
   timestamp,
+  uniqueIndex,
   uuid,
   varchar,
 } from "drizzle-orm/pg-core";
@@ -26,6 +29,13 @@ export const products = pgTable(
     status: text("status", { enum: ["active", "inactive", "draft"] })
       .notNull()
       .default("draft"),
+    tax_category: text("tax_category", {
+      enum: ["standard", "reduced", "exempt"],
+    })
+      .notNull()
+      .default("standard"), // Selects which tax rate applies at checkout
+    weight_grams: integer("weight_grams"), // Shipping weight, used by weight-based rates
+    is_gift_card: boolean("is_gift_card").notNull().default(false), // Each unit sold issues a gift card code instead of using stock
     created_at: timestamp("created_at").notNull().defaultNow(),
     updated_at: timestamp("updated_at").notNull().defaultNow(),
   },
@@ -91,7 +101,8 @@ export const productOptionValues = pgTable(
       .notNull()
       .default("0"), // +$0, +$3.50, etc.
     is_default: boolean("is_default").notNull().default(false),
-    is_sold_out: boolean("is_sold_out").notNull().default(false),
+    is_sold_out: boolean("is_sold_out").notNull().default(false), // Manual override
+    quantity_available: integer("quantity_available"), // Null = stock not tracked for this value
     sort_order: integer("sort_order").notNull().default(0),
     created_at: timestamp("created_at").notNull().defaultNow(),
   },
@@ -175,13 +186,20 @@ export const categories = pgTable(
     name: text("name").notNull(),
     description: text("description"),
     thumbnail: text("thumbnail"), // URL to example product image
-    parent_id: uuid("parent_id"),
+    parent_id: uuid("parent_id").references((): AnyPgColumn => categories.id, {
+      onDelete: "set null",
+    }),
+    sort_order: integer("sort_order").notNull().default(0), // Among siblings
     created_at: timestamp("created_at").notNull().defaultNow(),
     updated_at: timestamp("updated_at").notNull().defaultNow(),
   },
   (table) => ({
     slugIdx: index("categories_slug_idx").on(table.slug),
     parentIdx: index("categories_parent_idx").on(table.parent_id),
+    sortOrderIdx: index("categories_sort_order_idx").on(
+      table.parent_id,
+      table.sort_order
+    ),
   })
 );
 
@@ -232,6 +250,62 @@ export const productTags = pgTable(
   })
 );
 
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Search document for each product: its own text plus the names of its tags,
+// categories and option values. Kept current by database triggers whenever
+// any of those change (see drizzle/0036); Postgres generates the weighted
+// tsvector and the trigram text used for typo-tolerant matching.
+export const productSearchIndex = pgTable(
+  "product_search_index",
+  {
+    product_id: uuid("product_id")
+      .primaryKey()
+      .references(() => products.id, { onDelete: "cascade" }),
+    title: text("title").notNull(),
+    keywords: text("keywords").notNull().default(""), // Tag, category and option value names
+    description: text("description").notNull().default(""),
+    document: tsvector("document").generatedAlwaysAs(
+      sql`setweight(to_tsvector('english', "title"), 'A') || setweight(to_tsvector('english', "keywords"), 'B') || setweight(to_tsvector('english', "description"), 'C')`
+    ),
+    search_text: text("search_text").generatedAlwaysAs(
+      sql`"title" || ' ' || "keywords" || ' ' || "description"`
+    ),
+    updated_at: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    documentIdx: index("product_search_index_document_idx").using(
+      "gin",
+      table.document
+    ),
+    trigramIdx: index("product_search_index_trigram_idx").using(
+      "gin",
+      table.search_text.op("gin_trgm_ops")
+    ),
+  })
+);
+
+// Storefront searches that found no products, one row per search, so admins
+// can see what customers look for that the catalog lacks
+export const zeroResultSearches = pgTable(
+  "zero_result_searches",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    query: text("query").notNull(), // Normalized with normalizeSearchQuery
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    queryIdx: index("zero_result_searches_query_idx").on(table.query),
+    createdAtIdx: index("zero_result_searches_created_at_idx").on(
+      table.created_at
+    ),
+  })
+);
+
 // Customers table
 export const customers = pgTable(
   "customers",
@@ -340,6 +414,34 @@ export const cartItems = pgTable(
   })
 );
 
+// Abandoned cart reminder emails - one row per reminder sent, kept after
+// the cart is gone so recovery rates survive checkout
+export const abandonedCartEmails = pgTable(
+  "abandoned_cart_emails",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    cart_id: uuid("cart_id").references(() => carts.id, {
+      onDelete: "set null",
+    }),
+    customer_id: uuid("customer_id")
+      .notNull()
+      .references(() => customers.id, { onDelete: "cascade" }),
+    token: text("token").notNull().unique(), // One-click restore link token
+    item_count: integer("item_count").notNull(),
+    sent_at: timestamp("sent_at").notNull().defaultNow(),
+    restored_at: timestamp("restored_at"), // First time the restore link was used
+    recovered_order_id: uuid("recovered_order_id"), // Order placed after the reminder
+    recovered_at: timestamp("recovered_at"),
+  },
+  (table) => ({
+    cartIdx: index("abandoned_cart_emails_cart_idx").on(table.cart_id),
+    customerIdx: index("abandoned_cart_emails_customer_idx").on(
+      table.customer_id
+    ),
+    sentAtIdx: index("abandoned_cart_emails_sent_at_idx").on(table.sent_at),
+  })
+);
+
 // Orders table
 export const orders = pgTable(
   "orders",
@@ -353,6 +455,7 @@ export const orders = pgTable(
       enum: [
         "received",
         "paid",
+        "partially_shipped",
         "shipped",
         "completed",
         "cancelled",
@@ -362,18 +465,39 @@ export const orders = pgTable(
       .notNull()
       .default("received"),
     currency: text("currency").notNull().default("USD"),
+    exchange_rate: decimal("exchange_rate", { precision: 14, scale: 6 })
+      .notNull()
+      .default("1"), // Store currency to order currency rate when placed
     subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
     tax: decimal("tax", { precision: 10, scale: 2 }).notNull().default("0"),
     shipping: decimal("shipping", { precision: 10, scale: 2 })
       .notNull()
       .default("0"),
+    discount: decimal("discount", { precision: 10, scale: 2 })
+      .notNull()
+      .default("0"),
     total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+    gift_card_amount: decimal("gift_card_amount", { precision: 10, scale: 2 })
+      .notNull()
+      .default("0"), // Part of the total paid from a gift card; the rest is charged
+    refunded_amount: decimal("refunded_amount", { precision: 10, scale: 2 })
+      .notNull()
+      .default("0"), // Sum of succeeded refunds, in the order currency
     payment_intent_id: text("payment_intent_id"),
-    tracking_number: text("tracking_number"), // Tracking number for shipped orders
+    promotion_id: uuid("promotion_id").references(() => promotions.id, {
+      onDelete: "set null",
+    }),
+    promotion_code: text("promotion_code"), // Code as entered, kept if the promotion is deleted
+    shipping_method: text("shipping_method", {
+      enum: ["standard", "expedited", "international"],
+    }), // Method chosen at checkout
+    tracking_number: text("tracking_number"), // Tracking number of the latest shipment
     shipping_provider: text("shipping_provider", {
       enum: ["usps", "ups", "fedex", "other"],
-    }), // Shipping provider
-    shipped_at: timestamp("shipped_at"), // When the order was shipped
+    }), // Shipping provider of the latest shipment
+    shipped_at: timestamp("shipped_at"), // When the latest shipment went out
+    delivered_at: timestamp("delivered_at"), // When the carrier reported the last package delivered
+    restocked_at: timestamp("restocked_at"), // When a cancelled/refunded order's units went back to stock
     created_at: timestamp("created_at").notNull().defaultNow(),
     updated_at: timestamp("updated_at").notNull().defaultNow(),
   },
@@ -391,6 +515,7 @@ export const orders = pgTable(
       table.shipping_provider
     ),
     createdAtIdx: index("orders_created_at_idx").on(table.created_at),
+    promotionIdx: index("orders_promotion_idx").on(table.promotion_id),
   })
 );
 
@@ -417,6 +542,49 @@ export const orderItems = pgTable(
   })
 );
 
+// Order status history table - one row per status change, oldest first
+export const orderStatusHistory = pgTable(
+  "order_status_history",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    order_id: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+    from_status: text("from_status", {
+      enum: [
+        "received",
+        "paid",
+        "partially_shipped",
+        "shipped",
+        "completed",
+        "cancelled",
+        "refunded",
+      ],
+    }), // Null for the row recorded when the order is placed
+    to_status: text("to_status", {
+      enum: [
+        "received",
+        "paid",
+        "partially_shipped",
+        "shipped",
+        "completed",
+        "cancelled",
+        "refunded",
+      ],
+    }).notNull(),
+    actor_id: uuid("actor_id"), // Null for system changes and guest checkouts
+    actor_type: text("actor_type", {
+      enum: ["customer", "admin", "system"],
+    }).notNull(),
+    source: text("source").notNull(), // e.g. "checkout", "admin", "payment_webhook"
+    note: text("note"),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    orderIdx: index("order_status_history_order_idx").on(table.order_id),
+  })
+);
+
 // Promotions table
 export const promotions = pgTable(
   "promotions",
@@ -431,6 +599,7 @@ export const promotions = pgTable(
     ends_at: timestamp("ends_at"),
     usage_limit: integer("usage_limit"),
     used: integer("used").notNull().default(0),
+    is_active: boolean("is_active").notNull().default(true), // Paused promotions cannot be redeemed
     created_at: timestamp("created_at").notNull().defaultNow(),
     updated_at: timestamp("updated_at").notNull().defaultNow(),
   },
@@ -449,6 +618,10 @@ export const stockNotifications = pgTable(
       .notNull()
       .references(() => products.id, { onDelete: "cascade" }),
     email: text("email").notNull(),
+    // Set for a single variant, e.g. "crystal_type" / "Amethyst". Stored by
+    // name because option values are recreated whenever options are edited.
+    option_name: text("option_name"),
+    option_value: text("option_value"),
     is_notified: boolean("is_notified").notNull().default(false),
     notified_at: timestamp("notified_at"),
     created_at: timestamp("created_at").notNull().defaultNow(),
@@ -551,6 +724,395 @@ export const auditLog = pgTable(
   })
 );
 
+// Payment provider webhook events - the primary key is the provider's event
+// id so redelivered events are detected and skipped
+export const paymentEvents = pgTable(
+  "payment_events",
+  {
+    id: text("id").primaryKey(),
+    provider: text("provider").notNull(),
+    type: text("type").notNull(), // Normalized event type, e.g. "payment.succeeded"
+    provider_type: text("provider_type").notNull(), // Raw provider event type
+    payment_intent_id: text("payment_intent_id"),
+    order_id: uuid("order_id").references(() => orders.id, {
+      onDelete: "set null",
+    }),
+    result: text("result", { enum: ["processed", "ignored"] }).notNull(),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    orderIdx: index("payment_events_order_idx").on(table.order_id),
+    paymentIntentIdx: index("payment_events_payment_intent_idx").on(
+      table.payment_intent_id
+    ),
+  })
+);
+
+// Tax rates - a rate for a region overrides the country-wide rate (region
+// null) for the same tax category
+export const taxRates = pgTable(
+  "tax_rates",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    name: text("name").notNull(), // Shown to admins, e.g. "California sales tax"
+    country: varchar("country", { length: 2 }).notNull(), // ISO 3166-1 alpha-2
+    region: text("region"), // State/province code, null for the whole country
+    tax_category: text("tax_category", {
+      enum: ["standard", "reduced", "exempt"],
+    })
+      .notNull()
+      .default("standard"),
+    rate: decimal("rate", { precision: 6, scale: 5 }).notNull(), // 0.0825 = 8.25%
+    created_at: timestamp("created_at").notNull().defaultNow(),
+    updated_at: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    locationIdx: index("tax_rates_location_idx").on(
+      table.country,
+      table.region
+    ),
+  })
+);
+
+// Shipping zones - a zone covers whole countries or single regions within
+// them; a region match beats a country-wide match
+export const shippingZones = pgTable("shipping_zones", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const shippingZoneLocations = pgTable(
+  "shipping_zone_locations",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    zone_id: uuid("zone_id")
+      .notNull()
+      .references(() => shippingZones.id, { onDelete: "cascade" }),
+    country: varchar("country", { length: 2 }).notNull(), // ISO 3166-1 alpha-2
+    region: text("region"), // State/province code, null for the whole country
+  },
+  (table) => ({
+    zoneIdx: index("shipping_zone_locations_zone_idx").on(table.zone_id),
+    locationIdx: index("shipping_zone_locations_location_idx").on(
+      table.country,
+      table.region
+    ),
+  })
+);
+
+// Shipping rates - one per method offered in a zone
+export const shippingRates = pgTable(
+  "shipping_rates",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    zone_id: uuid("zone_id")
+      .notNull()
+      .references(() => shippingZones.id, { onDelete: "cascade" }),
+    method: text("method", {
+      enum: ["standard", "expedited", "international"],
+    }).notNull(),
+    name: text("name").notNull(), // Shown at checkout, e.g. "Standard (5-7 business days)"
+    rate_type: text("rate_type", { enum: ["flat", "weight", "price"] })
+      .notNull()
+      .default("flat"),
+    amount: decimal("amount", { precision: 10, scale: 2 })
+      .notNull()
+      .default("0"), // Flat rate price
+    tiers: jsonb("tiers"), // Weight/price tiers: [{ "min": 0, "amount": 5.99 }, ...]
+    free_over: decimal("free_over", { precision: 10, scale: 2 }), // Free when the subtotal reaches this
+    is_active: boolean("is_active").notNull().default(true),
+    sort_order: integer("sort_order").notNull().default(0),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+    updated_at: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    zoneIdx: index("shipping_rates_zone_idx").on(table.zone_id),
+  })
+);
+
+// Inventory reservations - units held for a shopper while they check out.
+// Rows sharing a reservation_id are created and released together.
+export const inventoryReservations = pgTable(
+  "inventory_reservations",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    reservation_id: uuid("reservation_id").notNull(),
+    product_id: uuid("product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    quantity: integer("quantity").notNull(),
+    session_id: uuid("session_id"), // Checkout session cookie of the browser holding the stock
+    expires_at: timestamp("expires_at").notNull(),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    reservationIdx: index("inventory_reservations_reservation_idx").on(
+      table.reservation_id
+    ),
+    sessionIdx: index("inventory_reservations_session_idx").on(
+      table.session_id
+    ),
+    expiresAtIdx: index("inventory_reservations_expires_at_idx").on(
+      table.expires_at
+    ),
+  })
+);
+
+// Exchange rates - prices are entered in the store currency and converted
+// at these rates for visitors shopping in another currency
+export const exchangeRates = pgTable("exchange_rates", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  currency: text("currency").notNull().unique(), // ISO 4217, e.g. "EUR"
+  rate: decimal("rate", { precision: 14, scale: 6 }).notNull(), // Units per 1 store currency
+  rounding: text("rounding", {
+    enum: ["exact", "whole", "ending_99", "nearest_10"],
+  })
+    .notNull()
+    .default("exact"), // Applied to product prices
+  is_active: boolean("is_active").notNull().default(true),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Gift cards and store credit - balances are kept in the store currency and
+// only change through gift_card_transactions
+export const giftCards = pgTable(
+  "gift_cards",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    code: text("code").notNull().unique(), // Stored upper-case without dashes
+    source: text("source", { enum: ["purchase", "store_credit"] }).notNull(),
+    initial_balance: decimal("initial_balance", {
+      precision: 10,
+      scale: 2,
+    }).notNull(),
+    balance: decimal("balance", { precision: 10, scale: 2 }).notNull(),
+    customer_id: uuid("customer_id").references(() => customers.id, {
+      onDelete: "set null",
+    }), // Account the card shows up on
+    recipient_email: text("recipient_email").notNull(), // Where the code was sent
+    order_id: uuid("order_id").references(() => orders.id, {
+      onDelete: "set null",
+    }), // Order that bought the card, or that store credit was issued for
+    issued_by: uuid("issued_by").references(() => customers.id, {
+      onDelete: "set null",
+    }), // Admin who issued store credit
+    note: text("note"),
+    is_active: boolean("is_active").notNull().default(true),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+    updated_at: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    customerIdx: index("gift_cards_customer_idx").on(table.customer_id),
+    orderIdx: index("gift_cards_order_idx").on(table.order_id),
+  })
+);
+
+// Gift card balance ledger - issues are positive, redemptions negative
+export const giftCardTransactions = pgTable(
+  "gift_card_transactions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    gift_card_id: uuid("gift_card_id")
+      .notNull()
+      .references(() => giftCards.id, { onDelete: "cascade" }),
+    order_id: uuid("order_id").references(() => orders.id, {
+      onDelete: "set null",
+    }),
+    type: text("type", {
+      enum: ["issue", "redeem", "restore", "void"],
+    }).notNull(),
+    amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Store currency, signed
+    balance_after: decimal("balance_after", {
+      precision: 10,
+      scale: 2,
+    }).notNull(),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    giftCardIdx: index("gift_card_transactions_gift_card_idx").on(
+      table.gift_card_id
+    ),
+    orderIdx: index("gift_card_transactions_order_idx").on(table.order_id),
+  })
+);
+
+// Refunds against an order. A row is written as pending before the payment
+// provider is called, so concurrent refunds cannot exceed what was paid.
+export const refunds = pgTable(
+  "refunds",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    order_id: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+    amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Order currency
+    payment_amount: decimal("payment_amount", { precision: 10, scale: 2 })
+      .notNull()
+      .default("0"), // Part returned through the payment provider
+    gift_card_amount: decimal("gift_card_amount", { precision: 10, scale: 2 })
+      .notNull()
+      .default("0"), // Part put back on the gift card the order was paid with
+    reason: text("reason", {
+      enum: [
+        "requested_by_customer",
+        "damaged",
+        "wrong_item",
+        "not_received",
+        "duplicate",
+        "other",
+      ],
+    }).notNull(),
+    note: text("note"),
+    items:
+      jsonb("items").$type<
+        Array<{ order_item_id: string; quantity: number }>
+      >(), // Null for amount-only refunds
+    status: text("status", { enum: ["pending", "succeeded", "failed"] })
+      .notNull()
+      .default("pending"),
+    provider_refund_id: text("provider_refund_id"),
+    failure_message: text("failure_message"),
+    created_by: uuid("created_by").references(() => customers.id, {
+      onDelete: "set null",
+    }),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+    updated_at: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    orderIdx: index("refunds_order_idx").on(table.order_id),
+  })
+);
+
+// Packages an order was sent in. Each holds some of the order's items, so
+// custom pieces can follow the rest of the order in a later package.
+export const shipments = pgTable(
+  "shipments",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    order_id: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+    tracking_number: text("tracking_number").notNull(),
+    carrier: text("carrier", {
+      enum: ["usps", "ups", "fedex", "other"],
+    }).notNull(),
+    items: jsonb("items")
+      .$type<Array<{ order_item_id: string; quantity: number }>>()
+      .notNull(),
+    tracking_status: text("tracking_status", {
+      enum: [
+        "pre_transit",
+        "in_transit",
+        "out_for_delivery",
+        "delivered",
+        "exception",
+        "unknown",
+      ],
+    }), // Latest status reported by the carrier
+    tracking_checked_at: timestamp("tracking_checked_at"), // Last carrier poll
+    delivered_at: timestamp("delivered_at"), // When the carrier reported delivery
+    shipped_at: timestamp("shipped_at").notNull().defaultNow(),
+    created_by: uuid("created_by").references(() => customers.id, {
+      onDelete: "set null",
+    }),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+    updated_at: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    orderIdx: index("shipments_order_idx").on(table.order_id),
+    trackingIdx: index("shipments_tracking_idx").on(table.tracking_number),
+  })
+);
+
+// Carrier tracking events for shipments, fetched by the tracking poll
+export const trackingEvents = pgTable(
+  "tracking_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    order_id: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+    shipment_id: uuid("shipment_id")
+      .notNull()
+      .references(() => shipments.id, { onDelete: "cascade" }),
+    tracking_number: text("tracking_number").notNull(),
+    carrier: text("carrier", {
+      enum: ["usps", "ups", "fedex", "other"],
+    }).notNull(),
+    status: text("status", {
+      enum: [
+        "pre_transit",
+        "in_transit",
+        "out_for_delivery",
+        "delivered",
+        "exception",
+        "unknown",
+      ],
+    }).notNull(),
+    description: text("description").notNull(), // As worded by the carrier
+    location: text("location"),
+    occurred_at: timestamp("occurred_at").notNull(),
+    event_key: text("event_key").notNull(), // Identifies the event across polls
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    orderIdx: index("tracking_events_order_idx").on(
+      table.order_id,
+      table.occurred_at
+    ),
+    eventKeyIdx: uniqueIndex("tracking_events_event_key_idx").on(
+      table.order_id,
+      table.event_key
+    ),
+  })
+);
+
+// Customer return requests for shipped orders, reviewed by an admin
+export const returnRequests = pgTable(
+  "return_requests",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    order_id: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+    customer_id: uuid("customer_id").references(() => customers.id, {
+      onDelete: "set null",
+    }), // Null for guest orders
+    email: text("email").notNull(), // Where status emails are sent
+    status: text("status", { enum: ["requested", "approved", "denied"] })
+      .notNull()
+      .default("requested"),
+    reason: text("reason", {
+      enum: [
+        "damaged",
+        "wrong_item",
+        "not_as_described",
+        "no_longer_needed",
+        "other",
+      ],
+    }).notNull(),
+    details: text("details"), // The customer's own description
+    items: jsonb("items")
+      .$type<Array<{ order_item_id: string; quantity: number }>>()
+      .notNull(),
+    photos: jsonb("photos").$type<string[]>().notNull().default([]), // R2 URLs
+    admin_note: text("admin_note"), // Sent to the customer with the decision
+    reviewed_by: uuid("reviewed_by").references(() => customers.id, {
+      onDelete: "set null",
+    }),
+    reviewed_at: timestamp("reviewed_at"),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+    updated_at: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    orderIdx: index("return_requests_order_idx").on(table.order_id),
+    statusIdx: index("return_requests_status_idx").on(table.status),
+  })
+);
+
 // Relations
 export const productsRelations = relations(products, ({ one, many }) => ({
   media: many(productMedia),
@@ -692,12 +1254,32 @@ export const cartItemsRelations = relations(cartItems, ({ one }) => ({
   }),
 }));
 
+export const abandonedCartEmailsRelations = relations(
+  abandonedCartEmails,
+  ({ one }) => ({
+    cart: one(carts, {
+      fields: [abandonedCartEmails.cart_id],
+      references: [carts.id],
+    }),
+    customer: one(customers, {
+      fields: [abandonedCartEmails.customer_id],
+      references: [customers.id],
+    }),
+  })
+);
+
 export const ordersRelations = relations(orders, ({ one, many }) => ({
   customer: one(customers, {
     fields: [orders.customer_id],
     references: [customers.id],
   }),
+  promotion: one(promotions, {
+    fields: [orders.promotion_id],
+    references: [promotions.id],
+  }),
   items: many(orderItems),
+  statusHistory: many(orderStatusHistory),
+  shipments: many(shipments),
 }));
 
 export const orderItemsRelations = relations(orderItems, ({ one }) => ({
@@ -711,6 +1293,23 @@ export const orderItemsRelations = relations(orderItems, ({ one }) => ({
   }),
 }));
 
+export const shipmentsRelations = relations(shipments, ({ one }) => ({
+  order: one(orders, {
+    fields: [shipments.order_id],
+    references: [orders.id],
+  }),
+}));
+
+export const orderStatusHistoryRelations = relations(
+  orderStatusHistory,
+  ({ one }) => ({
+    order: one(orders, {
+      fields: [orderStatusHistory.order_id],
+      references: [orders.id],
+    }),
+  })
+);
+
 export const stockNotificationsRelations = relations(
   stockNotifications,
   ({ one }) => ({
@@ -749,6 +1348,38 @@ export const productPurchasesRelations = relations(
   })
 );
 
+export const shippingZonesRelations = relations(shippingZones, ({ many }) => ({
+  locations: many(shippingZoneLocations),
+  rates: many(shippingRates),
+}));
+
+export const shippingZoneLocationsRelations = relations(
+  shippingZoneLocations,
+  ({ one }) => ({
+    zone: one(shippingZones, {
+      fields: [shippingZoneLocations.zone_id],
+      references: [shippingZones.id],
+    }),
+  })
+);
+
+export const shippingRatesRelations = relations(shippingRates, ({ one }) => ({
+  zone: one(shippingZones, {
+    fields: [shippingRates.zone_id],
+    references: [shippingZones.id],
+  }),
+}));
+
+export const inventoryReservationsRelations = relations(
+  inventoryReservations,
+  ({ one }) => ({
+    product: one(products, {
+      fields: [inventoryReservations.product_id],
+      references: [products.id],
+    }),
+  })
+);
+
 // API Audit Logs table
 export const apiAuditLogs = pgTable(
   "api_audit_logs",
@@ -1,5 +1,6 @@
 import nodemailer from "nodemailer";
 import { getSecretAsync } from "./encryption/async-secrets";
+import { formatPrice } from "./utils";
 
 // Lazy initialization of email transporter
 let transporter: nodemailer.Transporter | null = null;
@@ -251,7 +252,12 @@ export async function sendOrderConfirmationEmail({
   subtotal,
   tax,
   shipping,
+  shippingMethod,
+  discount = 0,
+  promotionCode,
   total,
+  giftCardAmount = 0,
+  currency = "USD",
   isGuestOrder = false,
 }: {
   orderId: string;
@@ -263,7 +269,12 @@ export async function sendOrderConfirmationEmail({
   subtotal: number;
   tax: number;
   shipping: number;
+  shippingMethod?: string;
+  discount?: number;
+  promotionCode?: string;
   total: number;
+  giftCardAmount?: number; // Part of the total paid from a gift card
+  currency?: string;
   isGuestOrder?: boolean;
 }) {
   try {
@@ -323,9 +334,13 @@ export async function sendOrderConfirmationEmail({
                     }</p>
                     <p style="color: #6b7280; margin: 0; font-size: 14px;">Quantity: ${
                       item.quantity
-                    } × $${item.unit_amount.toFixed(2)} = $${(
-                      item.unit_amount * item.quantity
-                    ).toFixed(2)}</p>
+                    } × ${formatPrice(
+                      item.unit_amount,
+                      currency
+                    )} = ${formatPrice(
+                      item.unit_amount * item.quantity,
+                      currency
+                    )}</p>
                     ${
                       item.selected_options &&
                       typeof item.selected_options === "object" &&
@@ -349,25 +364,64 @@ export async function sendOrderConfirmationEmail({
               <div style="background-color: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0;">
                 <div style="display: flex; justify-content: space-between; margin: 5px 0;">
                   <span style="color: #4b5563;">Subtotal:</span>
-                  <span style="color: #1f2937;">$${subtotal.toFixed(2)}</span>
+                  <span style="color: #1f2937;">${formatPrice(
+                    subtotal,
+                    currency
+                  )}</span>
                 </div>
+                ${
+                  discount > 0
+                    ? `
+                <div style="display: flex; justify-content: space-between; margin: 5px 0;">
+                  <span style="color: #4b5563;">Discount${
+                    promotionCode ? ` (${promotionCode})` : ""
+                  }:</span>
+                  <span style="color: #059669;">-${formatPrice(
+                    discount,
+                    currency
+                  )}</span>
+                </div>
+                `
+                    : ""
+                }
                 <div style="display: flex; justify-content: space-between; margin: 5px 0;">
                   <span style="color: #4b5563;">Tax:</span>
-                  <span style="color: #1f2937;">$${tax.toFixed(2)}</span>
+                  <span style="color: #1f2937;">${formatPrice(
+                    tax,
+                    currency
+                  )}</span>
                 </div>
                 <div style="display: flex; justify-content: space-between; margin: 5px 0;">
-                  <span style="color: #4b5563;">Shipping:</span>
+                  <span style="color: #4b5563;">Shipping${
+                    shippingMethod ? ` (${shippingMethod})` : ""
+                  }:</span>
                   <span style="color: #1f2937;">${
-                    shipping === 0 ? "Free" : `$${shipping.toFixed(2)}`
+                    shipping === 0
+                      ? "Free"
+                      : `${formatPrice(shipping, currency)}`
                   }</span>
                 </div>
                 <div style="border-top: 1px solid #d1d5db; padding-top: 10px; margin-top: 10px;">
                   <div style="display: flex; justify-content: space-between;">
                     <span style="color: #1f2937; font-weight: bold; font-size: 16px;">Total:</span>
-                    <span style="color: #1f2937; font-weight: bold; font-size: 16px;">$${total.toFixed(
-                      2
+                    <span style="color: #1f2937; font-weight: bold; font-size: 16px;">${formatPrice(
+                      total,
+                      currency
+                    )}</span>
+                  </div>
+                  ${
+                    giftCardAmount > 0
+                      ? `
+                  <div style="display: flex; justify-content: space-between; margin-top: 5px;">
+                    <span style="color: #4b5563;">Paid with gift card:</span>
+                    <span style="color: #059669;">-${formatPrice(
+                      giftCardAmount,
+                      currency
                     )}</span>
                   </div>
+                  `
+                      : ""
+                  }
                 </div>
               </div>
               
@@ -432,17 +486,33 @@ export async function sendOrderConfirmationEmail({
             (item) =>
               `- ${item.descriptive_title || "Product"}: ${
                 item.quantity
-              } × $${item.unit_amount.toFixed(2)} = $${(
-                item.unit_amount * item.quantity
-              ).toFixed(2)}`
+              } × ${formatPrice(item.unit_amount, currency)} = ${formatPrice(
+                item.unit_amount * item.quantity,
+                currency
+              )}`
           )
           .join("\n")}
         
         Order Summary:
-        - Subtotal: $${subtotal.toFixed(2)}
-        - Tax: $${tax.toFixed(2)}
-        - Shipping: ${shipping === 0 ? "Free" : `$${shipping.toFixed(2)}`}
-        - Total: $${total.toFixed(2)}
+        - Subtotal: ${formatPrice(subtotal, currency)}${
+        discount > 0
+          ? `
+        - Discount${promotionCode ? ` (${promotionCode})` : ""}: -${formatPrice(
+              discount,
+              currency
+            )}`
+          : ""
+      }
+        - Tax: ${formatPrice(tax, currency)}
+        - Shipping${shippingMethod ? ` (${shippingMethod})` : ""}: ${
+        shipping === 0 ? "Free" : `${formatPrice(shipping, currency)}`
+      }
+        - Total: ${formatPrice(total, currency)}${
+        giftCardAmount > 0
+          ? `
+        - Paid with gift card: -${formatPrice(giftCardAmount, currency)}`
+          : ""
+      }
         
         Shipping Address:
         ${shippingAddress.name}
@@ -483,7 +553,12 @@ export async function sendAdminOrderNotification({
   subtotal,
   tax,
   shipping,
+  shippingMethod,
+  discount = 0,
+  promotionCode,
   total,
+  giftCardAmount = 0,
+  currency = "USD",
   isGuestOrder = false,
 }: {
   orderId: string;
@@ -495,7 +570,12 @@ export async function sendAdminOrderNotification({
   subtotal: number;
   tax: number;
   shipping: number;
+  shippingMethod?: string;
+  discount?: number;
+  promotionCode?: string;
   total: number;
+  giftCardAmount?: number; // Part of the total paid from a gift card
+  currency?: string;
   isGuestOrder?: boolean;
 }) {
   try {
@@ -566,9 +646,13 @@ export async function sendAdminOrderNotification({
                     }</p>
                     <p style="color: #6b7280; margin: 0; font-size: 14px;">Quantity: ${
                       item.quantity
-                    } × $${item.unit_amount.toFixed(2)} = $${(
-                      item.unit_amount * item.quantity
-                    ).toFixed(2)}</p>
+                    } × ${formatPrice(
+                      item.unit_amount,
+                      currency
+                    )} = ${formatPrice(
+                      item.unit_amount * item.quantity,
+                      currency
+                    )}</p>
                     ${
                       item.selected_options &&
                       typeof item.selected_options === "object" &&
@@ -595,25 +679,64 @@ export async function sendAdminOrderNotification({
               <div style="background-color: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0;">
                 <div style="display: flex; justify-content: space-between; margin: 5px 0;">
                   <span style="color: #4b5563;">Subtotal:</span>
-                  <span style="color: #1f2937;">$${subtotal.toFixed(2)}</span>
+                  <span style="color: #1f2937;">${formatPrice(
+                    subtotal,
+                    currency
+                  )}</span>
+                </div>
+                ${
+                  discount > 0
+                    ? `
+                <div style="display: flex; justify-content: space-between; margin: 5px 0;">
+                  <span style="color: #4b5563;">Discount${
+                    promotionCode ? ` (${promotionCode})` : ""
+                  }:</span>
+                  <span style="color: #059669;">-${formatPrice(
+                    discount,
+                    currency
+                  )}</span>
                 </div>
+                `
+                    : ""
+                }
                 <div style="display: flex; justify-content: space-between; margin: 5px 0;">
                   <span style="color: #4b5563;">Tax:</span>
-                  <span style="color: #1f2937;">$${tax.toFixed(2)}</span>
+                  <span style="color: #1f2937;">${formatPrice(
+                    tax,
+                    currency
+                  )}</span>
                 </div>
                 <div style="display: flex; justify-content: space-between; margin: 5px 0;">
-                  <span style="color: #4b5563;">Shipping:</span>
+                  <span style="color: #4b5563;">Shipping${
+                    shippingMethod ? ` (${shippingMethod})` : ""
+                  }:</span>
                   <span style="color: #1f2937;">${
-                    shipping === 0 ? "Free" : `$${shipping.toFixed(2)}`
+                    shipping === 0
+                      ? "Free"
+                      : `${formatPrice(shipping, currency)}`
                   }</span>
                 </div>
                 <div style="border-top: 1px solid #d1d5db; padding-top: 10px; margin-top: 10px;">
                   <div style="display: flex; justify-content: space-between;">
                     <span style="color: #1f2937; font-weight: bold; font-size: 16px;">Total:</span>
-                    <span style="color: #1f2937; font-weight: bold; font-size: 16px;">$${total.toFixed(
-                      2
+                    <span style="color: #1f2937; font-weight: bold; font-size: 16px;">${formatPrice(
+                      total,
+                      currency
                     )}</span>
                   </div>
+                  ${
+                    giftCardAmount > 0
+                      ? `
+                  <div style="display: flex; justify-content: space-between; margin-top: 5px;">
+                    <span style="color: #4b5563;">Paid with gift card:</span>
+                    <span style="color: #059669;">-${formatPrice(
+                      giftCardAmount,
+                      currency
+                    )}</span>
+                  </div>
+                  `
+                      : ""
+                  }
                 </div>
               </div>
               
@@ -682,17 +805,33 @@ export async function sendAdminOrderNotification({
             (item) =>
               `- ${item.descriptive_title || "Product"}: ${
                 item.quantity
-              } × $${item.unit_amount.toFixed(2)} = $${(
-                item.unit_amount * item.quantity
-              ).toFixed(2)}`
+              } × ${formatPrice(item.unit_amount, currency)} = ${formatPrice(
+                item.unit_amount * item.quantity,
+                currency
+              )}`
           )
           .join("\n")}
         
         Order Summary:
-        - Subtotal: $${subtotal.toFixed(2)}
-        - Tax: $${tax.toFixed(2)}
-        - Shipping: ${shipping === 0 ? "Free" : `$${shipping.toFixed(2)}`}
-        - Total: $${total.toFixed(2)}
+        - Subtotal: ${formatPrice(subtotal, currency)}${
+        discount > 0
+          ? `
+        - Discount${promotionCode ? ` (${promotionCode})` : ""}: -${formatPrice(
+              discount,
+              currency
+            )}`
+          : ""
+      }
+        - Tax: ${formatPrice(tax, currency)}
+        - Shipping${shippingMethod ? ` (${shippingMethod})` : ""}: ${
+        shipping === 0 ? "Free" : `${formatPrice(shipping, currency)}`
+      }
+        - Total: ${formatPrice(total, currency)}${
+        giftCardAmount > 0
+          ? `
+        - Paid with gift card: -${formatPrice(giftCardAmount, currency)}`
+          : ""
+      }
         
         Shipping Address:
         ${shippingAddress.name}
@@ -833,6 +972,808 @@ export async function sendStockNotificationEmail(
   }
 }
 
+export async function sendAbandonedCartEmail({
+  email,
+  customerName,
+  items,
+  restoreToken,
+}: {
+  email: string;
+  customerName?: string | null;
+  items: Array<{ title: string; quantity: number; unit_amount: number }>;
+  restoreToken: string;
+}) {
+  try {
+    await initializeEmailTransporter();
+    const restoreUrl = `${SITE_URL}/cart?restore=${restoreToken}`;
+    const greeting = customerName ? `Hi ${customerName},` : "Hi there,";
+
+    const itemsHtml = items
+      .map(
+        (item) => `
+                <tr>
+                  <td style="padding: 8px 0; color: #1f2937; font-size: 16px;">${
+                    item.title
+                  }</td>
+                  <td style="padding: 8px 0; color: #6b7280; font-size: 14px; text-align: center;">× ${
+                    item.quantity
+                  }</td>
+                  <td style="padding: 8px 0; color: #1f2937; font-size: 16px; text-align: right;">$${(
+                    item.unit_amount * item.quantity
+                  ).toFixed(2)}</td>
+                </tr>`
+      )
+      .join("");
+    const itemsText = items
+      .map(
+        (item) =>
+          `- ${item.title} × ${item.quantity}: $${(
+            item.unit_amount * item.quantity
+          ).toFixed(2)}`
+      )
+      .join("\n        ");
+
+    const mailOptions = {
+      from: `"RaineAndSea" <${FROM_EMAIL}>`,
+      to: email,
+      subject: "You left something in your cart - RaineAndSea",
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Your Cart is Waiting</title>
+        </head>
+        <body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f9fafb;">
+          <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+            <!-- Header -->
+            <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 40px 20px; text-align: center;">
+              <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: bold;">RaineAndSea</h1>
+              <p style="color: #a7f3d0; margin: 8px 0 0 0; font-size: 16px;">Your cart is waiting</p>
+            </div>
+            
+            <!-- Content -->
+            <div style="padding: 40px 20px;">
+              <p style="color: #4b5563; margin: 0 0 20px 0; font-size: 16px; line-height: 1.6;">
+                ${greeting}
+              </p>
+              <p style="color: #4b5563; margin: 0 0 20px 0; font-size: 16px; line-height: 1.6;">
+                You left a few things in your cart. They're still there whenever you're ready to check out.
+              </p>
+              
+              <!-- Cart Items -->
+              <div style="background-color: #f0fdf4; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #10b981;">
+                <table style="width: 100%; border-collapse: collapse;">${itemsHtml}
+                </table>
+              </div>
+              
+              <!-- CTA Button -->
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${restoreUrl}" style="display: inline-block; background: linear-gradient(135deg, #10b981 0%, #059669 100%); color: #ffffff; text-decoration: none; padding: 16px 32px; border-radius: 8px; font-weight: bold; font-size: 16px; box-shadow: 0 4px 6px rgba(16, 185, 129, 0.3);">
+                  Return to My Cart
+                </a>
+              </div>
+              
+              <p style="color: #6b7280; margin: 20px 0 0 0; font-size: 14px; line-height: 1.6;">
+                If the button doesn't work, you can copy and paste this link into your browser:
+              </p>
+              <p style="color: #10b981; margin: 8px 0 0 0; font-size: 14px; word-break: break-all;">
+                ${restoreUrl}
+              </p>
+              
+              <div style="border-top: 1px solid #e5e7eb; margin: 30px 0; padding-top: 20px;">
+                <p style="color: #6b7280; margin: 0; font-size: 14px;">
+                  Prices and availability are confirmed at checkout. We won't remind you about this cart again.
+                </p>
+              </div>
+            </div>
+            
+            <!-- Footer -->
+            <div style="background-color: #f9fafb; padding: 20px; text-align: center; border-top: 1px solid #e5e7eb;">
+              <p style="color: #6b7280; margin: 0 0 8px 0; font-size: 14px;">
+                © 2024 RaineAndSea. All rights reserved.
+              </p>
+              <p style="color: #9ca3af; margin: 0; font-size: 12px;">
+                Handmade crystal jewelry shipped from Anacortes, WA
+              </p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        ${greeting}
+        
+        You left a few things in your cart. They're still there whenever you're ready to check out.
+        
+        ${itemsText}
+        
+        Return to your cart: ${restoreUrl}
+        
+        Prices and availability are confirmed at checkout. We won't remind you about this cart again.
+        
+        © 2024 RaineAndSea. All rights reserved.
+        Handmade crystal jewelry shipped from Anacortes, WA
+      `,
+    };
+
+    const result = await transporter!.sendMail(mailOptions);
+    console.log("Abandoned cart email sent:", result.messageId);
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    console.error("Error sending abandoned cart email:", error);
+    return { success: false, error: "Failed to send abandoned cart email" };
+  }
+}
+
+export async function sendGiftCardEmail({
+  email,
+  customerName,
+  code,
+  amount,
+  source,
+  orderNumber,
+  note,
+}: {
+  email: string;
+  customerName?: string | null;
+  code: string; // Formatted, e.g. "ABCD-EFGH-JKLM-NPQR"
+  amount: number; // Store currency
+  source: "purchase" | "store_credit";
+  orderNumber?: string | null;
+  note?: string | null;
+}) {
+  try {
+    await initializeEmailTransporter();
+    const shopUrl = `${SITE_URL}/products`;
+    const greeting = customerName ? `Hi ${customerName},` : "Hi there,";
+    const isStoreCredit = source === "store_credit";
+    const title = isStoreCredit ? "Your Store Credit" : "Your Gift Card";
+    const intro = isStoreCredit
+      ? `We've issued store credit${
+          orderNumber ? ` for order ${orderNumber}` : ""
+        }. Enter the code below at checkout to use it.`
+      : `Here is the gift card${
+          orderNumber ? ` from order ${orderNumber}` : ""
+        }. Enter the code below at checkout, or pass it on to someone special.`;
+
+    const mailOptions = {
+      from: `"RaineAndSea" <${FROM_EMAIL}>`,
+      to: email,
+      subject: `${title}: ${formatPrice(amount)} - RaineAndSea`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${title}</title>
+        </head>
+        <body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f9fafb;">
+          <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+            <!-- Header -->
+            <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 40px 20px; text-align: center;">
+              <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: bold;">RaineAndSea</h1>
+              <p style="color: #a7f3d0; margin: 8px 0 0 0; font-size: 16px;">${title}</p>
+            </div>
+            
+            <!-- Content -->
+            <div style="padding: 40px 20px;">
+              <p style="color: #4b5563; margin: 0 0 20px 0; font-size: 16px; line-height: 1.6;">
+                ${greeting}
+              </p>
+              <p style="color: #4b5563; margin: 0 0 20px 0; font-size: 16px; line-height: 1.6;">
+                ${intro}
+              </p>
+              ${
+                note
+                  ? `<p style="color: #4b5563; margin: 0 0 20px 0; font-size: 16px; line-height: 1.6;">${note}</p>`
+                  : ""
+              }
+              
+              <!-- Code -->
+              <div style="background-color: #f0fdf4; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #10b981; text-align: center;">
+                <p style="color: #065f46; margin: 0 0 10px 0; font-size: 28px; font-weight: bold;">${formatPrice(
+                  amount
+                )}</p>
+                <p style="color: #065f46; margin: 0; font-size: 20px; font-family: monospace; letter-spacing: 2px;">${code}</p>
+              </div>
+              
+              <!-- CTA Button -->
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${shopUrl}" style="display: inline-block; background: linear-gradient(135deg, #10b981 0%, #059669 100%); color: #ffffff; text-decoration: none; padding: 16px 32px; border-radius: 8px; font-weight: bold; font-size: 16px; box-shadow: 0 4px 6px rgba(16, 185, 129, 0.3);">
+                  Start Shopping
+                </a>
+              </div>
+              
+              <div style="border-top: 1px solid #e5e7eb; margin: 30px 0; padding-top: 20px;">
+                <p style="color: #6b7280; margin: 0; font-size: 14px;">
+                  The balance can be spent over several orders and checked any time from your account page. Keep this code safe - anyone with it can spend the balance.
+                </p>
+              </div>
+            </div>
+            
+            <!-- Footer -->
+            <div style="background-color: #f9fafb; padding: 20px; text-align: center; border-top: 1px solid #e5e7eb;">
+              <p style="color: #6b7280; margin: 0 0 8px 0; font-size: 14px;">
+                © 2024 RaineAndSea. All rights reserved.
+              </p>
+              <p style="color: #9ca3af; margin: 0; font-size: 12px;">
+                Handmade crystal jewelry shipped from Anacortes, WA
+              </p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        ${greeting}
+        
+        ${intro}
+        ${note ? `\n        ${note}\n` : ""}
+        ${title}: ${formatPrice(amount)}
+        Code: ${code}
+        
+        Start shopping: ${shopUrl}
+        
+        The balance can be spent over several orders and checked any time from your account page. Keep this code safe - anyone with it can spend the balance.
+        
+        © 2024 RaineAndSea. All rights reserved.
+        Handmade crystal jewelry shipped from Anacortes, WA
+      `,
+    };
+
+    const result = await transporter!.sendMail(mailOptions);
+    console.log("Gift card email sent:", result.messageId);
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    console.error("Error sending gift card email:", error);
+    return { success: false, error: "Failed to send gift card email" };
+  }
+}
+
+export async function sendRefundEmail({
+  email,
+  customerName,
+  orderNumber,
+  amount,
+  paymentAmount,
+  giftCardAmount,
+  currency = "USD",
+  reason,
+  items = [],
+  isFullRefund,
+}: {
+  email: string;
+  customerName?: string | null;
+  orderNumber: string;
+  amount: number;
+  paymentAmount: number; // Back to the card the order was paid with
+  giftCardAmount: number; // Back on the gift card the order was paid with
+  currency?: string;
+  reason: string; // Label, e.g. "Arrived damaged"
+  items?: Array<{ title: string; quantity: number }>;
+  isFullRefund: boolean;
+}) {
+  try {
+    await initializeEmailTransporter();
+    const greeting = customerName ? `Hi ${customerName},` : "Hi there,";
+    const title = isFullRefund ? "Your Order Was Refunded" : "You Got a Refund";
+    const intro = isFullRefund
+      ? `We've refunded order ${orderNumber} in full.`
+      : `We've refunded part of order ${orderNumber}.`;
+    const destinations = [
+      paymentAmount > 0 &&
+        `${formatPrice(
+          paymentAmount,
+          currency
+        )} to your original payment method. It can take 5-10 business days to show on your statement.`,
+      giftCardAmount > 0 &&
+        `${formatPrice(
+          giftCardAmount,
+          currency
+        )} back on the gift card you paid with.`,
+    ].filter((line): line is string => Boolean(line));
+
+    const mailOptions = {
+      from: `"RaineAndSea" <${FROM_EMAIL}>`,
+      to: email,
+      subject: `Refund for Order ${orderNumber}: ${formatPrice(
+        amount,
+        currency
+      )} - RaineAndSea`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${title}</title>
+        </head>
+        <body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f9fafb;">
+          <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+            <!-- Header -->
+            <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 40px 20px; text-align: center;">
+              <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: bold;">RaineAndSea</h1>
+              <p style="color: #a7f3d0; margin: 8px 0 0 0; font-size: 16px;">${title}</p>
+            </div>
+            
+            <!-- Content -->
+            <div style="padding: 40px 20px;">
+              <p style="color: #4b5563; margin: 0 0 20px 0; font-size: 16px; line-height: 1.6;">
+                ${greeting}
+              </p>
+              <p style="color: #4b5563; margin: 0 0 20px 0; font-size: 16px; line-height: 1.6;">
+                ${intro}
+              </p>
+              
+              <!-- Refund -->
+              <div style="background-color: #f0fdf4; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #10b981;">
+                <p style="color: #065f46; margin: 0 0 10px 0; font-size: 24px; font-weight: bold;">${formatPrice(
+                  amount,
+                  currency
+                )}</p>
+                <p style="color: #065f46; margin: 0 0 10px 0; font-size: 14px;">Reason: ${reason}</p>
+                ${
+                  items.length > 0
+                    ? `<ul style="color: #065f46; margin: 0 0 10px 0; padding-left: 20px; font-size: 14px;">${items
+                        .map(
+                          (item) =>
+                            `<li>${item.title} &times; ${item.quantity}</li>`
+                        )
+                        .join("")}</ul>`
+                    : ""
+                }
+                ${destinations
+                  .map(
+                    (line) =>
+                      `<p style="color: #065f46; margin: 0; font-size: 14px;">${line}</p>`
+                  )
+                  .join("")}
+              </div>
+              
+              <div style="border-top: 1px solid #e5e7eb; margin: 30px 0; padding-top: 20px;">
+                <p style="color: #6b7280; margin: 0; font-size: 14px;">
+                  Questions about this refund? Just reply to this email.
+                </p>
+              </div>
+            </div>
+            
+            <!-- Footer -->
+            <div style="background-color: #f9fafb; padding: 20px; text-align: center; border-top: 1px solid #e5e7eb;">
+              <p style="color: #6b7280; margin: 0 0 8px 0; font-size: 14px;">
+                © 2024 RaineAndSea. All rights reserved.
+              </p>
+              <p style="color: #9ca3af; margin: 0; font-size: 12px;">
+                Handmade crystal jewelry shipped from Anacortes, WA
+              </p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        ${greeting}
+        
+        ${intro}
+        
+        Refund: ${formatPrice(amount, currency)}
+        Reason: ${reason}
+        ${items
+          .map((item) => `- ${item.title} x ${item.quantity}`)
+          .join("\n        ")}
+        ${destinations.join("\n        ")}
+        
+        Questions about this refund? Just reply to this email.
+        
+        © 2024 RaineAndSea. All rights reserved.
+        Handmade crystal jewelry shipped from Anacortes, WA
+      `,
+    };
+
+    const result = await transporter!.sendMail(mailOptions);
+    console.log("Refund email sent:", result.messageId);
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    console.error("Error sending refund email:", error);
+    return { success: false, error: "Failed to send refund email" };
+  }
+}
+
+export async function sendOrderCancelledEmail({
+  email,
+  customerName,
+  orderNumber,
+  refundAmount = 0,
+  currency = "USD",
+}: {
+  email: string;
+  customerName?: string | null;
+  orderNumber: string;
+  refundAmount?: number; // Zero when the payment was never taken
+  currency?: string;
+}) {
+  try {
+    await initializeEmailTransporter();
+    const greeting = customerName ? `Hi ${customerName},` : "Hi there,";
+    const refundLine =
+      refundAmount > 0
+        ? `We've refunded ${formatPrice(
+            refundAmount,
+            currency
+          )}. It can take 5-10 business days to show on your statement.`
+        : "You have not been charged for this order.";
+
+    const mailOptions = {
+      from: `"RaineAndSea" <${FROM_EMAIL}>`,
+      to: email,
+      subject: `Order ${orderNumber} Cancelled - RaineAndSea`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Your Order Was Cancelled</title>
+        </head>
+        <body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f9fafb;">
+          <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+            <!-- Header -->
+            <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 40px 20px; text-align: center;">
+              <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: bold;">RaineAndSea</h1>
+              <p style="color: #a7f3d0; margin: 8px 0 0 0; font-size: 16px;">Your Order Was Cancelled</p>
+            </div>
+            
+            <!-- Content -->
+            <div style="padding: 40px 20px;">
+              <p style="color: #4b5563; margin: 0 0 20px 0; font-size: 16px; line-height: 1.6;">
+                ${greeting}
+              </p>
+              <p style="color: #4b5563; margin: 0 0 20px 0; font-size: 16px; line-height: 1.6;">
+                Order ${orderNumber} has been cancelled as you asked.
+              </p>
+              <div style="background-color: #f0fdf4; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #10b981;">
+                <p style="color: #065f46; margin: 0; font-size: 14px;">${refundLine}</p>
+              </div>
+              
+              <div style="border-top: 1px solid #e5e7eb; margin: 30px 0; padding-top: 20px;">
+                <p style="color: #6b7280; margin: 0; font-size: 14px;">
+                  Didn't mean to cancel? Just reply to this email.
+                </p>
+              </div>
+            </div>
+            
+            <!-- Footer -->
+            <div style="background-color: #f9fafb; padding: 20px; text-align: center; border-top: 1px solid #e5e7eb;">
+              <p style="color: #6b7280; margin: 0 0 8px 0; font-size: 14px;">
+                © 2024 RaineAndSea. All rights reserved.
+              </p>
+              <p style="color: #9ca3af; margin: 0; font-size: 12px;">
+                Handmade crystal jewelry shipped from Anacortes, WA
+              </p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        ${greeting}
+        
+        Order ${orderNumber} has been cancelled as you asked.
+        
+        ${refundLine}
+        
+        Didn't mean to cancel? Just reply to this email.
+        
+        © 2024 RaineAndSea. All rights reserved.
+        Handmade crystal jewelry shipped from Anacortes, WA
+      `,
+    };
+
+    const result = await transporter!.sendMail(mailOptions);
+    console.log("Order cancelled email sent:", result.messageId);
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    console.error("Error sending order cancelled email:", error);
+    return { success: false, error: "Failed to send order cancelled email" };
+  }
+}
+
+export async function sendReturnRequestEmail({
+  email,
+  customerName,
+  orderNumber,
+  reason,
+  items,
+}: {
+  email: string;
+  customerName?: string | null;
+  orderNumber: string;
+  reason: string; // Label, e.g. "Arrived damaged"
+  items: Array<{ title: string; quantity: number }>;
+}) {
+  try {
+    await initializeEmailTransporter();
+    const greeting = customerName ? `Hi ${customerName},` : "Hi there,";
+
+    const mailOptions = {
+      from: `"RaineAndSea" <${FROM_EMAIL}>`,
+      to: email,
+      subject: `Return Request Received for Order ${orderNumber} - RaineAndSea`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>We Got Your Return Request</title>
+        </head>
+        <body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f9fafb;">
+          <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+            <!-- Header -->
+            <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 40px 20px; text-align: center;">
+              <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: bold;">RaineAndSea</h1>
+              <p style="color: #a7f3d0; margin: 8px 0 0 0; font-size: 16px;">We Got Your Return Request</p>
+            </div>
+            
+            <!-- Content -->
+            <div style="padding: 40px 20px;">
+              <p style="color: #4b5563; margin: 0 0 20px 0; font-size: 16px; line-height: 1.6;">
+                ${greeting}
+              </p>
+              <p style="color: #4b5563; margin: 0 0 20px 0; font-size: 16px; line-height: 1.6;">
+                We've received your return request for order ${orderNumber}. We'll review it and email you once it's approved, usually within 2 business days.
+              </p>
+              
+              <div style="background-color: #f0fdf4; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #10b981;">
+                <p style="color: #065f46; margin: 0 0 10px 0; font-size: 14px;">Reason: ${reason}</p>
+                <ul style="color: #065f46; margin: 0; padding-left: 20px; font-size: 14px;">${items
+                  .map(
+                    (item) => `<li>${item.title} &times; ${item.quantity}</li>`
+                  )
+                  .join("")}</ul>
+              </div>
+              
+              <div style="border-top: 1px solid #e5e7eb; margin: 30px 0; padding-top: 20px;">
+                <p style="color: #6b7280; margin: 0; font-size: 14px;">
+                  Please hold on to the items until we get back to you.
+                </p>
+              </div>
+            </div>
+            
+            <!-- Footer -->
+            <div style="background-color: #f9fafb; padding: 20px; text-align: center; border-top: 1px solid #e5e7eb;">
+              <p style="color: #6b7280; margin: 0 0 8px 0; font-size: 14px;">
+                © 2024 RaineAndSea. All rights reserved.
+              </p>
+              <p style="color: #9ca3af; margin: 0; font-size: 12px;">
+                Handmade crystal jewelry shipped from Anacortes, WA
+              </p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        ${greeting}
+        
+        We've received your return request for order ${orderNumber}. We'll review it and email you once it's approved, usually within 2 business days.
+        
+        Reason: ${reason}
+        ${items
+          .map((item) => `- ${item.title} x ${item.quantity}`)
+          .join("\n        ")}
+        
+        Please hold on to the items until we get back to you.
+        
+        © 2024 RaineAndSea. All rights reserved.
+        Handmade crystal jewelry shipped from Anacortes, WA
+      `,
+    };
+
+    const result = await transporter!.sendMail(mailOptions);
+    console.log("Return request email sent:", result.messageId);
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    console.error("Error sending return request email:", error);
+    return { success: false, error: "Failed to send return request email" };
+  }
+}
+
+export async function sendAdminReturnNotification({
+  orderNumber,
+  customerEmail,
+  customerName,
+  reason,
+  details,
+  items,
+  photoCount,
+}: {
+  orderNumber: string;
+  customerEmail: string;
+  customerName?: string | null;
+  reason: string; // Label, e.g. "Arrived damaged"
+  details?: string | null;
+  items: Array<{ title: string; quantity: number }>;
+  photoCount: number;
+}) {
+  try {
+    await initializeEmailTransporter();
+    const adminEmail = "noreply.raineandsea+orders@gmail.com";
+    const returnsUrl = `${SITE_URL}/admin`;
+
+    const mailOptions = {
+      from: `"RaineAndSea Orders" <${FROM_EMAIL}>`,
+      to: adminEmail,
+      subject: `Return Requested for Order ${orderNumber} - ${
+        customerName || customerEmail
+      }`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Return Request</title>
+        </head>
+        <body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f9fafb;">
+          <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+            <!-- Content -->
+            <div style="padding: 40px 20px;">
+              <h2 style="color: #1f2937; margin: 0 0 20px 0; font-size: 22px;">Return requested for order ${orderNumber}</h2>
+              <p style="color: #4b5563; margin: 0 0 10px 0; font-size: 14px;">Customer: ${
+                customerName ? `${customerName} ` : ""
+              }&lt;${customerEmail}&gt;</p>
+              <p style="color: #4b5563; margin: 0 0 10px 0; font-size: 14px;">Reason: ${reason}</p>
+              ${
+                details
+                  ? `<p style="color: #4b5563; margin: 0 0 10px 0; font-size: 14px;">Details: ${details}</p>`
+                  : ""
+              }
+              <ul style="color: #4b5563; margin: 0 0 10px 0; padding-left: 20px; font-size: 14px;">${items
+                .map(
+                  (item) => `<li>${item.title} &times; ${item.quantity}</li>`
+                )
+                .join("")}</ul>
+              <p style="color: #4b5563; margin: 0 0 20px 0; font-size: 14px;">Photos: ${photoCount}</p>
+              <a href="${returnsUrl}" style="display: inline-block; background: linear-gradient(135deg, #10b981 0%, #059669 100%); color: #ffffff; text-decoration: none; padding: 12px 24px; border-radius: 8px; font-weight: bold; font-size: 14px;">
+                Review Return
+              </a>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        Return requested for order ${orderNumber}
+        
+        Customer: ${customerName ? `${customerName} ` : ""}<${customerEmail}>
+        Reason: ${reason}
+        ${details ? `Details: ${details}` : ""}
+        ${items
+          .map((item) => `- ${item.title} x ${item.quantity}`)
+          .join("\n        ")}
+        Photos: ${photoCount}
+        
+        Review it at ${returnsUrl}
+      `,
+    };
+
+    const result = await transporter!.sendMail(mailOptions);
+    console.log("Admin return notification sent:", result.messageId);
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    console.error("Error sending admin return notification:", error);
+    return {
+      success: false,
+      error: "Failed to send admin return notification",
+    };
+  }
+}
+
+export async function sendReturnDecisionEmail({
+  email,
+  customerName,
+  orderNumber,
+  approved,
+  note,
+}: {
+  email: string;
+  customerName?: string | null;
+  orderNumber: string;
+  approved: boolean;
+  note?: string | null; // The admin's message to the customer
+}) {
+  try {
+    await initializeEmailTransporter();
+    const greeting = customerName ? `Hi ${customerName},` : "Hi there,";
+    const title = approved
+      ? "Your Return Was Approved"
+      : "About Your Return Request";
+    const intro = approved
+      ? `Good news: your return for order ${orderNumber} was approved. Please send the items back to us; we'll refund you once they arrive.`
+      : `We've reviewed your return request for order ${orderNumber} and aren't able to accept it.`;
+
+    const mailOptions = {
+      from: `"RaineAndSea" <${FROM_EMAIL}>`,
+      to: email,
+      subject: `${
+        approved ? "Return Approved" : "Return Request Update"
+      } for Order ${orderNumber} - RaineAndSea`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${title}</title>
+        </head>
+        <body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f9fafb;">
+          <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+            <!-- Header -->
+            <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 40px 20px; text-align: center;">
+              <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: bold;">RaineAndSea</h1>
+              <p style="color: #a7f3d0; margin: 8px 0 0 0; font-size: 16px;">${title}</p>
+            </div>
+            
+            <!-- Content -->
+            <div style="padding: 40px 20px;">
+              <p style="color: #4b5563; margin: 0 0 20px 0; font-size: 16px; line-height: 1.6;">
+                ${greeting}
+              </p>
+              <p style="color: #4b5563; margin: 0 0 20px 0; font-size: 16px; line-height: 1.6;">
+                ${intro}
+              </p>
+              ${
+                note
+                  ? `<div style="background-color: #f0fdf4; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #10b981;">
+                <p style="color: #065f46; margin: 0; font-size: 14px;">${note}</p>
+              </div>`
+                  : ""
+              }
+              
+              <div style="border-top: 1px solid #e5e7eb; margin: 30px 0; padding-top: 20px;">
+                <p style="color: #6b7280; margin: 0; font-size: 14px;">
+                  Questions? Just reply to this email.
+                </p>
+              </div>
+            </div>
+            
+            <!-- Footer -->
+            <div style="background-color: #f9fafb; padding: 20px; text-align: center; border-top: 1px solid #e5e7eb;">
+              <p style="color: #6b7280; margin: 0 0 8px 0; font-size: 14px;">
+                © 2024 RaineAndSea. All rights reserved.
+              </p>
+              <p style="color: #9ca3af; margin: 0; font-size: 12px;">
+                Handmade crystal jewelry shipped from Anacortes, WA
+              </p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        ${greeting}
+        
+        ${intro}
+        ${note ? `\n        ${note}\n` : ""}
+        Questions? Just reply to this email.
+        
+        © 2024 RaineAndSea. All rights reserved.
+        Handmade crystal jewelry shipped from Anacortes, WA
+      `,
+    };
+
+    const result = await transporter!.sendMail(mailOptions);
+    console.log("Return decision email sent:", result.messageId);
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    console.error("Error sending return decision email:", error);
+    return { success: false, error: "Failed to send return decision email" };
+  }
+}
+
 export async function testEmailConnection() {
   try {
     await initializeEmailTransporter();
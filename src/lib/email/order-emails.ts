@@ -60,6 +60,8 @@ export interface OrderConfirmationData {
   subtotal: number;
   tax: number;
   shipping: number;
+  discount?: number;
+  promotionCode?: string;
   total: number;
 }
 
@@ -79,7 +81,8 @@ export interface ShippingConfirmationData {
     unit_amount: number;
     selected_options?: Record<string, string>;
     descriptive_title?: string;
-  }>;
+  }>; // Only the items in this package
+  remainingItemCount?: number; // Units still to ship in later packages
   shippingAddress: {
     name: string;
     email: string;
@@ -97,6 +100,34 @@ export interface ShippingConfirmationData {
   total: number;
 }
 
+/**
+ * Discount row for the HTML order summary (empty when no discount applied)
+ */
+function formatDiscountRow(data: OrderConfirmationData): string {
+  if (!data.discount || data.discount <= 0) return "";
+  const label = data.promotionCode
+    ? `Discount (${data.promotionCode}):`
+    : "Discount:";
+  return `
+                <div style="display: flex; justify-content: space-between; margin: 5px 0;">
+                  <span style="color: #4b5563; font-size: 14px;">${label}</span>
+                  <span style="color: #059669; font-size: 14px; font-weight: bold;">-$${data.discount.toFixed(
+                    2
+                  )}</span>
+                </div>`;
+}
+
+/**
+ * Discount line for the plain-text order summary
+ */
+function formatDiscountLine(data: OrderConfirmationData): string {
+  if (!data.discount || data.discount <= 0) return "";
+  const label = data.promotionCode
+    ? `Discount (${data.promotionCode})`
+    : "Discount";
+  return `\n        - ${label}: -$${data.discount.toFixed(2)}`;
+}
+
 /**
  * Send order confirmation email to customer
  */
@@ -196,6 +227,7 @@ export async function sendOrderConfirmationEmail(data: OrderConfirmationData) {
                     2
                   )}</span>
                 </div>
+                ${formatDiscountRow(data)}
                 <div style="display: flex; justify-content: space-between; margin: 5px 0;">
                   <span style="color: #4b5563; font-size: 14px;">Tax:</span>
                   <span style="color: #1f2937; font-size: 14px; font-weight: bold;">$${data.tax.toFixed(
@@ -287,7 +319,7 @@ export async function sendOrderConfirmationEmail(data: OrderConfirmationData) {
           .join("\n")}
         
         Order Summary:
-        - Subtotal: $${data.subtotal.toFixed(2)}
+        - Subtotal: $${data.subtotal.toFixed(2)}${formatDiscountLine(data)}
         - Tax: $${data.tax.toFixed(2)}
         - Shipping: $${data.shipping.toFixed(2)}
         - Total: $${data.total.toFixed(2)}
@@ -429,6 +461,7 @@ export async function sendAdminOrderNotification(
                     2
                   )}</span>
                 </div>
+                ${formatDiscountRow(data)}
                 <div style="display: flex; justify-content: space-between; margin: 5px 0;">
                   <span style="color: #4b5563; font-size: 14px;">Tax:</span>
                   <span style="color: #1f2937; font-size: 14px; font-weight: bold;">$${data.tax.toFixed(
@@ -537,7 +570,7 @@ export async function sendAdminOrderNotification(
           .join("\n")}
         
         Order Summary:
-        - Subtotal: $${data.subtotal.toFixed(2)}
+        - Subtotal: $${data.subtotal.toFixed(2)}${formatDiscountLine(data)}
         - Tax: $${data.tax.toFixed(2)}
         - Shipping: $${data.shipping.toFixed(2)}
         - Total: $${data.total.toFixed(2)}
@@ -585,7 +618,8 @@ export async function sendAdminOrderNotification(
 }
 
 /**
- * Send shipping confirmation email to customer
+ * Send shipping confirmation email to customer, one per package. When items
+ * are still to follow, the email says so.
  */
 export async function sendShippingConfirmationEmail(
   data: ShippingConfirmationData
@@ -594,6 +628,11 @@ export async function sendShippingConfirmationEmail(
     await initializeEmailTransporter();
     const orderNumber =
       data.orderNumber || `#${data.orderId.slice(-8).toUpperCase()}`;
+    const remaining = data.remainingItemCount ?? 0;
+    const isPartial = remaining > 0;
+    const remainingText = `${remaining} more item${
+      remaining === 1 ? "" : "s"
+    } from your order will follow in a separate package, with its own tracking number.`;
     const shippedDate = new Date().toLocaleDateString("en-US", {
       year: "numeric",
       month: "long",
@@ -616,7 +655,9 @@ export async function sendShippingConfirmationEmail(
     const mailOptions = {
       from: `"RaineAndSea" <${FROM_EMAIL}>`,
       to: data.customerEmail,
-      subject: `Your Order Has Shipped ${orderNumber} - RaineAndSea`,
+      subject: `${
+        isPartial ? "Part of Your Order Has Shipped" : "Your Order Has Shipped"
+      } ${orderNumber} - RaineAndSea`,
       html: `
         <!DOCTYPE html>
         <html>
@@ -630,7 +671,11 @@ export async function sendShippingConfirmationEmail(
             <!-- Header -->
             <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 40px 20px; text-align: center;">
               <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: bold;">RaineAndSea</h1>
-              <p style="color: #a7f3d0; margin: 8px 0 0 0; font-size: 16px;">Your Order Has Shipped!</p>
+              <p style="color: #a7f3d0; margin: 8px 0 0 0; font-size: 16px;">${
+                isPartial
+                  ? "Part of Your Order Has Shipped!"
+                  : "Your Order Has Shipped!"
+              }</p>
             </div>
             
             <!-- Content -->
@@ -640,15 +685,26 @@ export async function sendShippingConfirmationEmail(
               </h2>
               
               <p style="color: #4b5563; margin: 0 0 20px 0; font-size: 16px; line-height: 1.6;">
-                Your order has been shipped and is on its way to you. You can track your package using the information below.
+                ${
+                  isPartial
+                    ? "Part of your order has been shipped and is on its way to you."
+                    : "Your order has been shipped and is on its way to you."
+                } You can track your package using the information below.
               </p>
+              ${
+                isPartial
+                  ? `<p style="color: #4b5563; margin: 0 0 20px 0; font-size: 16px; line-height: 1.6;">${remainingText}</p>`
+                  : ""
+              }
               
               <!-- Order Details -->
               <div style="background-color: #f0fdf4; border: 1px solid #bbf7d0; border-radius: 8px; padding: 20px; margin: 20px 0;">
                 <h3 style="color: #166534; margin: 0 0 15px 0; font-size: 18px; font-weight: bold;">Order Information</h3>
                 <p style="color: #166534; margin: 0 0 5px 0; font-size: 14px;"><strong>Order Number:</strong> ${orderNumber}</p>
                 <p style="color: #166534; margin: 0 0 5px 0; font-size: 14px;"><strong>Shipped Date:</strong> ${shippedDate}</p>
-                <p style="color: #166534; margin: 0; font-size: 14px;"><strong>Status:</strong> <span style="color: #059669; font-weight: bold;">Shipped</span></p>
+                <p style="color: #166534; margin: 0; font-size: 14px;"><strong>Status:</strong> <span style="color: #059669; font-weight: bold;">${
+                  isPartial ? "Partially Shipped" : "Shipped"
+                }</span></p>
               </div>
               
               <!-- Tracking Information -->
@@ -679,7 +735,9 @@ export async function sendShippingConfirmationEmail(
               
               <!-- Order Items -->
               <div style="margin: 20px 0;">
-                <h3 style="color: #1f2937; margin: 0 0 15px 0; font-size: 18px; font-weight: bold;">Items Shipped</h3>
+                <h3 style="color: #1f2937; margin: 0 0 15px 0; font-size: 18px; font-weight: bold;">${
+                  isPartial ? "Items in This Package" : "Items Shipped"
+                }</h3>
                 ${data.orderItems
                   .map(
                     (item) => `
@@ -766,23 +824,31 @@ export async function sendShippingConfirmationEmail(
         </html>
       `,
       text: `
-        Your Order Has Shipped ${orderNumber}
+        ${
+          isPartial
+            ? "Part of Your Order Has Shipped"
+            : "Your Order Has Shipped"
+        } ${orderNumber}
         
         Great news${data.customerName ? `, ${data.customerName}` : ""}!
         
-        Your order has been shipped and is on its way to you.
+        ${
+          isPartial
+            ? `Part of your order has been shipped and is on its way to you. ${remainingText}`
+            : "Your order has been shipped and is on its way to you."
+        }
         
         Order Information:
         - Order Number: ${orderNumber}
         - Shipped Date: ${shippedDate}
-        - Status: Shipped
+        - Status: ${isPartial ? "Partially Shipped" : "Shipped"}
         
         Tracking Information:
         - Tracking Number: ${data.trackingNumber}
         - Shipping Provider: ${getProviderDisplayName(data.shippingProvider)}
         - Track Your Package: ${data.trackingUrl}
         
-        Items Shipped:
+        ${isPartial ? "Items in This Package" : "Items Shipped"}:
         ${data.orderItems
           .map(
             (item) =>
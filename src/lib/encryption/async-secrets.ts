@@ -72,6 +72,8 @@ export async function initializeSecrets(): Promise<void> {
     "CLOUDFLARE_SECRET_ACCESS_KEY",
     "CLOUDFLARE_ACCOUNT_ID",
     "CLOUDFLARE_R2_API_TOKEN",
+    "STRIPE_SECRET_KEY",
+    "STRIPE_WEBHOOK_SECRET",
   ];
 
   console.log("🔐 Initializing secrets from GCP Secret Manager...");
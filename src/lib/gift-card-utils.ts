@@ -0,0 +1,54 @@
+/**
+ * Gift card utilities
+ * Pure helpers shared by the checkout page, the account page and the gift card
+ * APIs so codes are entered and shown the same way everywhere.
+ */
+
+export type GiftCardSource = "purchase" | "store_credit";
+
+export interface AppliedGiftCard {
+  code: string; // Masked, e.g. "••••-••••-••••-7KQ2"
+  balance: number; // Available balance in the order currency
+  amount: number; // Part of the order total paid from the card
+}
+
+/**
+ * Codes are matched case-insensitively and with or without the dashes they
+ * are printed with
+ */
+export function normalizeGiftCardCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * Print a code in groups of four, e.g. "ABCD-EFGH-JKLM-NPQR"
+ */
+export function formatGiftCardCode(code: string): string {
+  return (
+    normalizeGiftCardCode(code)
+      .match(/.{1,4}/g)
+      ?.join("-") ?? ""
+  );
+}
+
+/**
+ * Hide all but the last group, for showing a code back to the shopper
+ */
+export function maskGiftCardCode(code: string): string {
+  return formatGiftCardCode(code).replace(/[A-Z0-9](?=.{4})/g, "•");
+}
+
+/**
+ * Part of an order total a gift card balance covers. Never exceeds the total.
+ */
+export function calculateGiftCardAmount(
+  balance: number,
+  total: number
+): number {
+  if (balance <= 0 || total <= 0) return 0;
+  return Math.round(Math.min(balance, total) * 100) / 100;
+}
+
+export function getGiftCardSourceLabel(source: GiftCardSource): string {
+  return source === "store_credit" ? "Store credit" : "Gift card";
+}
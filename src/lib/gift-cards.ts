@@ -0,0 +1,431 @@
+import crypto from "crypto";
+import { and, desc, eq, gt, gte, or, sql } from "drizzle-orm";
+import { convertAmount, CurrencyRate, toStoreAmount } from "./currency-utils";
+import { DbExecutor } from "./db";
+import {
+  addresses,
+  giftCards,
+  giftCardTransactions,
+  orders,
+} from "./db/schema";
+import { sendGiftCardEmail } from "./email";
+import {
+  AppliedGiftCard,
+  calculateGiftCardAmount,
+  formatGiftCardCode,
+  GiftCardSource,
+  maskGiftCardCode,
+  normalizeGiftCardCode,
+} from "./gift-card-utils";
+
+// No 0/O or 1/I so codes survive being read aloud or retyped
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 16;
+
+export type GiftCardResult =
+  | {
+      valid: true;
+      giftCardId: string;
+      storeAmount: number; // What to take off the balance, in the store currency
+      giftCard: AppliedGiftCard;
+    }
+  | { valid: false; error: string };
+
+function generateGiftCardCode(): string {
+  // 32 symbols divide 256 evenly, so every symbol is equally likely
+  return Array.from(
+    crypto.randomBytes(CODE_LENGTH),
+    (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]
+  ).join("");
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Create a gift card worth `amount` in the store currency and record the
+ * issue in its ledger. Returns the card, including the code to send.
+ * Purchased cards are issued inactive and activated once their order is
+ * paid, see activateOrderGiftCards.
+ */
+export async function issueGiftCard(
+  executor: DbExecutor,
+  {
+    amount,
+    source,
+    recipientEmail,
+    customerId = null,
+    orderId = null,
+    issuedBy = null,
+    note = null,
+    isActive = true,
+  }: {
+    amount: number;
+    source: GiftCardSource;
+    recipientEmail: string;
+    customerId?: string | null;
+    orderId?: string | null;
+    issuedBy?: string | null;
+    note?: string | null;
+    isActive?: boolean;
+  }
+) {
+  const balance = roundAmount(amount).toFixed(2);
+
+  const [giftCard] = await executor
+    .insert(giftCards)
+    .values({
+      code: generateGiftCardCode(),
+      source,
+      initial_balance: balance,
+      balance,
+      customer_id: customerId,
+      recipient_email: recipientEmail,
+      order_id: orderId,
+      issued_by: issuedBy,
+      note,
+      is_active: isActive,
+    })
+    .returning();
+
+  await executor.insert(giftCardTransactions).values({
+    gift_card_id: giftCard.id,
+    order_id: orderId,
+    type: "issue",
+    amount: balance,
+    balance_after: balance,
+  });
+
+  return giftCard;
+}
+
+/**
+ * Look up a gift card code and work out how much of an order total in the
+ * given currency it covers. Does not touch the balance.
+ */
+export async function resolveGiftCard(
+  executor: DbExecutor,
+  code: string,
+  total: number,
+  currencyRate: CurrencyRate
+): Promise<GiftCardResult> {
+  const normalizedCode = normalizeGiftCardCode(code);
+  if (!normalizedCode) {
+    return { valid: false, error: "Gift card code is required" };
+  }
+
+  const result = await executor
+    .select()
+    .from(giftCards)
+    .where(eq(giftCards.code, normalizedCode))
+    .limit(1);
+
+  if (result.length === 0 || !result[0].is_active) {
+    return { valid: false, error: "Gift card not found" };
+  }
+
+  const storeBalance = parseFloat(result[0].balance);
+  if (storeBalance <= 0) {
+    return { valid: false, error: "This gift card has no balance left" };
+  }
+
+  const balance = convertAmount(storeBalance, currencyRate);
+  const amount = calculateGiftCardAmount(balance, total);
+
+  return {
+    valid: true,
+    giftCardId: result[0].id,
+    // Using the whole balance empties the card, whatever the conversion rounds to
+    storeAmount:
+      amount >= balance
+        ? storeBalance
+        : Math.min(
+            roundAmount(toStoreAmount(amount, currencyRate)),
+            storeBalance
+          ),
+    giftCard: {
+      code: maskGiftCardCode(result[0].code),
+      balance,
+      amount,
+    },
+  };
+}
+
+/**
+ * Atomically take `amount` (store currency) off a gift card for an order.
+ * The update only succeeds while the card is active and still has the
+ * balance, so two checkouts cannot spend the same balance.
+ * Returns false when the balance is no longer available.
+ */
+export async function redeemGiftCard(
+  executor: DbExecutor,
+  giftCardId: string,
+  amount: number,
+  orderId: string
+): Promise<boolean> {
+  const debit = roundAmount(amount).toFixed(2);
+
+  const updated = await executor
+    .update(giftCards)
+    .set({
+      balance: sql`${giftCards.balance} - ${debit}`,
+      updated_at: new Date(),
+    })
+    .where(
+      and(
+        eq(giftCards.id, giftCardId),
+        eq(giftCards.is_active, true),
+        gte(giftCards.balance, debit)
+      )
+    )
+    .returning({ balance: giftCards.balance });
+
+  if (updated.length === 0) {
+    return false;
+  }
+
+  await executor.insert(giftCardTransactions).values({
+    gift_card_id: giftCardId,
+    order_id: orderId,
+    type: "redeem",
+    amount: `-${debit}`,
+    balance_after: updated[0].balance,
+  });
+
+  return true;
+}
+
+/**
+ * Make the gift cards an order bought spendable once the order is paid.
+ * Cards voided since (balance emptied) stay inactive.
+ */
+export async function activateOrderGiftCards(
+  executor: DbExecutor,
+  orderId: string
+): Promise<void> {
+  await executor
+    .update(giftCards)
+    .set({ is_active: true, updated_at: new Date() })
+    .where(
+      and(
+        eq(giftCards.order_id, orderId),
+        eq(giftCards.source, "purchase"),
+        eq(giftCards.is_active, false),
+        gt(giftCards.balance, "0")
+      )
+    );
+}
+
+/**
+ * Email the codes of the gift cards a paid order bought. Call after the
+ * transaction that activated them commits.
+ */
+export async function sendOrderGiftCardEmails(
+  executor: DbExecutor,
+  orderId: string
+): Promise<void> {
+  const purchased = await executor
+    .select({
+      code: giftCards.code,
+      initial_balance: giftCards.initial_balance,
+      recipient_email: giftCards.recipient_email,
+      order_number: orders.order_number,
+      customer_name: addresses.name,
+    })
+    .from(giftCards)
+    .innerJoin(orders, eq(orders.id, giftCards.order_id))
+    .leftJoin(
+      addresses,
+      and(eq(addresses.order_id, orders.id), eq(addresses.type, "shipping"))
+    )
+    .where(
+      and(
+        eq(giftCards.order_id, orderId),
+        eq(giftCards.source, "purchase"),
+        eq(giftCards.is_active, true)
+      )
+    );
+
+  await Promise.all(
+    purchased.map((giftCard) =>
+      sendGiftCardEmail({
+        email: giftCard.recipient_email,
+        customerName: giftCard.customer_name,
+        code: formatGiftCardCode(giftCard.code),
+        amount: parseFloat(giftCard.initial_balance),
+        source: "purchase",
+        orderNumber: giftCard.order_number,
+      })
+    )
+  );
+}
+
+/**
+ * Put balance an order spent back on the gift cards it was paid with, up to
+ * `limit` (store currency) when given. Cards are refilled in the order they
+ * were redeemed. Returns the amount restored.
+ */
+export async function restoreOrderGiftCards(
+  executor: DbExecutor,
+  orderId: string,
+  limit?: number
+): Promise<number> {
+  const spent = await executor
+    .select({
+      giftCardId: giftCardTransactions.gift_card_id,
+      amount: sql<string>`sum(${giftCardTransactions.amount})`,
+    })
+    .from(giftCardTransactions)
+    .where(
+      and(
+        eq(giftCardTransactions.order_id, orderId),
+        sql`${giftCardTransactions.type} in ('redeem', 'restore')`
+      )
+    )
+    .groupBy(giftCardTransactions.gift_card_id)
+    .orderBy(sql`min(${giftCardTransactions.created_at})`);
+
+  let restoredTotal = 0;
+
+  for (const row of spent) {
+    // Redemptions are negative, so a net negative sum is still owed back
+    const owed = roundAmount(-parseFloat(row.amount));
+    const amount =
+      limit === undefined
+        ? owed
+        : Math.min(owed, roundAmount(limit - restoredTotal));
+    if (amount <= 0) continue;
+
+    const [restored] = await executor
+      .update(giftCards)
+      .set({
+        balance: sql`${giftCards.balance} + ${amount.toFixed(2)}`,
+        updated_at: new Date(),
+      })
+      .where(eq(giftCards.id, row.giftCardId))
+      .returning({ balance: giftCards.balance });
+
+    await executor.insert(giftCardTransactions).values({
+      gift_card_id: row.giftCardId,
+      order_id: orderId,
+      type: "restore",
+      amount: amount.toFixed(2),
+      balance_after: restored.balance,
+    });
+
+    restoredTotal = roundAmount(restoredTotal + amount);
+  }
+
+  return restoredTotal;
+}
+
+/**
+ * Undo an order's gift card activity when it is cancelled or refunded:
+ * balance spent on it goes back on the card, and cards it bought are voided
+ * along with whatever is left on them.
+ */
+export async function reverseOrderGiftCards(
+  executor: DbExecutor,
+  orderId: string
+): Promise<void> {
+  await restoreOrderGiftCards(executor, orderId);
+
+  // Cards still waiting for payment are voided too, so they never activate
+  const purchased = await executor
+    .select({ id: giftCards.id, balance: giftCards.balance })
+    .from(giftCards)
+    .where(
+      and(
+        eq(giftCards.order_id, orderId),
+        eq(giftCards.source, "purchase"),
+        or(eq(giftCards.is_active, true), gt(giftCards.balance, "0"))
+      )
+    );
+
+  for (const giftCard of purchased) {
+    await executor
+      .update(giftCards)
+      .set({ is_active: false, balance: "0", updated_at: new Date() })
+      .where(eq(giftCards.id, giftCard.id));
+
+    await executor.insert(giftCardTransactions).values({
+      gift_card_id: giftCard.id,
+      order_id: orderId,
+      type: "void",
+      amount: `-${giftCard.balance}`,
+      balance_after: "0",
+    });
+  }
+}
+
+/**
+ * Balance of a gift card code, for the balance lookup. Returns null for
+ * unknown or voided codes.
+ */
+export async function getGiftCardBalance(executor: DbExecutor, code: string) {
+  const result = await executor
+    .select({
+      code: giftCards.code,
+      source: giftCards.source,
+      balance: giftCards.balance,
+      is_active: giftCards.is_active,
+    })
+    .from(giftCards)
+    .where(eq(giftCards.code, normalizeGiftCardCode(code)))
+    .limit(1);
+
+  if (result.length === 0 || !result[0].is_active) {
+    return null;
+  }
+
+  return {
+    code: maskGiftCardCode(result[0].code),
+    source: result[0].source,
+    balance: parseFloat(result[0].balance),
+  };
+}
+
+/**
+ * Gift cards and store credit on a customer's account, newest first
+ */
+export async function getCustomerGiftCards(
+  executor: DbExecutor,
+  customerId: string
+) {
+  const result = await executor
+    .select()
+    .from(giftCards)
+    .where(
+      and(eq(giftCards.customer_id, customerId), eq(giftCards.is_active, true))
+    )
+    .orderBy(desc(giftCards.created_at));
+
+  return result.map((giftCard) => ({
+    id: giftCard.id,
+    code: giftCard.code,
+    source: giftCard.source,
+    initial_balance: parseFloat(giftCard.initial_balance),
+    balance: parseFloat(giftCard.balance),
+    created_at: giftCard.created_at,
+  }));
+}
+
+/**
+ * Store credit already issued against an order, in the store currency
+ */
+export async function getOrderStoreCredit(
+  executor: DbExecutor,
+  orderId: string
+): Promise<number> {
+  const result = await executor
+    .select({
+      total: sql<string>`coalesce(sum(${giftCards.initial_balance}), 0)`,
+    })
+    .from(giftCards)
+    .where(
+      and(eq(giftCards.order_id, orderId), eq(giftCards.source, "store_credit"))
+    );
+
+  return parseFloat(result[0]?.total ?? "0");
+}
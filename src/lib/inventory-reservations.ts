@@ -0,0 +1,255 @@
+import {
+  and,
+  eq,
+  inArray,
+  lte,
+  sql,
+  TransactionRollbackError,
+} from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import { DbExecutor } from "./db";
+import { inventory, inventoryReservations } from "./db/schema";
+
+// How long checkout holds stock before it is returned to the shelf
+export const RESERVATION_TTL_MINUTES = 15;
+
+export interface ReservationItem {
+  productId: string;
+  quantity: number;
+}
+
+export interface UnavailableItem {
+  product_id: string;
+  requested: number;
+  available: number;
+}
+
+export type ReservationResult =
+  | { success: true; reservationId: string; expiresAt: Date }
+  | { success: false; outOfStockItems: UnavailableItem[] };
+
+/**
+ * Combine cart lines for the same product (e.g. different options) so
+ * each product is reserved once for its total quantity
+ */
+function groupQuantities(items: ReservationItem[]): Map<string, number> {
+  const quantities = new Map<string, number>();
+  for (const item of items) {
+    quantities.set(
+      item.productId,
+      (quantities.get(item.productId) || 0) + item.quantity
+    );
+  }
+  return quantities;
+}
+
+/**
+ * Return released units to inventory. Callers delete the reservation rows
+ * with RETURNING first, so concurrent releases never count a row twice.
+ */
+async function restoreReservedUnits(
+  executor: DbExecutor,
+  rows: Array<{ product_id: string; quantity: number }>
+): Promise<void> {
+  const quantities = groupQuantities(
+    rows.map((row) => ({ productId: row.product_id, quantity: row.quantity }))
+  );
+
+  for (const [productId, quantity] of quantities) {
+    await executor
+      .update(inventory)
+      .set({
+        quantity_reserved: sql`GREATEST(${inventory.quantity_reserved} - ${quantity}, 0)`,
+        updated_at: new Date(),
+      })
+      .where(eq(inventory.product_id, productId));
+  }
+}
+
+/**
+ * Hold stock for a checkout session. Either every product is reserved or
+ * none is. The session's earlier hold is replaced, so a shopper who edits
+ * their cart keeps a single hold and one browser cannot pile up holds.
+ */
+export async function reserveInventory(
+  executor: DbExecutor,
+  items: ReservationItem[],
+  options: { sessionId: string; now?: Date }
+): Promise<ReservationResult> {
+  const now = options.now || new Date();
+  const reservationId = uuidv4();
+  const expiresAt = new Date(now.getTime() + RESERVATION_TTL_MINUTES * 60000);
+  const quantities = groupQuantities(items);
+  const outOfStockItems: UnavailableItem[] = [];
+
+  try {
+    await executor.transaction(async (tx) => {
+      const replaced = await tx
+        .delete(inventoryReservations)
+        .where(eq(inventoryReservations.session_id, options.sessionId))
+        .returning({
+          product_id: inventoryReservations.product_id,
+          quantity: inventoryReservations.quantity,
+        });
+      await restoreReservedUnits(tx, replaced);
+
+      for (const [productId, quantity] of quantities) {
+        const reserved = await tx
+          .update(inventory)
+          .set({
+            quantity_reserved: sql`${inventory.quantity_reserved} + ${quantity}`,
+            updated_at: now,
+          })
+          .where(
+            and(
+              eq(inventory.product_id, productId),
+              sql`${inventory.quantity_available} - ${inventory.quantity_reserved} >= ${quantity}`
+            )
+          )
+          .returning({ product_id: inventory.product_id });
+
+        if (reserved.length === 0) {
+          const current = await getAvailableQuantities(tx, [productId]);
+          outOfStockItems.push({
+            product_id: productId,
+            requested: quantity,
+            available: current.get(productId) || 0,
+          });
+        }
+      }
+
+      if (outOfStockItems.length > 0) {
+        tx.rollback();
+      }
+
+      if (quantities.size > 0) {
+        await tx.insert(inventoryReservations).values(
+          [...quantities].map(([productId, quantity]) => ({
+            reservation_id: reservationId,
+            product_id: productId,
+            quantity,
+            session_id: options.sessionId,
+            expires_at: expiresAt,
+          }))
+        );
+      }
+    });
+  } catch (error) {
+    if (error instanceof TransactionRollbackError) {
+      return { success: false, outOfStockItems };
+    }
+    throw error;
+  }
+
+  return { success: true, reservationId, expiresAt };
+}
+
+/**
+ * Release a reservation, e.g. when the shopper leaves checkout or the order
+ * is placed. With a `sessionId`, only a hold taken by that checkout session
+ * is released. Returns the number of units returned to stock.
+ */
+export async function releaseReservation(
+  executor: DbExecutor,
+  reservationId: string,
+  sessionId?: string
+): Promise<number> {
+  return executor.transaction(async (tx) => {
+    const released = await tx
+      .delete(inventoryReservations)
+      .where(
+        and(
+          eq(inventoryReservations.reservation_id, reservationId),
+          sessionId
+            ? eq(inventoryReservations.session_id, sessionId)
+            : undefined
+        )
+      )
+      .returning({
+        product_id: inventoryReservations.product_id,
+        quantity: inventoryReservations.quantity,
+      });
+
+    await restoreReservedUnits(tx, released);
+    return released.reduce((sum, row) => sum + row.quantity, 0);
+  });
+}
+
+/**
+ * Release every reservation past its expiry time.
+ * Returns the number of reservations released.
+ */
+export async function releaseExpiredReservations(
+  executor: DbExecutor,
+  now: Date = new Date()
+): Promise<number> {
+  return executor.transaction(async (tx) => {
+    const released = await tx
+      .delete(inventoryReservations)
+      .where(lte(inventoryReservations.expires_at, now))
+      .returning({
+        reservation_id: inventoryReservations.reservation_id,
+        product_id: inventoryReservations.product_id,
+        quantity: inventoryReservations.quantity,
+      });
+
+    await restoreReservedUnits(tx, released);
+    return new Set(released.map((row) => row.reservation_id)).size;
+  });
+}
+
+/**
+ * Units that can still be sold per product: stock on hand minus what other
+ * shoppers have reserved. Units held by `ownReservationId` count as available
+ * to its holder.
+ */
+export async function getAvailableQuantities(
+  executor: DbExecutor,
+  productIds: string[],
+  ownReservationId?: string
+): Promise<Map<string, number>> {
+  if (productIds.length === 0) return new Map();
+
+  const rows = await executor
+    .select({
+      product_id: inventory.product_id,
+      quantity_available: inventory.quantity_available,
+      quantity_reserved: inventory.quantity_reserved,
+    })
+    .from(inventory)
+    .where(inArray(inventory.product_id, productIds));
+
+  const ownQuantities = new Map<string, number>();
+  if (ownReservationId) {
+    const ownRows = await executor
+      .select({
+        product_id: inventoryReservations.product_id,
+        quantity: inventoryReservations.quantity,
+      })
+      .from(inventoryReservations)
+      .where(
+        and(
+          eq(inventoryReservations.reservation_id, ownReservationId),
+          inArray(inventoryReservations.product_id, productIds)
+        )
+      );
+    for (const row of ownRows) {
+      ownQuantities.set(
+        row.product_id,
+        (ownQuantities.get(row.product_id) || 0) + row.quantity
+      );
+    }
+  }
+
+  return new Map(
+    rows.map((row) => [
+      row.product_id,
+      Math.max(
+        row.quantity_available -
+          row.quantity_reserved +
+          (ownQuantities.get(row.product_id) || 0),
+        0
+      ),
+    ])
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Option value stock utilities
+ * Pure helpers shared by the storefront option pickers and the server-side
+ * option inventory checks.
+ */
+
+export interface OptionValueStock {
+  is_sold_out: boolean; // Manual override set by an admin
+  quantity_available?: number | null; // Null when stock is not tracked
+}
+
+/**
+ * A value is sold out when an admin marked it so or its tracked stock ran out
+ */
+export function isOptionValueSoldOut(value: OptionValueStock): boolean {
+  return (
+    value.is_sold_out ||
+    (value.quantity_available !== null &&
+      value.quantity_available !== undefined &&
+      value.quantity_available <= 0)
+  );
+}
+
+/**
+ * Label for a single variant, e.g. "Bracelet (Crystal: Amethyst)"
+ */
+export function formatVariantTitle(
+  productTitle: string,
+  optionName?: string | null,
+  optionValue?: string | null
+): string {
+  if (!optionName || !optionValue) return productTitle;
+  return `${productTitle} (${optionName}: ${optionValue})`;
+}
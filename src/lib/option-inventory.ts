@@ -0,0 +1,154 @@
+import { and, eq, gte, inArray, isNotNull, sql } from "drizzle-orm";
+import { DbExecutor } from "./db";
+import { productOptions, productOptionValues } from "./db/schema";
+
+export interface OptionStockLine {
+  productId: string;
+  quantity: number;
+  selectedOptions?: Record<string, string> | null; // Option name -> value name
+}
+
+export interface OptionValueDemand {
+  valueId: string;
+  productId: string;
+  optionName: string;
+  valueName: string;
+  available: number;
+  requested: number;
+}
+
+/**
+ * Total units wanted of each stock-tracked option value across the lines.
+ * Values without tracked stock are left out - only product stock applies.
+ */
+export async function getOptionValueDemand(
+  executor: DbExecutor,
+  lines: OptionStockLine[]
+): Promise<OptionValueDemand[]> {
+  const linesWithOptions = lines.filter(
+    (line) =>
+      line.selectedOptions && Object.keys(line.selectedOptions).length > 0
+  );
+  if (linesWithOptions.length === 0) return [];
+
+  const trackedValues = await executor
+    .select({
+      id: productOptionValues.id,
+      product_id: productOptions.product_id,
+      option_name: productOptions.name,
+      name: productOptionValues.name,
+      quantity_available: productOptionValues.quantity_available,
+    })
+    .from(productOptionValues)
+    .innerJoin(
+      productOptions,
+      eq(productOptionValues.option_id, productOptions.id)
+    )
+    .where(
+      and(
+        inArray(productOptions.product_id, [
+          ...new Set(linesWithOptions.map((line) => line.productId)),
+        ]),
+        isNotNull(productOptionValues.quantity_available)
+      )
+    );
+
+  const valuesByKey = new Map(
+    trackedValues.map((value) => [
+      `${value.product_id}:${value.option_name}:${value.name}`,
+      value,
+    ])
+  );
+
+  const demand = new Map<string, OptionValueDemand>();
+  for (const line of linesWithOptions) {
+    for (const [optionName, valueName] of Object.entries(
+      line.selectedOptions!
+    )) {
+      const value = valuesByKey.get(
+        `${line.productId}:${optionName}:${valueName}`
+      );
+      if (!value) continue;
+
+      const existing = demand.get(value.id);
+      if (existing) {
+        existing.requested += line.quantity;
+      } else {
+        demand.set(value.id, {
+          valueId: value.id,
+          productId: value.product_id,
+          optionName,
+          valueName,
+          available: Math.max(value.quantity_available || 0, 0),
+          requested: line.quantity,
+        });
+      }
+    }
+  }
+
+  return [...demand.values()];
+}
+
+/**
+ * Deduct option value stock for placed order lines. Returns the values that
+ * no longer had enough stock; callers roll back when any are returned.
+ */
+export async function deductOptionInventory(
+  executor: DbExecutor,
+  lines: OptionStockLine[]
+): Promise<OptionValueDemand[]> {
+  const demand = await getOptionValueDemand(executor, lines);
+  const shortfalls: OptionValueDemand[] = [];
+
+  for (const value of demand) {
+    const updated = await executor
+      .update(productOptionValues)
+      .set({
+        quantity_available: sql`${productOptionValues.quantity_available} - ${value.requested}`,
+      })
+      .where(
+        and(
+          eq(productOptionValues.id, value.valueId),
+          gte(productOptionValues.quantity_available, value.requested)
+        )
+      )
+      .returning({ id: productOptionValues.id });
+
+    if (updated.length === 0) {
+      shortfalls.push(value);
+    }
+  }
+
+  return shortfalls;
+}
+
+/**
+ * Put option value stock back for order lines that will not ship. Returns the
+ * values that were sold out before and now have stock again.
+ */
+export async function restoreOptionInventory(
+  executor: DbExecutor,
+  lines: OptionStockLine[]
+): Promise<OptionValueDemand[]> {
+  const demand = await getOptionValueDemand(executor, lines);
+  const restocked: OptionValueDemand[] = [];
+
+  for (const value of demand) {
+    const updated = await executor
+      .update(productOptionValues)
+      .set({
+        quantity_available: sql`${productOptionValues.quantity_available} + ${value.requested}`,
+      })
+      .where(eq(productOptionValues.id, value.valueId))
+      .returning({
+        quantity_available: productOptionValues.quantity_available,
+      });
+
+    const newQuantity = updated[0]?.quantity_available ?? 0;
+    if (newQuantity > 0 && newQuantity - value.requested <= 0) {
+      restocked.push({ ...value, available: newQuantity });
+    }
+  }
+
+  return restocked;
+}
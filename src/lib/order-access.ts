@@ -0,0 +1,76 @@
+import { eq } from "drizzle-orm";
+import { DbExecutor } from "./db";
+import { customers, orders } from "./db/schema";
+import { AuthenticatedUser } from "./security/auth-validation";
+
+export interface CustomerOrder {
+  id: string;
+  order_number: string | null;
+  status: (typeof orders.status.enumValues)[number];
+  created_at: Date;
+  customer_id: string | null;
+  customer_name: string | null;
+  email: string | null; // Where the customer gets order emails
+}
+
+/**
+ * Load an order for a customer acting on it themselves. Signed-in customers
+ * reach their own orders, including guest orders placed with their email;
+ * guests prove ownership with the email the order was placed with, the same
+ * check as the order lookup page.
+ * Returns null when the order is missing or belongs to someone else.
+ */
+export async function findCustomerOrder(
+  executor: DbExecutor,
+  orderId: string,
+  { user, email }: { user?: AuthenticatedUser; email?: unknown }
+): Promise<CustomerOrder | null> {
+  const result = await executor
+    .select({
+      id: orders.id,
+      order_number: orders.order_number,
+      status: orders.status,
+      created_at: orders.created_at,
+      is_guest_order: orders.is_guest_order,
+      guest_email: orders.guest_email,
+      customer_id: orders.customer_id,
+      customer_email: customers.email,
+      customer_name: customers.name,
+    })
+    .from(orders)
+    .leftJoin(customers, eq(customers.id, orders.customer_id))
+    .where(eq(orders.id, orderId))
+    .limit(1);
+
+  if (result.length === 0) {
+    return null;
+  }
+
+  const order = result[0];
+  const orderEmail = order.is_guest_order
+    ? order.guest_email
+    : order.customer_email;
+
+  const ownedByUser =
+    !!user &&
+    (order.customer_id === user.id ||
+      (order.is_guest_order && order.guest_email === user.email));
+  const matchesEmail =
+    typeof email === "string" &&
+    !!orderEmail &&
+    orderEmail.toLowerCase() === email.trim().toLowerCase();
+
+  if (!ownedByUser && !matchesEmail) {
+    return null;
+  }
+
+  return {
+    id: order.id,
+    order_number: order.order_number,
+    status: order.status,
+    created_at: order.created_at,
+    customer_id: order.customer_id,
+    customer_name: order.customer_name,
+    email: orderEmail,
+  };
+}
@@ -0,0 +1,110 @@
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+import { DbExecutor } from "./db";
+import { inventory, orderItems, orders, products } from "./db/schema";
+import { restoreOptionInventory } from "./option-inventory";
+import { BackInStockTarget } from "./stock-notifications";
+
+/**
+ * Return an order's units to product and option value stock. Each order is
+ * restocked at most once, however many times it is cancelled or refunded.
+ * Returns the products and variants that went from sold out to in stock so
+ * the caller can notify subscribers once the transaction commits.
+ */
+export async function restockOrder(
+  executor: DbExecutor,
+  orderId: string
+): Promise<BackInStockTarget[]> {
+  const claimed = await executor
+    .update(orders)
+    .set({ restocked_at: new Date() })
+    .where(and(eq(orders.id, orderId), isNull(orders.restocked_at)))
+    .returning({ id: orders.id });
+
+  if (claimed.length === 0) {
+    return [];
+  }
+
+  const items = await executor
+    .select({
+      product_id: orderItems.product_id,
+      quantity: orderItems.quantity,
+      selected_options: orderItems.selected_options,
+    })
+    .from(orderItems)
+    .innerJoin(products, eq(products.id, orderItems.product_id))
+    // Gift cards never came out of stock
+    .where(
+      and(eq(orderItems.order_id, orderId), eq(products.is_gift_card, false))
+    );
+
+  if (items.length === 0) {
+    return [];
+  }
+
+  const quantityByProduct = new Map<string, number>();
+  for (const item of items) {
+    quantityByProduct.set(
+      item.product_id,
+      (quantityByProduct.get(item.product_id) || 0) + item.quantity
+    );
+  }
+
+  const restockedProductIds = new Set<string>();
+  for (const [productId, quantity] of quantityByProduct) {
+    const updated = await executor
+      .update(inventory)
+      .set({
+        quantity_available: sql`${inventory.quantity_available} + ${quantity}`,
+        updated_at: new Date(),
+      })
+      .where(eq(inventory.product_id, productId))
+      .returning({ quantity_available: inventory.quantity_available });
+
+    const newQuantity = updated[0]?.quantity_available ?? 0;
+    if (newQuantity > 0 && newQuantity - quantity <= 0) {
+      restockedProductIds.add(productId);
+    }
+  }
+
+  const restockedValues = await restoreOptionInventory(
+    executor,
+    items.map((item) => ({
+      productId: item.product_id,
+      quantity: item.quantity,
+      selectedOptions: item.selected_options as Record<string, string> | null,
+    }))
+  );
+
+  const productIds = [
+    ...new Set([
+      ...restockedProductIds,
+      ...restockedValues.map((value) => value.productId),
+    ]),
+  ];
+  if (productIds.length === 0) {
+    return [];
+  }
+
+  const productRows = await executor
+    .select({ id: products.id, title: products.title, slug: products.slug })
+    .from(products)
+    .where(inArray(products.id, productIds));
+  const productsById = new Map(productRows.map((row) => [row.id, row]));
+
+  const targets: BackInStockTarget[] = [];
+  for (const productId of restockedProductIds) {
+    const product = productsById.get(productId);
+    if (product) targets.push({ product });
+  }
+  for (const value of restockedValues) {
+    const product = productsById.get(value.productId);
+    if (product) {
+      targets.push({
+        product,
+        variant: { optionName: value.optionName, optionValue: value.valueName },
+      });
+    }
+  }
+
+  return targets;
+}
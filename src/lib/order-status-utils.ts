@@ -0,0 +1,91 @@
+/**
+ * Order status state machine
+ * Pure helpers shared by the order APIs and the admin/customer order views.
+ */
+
+export const ORDER_STATUSES = [
+  "received",
+  "paid",
+  "partially_shipped",
+  "shipped",
+  "completed",
+  "cancelled",
+  "refunded",
+] as const;
+
+export type OrderStatusValue = (typeof ORDER_STATUSES)[number];
+
+// received → paid → shipped → completed, with cancel/refund branches.
+// Orders sent in several packages are partially shipped until the last one
+// goes out. Cancelled and refunded orders are closed and cannot move again.
+// A paid order is only cancelled by refunding it in full (issueRefund with
+// closeAs "cancelled"); cancelling an unpaid one voids its authorization.
+export const ORDER_STATUS_TRANSITIONS: Record<
+  OrderStatusValue,
+  OrderStatusValue[]
+> = {
+  received: ["paid", "cancelled"],
+  paid: ["partially_shipped", "shipped", "cancelled", "refunded"],
+  partially_shipped: ["shipped", "refunded"],
+  shipped: ["completed", "refunded"],
+  completed: ["refunded"],
+  cancelled: [],
+  refunded: [],
+};
+
+export interface OrderStatusHistoryEntry {
+  id: string;
+  from_status: OrderStatusValue | null; // Null for the order being placed
+  to_status: OrderStatusValue;
+  actor_type: "customer" | "admin" | "system";
+  actor_name?: string | null; // Only included for admins
+  note: string | null;
+  created_at: string | Date;
+}
+
+export function isOrderStatus(value: unknown): value is OrderStatusValue {
+  return (
+    typeof value === "string" &&
+    (ORDER_STATUSES as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Statuses an order may move to next from its current status
+ */
+export function getNextOrderStatuses(from: string): OrderStatusValue[] {
+  return isOrderStatus(from) ? ORDER_STATUS_TRANSITIONS[from] : [];
+}
+
+export function canTransitionOrderStatus(from: string, to: string): boolean {
+  return getNextOrderStatuses(from).includes(to as OrderStatusValue);
+}
+
+/**
+ * Statuses from which an order may move to the given status
+ */
+export function getOrderStatusesLeadingTo(
+  to: OrderStatusValue
+): OrderStatusValue[] {
+  return ORDER_STATUSES.filter((from) =>
+    ORDER_STATUS_TRANSITIONS[from].includes(to)
+  );
+}
+
+/**
+ * Display name for a status, e.g. "Partially shipped"
+ */
+export function formatOrderStatus(status: string): string {
+  const words = status.replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Timeline label for a history entry, e.g. "Order placed" or "Shipped"
+ */
+export function getOrderStatusLabel(
+  entry: Pick<OrderStatusHistoryEntry, "from_status" | "to_status">
+): string {
+  if (!entry.from_status) return "Order placed";
+  return formatOrderStatus(entry.to_status);
+}
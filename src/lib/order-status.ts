@@ -0,0 +1,199 @@
+import { and, asc, eq } from "drizzle-orm";
+import { DbExecutor } from "./db";
+import { auditLog, customers, orders, orderStatusHistory } from "./db/schema";
+import { activateOrderGiftCards, reverseOrderGiftCards } from "./gift-cards";
+import { restockOrder } from "./order-restock";
+import {
+  canTransitionOrderStatus,
+  OrderStatusHistoryEntry,
+} from "./order-status-utils";
+import { reverseOrderPurchases } from "./product-analytics";
+import { releaseOrderPromotion } from "./promotions";
+import { BackInStockTarget } from "./stock-notifications";
+
+export type OrderStatus = (typeof orders.status.enumValues)[number];
+
+export interface OrderStatusActor {
+  id: string | null;
+  type: "customer" | "admin" | "system";
+}
+
+export interface OrderStatusTransition {
+  orderId: string;
+  from: OrderStatus;
+  to: OrderStatus;
+}
+
+/**
+ * Add an entry to an order's status timeline. `from` is null for the entry
+ * written when the order is placed.
+ */
+export async function recordOrderStatusHistory(
+  executor: DbExecutor,
+  {
+    orderId,
+    from,
+    to,
+    actor,
+    source,
+    note,
+  }: {
+    orderId: string;
+    from: OrderStatus | null;
+    to: OrderStatus;
+    actor: OrderStatusActor;
+    source: string;
+    note?: string | null;
+  }
+) {
+  await executor.insert(orderStatusHistory).values({
+    order_id: orderId,
+    from_status: from,
+    to_status: to,
+    actor_id: actor.id,
+    actor_type: actor.type,
+    source,
+    note: note || null,
+  });
+}
+
+/**
+ * Move an order to a new status, recording the change in its status history
+ * and the audit log. The update only applies while the order is still in one
+ * of the allowed `from` statuses and the state machine permits the move, so
+ * concurrent updates cannot overwrite each other.
+ * Returns null when the order is missing or not in an allowed status.
+ */
+export async function transitionOrderStatus(
+  executor: DbExecutor,
+  {
+    orderId,
+    from,
+    to,
+    actor,
+    source,
+    note,
+    meta = {},
+  }: {
+    orderId: string;
+    from: OrderStatus[];
+    to: OrderStatus;
+    actor: OrderStatusActor;
+    source: string; // e.g. "payment_webhook", "admin"
+    note?: string | null;
+    meta?: Record<string, unknown>;
+  }
+): Promise<OrderStatusTransition | null> {
+  const current = await executor
+    .select({ status: orders.status })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+
+  if (
+    current.length === 0 ||
+    !from.includes(current[0].status) ||
+    !canTransitionOrderStatus(current[0].status, to)
+  ) {
+    return null;
+  }
+
+  const previousStatus = current[0].status;
+
+  const updated = await executor
+    .update(orders)
+    .set({ status: to, updated_at: new Date() })
+    .where(and(eq(orders.id, orderId), eq(orders.status, previousStatus)))
+    .returning({ id: orders.id });
+
+  if (updated.length === 0) {
+    return null;
+  }
+
+  await recordOrderStatusHistory(executor, {
+    orderId,
+    from: previousStatus,
+    to,
+    actor,
+    source,
+    note,
+  });
+
+  await executor.insert(auditLog).values({
+    actor_id: actor.id,
+    actor_type: actor.type,
+    action: "order.status_changed",
+    resource: `order:${orderId}`,
+    meta: { from: previousStatus, to, source, ...meta },
+  });
+
+  return { orderId, from: previousStatus, to };
+}
+
+/**
+ * An order's status timeline, oldest first. Admin names are only included
+ * for admin views; customers see who made a change by actor type alone.
+ */
+export async function getOrderStatusHistory(
+  executor: DbExecutor,
+  orderId: string,
+  { includeActorNames = false }: { includeActorNames?: boolean } = {}
+): Promise<OrderStatusHistoryEntry[]> {
+  const history = await executor
+    .select({
+      id: orderStatusHistory.id,
+      from_status: orderStatusHistory.from_status,
+      to_status: orderStatusHistory.to_status,
+      actor_type: orderStatusHistory.actor_type,
+      actor_name: customers.name,
+      actor_email: customers.email,
+      note: orderStatusHistory.note,
+      created_at: orderStatusHistory.created_at,
+    })
+    .from(orderStatusHistory)
+    .leftJoin(customers, eq(customers.id, orderStatusHistory.actor_id))
+    .where(eq(orderStatusHistory.order_id, orderId))
+    .orderBy(asc(orderStatusHistory.created_at));
+
+  return history.map(({ actor_name, actor_email, ...entry }) =>
+    includeActorNames && entry.actor_type === "admin"
+      ? { ...entry, actor_name: actor_name || actor_email }
+      : entry
+  );
+}
+
+// Statuses in which an order's units will never ship
+const CLOSED_STATUSES: OrderStatus[] = ["cancelled", "refunded"];
+
+/**
+ * Side effects of a status transition, run in the same transaction.
+ * Paying for an order activates the gift cards it bought; email them with
+ * sendOrderGiftCardEmails after the transaction commits. Closing an order
+ * reverses its sales analytics, gift card activity and promotion use and,
+ * unless `restock` is false (e.g. damaged goods that were returned), puts its
+ * units back in stock. Returns the products and variants that came back in
+ * stock; send their notifications after the transaction commits.
+ */
+export async function applyOrderStatusHooks(
+  executor: DbExecutor,
+  transition: OrderStatusTransition,
+  { restock = true }: { restock?: boolean } = {}
+): Promise<BackInStockTarget[]> {
+  if (transition.to === "paid") {
+    await activateOrderGiftCards(executor, transition.orderId);
+    return [];
+  }
+
+  if (
+    !CLOSED_STATUSES.includes(transition.to) ||
+    CLOSED_STATUSES.includes(transition.from)
+  ) {
+    return [];
+  }
+
+  await reverseOrderPurchases(executor, transition.orderId);
+  await releaseOrderPromotion(executor, transition.orderId);
+  await reverseOrderGiftCards(executor, transition.orderId);
+
+  return restock ? restockOrder(executor, transition.orderId) : [];
+}
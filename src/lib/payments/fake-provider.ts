@@ -0,0 +1,192 @@
+import crypto from "crypto";
+import {
+  CreateIntentParams,
+  PaymentIntent,
+  PaymentProvider,
+  PaymentRefund,
+  PaymentWebhookEvent,
+} from "./types";
+
+/**
+ * Local fake payment provider for development and offline testing.
+ * Intents live in memory, so they are lost when the server restarts.
+ *
+ * Test payment methods:
+ * - pm_fake_visa: authorizes successfully
+ * - pm_fake_declined: card declined
+ * - pm_fake_insufficient_funds: declined for insufficient funds
+ */
+
+export const FAKE_WEBHOOK_SIGNATURE_HEADER = "x-fake-payment-signature";
+
+const DECLINE_MESSAGES: Record<string, string> = {
+  pm_fake_declined: "Your card was declined.",
+  pm_fake_insufficient_funds: "Your card has insufficient funds.",
+};
+
+// In-memory intent store
+const intents = new Map<string, PaymentIntent & { captureMethod: string }>();
+
+function getWebhookSecret(): string {
+  return process.env.FAKE_PAYMENT_WEBHOOK_SECRET || "whsec_fake_local";
+}
+
+/**
+ * Sign a payload the same way verifyWebhook expects it.
+ * Used by local tooling to simulate provider webhooks.
+ */
+export function signFakeWebhookPayload(rawBody: string): string {
+  return crypto
+    .createHmac("sha256", getWebhookSecret())
+    .update(rawBody)
+    .digest("hex");
+}
+
+function getIntent(intentId: string) {
+  const intent = intents.get(intentId);
+  if (!intent) {
+    throw new Error(`Payment intent ${intentId} not found`);
+  }
+  return intent;
+}
+
+function toPublicIntent(
+  intent: PaymentIntent & { captureMethod: string }
+): PaymentIntent {
+  return {
+    id: intent.id,
+    status: intent.status,
+    amount: intent.amount,
+    amountCaptured: intent.amountCaptured,
+    currency: intent.currency,
+    clientSecret: intent.clientSecret,
+    failureMessage: intent.failureMessage,
+    metadata: { ...intent.metadata },
+  };
+}
+
+export const fakePaymentProvider: PaymentProvider = {
+  name: "fake",
+
+  async createIntent(params: CreateIntentParams) {
+    const id = `pi_fake_${crypto.randomBytes(12).toString("hex")}`;
+    const intent = {
+      id,
+      status: "requires_payment_method" as const,
+      amount: params.amount,
+      amountCaptured: 0,
+      currency: params.currency.toUpperCase(),
+      clientSecret: `${id}_secret_${crypto.randomBytes(8).toString("hex")}`,
+      metadata: params.metadata || {},
+      captureMethod: params.captureMethod || "automatic",
+    };
+    intents.set(id, intent);
+    return toPublicIntent(intent);
+  },
+
+  async confirmIntent(intentId: string, paymentMethodId: string) {
+    const intent = getIntent(intentId);
+
+    if (intent.status !== "requires_payment_method") {
+      throw new Error(`Payment intent ${intentId} cannot be confirmed`);
+    }
+
+    if (DECLINE_MESSAGES[paymentMethodId]) {
+      intent.failureMessage = DECLINE_MESSAGES[paymentMethodId];
+      return toPublicIntent(intent);
+    }
+
+    if (!paymentMethodId.startsWith("pm_fake_")) {
+      intent.failureMessage = "Unknown payment method.";
+      return toPublicIntent(intent);
+    }
+
+    intent.failureMessage = undefined;
+    if (intent.captureMethod === "manual") {
+      intent.status = "requires_capture";
+    } else {
+      intent.status = "succeeded";
+      intent.amountCaptured = intent.amount;
+    }
+    return toPublicIntent(intent);
+  },
+
+  async captureIntent(intentId: string, amount?: number) {
+    const intent = getIntent(intentId);
+
+    if (intent.status !== "requires_capture") {
+      throw new Error(`Payment intent ${intentId} is not capturable`);
+    }
+
+    const captureAmount = amount ?? intent.amount;
+    if (captureAmount > intent.amount) {
+      throw new Error("Capture amount exceeds authorized amount");
+    }
+
+    intent.status = "succeeded";
+    intent.amountCaptured = captureAmount;
+    return toPublicIntent(intent);
+  },
+
+  async cancelIntent(intentId: string) {
+    const intent = getIntent(intentId);
+
+    if (intent.status === "succeeded") {
+      throw new Error(`Payment intent ${intentId} has already been captured`);
+    }
+
+    intent.status = "canceled";
+    return toPublicIntent(intent);
+  },
+
+  async refund(intentId: string, amount?: number): Promise<PaymentRefund> {
+    const intent = getIntent(intentId);
+
+    if (intent.status !== "succeeded") {
+      throw new Error(`Payment intent ${intentId} has not been captured`);
+    }
+
+    const refundAmount = amount ?? intent.amountCaptured;
+    if (refundAmount <= 0 || refundAmount > intent.amountCaptured) {
+      throw new Error("Refund amount exceeds captured amount");
+    }
+
+    intent.amountCaptured -= refundAmount;
+    return {
+      id: `re_fake_${crypto.randomBytes(12).toString("hex")}`,
+      intentId,
+      amount: refundAmount,
+      status: "succeeded",
+    };
+  },
+
+  async verifyWebhook(rawBody, headers): Promise<PaymentWebhookEvent> {
+    const signature = headers[FAKE_WEBHOOK_SIGNATURE_HEADER];
+
+    if (!signature || typeof signature !== "string") {
+      throw new Error("Missing webhook signature");
+    }
+
+    const expected = signFakeWebhookPayload(rawBody);
+    if (
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new Error("Invalid webhook signature");
+    }
+
+    const event = JSON.parse(rawBody) as {
+      id: string;
+      type: PaymentWebhookEvent["type"];
+      data: { intent_id: string; amount?: number };
+    };
+
+    return {
+      id: event.id,
+      type: event.type,
+      intentId: event.data?.intent_id || null,
+      amount: event.data?.amount,
+      providerType: event.type,
+    };
+  },
+};
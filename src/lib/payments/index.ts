@@ -0,0 +1,57 @@
+import { fakePaymentProvider } from "./fake-provider";
+import { stripePaymentProvider } from "./stripe-provider";
+import { PaymentProvider } from "./types";
+
+export * from "./types";
+
+const providers: Record<string, PaymentProvider> = {
+  fake: fakePaymentProvider,
+  stripe: stripePaymentProvider,
+};
+
+// Currencies without a minor unit (amounts are sent as whole units)
+const ZERO_DECIMAL_CURRENCIES = ["JPY", "KRW", "VND", "CLP"];
+
+/**
+ * Get the configured payment provider.
+ * PAYMENT_PROVIDER is read on the server only; NEXT_PUBLIC_PAYMENT_PROVIDER
+ * tells the checkout page which payment form to render and must match it.
+ * Only development falls back to the local fake provider, which accepts any
+ * test card, so a missing setting cannot make checkout free elsewhere.
+ */
+export function getPaymentProvider(): PaymentProvider {
+  const name =
+    process.env.PAYMENT_PROVIDER ||
+    (process.env.NODE_ENV === "development" ? "fake" : undefined);
+  if (!name) {
+    throw new Error("PAYMENT_PROVIDER is not configured");
+  }
+
+  const provider = providers[name];
+
+  if (!provider) {
+    throw new Error(`Unknown payment provider: ${name}`);
+  }
+
+  return provider;
+}
+
+/**
+ * Convert a decimal amount (e.g. 12.34) to provider minor units (1234)
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  if (ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase())) {
+    return Math.round(amount);
+  }
+  return Math.round(amount * 100);
+}
+
+/**
+ * Convert provider minor units (1234) back to a decimal amount (12.34)
+ */
+export function fromMinorUnits(amount: number, currency: string): number {
+  if (ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase())) {
+    return amount;
+  }
+  return amount / 100;
+}
@@ -0,0 +1,291 @@
+import crypto from "crypto";
+import { getSecretAsync } from "../encryption/async-secrets";
+import {
+  CreateIntentParams,
+  PaymentEventType,
+  PaymentIntent,
+  PaymentIntentStatus,
+  PaymentProvider,
+  PaymentRefund,
+  PaymentWebhookEvent,
+} from "./types";
+
+/**
+ * Stripe payment provider
+ * Talks to the Stripe REST API directly so no SDK is required.
+ */
+
+const STRIPE_API_BASE = "https://api.stripe.com/v1";
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+// The parts of Stripe's API objects this provider reads
+interface StripePaymentIntent {
+  id: string;
+  status: string;
+  amount: number;
+  amount_received?: number;
+  currency: string;
+  client_secret: string | null;
+  next_action: { type: string } | null;
+  last_payment_error?: { message?: string } | null;
+  metadata?: Record<string, string>;
+}
+
+interface StripeRefund {
+  id: string;
+  amount: number;
+  status: string | null;
+}
+
+interface StripeErrorBody {
+  error?: {
+    type?: string;
+    message?: string;
+    payment_intent?: StripePaymentIntent;
+  };
+}
+
+// Lazy initialization of Stripe credentials
+let STRIPE_SECRET_KEY: string | null = null;
+let STRIPE_WEBHOOK_SECRET: string | null = null;
+
+async function initializeStripe() {
+  if (STRIPE_SECRET_KEY) return;
+
+  const secretKey = await getSecretAsync("STRIPE_SECRET_KEY");
+  if (!secretKey) {
+    throw new Error("Stripe secret key not configured in GCP Secret Manager");
+  }
+
+  STRIPE_SECRET_KEY = secretKey;
+  STRIPE_WEBHOOK_SECRET = await getSecretAsync("STRIPE_WEBHOOK_SECRET");
+}
+
+/**
+ * Encode nested params the way Stripe expects (metadata[key]=value)
+ */
+function encodeForm(params: Record<string, unknown>, prefix?: string): string {
+  const parts: string[] = [];
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue;
+    const fullKey = prefix ? `${prefix}[${key}]` : key;
+
+    if (Array.isArray(value)) {
+      value.forEach((item) => {
+        parts.push(
+          `${encodeURIComponent(`${fullKey}[]`)}=${encodeURIComponent(
+            String(item)
+          )}`
+        );
+      });
+    } else if (typeof value === "object") {
+      parts.push(encodeForm(value as Record<string, unknown>, fullKey));
+    } else {
+      parts.push(
+        `${encodeURIComponent(fullKey)}=${encodeURIComponent(String(value))}`
+      );
+    }
+  }
+
+  return parts.filter(Boolean).join("&");
+}
+
+async function stripeRequest<T>(
+  path: string,
+  params: Record<string, unknown> = {}
+): Promise<T> {
+  await initializeStripe();
+
+  const response = await fetch(`${STRIPE_API_BASE}${path}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${STRIPE_SECRET_KEY}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: encodeForm(params),
+  });
+
+  if (!response.ok) {
+    const body: StripeErrorBody = await response.json();
+    // Card declines come back as 402 with the updated intent attached
+    if (body?.error?.type === "card_error" && body.error.payment_intent) {
+      return {
+        ...body.error.payment_intent,
+        last_payment_error: { message: body.error.message },
+      } as T;
+    }
+    throw new Error(
+      `Stripe request failed: ${body?.error?.message || response.statusText}`
+    );
+  }
+
+  return response.json();
+}
+
+function mapIntentStatus(status: string): PaymentIntentStatus {
+  switch (status) {
+    case "requires_action":
+    case "processing":
+    case "requires_capture":
+    case "succeeded":
+    case "canceled":
+      return status;
+    case "requires_confirmation":
+    case "requires_payment_method":
+    default:
+      return "requires_payment_method";
+  }
+}
+
+function toPaymentIntent(stripeIntent: StripePaymentIntent): PaymentIntent {
+  return {
+    id: stripeIntent.id,
+    status: mapIntentStatus(stripeIntent.status),
+    amount: stripeIntent.amount,
+    amountCaptured: stripeIntent.amount_received || 0,
+    currency: String(stripeIntent.currency).toUpperCase(),
+    clientSecret: stripeIntent.client_secret || undefined,
+    failureMessage: stripeIntent.last_payment_error?.message || undefined,
+    metadata: stripeIntent.metadata || {},
+  };
+}
+
+function mapEventType(type: string): PaymentEventType {
+  switch (type) {
+    case "payment_intent.amount_capturable_updated":
+      return "payment.authorized";
+    case "payment_intent.succeeded":
+      return "payment.succeeded";
+    case "payment_intent.payment_failed":
+      return "payment.failed";
+    case "payment_intent.canceled":
+      return "payment.canceled";
+    case "charge.refunded":
+      return "payment.refunded";
+    default:
+      return "unknown";
+  }
+}
+
+export const stripePaymentProvider: PaymentProvider = {
+  name: "stripe",
+
+  async createIntent(params: CreateIntentParams) {
+    const intent = await stripeRequest<StripePaymentIntent>(
+      "/payment_intents",
+      {
+        amount: params.amount,
+        currency: params.currency.toLowerCase(),
+        capture_method: params.captureMethod || "automatic",
+        payment_method_types: ["card"],
+        metadata: params.metadata,
+      }
+    );
+    return toPaymentIntent(intent);
+  },
+
+  async confirmIntent(intentId: string, paymentMethodId: string) {
+    const intent = await stripeRequest<StripePaymentIntent>(
+      `/payment_intents/${intentId}/confirm`,
+      {
+        payment_method: paymentMethodId,
+      }
+    );
+    return toPaymentIntent(intent);
+  },
+
+  async captureIntent(intentId: string, amount?: number) {
+    const intent = await stripeRequest<StripePaymentIntent>(
+      `/payment_intents/${intentId}/capture`,
+      {
+        amount_to_capture: amount,
+      }
+    );
+    return toPaymentIntent(intent);
+  },
+
+  async cancelIntent(intentId: string) {
+    const intent = await stripeRequest<StripePaymentIntent>(
+      `/payment_intents/${intentId}/cancel`
+    );
+    return toPaymentIntent(intent);
+  },
+
+  async refund(intentId: string, amount?: number): Promise<PaymentRefund> {
+    const refund = await stripeRequest<StripeRefund>("/refunds", {
+      payment_intent: intentId,
+      amount,
+    });
+    return {
+      id: refund.id,
+      intentId,
+      amount: refund.amount,
+      status:
+        refund.status === "succeeded"
+          ? "succeeded"
+          : refund.status === "failed" || refund.status === "canceled"
+          ? "failed"
+          : "pending",
+    };
+  },
+
+  async verifyWebhook(rawBody, headers): Promise<PaymentWebhookEvent> {
+    await initializeStripe();
+
+    if (!STRIPE_WEBHOOK_SECRET) {
+      throw new Error("Stripe webhook secret not configured");
+    }
+
+    const header = headers["stripe-signature"];
+    if (!header || typeof header !== "string") {
+      throw new Error("Missing webhook signature");
+    }
+
+    // Header format: t=timestamp,v1=signature[,v1=signature]
+    const elements = header.split(",").map((part) => part.split("="));
+    const timestamp = elements.find(([key]) => key === "t")?.[1];
+    const signatures = elements
+      .filter(([key]) => key === "v1")
+      .map(([, value]) => value);
+
+    if (!timestamp || signatures.length === 0) {
+      throw new Error("Invalid webhook signature");
+    }
+
+    const age = Math.floor(Date.now() / 1000) - parseInt(timestamp, 10);
+    if (Number.isNaN(age) || age > WEBHOOK_TOLERANCE_SECONDS) {
+      throw new Error("Webhook timestamp outside tolerance");
+    }
+
+    const expected = crypto
+      .createHmac("sha256", STRIPE_WEBHOOK_SECRET)
+      .update(`${timestamp}.${rawBody}`)
+      .digest("hex");
+
+    const isValid = signatures.some(
+      (signature) =>
+        signature.length === expected.length &&
+        crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    );
+
+    if (!isValid) {
+      throw new Error("Invalid webhook signature");
+    }
+
+    const event = JSON.parse(rawBody);
+    const object = event.data?.object || {};
+    const type = mapEventType(event.type);
+
+    return {
+      id: event.id,
+      type,
+      intentId:
+        object.object === "payment_intent"
+          ? object.id
+          : object.payment_intent || null,
+      amount: type === "payment.refunded" ? object.amount_refunded : undefined,
+      providerType: event.type,
+    };
+  },
+};
@@ -0,0 +1,91 @@
+/**
+ * Payment provider abstraction
+ * Every provider (Stripe, the local fake, ...) implements this interface so
+ * checkout and webhooks never talk to a payment SDK directly.
+ */
+
+export type PaymentIntentStatus =
+  | "requires_payment_method" // Created, or the last attempt was declined
+  | "requires_action" // Customer must complete 3-D Secure or similar
+  | "processing"
+  | "requires_capture" // Authorized, funds held but not yet captured
+  | "succeeded"
+  | "canceled";
+
+export interface PaymentIntent {
+  id: string;
+  status: PaymentIntentStatus;
+  amount: number; // Minor units (cents)
+  amountCaptured: number; // Minor units (cents)
+  currency: string;
+  clientSecret?: string; // Only needed by the browser for requires_action
+  failureMessage?: string; // Decline reason from the last confirmation attempt
+  metadata: Record<string, string>;
+}
+
+export interface CreateIntentParams {
+  amount: number; // Minor units (cents)
+  currency: string;
+  captureMethod?: "automatic" | "manual";
+  metadata?: Record<string, string>;
+}
+
+export interface PaymentRefund {
+  id: string;
+  intentId: string;
+  amount: number; // Minor units (cents)
+  status: "pending" | "succeeded" | "failed";
+}
+
+export type PaymentEventType =
+  | "payment.authorized"
+  | "payment.succeeded"
+  | "payment.failed"
+  | "payment.canceled"
+  | "payment.refunded"
+  | "unknown";
+
+export interface PaymentWebhookEvent {
+  id: string; // Provider event id, used for idempotency
+  type: PaymentEventType;
+  intentId: string | null;
+  amount?: number; // Minor units (cents) - refunded amount for payment.refunded
+  providerType: string; // Original provider event type, e.g. "charge.refunded"
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+
+  createIntent(params: CreateIntentParams): Promise<PaymentIntent>;
+
+  /**
+   * Attach a payment method and attempt authorization.
+   * Declines are returned as an intent in "requires_payment_method" with a
+   * failureMessage rather than thrown.
+   */
+  confirmIntent(
+    intentId: string,
+    paymentMethodId: string
+  ): Promise<PaymentIntent>;
+
+  /**
+   * Capture an authorized intent. Omit amount to capture the full authorization.
+   */
+  captureIntent(intentId: string, amount?: number): Promise<PaymentIntent>;
+
+  cancelIntent(intentId: string): Promise<PaymentIntent>;
+
+  /**
+   * Refund a captured intent. Omit amount for a full refund.
+   */
+  refund(intentId: string, amount?: number): Promise<PaymentRefund>;
+
+  /**
+   * Verify a webhook signature against the raw request body and normalize
+   * the event. Throws if the signature is missing or invalid.
+   */
+  verifyWebhook(
+    rawBody: string,
+    headers: Record<string, string | string[] | undefined>
+  ): Promise<PaymentWebhookEvent>;
+}
@@ -0,0 +1,69 @@
+/**
+ * Sale pricing utilities
+ * Pure helpers shared by the storefront price displays and the admin sale
+ * scheduler.
+ */
+
+export const SALE_DISCOUNT_TYPES = [
+  "percentage", // Percent off the regular price
+  "amount_off", // Fixed amount off the regular price
+  "fixed_price", // Sell at this price
+] as const;
+
+export type SaleDiscountType = (typeof SALE_DISCOUNT_TYPES)[number];
+
+// Spread of current prices across a catalog listing, in the visitor's
+// currency, for the price range slider
+export interface PriceHistogram {
+  min: number;
+  max: number;
+  currency: string;
+  buckets: Array<{ min: number; max: number; count: number }>;
+}
+
+/**
+ * Sale price for a regular price, never below zero
+ */
+export function calculateSalePrice(
+  regularPrice: number,
+  type: SaleDiscountType,
+  value: number
+): number {
+  let price: number;
+  switch (type) {
+    case "percentage":
+      price = regularPrice * (1 - value / 100);
+      break;
+    case "amount_off":
+      price = regularPrice - value;
+      break;
+    case "fixed_price":
+      price = value;
+      break;
+  }
+  return Math.max(Math.round(price * 100) / 100, 0);
+}
+
+/**
+ * Whole percent saved against a compare-at price, or null when not on sale
+ */
+export function getPercentOff(
+  price: number | string,
+  compareAt?: number | string | null
+): number | null {
+  const current = typeof price === "string" ? parseFloat(price) : price;
+  const was =
+    typeof compareAt === "string" ? parseFloat(compareAt) : compareAt ?? null;
+  if (!was || !(was > current)) return null;
+  return Math.round(((was - current) / was) * 100);
+}
+
+/**
+ * "Sale ends Oct 21" style label for a sale's end date
+ */
+export function formatSaleEndsAt(endsAt: string | Date): string {
+  return `Sale ends ${new Date(endsAt).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  })}`;
+}
@@ -0,0 +1,466 @@
+import {
+  and,
+  asc,
+  eq,
+  gt,
+  inArray,
+  isNotNull,
+  isNull,
+  lte,
+  or,
+  SQL,
+  sql,
+} from "drizzle-orm";
+import {
+  convertAmount,
+  convertPrice,
+  CurrencyRate,
+  STORE_CURRENCY_RATE,
+} from "./currency-utils";
+import { DbExecutor } from "./db";
+import {
+  prices,
+  productOptions,
+  productOptionValues,
+  products,
+  productSearchIndex,
+} from "./db/schema";
+import {
+  calculateSalePrice,
+  PriceHistogram,
+  SaleDiscountType,
+} from "./pricing-utils";
+
+const PRICE_HISTOGRAM_BUCKETS = 10;
+
+export interface ActivePrice {
+  amount: number;
+  compare_at_amount: number | null; // "Was" price while a sale is running
+  currency: string;
+  sale_ends_at: Date | null;
+}
+
+interface ProductPricing {
+  regular: {
+    amount: number;
+    compare_at_amount: number | null;
+    currency: string;
+  } | null;
+  sale: typeof prices.$inferSelect | null;
+}
+
+/**
+ * Regular price and running sale (if any) of each product. The regular price
+ * is the product's base price, or its open-ended price row when no base
+ * price is set. A price row with a start or end date is a scheduled sale;
+ * when several are running, the most recently started one applies.
+ */
+async function getProductPricing(
+  executor: DbExecutor,
+  productIds: string[],
+  now: Date
+): Promise<Map<string, ProductPricing>> {
+  const ids = [...new Set(productIds)];
+  if (ids.length === 0) return new Map();
+
+  const [productRows, priceRows] = await Promise.all([
+    executor
+      .select({ id: products.id, base_price: products.base_price })
+      .from(products)
+      .where(inArray(products.id, ids)),
+    executor.select().from(prices).where(inArray(prices.product_id, ids)),
+  ]);
+
+  const regularRows = new Map<string, (typeof priceRows)[number]>();
+  const saleRows = new Map<string, (typeof priceRows)[number]>();
+
+  for (const row of priceRows) {
+    if (!row.starts_at && !row.ends_at) {
+      // Oldest open-ended row, matching the row the product editor creates
+      const existing = regularRows.get(row.product_id);
+      if (!existing || row.created_at < existing.created_at) {
+        regularRows.set(row.product_id, row);
+      }
+      continue;
+    }
+
+    if (!isSaleRunning(row, now)) continue;
+
+    const existing = saleRows.get(row.product_id);
+    if (
+      !existing ||
+      (row.starts_at?.getTime() || 0) > (existing.starts_at?.getTime() || 0)
+    ) {
+      saleRows.set(row.product_id, row);
+    }
+  }
+
+  const result = new Map<string, ProductPricing>();
+  for (const product of productRows) {
+    const regularRow = regularRows.get(product.id);
+    const regularAmount = product.base_price
+      ? parseFloat(product.base_price)
+      : regularRow
+      ? parseFloat(regularRow.amount)
+      : null;
+
+    result.set(product.id, {
+      regular:
+        regularAmount === null
+          ? null
+          : {
+              amount: regularAmount,
+              // A compare-at amount on the regular row only applies to the
+              // price it was entered against
+              compare_at_amount:
+                regularRow?.compare_at_amount &&
+                parseFloat(regularRow.amount) === regularAmount
+                  ? parseFloat(regularRow.compare_at_amount)
+                  : null,
+              currency: regularRow?.currency || "USD",
+            },
+      sale: saleRows.get(product.id) || null,
+    });
+  }
+
+  return result;
+}
+
+function isSaleRunning(
+  sale: { starts_at: Date | null; ends_at: Date | null },
+  now: Date
+): boolean {
+  return (
+    (!sale.starts_at || sale.starts_at <= now) &&
+    (!sale.ends_at || sale.ends_at > now)
+  );
+}
+
+/**
+ * The price each product sells at right now, used everywhere a price is
+ * shown or charged: the running sale if there is one, otherwise the regular
+ * price. A sale without its own compare-at amount is shown against the
+ * regular price. Products with no price at all are left out. Amounts are
+ * converted to the given currency with its rounding rule.
+ */
+export async function getActivePrices(
+  executor: DbExecutor,
+  productIds: string[],
+  currencyRate: CurrencyRate = STORE_CURRENCY_RATE,
+  now: Date = new Date()
+): Promise<Map<string, ActivePrice>> {
+  const pricing = await getProductPricing(executor, productIds, now);
+
+  const result = new Map<string, ActivePrice>();
+  for (const [productId, { regular, sale }] of pricing) {
+    let amount: number;
+    let compareAt: number | null;
+    if (sale) {
+      amount = parseFloat(sale.amount);
+      compareAt = sale.compare_at_amount
+        ? parseFloat(sale.compare_at_amount)
+        : regular?.amount ?? null;
+    } else if (regular) {
+      amount = regular.amount;
+      compareAt = regular.compare_at_amount;
+    } else {
+      continue;
+    }
+
+    const convertedAmount = convertPrice(amount, currencyRate);
+    const convertedCompareAt =
+      compareAt !== null ? convertPrice(compareAt, currencyRate) : null;
+
+    result.set(productId, {
+      amount: convertedAmount,
+      compare_at_amount:
+        convertedCompareAt !== null && convertedCompareAt > convertedAmount
+          ? convertedCompareAt
+          : null,
+      currency: currencyRate.currency,
+      sale_ends_at: sale?.ends_at || null,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Current unit price of each line: the product's active price plus the
+ * adjustments of its selected options. Null when the product has no price.
+ * Shared by the cart, the checkout validation and order submission so a
+ * shopper is charged what they were shown.
+ */
+export async function getLineUnitPrices(
+  executor: DbExecutor,
+  lines: Array<{
+    product_id: string;
+    selected_options?: Record<string, string> | null;
+  }>,
+  currencyRate: CurrencyRate = STORE_CURRENCY_RATE,
+  now: Date = new Date()
+): Promise<Array<number | null>> {
+  const productIds = [...new Set(lines.map((line) => line.product_id))];
+  const valueNames = [
+    ...new Set(
+      lines.flatMap((line) => Object.values(line.selected_options || {}))
+    ),
+  ];
+
+  const [activePrices, adjustmentRows] = await Promise.all([
+    getActivePrices(executor, productIds, currencyRate, now),
+    valueNames.length > 0
+      ? executor
+          .select({
+            product_id: productOptions.product_id,
+            option_name: productOptions.name,
+            value_name: productOptionValues.name,
+            price_adjustment: productOptionValues.price_adjustment,
+          })
+          .from(productOptionValues)
+          .innerJoin(
+            productOptions,
+            eq(productOptionValues.option_id, productOptions.id)
+          )
+          .where(
+            and(
+              inArray(productOptions.product_id, productIds),
+              inArray(productOptionValues.name, valueNames)
+            )
+          )
+      : [],
+  ]);
+
+  const adjustments = new Map(
+    adjustmentRows.map((row) => [
+      `${row.product_id}:${row.option_name}:${row.value_name}`,
+      convertAmount(parseFloat(row.price_adjustment), currencyRate),
+    ])
+  );
+
+  return lines.map((line) => {
+    const price = activePrices.get(line.product_id);
+    if (!price) return null;
+
+    let unitAmount = price.amount;
+    for (const [optionName, valueName] of Object.entries(
+      line.selected_options || {}
+    )) {
+      unitAmount +=
+        adjustments.get(`${line.product_id}:${optionName}:${valueName}`) || 0;
+    }
+
+    return Math.round(unitAmount * 100) / 100;
+  });
+}
+
+/**
+ * SQL for the price a product sells at right now, in the store currency,
+ * for sorting and filtering catalog queries on products. Mirrors
+ * getActivePrices: the most recently started running sale, otherwise the
+ * base price, otherwise the oldest open-ended price row. Null when the
+ * product has no price.
+ */
+export function activePriceSql(now: Date = new Date()) {
+  const runningSale = and(
+    eq(prices.product_id, products.id),
+    or(isNotNull(prices.starts_at), isNotNull(prices.ends_at)),
+    or(isNull(prices.starts_at), lte(prices.starts_at, now)),
+    or(isNull(prices.ends_at), gt(prices.ends_at, now))
+  );
+  const regularRow = and(
+    eq(prices.product_id, products.id),
+    isNull(prices.starts_at),
+    isNull(prices.ends_at)
+  );
+
+  return sql<string | null>`COALESCE(
+    (SELECT ${prices.amount} FROM ${prices} WHERE ${runningSale} ORDER BY ${prices.starts_at} DESC NULLS LAST LIMIT 1),
+    ${products.base_price},
+    (SELECT ${prices.amount} FROM ${prices} WHERE ${regularRow} ORDER BY ${prices.created_at} ASC LIMIT 1)
+  )`;
+}
+
+/**
+ * How the current prices of the products matching a catalog query are
+ * spread, in equal-width buckets between the cheapest and the dearest, with
+ * bounds converted to the given currency. The search index is joined so
+ * search conditions can be used. Null when no matching product has a price.
+ */
+export async function getPriceHistogram(
+  executor: DbExecutor,
+  where: SQL | undefined,
+  currencyRate: CurrencyRate = STORE_CURRENCY_RATE,
+  now: Date = new Date()
+): Promise<PriceHistogram | null> {
+  const price = activePriceSql(now);
+
+  const [range] = await executor
+    .select({
+      min: sql<string | null>`min(${price})`,
+      max: sql<string | null>`max(${price})`,
+    })
+    .from(products)
+    .leftJoin(
+      productSearchIndex,
+      eq(productSearchIndex.product_id, products.id)
+    )
+    .where(where);
+
+  if (!range || range.min === null || range.max === null) {
+    return null;
+  }
+
+  // Whole-unit bounds so the slider steps cleanly
+  const min = Math.floor(parseFloat(range.min));
+  const max = Math.max(Math.ceil(parseFloat(range.max)), min + 1);
+  const width = (max - min) / PRICE_HISTOGRAM_BUCKETS;
+
+  const rows = await executor
+    .select({
+      bucket:
+        sql<number>`width_bucket(${price}, ${min}::numeric, ${max}::numeric, ${PRICE_HISTOGRAM_BUCKETS}::int)`.mapWith(
+          Number
+        ),
+      count: sql<number>`count(*)`.mapWith(Number),
+    })
+    .from(products)
+    .leftJoin(
+      productSearchIndex,
+      eq(productSearchIndex.product_id, products.id)
+    )
+    .where(and(where, sql`${price} IS NOT NULL`))
+    .groupBy(sql`1`);
+
+  const counts = new Array<number>(PRICE_HISTOGRAM_BUCKETS).fill(0);
+  for (const row of rows) {
+    // The dearest product lands just past the last bucket
+    const index = Math.min(Math.max(row.bucket, 1), PRICE_HISTOGRAM_BUCKETS);
+    counts[index - 1] += row.count;
+  }
+
+  return {
+    min: Math.floor(convertAmount(min, currencyRate)),
+    max: Math.ceil(convertAmount(max, currencyRate)),
+    currency: currencyRate.currency,
+    buckets: counts.map((count, index) => ({
+      min: convertAmount(min + width * index, currencyRate),
+      max: convertAmount(min + width * (index + 1), currencyRate),
+      count,
+    })),
+  };
+}
+
+/**
+ * Schedule a sale on each product, priced off its regular price. Products
+ * without a regular price are skipped.
+ */
+export async function scheduleSale(
+  executor: DbExecutor,
+  productIds: string[],
+  sale: {
+    type: SaleDiscountType;
+    value: number;
+    starts_at: Date;
+    ends_at?: Date | null;
+  }
+): Promise<{ scheduled: number; skipped: number }> {
+  const pricing = await getProductPricing(executor, productIds, sale.starts_at);
+
+  const rows = [...pricing]
+    .filter(([, { regular }]) => regular)
+    .map(([productId, { regular }]) => ({
+      product_id: productId,
+      currency: regular!.currency,
+      amount: calculateSalePrice(
+        regular!.amount,
+        sale.type,
+        sale.value
+      ).toFixed(2),
+      // Left empty so the sale is always shown against the current
+      // regular price
+      compare_at_amount: null,
+      starts_at: sale.starts_at,
+      ends_at: sale.ends_at || null,
+    }));
+
+  if (rows.length > 0) {
+    await executor.insert(prices).values(rows);
+  }
+
+  return {
+    scheduled: rows.length,
+    skipped: new Set(productIds).size - rows.length,
+  };
+}
+
+/**
+ * Upcoming and running sales for a product, soonest first
+ */
+export async function getScheduledSales(
+  executor: DbExecutor,
+  productId: string,
+  now: Date = new Date()
+) {
+  const rows = await executor
+    .select({
+      id: prices.id,
+      amount: prices.amount,
+      compare_at_amount: prices.compare_at_amount,
+      currency: prices.currency,
+      starts_at: prices.starts_at,
+      ends_at: prices.ends_at,
+    })
+    .from(prices)
+    .where(
+      and(
+        eq(prices.product_id, productId),
+        or(isNotNull(prices.starts_at), isNotNull(prices.ends_at)),
+        or(isNull(prices.ends_at), gt(prices.ends_at, now))
+      )
+    )
+    .orderBy(asc(prices.starts_at));
+
+  return rows.map((row) => ({
+    ...row,
+    amount: parseFloat(row.amount),
+    compare_at_amount: row.compare_at_amount
+      ? parseFloat(row.compare_at_amount)
+      : null,
+    is_running: isSaleRunning(row, now),
+  }));
+}
+
+/**
+ * End sales now: running sales are closed off so their history is kept,
+ * sales that have not started are removed. Limited to the given products,
+ * and to one sale when saleId is given. Returns how many were ended.
+ */
+export async function endSales(
+  executor: DbExecutor,
+  productIds: string[],
+  saleId?: string,
+  now: Date = new Date()
+): Promise<number> {
+  if (productIds.length === 0) return 0;
+
+  const scope = and(
+    inArray(prices.product_id, productIds),
+    saleId ? eq(prices.id, saleId) : undefined,
+    or(isNotNull(prices.starts_at), isNotNull(prices.ends_at)),
+    or(isNull(prices.ends_at), gt(prices.ends_at, now))
+  );
+
+  const removed = await executor
+    .delete(prices)
+    .where(and(scope, gt(prices.starts_at, now)))
+    .returning({ id: prices.id });
+
+  const closed = await executor
+    .update(prices)
+    .set({ ends_at: now, updated_at: now })
+    .where(scope)
+    .returning({ id: prices.id });
+
+  return removed.length + closed.length;
+}
@@ -1,5 +1,5 @@
 import { eq, sql } from "drizzle-orm";
-import { db } from "./db";
+import { db, DbExecutor } from "./db";
 import { productAnalytics, productPurchases } from "./db/schema";
 
 /**
@@ -57,6 +57,58 @@ export async function trackProductPurchase(data: {
   }
 }
 
+/**
+ * Reverse the purchases recorded for an order that was cancelled or refunded.
+ * Purchase rows are removed as they are reversed, so repeated calls for the
+ * same order leave the totals untouched.
+ */
+export async function reverseOrderPurchases(
+  executor: DbExecutor,
+  orderId: string
+) {
+  const purchases = await executor
+    .delete(productPurchases)
+    .where(eq(productPurchases.order_id, orderId))
+    .returning({
+      product_id: productPurchases.product_id,
+      quantity: productPurchases.quantity,
+      total_price: productPurchases.total_price,
+    });
+
+  // Each order line was tracked as one sale, so reverse them per product
+  const totalsByProduct = new Map<
+    string,
+    { quantity: number; orders: number; revenue: number }
+  >();
+  for (const purchase of purchases) {
+    const totals = totalsByProduct.get(purchase.product_id) || {
+      quantity: 0,
+      orders: 0,
+      revenue: 0,
+    };
+    totals.quantity += purchase.quantity;
+    totals.orders += 1;
+    totals.revenue += parseFloat(purchase.total_price);
+    totalsByProduct.set(purchase.product_id, totals);
+  }
+
+  for (const [productId, totals] of totalsByProduct) {
+    await executor
+      .update(productAnalytics)
+      .set({
+        total_sales: sql`GREATEST(${productAnalytics.total_sales} - ${totals.quantity}, 0)`,
+        total_orders: sql`GREATEST(${productAnalytics.total_orders} - ${totals.orders}, 0)`,
+        total_revenue: sql`GREATEST(${
+          productAnalytics.total_revenue
+        } - ${totals.revenue.toFixed(2)}, 0)`,
+        updated_at: new Date(),
+      })
+      .where(eq(productAnalytics.product_id, productId));
+  }
+
+  return purchases.length;
+}
+
 /**
  * Track product views
  */
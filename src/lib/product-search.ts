@@ -0,0 +1,244 @@
+import {
+  and,
+  count,
+  desc,
+  eq,
+  gte,
+  ilike,
+  lte,
+  max,
+  or,
+  sql,
+} from "drizzle-orm";
+import { getCategoryList } from "./categories";
+import { DbExecutor } from "./db";
+import {
+  productMedia,
+  products,
+  productSearchIndex,
+  tags,
+  zeroResultSearches,
+} from "./db/schema";
+import { getProductImageUrl, getThumbnailUrl } from "./image-utils";
+import {
+  getSearchSnippet,
+  getSearchTerms,
+  hasSearchMatch,
+  highlightSearchTerms,
+  HighlightSegment,
+  MIN_SUGGESTION_QUERY_LENGTH,
+  normalizeSearchQuery,
+  SearchSuggestions,
+} from "./search-utils";
+import { cleanProductTitle } from "./utils";
+
+// Title similarity counts as much as a full-text hit in the title, so a
+// misspelled product name still ranks near the top
+const TITLE_SIMILARITY_WEIGHT = 0.5;
+const TEXT_SIMILARITY_WEIGHT = 0.25;
+
+const SUGGESTED_PRODUCTS = 6;
+const SUGGESTED_CATEGORIES = 4;
+const SUGGESTED_TAGS = 4;
+
+/**
+ * Products that match a search query, for use with a left join on
+ * productSearchIndex. Matches words (stemmed, so "bracelets" finds
+ * "bracelet") or, for typos, text with a similar word ("amethist" finds
+ * "amethyst").
+ */
+export function matchesProductSearch(query: string) {
+  return sql<boolean>`(${productSearchIndex.document} @@ websearch_to_tsquery('english', ${query}) OR ${query} <% ${productSearchIndex.search_text})`;
+}
+
+/**
+ * Relevance of a product to a search query, highest first. Full-text rank
+ * weighs title over tags, categories and options over description; trigram
+ * similarity lifts near-misses.
+ */
+export function productSearchRank(query: string) {
+  return sql<number>`(
+    coalesce(ts_rank(${productSearchIndex.document}, websearch_to_tsquery('english', ${query}), 1), 0)
+    + coalesce(word_similarity(${query}, ${productSearchIndex.title}), 0) * ${TITLE_SIMILARITY_WEIGHT}
+    + coalesce(word_similarity(${query}, ${productSearchIndex.search_text}), 0) * ${TEXT_SIMILARITY_WEIGHT}
+  )`;
+}
+
+/**
+ * Display title and description snippet of a search result with the words
+ * that match the query marked
+ */
+export function getProductSearchHighlights(
+  product: { title: string; description: string },
+  query: string
+): { title: HighlightSegment[]; snippet: HighlightSegment[] } {
+  return {
+    title: highlightSearchTerms(cleanProductTitle(product.title), query),
+    snippet: getSearchSnippet(product.description, query),
+  };
+}
+
+/**
+ * Prefix tsquery for a partly typed query, so "amet" already finds
+ * "amethyst". Terms are letters and digits only, so safe for to_tsquery.
+ */
+function prefixSearchQuery(query: string): string | null {
+  const terms = getSearchTerms(query);
+  return terms.length > 0 ? terms.map((term) => `${term}:*`).join(" & ") : null;
+}
+
+/**
+ * Escape LIKE wildcards so "50%" or "rose_quartz" match literally. Backslash
+ * is Postgres's default LIKE escape character.
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * Products, categories and tags matching what the visitor has typed so far,
+ * best matches first
+ */
+export async function getSearchSuggestions(
+  executor: DbExecutor,
+  query: string
+): Promise<SearchSuggestions> {
+  if (query.trim().length < MIN_SUGGESTION_QUERY_LENGTH) {
+    return { products: [], categories: [], tags: [] };
+  }
+
+  const prefix = prefixSearchQuery(query);
+  const matchesPrefix = prefix
+    ? or(
+        sql`${productSearchIndex.document} @@ to_tsquery('simple', ${prefix})`,
+        matchesProductSearch(query)
+      )
+    : matchesProductSearch(query);
+  const prefixRank = prefix
+    ? sql`coalesce(ts_rank(${productSearchIndex.document}, to_tsquery('simple', ${prefix}), 1), 0)`
+    : sql`0`;
+
+  const [productRows, categoryList, tagRows] = await Promise.all([
+    executor
+      .select({
+        id: products.id,
+        slug: products.slug,
+        title: products.title,
+        image: products.image,
+        media_url: sql<string | null>`(
+          SELECT ${productMedia.blob_url} FROM ${productMedia}
+          WHERE ${productMedia.product_id} = ${products.id}
+          ORDER BY ${productMedia.sort} LIMIT 1
+        )`,
+      })
+      .from(products)
+      .innerJoin(
+        productSearchIndex,
+        eq(productSearchIndex.product_id, products.id)
+      )
+      .where(and(eq(products.status, "active"), matchesPrefix))
+      .orderBy(
+        desc(sql`${prefixRank} + ${productSearchRank(query)}`),
+        desc(products.created_at)
+      )
+      .limit(SUGGESTED_PRODUCTS),
+    getCategoryList(executor),
+    executor
+      .select({ name: tags.name })
+      .from(tags)
+      .where(
+        or(
+          ilike(tags.name, `%${escapeLikePattern(query.trim())}%`),
+          sql`${query} <% ${tags.name}`
+        )
+      )
+      .orderBy(desc(sql`word_similarity(${query}, ${tags.name})`))
+      .limit(SUGGESTED_TAGS),
+  ]);
+
+  const categoryNames = new Map(
+    categoryList.map((category) => [category.id, category.name])
+  );
+
+  return {
+    products: productRows.map((product) => ({
+      id: product.id,
+      slug: product.slug,
+      title: highlightSearchTerms(cleanProductTitle(product.title), query),
+      thumbnail: getThumbnailUrl(
+        getProductImageUrl(product.image, product.media_url)
+      ),
+    })),
+    categories: categoryList
+      .filter((category) => hasSearchMatch(category.name, query))
+      .slice(0, SUGGESTED_CATEGORIES)
+      .map((category) => ({
+        slug: category.slug,
+        name: highlightSearchTerms(category.name, query),
+        parent: category.parent_id
+          ? categoryNames.get(category.parent_id) || null
+          : null,
+      })),
+    tags: tagRows.map((tag) => ({
+      name: tag.name,
+      highlights: highlightSearchTerms(tag.name, query),
+    })),
+  };
+}
+
+/**
+ * Log a storefront search that found no products
+ */
+export async function recordZeroResultSearch(
+  executor: DbExecutor,
+  query: string
+): Promise<void> {
+  const normalized = normalizeSearchQuery(query);
+  if (normalized.length < MIN_SUGGESTION_QUERY_LENGTH) return;
+  await executor.insert(zeroResultSearches).values({ query: normalized });
+}
+
+/**
+ * The most repeated searches that found nothing in the range, for the
+ * admin analytics
+ */
+export async function getZeroResultSearchStats(
+  executor: DbExecutor,
+  range: { start: Date; end: Date },
+  limit = 10
+) {
+  const inRange = and(
+    gte(zeroResultSearches.created_at, range.start),
+    lte(zeroResultSearches.created_at, range.end)
+  );
+
+  const [totals, queries] = await Promise.all([
+    executor
+      .select({
+        searches: count(),
+        queries:
+          sql<number>`count(distinct ${zeroResultSearches.query})`.mapWith(
+            Number
+          ),
+      })
+      .from(zeroResultSearches)
+      .where(inRange),
+    executor
+      .select({
+        query: zeroResultSearches.query,
+        count: count(),
+        lastSearchedAt: max(zeroResultSearches.created_at),
+      })
+      .from(zeroResultSearches)
+      .where(inRange)
+      .groupBy(zeroResultSearches.query)
+      .orderBy(desc(count()), desc(max(zeroResultSearches.created_at)))
+      .limit(limit),
+  ]);
+
+  return {
+    searches: totals[0].searches,
+    uniqueQueries: totals[0].queries,
+    topQueries: queries,
+  };
+}
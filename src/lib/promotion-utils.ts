@@ -0,0 +1,67 @@
+/**
+ * Promotion code utilities
+ * Pure helpers shared by the cart/checkout pages and the checkout API so the
+ * discount shown to the customer matches the one charged.
+ */
+
+import { STORE_CURRENCY } from "./currency-utils";
+import { formatPrice } from "./utils";
+
+export type PromotionType = "percentage" | "fixed_amount" | "free_shipping";
+
+export interface AppliedPromotion {
+  code: string;
+  type: PromotionType;
+  value: number;
+  discount: number; // Amount taken off the subtotal
+  freeShipping: boolean;
+}
+
+/**
+ * Codes are matched case-insensitively and stored upper-case
+ */
+export function normalizePromotionCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Calculate the discount a promotion gives on a subtotal.
+ * Never exceeds the subtotal; free shipping promotions discount shipping
+ * instead, so they return 0 here.
+ */
+export function calculatePromotionDiscount(
+  type: PromotionType,
+  value: number,
+  subtotal: number
+): number {
+  if (subtotal <= 0) return 0;
+
+  let discount = 0;
+  if (type === "percentage") {
+    discount = subtotal * (Math.min(value, 100) / 100);
+  } else if (type === "fixed_amount") {
+    discount = value;
+  }
+
+  return Math.round(Math.min(discount, subtotal) * 100) / 100;
+}
+
+/**
+ * Human-readable summary, e.g. "15% off" or "Free shipping". Fixed amounts
+ * are in `currency`: the store currency for stored promotions, the request
+ * currency for one applied at checkout.
+ */
+export function describePromotion(
+  type: PromotionType,
+  value: number,
+  currency: string = STORE_CURRENCY
+): string {
+  switch (type) {
+    case "percentage":
+      return `${value}% off`;
+    case "fixed_amount":
+      return `${formatPrice(value, currency)} off`;
+    case "free_shipping":
+      return "Free shipping";
+  }
+}
@@ -0,0 +1,252 @@
+import {
+  and,
+  eq,
+  gt,
+  inArray,
+  isNull,
+  lt,
+  lte,
+  notInArray,
+  or,
+  sql,
+} from "drizzle-orm";
+import {
+  convertAmount,
+  CurrencyRate,
+  STORE_CURRENCY_RATE,
+} from "./currency-utils";
+import { DbExecutor } from "./db";
+import { orders, promotions } from "./db/schema";
+import {
+  AppliedPromotion,
+  calculatePromotionDiscount,
+  normalizePromotionCode,
+} from "./promotion-utils";
+
+export type PromotionStatus =
+  | "active"
+  | "paused"
+  | "scheduled"
+  | "expired"
+  | "exhausted";
+
+export interface PromotionRedemptionStats {
+  redemptions: number;
+  totalDiscount: number;
+  totalRevenue: number;
+  lastRedeemedAt: Date | null;
+}
+
+export type PromotionResult =
+  | { valid: true; promotionId: string; promotion: AppliedPromotion }
+  | { valid: false; error: string };
+
+/**
+ * Look up a promotion code and work out what it is worth on a subtotal in
+ * the given currency. Checks the schedule and usage limit but does not
+ * redeem the code.
+ */
+export async function resolvePromotion(
+  executor: DbExecutor,
+  code: string,
+  subtotal: number,
+  currencyRate: CurrencyRate = STORE_CURRENCY_RATE,
+  now: Date = new Date()
+): Promise<PromotionResult> {
+  const normalizedCode = normalizePromotionCode(code);
+  if (!normalizedCode) {
+    return { valid: false, error: "Promotion code is required" };
+  }
+
+  const result = await executor
+    .select()
+    .from(promotions)
+    .where(sql`upper(${promotions.code}) = ${normalizedCode}`)
+    .limit(1);
+
+  if (result.length === 0) {
+    return { valid: false, error: "Promotion code not found" };
+  }
+
+  const promotion = result[0];
+
+  if (!promotion.is_active) {
+    return { valid: false, error: "Promotion code is not active" };
+  }
+
+  if (promotion.starts_at && promotion.starts_at > now) {
+    return { valid: false, error: "Promotion code is not active yet" };
+  }
+
+  if (promotion.ends_at && promotion.ends_at <= now) {
+    return { valid: false, error: "Promotion code has expired" };
+  }
+
+  if (
+    promotion.usage_limit !== null &&
+    promotion.used >= promotion.usage_limit
+  ) {
+    return {
+      valid: false,
+      error: "Promotion code has reached its usage limit",
+    };
+  }
+
+  // Fixed discounts are entered in the store currency
+  const value =
+    promotion.type === "fixed_amount"
+      ? convertAmount(parseFloat(promotion.value), currencyRate)
+      : parseFloat(promotion.value);
+
+  return {
+    valid: true,
+    promotionId: promotion.id,
+    promotion: {
+      code: promotion.code,
+      type: promotion.type,
+      value,
+      discount: calculatePromotionDiscount(promotion.type, value, subtotal),
+      freeShipping: promotion.type === "free_shipping",
+    },
+  };
+}
+
+/**
+ * Atomically count one use of a promotion. The increment only succeeds while
+ * the promotion is still active and under its usage limit, so concurrent
+ * checkouts cannot redeem a code more times than allowed.
+ * Returns false when the promotion can no longer be used.
+ */
+export async function redeemPromotion(
+  executor: DbExecutor,
+  promotionId: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const updated = await executor
+    .update(promotions)
+    .set({ used: sql`${promotions.used} + 1`, updated_at: now })
+    .where(
+      and(
+        eq(promotions.id, promotionId),
+        eq(promotions.is_active, true),
+        or(
+          isNull(promotions.usage_limit),
+          lt(promotions.used, promotions.usage_limit)
+        ),
+        or(isNull(promotions.starts_at), lte(promotions.starts_at, now)),
+        or(isNull(promotions.ends_at), gt(promotions.ends_at, now))
+      )
+    )
+    .returning({ id: promotions.id });
+
+  return updated.length > 0;
+}
+
+/**
+ * Give back the use an order counted against its promotion, once the order
+ * is cancelled or fully refunded
+ */
+export async function releaseOrderPromotion(
+  executor: DbExecutor,
+  orderId: string
+) {
+  const [order] = await executor
+    .select({ promotion_id: orders.promotion_id })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+  if (!order?.promotion_id) return;
+
+  await executor
+    .update(promotions)
+    .set({
+      used: sql`greatest(${promotions.used} - 1, 0)`,
+      updated_at: new Date(),
+    })
+    .where(eq(promotions.id, order.promotion_id));
+}
+
+/**
+ * Where a promotion is in its lifecycle, for display in the admin
+ */
+export function getPromotionStatus(
+  promotion: typeof promotions.$inferSelect,
+  now: Date = new Date()
+): PromotionStatus {
+  if (!promotion.is_active) return "paused";
+  if (promotion.ends_at && promotion.ends_at <= now) return "expired";
+  if (
+    promotion.usage_limit !== null &&
+    promotion.used >= promotion.usage_limit
+  ) {
+    return "exhausted";
+  }
+  if (promotion.starts_at && promotion.starts_at > now) return "scheduled";
+  return "active";
+}
+
+/**
+ * Redemption stats per promotion, taken from the orders that used it.
+ * Cancelled and refunded orders are not counted.
+ */
+export async function getPromotionRedemptionStats(
+  executor: DbExecutor,
+  promotionIds: string[]
+): Promise<Map<string, PromotionRedemptionStats>> {
+  const stats = new Map<string, PromotionRedemptionStats>();
+  if (promotionIds.length === 0) return stats;
+
+  const rows = await executor
+    .select({
+      promotion_id: orders.promotion_id,
+      redemptions: sql<string>`count(*)`,
+      // In the store currency, whatever the orders were placed in
+      total_discount: sql<string>`coalesce(sum(${orders.discount} / ${orders.exchange_rate}), 0)`,
+      total_revenue: sql<string>`coalesce(sum(${orders.total} / ${orders.exchange_rate}), 0)`,
+      last_redeemed_at: sql<string | null>`max(${orders.created_at})`,
+    })
+    .from(orders)
+    .where(
+      and(
+        inArray(orders.promotion_id, promotionIds),
+        notInArray(orders.status, ["cancelled", "refunded"])
+      )
+    )
+    .groupBy(orders.promotion_id);
+
+  for (const row of rows) {
+    if (!row.promotion_id) continue;
+    stats.set(row.promotion_id, {
+      redemptions: parseInt(row.redemptions),
+      totalDiscount: parseFloat(row.total_discount),
+      totalRevenue: parseFloat(row.total_revenue),
+      lastRedeemedAt: row.last_redeemed_at
+        ? new Date(row.last_redeemed_at)
+        : null,
+    });
+  }
+
+  return stats;
+}
+
+const EMPTY_REDEMPTION_STATS: PromotionRedemptionStats = {
+  redemptions: 0,
+  totalDiscount: 0,
+  totalRevenue: 0,
+  lastRedeemedAt: null,
+};
+
+/**
+ * Shape a promotion row for the admin API
+ */
+export function formatPromotionForAdmin(
+  promotion: typeof promotions.$inferSelect,
+  stats?: PromotionRedemptionStats
+) {
+  return {
+    ...promotion,
+    value: parseFloat(promotion.value),
+    status: getPromotionStatus(promotion),
+    stats: stats || EMPTY_REDEMPTION_STATS,
+  };
+}
@@ -87,6 +87,14 @@ export async function uploadImageToR2(
   }
 }
 
+/**
+ * Public URL an object stored under `key` is served from
+ */
+export async function getPublicUrl(key: string): Promise<string> {
+  await initializeR2Client();
+  return `${PUBLIC_URL_BASE}/${key}`;
+}
+
 export async function uploadImageVariants(
   fullFile: File | Buffer,
   thumbnailFile: File | Buffer,
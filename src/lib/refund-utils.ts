@@ -0,0 +1,47 @@
+/**
+ * Refund utilities
+ * Pure helpers shared by the admin refund screen, the refund API and the
+ * refund email.
+ */
+
+export type RefundReason =
+  | "requested_by_customer"
+  | "damaged"
+  | "wrong_item"
+  | "not_received"
+  | "duplicate"
+  | "other";
+
+export const REFUND_REASONS: Array<{ value: RefundReason; label: string }> = [
+  { value: "requested_by_customer", label: "Requested by customer" },
+  { value: "damaged", label: "Arrived damaged" },
+  { value: "wrong_item", label: "Wrong item sent" },
+  { value: "not_received", label: "Never arrived" },
+  { value: "duplicate", label: "Duplicate order" },
+  { value: "other", label: "Other" },
+];
+
+export interface RefundLineItem {
+  order_item_id: string;
+  quantity: number;
+}
+
+export function getRefundReasonLabel(reason: RefundReason): string {
+  return (
+    REFUND_REASONS.find((option) => option.value === reason)?.label ?? reason
+  );
+}
+
+/**
+ * Value of the selected line items at the price they were sold for
+ */
+export function calculateRefundItemsAmount(
+  items: RefundLineItem[],
+  orderItems: Array<{ id: string; unit_amount: number }>
+): number {
+  const total = items.reduce((sum, item) => {
+    const orderItem = orderItems.find(({ id }) => id === item.order_item_id);
+    return sum + (orderItem ? orderItem.unit_amount * item.quantity : 0);
+  }, 0);
+  return Math.round(total * 100) / 100;
+}
@@ -0,0 +1,440 @@
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import { DbExecutor } from "./db";
+import { customers, orderItems, orders, refunds } from "./db/schema";
+import { getOrderStoreCredit, restoreOrderGiftCards } from "./gift-cards";
+import {
+  applyOrderStatusHooks,
+  OrderStatusActor,
+  OrderStatusTransition,
+  transitionOrderStatus,
+} from "./order-status";
+import { getPaymentProvider, toMinorUnits } from "./payments";
+import { RefundLineItem, RefundReason } from "./refund-utils";
+import { BackInStockTarget } from "./stock-notifications";
+
+// Refunds that still count against what is left to refund
+const COMMITTED_STATUSES = ["pending", "succeeded"] as const;
+
+export type RefundReservation =
+  | {
+      success: true;
+      refund: typeof refunds.$inferSelect;
+      paymentIntentId: string | null;
+      currency: string;
+    }
+  | { success: false; error: string };
+
+export type RefundOutcome =
+  | {
+      success: true;
+      refund: typeof refunds.$inferSelect;
+      currency: string;
+      transition: OrderStatusTransition | null;
+      backInStock: BackInStockTarget[];
+    }
+  | { success: false; error: string; status: number };
+
+interface RefundRequest {
+  orderId: string;
+  amount: number; // Order currency
+  items: RefundLineItem[] | null;
+  reason: RefundReason;
+  note?: string | null;
+  createdBy: string | null; // Null when the customer cancelled as a guest
+}
+
+// How a refund that leaves nothing to refund closes the order
+interface RefundClosing {
+  actor: OrderStatusActor;
+  source: string;
+  closeAs?: "refunded" | "cancelled";
+}
+
+export interface OrderRefundSummary {
+  currency: string;
+  total: number;
+  refunded: number; // Succeeded refunds
+  storeCredit: number; // Store credit issued instead, in the order currency
+  refundable: number; // What can still be refunded
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Totals that decide how much more of an order can be refunded. Pending
+ * refunds count as spent so a second refund cannot race the first.
+ */
+async function getRefundTotals(executor: DbExecutor, orderId: string) {
+  const result = await executor
+    .select({
+      amount: sql<string>`coalesce(sum(${refunds.amount}), 0)`,
+      paymentAmount: sql<string>`coalesce(sum(${refunds.payment_amount}), 0)`,
+    })
+    .from(refunds)
+    .where(
+      and(
+        eq(refunds.order_id, orderId),
+        inArray(refunds.status, [...COMMITTED_STATUSES])
+      )
+    );
+
+  return {
+    amount: parseFloat(result[0]?.amount ?? "0"),
+    paymentAmount: parseFloat(result[0]?.paymentAmount ?? "0"),
+  };
+}
+
+/**
+ * Quantity of each order item already covered by a line-item refund
+ */
+async function getRefundedQuantities(executor: DbExecutor, orderId: string) {
+  const result = await executor
+    .select({ items: refunds.items })
+    .from(refunds)
+    .where(
+      and(
+        eq(refunds.order_id, orderId),
+        inArray(refunds.status, [...COMMITTED_STATUSES])
+      )
+    );
+
+  const quantities = new Map<string, number>();
+  for (const row of result) {
+    for (const item of row.items || []) {
+      quantities.set(
+        item.order_item_id,
+        (quantities.get(item.order_item_id) || 0) + item.quantity
+      );
+    }
+  }
+  return quantities;
+}
+
+/**
+ * How much of an order has been refunded and how much is left
+ */
+export async function getOrderRefundSummary(
+  executor: DbExecutor,
+  orderId: string
+): Promise<OrderRefundSummary | null> {
+  const order = await executor
+    .select({
+      currency: orders.currency,
+      exchange_rate: orders.exchange_rate,
+      total: orders.total,
+      refunded_amount: orders.refunded_amount,
+    })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+
+  if (order.length === 0) {
+    return null;
+  }
+
+  const total = parseFloat(order[0].total);
+  const committed = await getRefundTotals(executor, orderId);
+  const storeCredit = roundAmount(
+    (await getOrderStoreCredit(executor, orderId)) *
+      parseFloat(order[0].exchange_rate)
+  );
+
+  return {
+    currency: order[0].currency,
+    total,
+    refunded: parseFloat(order[0].refunded_amount),
+    storeCredit,
+    refundable: Math.max(
+      roundAmount(total - committed.amount - storeCredit),
+      0
+    ),
+  };
+}
+
+/**
+ * Validate a refund and record it as pending, before any money moves.
+ * The order row is locked so concurrent refunds see each other. The amount
+ * comes off the card payment first; anything beyond what was charged goes
+ * back on the gift card the order was paid with.
+ */
+export async function reserveRefund(
+  executor: DbExecutor,
+  { orderId, amount, items, reason, note = null, createdBy }: RefundRequest
+): Promise<RefundReservation> {
+  const order = await executor
+    .select({
+      status: orders.status,
+      currency: orders.currency,
+      total: orders.total,
+      gift_card_amount: orders.gift_card_amount,
+      payment_intent_id: orders.payment_intent_id,
+    })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .for("update");
+
+  if (order.length === 0) {
+    return { success: false, error: "Order not found" };
+  }
+
+  const orderData = order[0];
+
+  if (
+    !["paid", "partially_shipped", "shipped", "completed"].includes(
+      orderData.status
+    )
+  ) {
+    return {
+      success: false,
+      error: `Cannot refund a ${orderData.status} order`,
+    };
+  }
+
+  if (items) {
+    const lines = await executor
+      .select({ id: orderItems.id, quantity: orderItems.quantity })
+      .from(orderItems)
+      .where(eq(orderItems.order_id, orderId));
+    const refunded = await getRefundedQuantities(executor, orderId);
+
+    for (const item of items) {
+      const line = lines.find(({ id }) => id === item.order_item_id);
+      if (!line) {
+        return { success: false, error: "Item is not part of this order" };
+      }
+      if (item.quantity > line.quantity - (refunded.get(line.id) || 0)) {
+        return {
+          success: false,
+          error: "Cannot refund more units than were bought",
+        };
+      }
+    }
+  }
+
+  const summary = await getOrderRefundSummary(executor, orderId);
+  const refundable = summary?.refundable ?? 0;
+  if (amount > refundable) {
+    return {
+      success: false,
+      error:
+        refundable > 0
+          ? `At most ${refundable.toFixed(2)} ${
+              orderData.currency
+            } can still be refunded`
+          : "This order has nothing left to refund",
+    };
+  }
+
+  // Only the part not paid by gift card went through the payment provider
+  const committed = await getRefundTotals(executor, orderId);
+  const charged = orderData.payment_intent_id
+    ? parseFloat(orderData.total) - parseFloat(orderData.gift_card_amount)
+    : 0;
+  const paymentAmount = Math.max(
+    Math.min(amount, roundAmount(charged - committed.paymentAmount)),
+    0
+  );
+
+  const [refund] = await executor
+    .insert(refunds)
+    .values({
+      order_id: orderId,
+      amount: amount.toFixed(2),
+      payment_amount: paymentAmount.toFixed(2),
+      gift_card_amount: roundAmount(amount - paymentAmount).toFixed(2),
+      reason,
+      note,
+      items,
+      created_by: createdBy,
+    })
+    .returning();
+
+  return {
+    success: true,
+    refund,
+    paymentIntentId: orderData.payment_intent_id,
+    currency: orderData.currency,
+  };
+}
+
+/**
+ * Settle a pending refund once the provider has accepted it: add it to the
+ * order's refunded total, return the gift card part, and close the order
+ * once nothing is left. Returns that transition, if any, so the caller can
+ * run the status hooks.
+ */
+export async function completeRefund(
+  executor: DbExecutor,
+  refundId: string,
+  {
+    providerRefundId = null,
+    actor,
+    source,
+    closeAs = "refunded",
+  }: RefundClosing & { providerRefundId?: string | null }
+): Promise<OrderStatusTransition | null> {
+  const [refund] = await executor
+    .update(refunds)
+    .set({
+      status: "succeeded",
+      provider_refund_id: providerRefundId,
+      updated_at: new Date(),
+    })
+    .where(and(eq(refunds.id, refundId), eq(refunds.status, "pending")))
+    .returning();
+
+  if (!refund) {
+    return null;
+  }
+
+  const [order] = await executor
+    .update(orders)
+    .set({
+      refunded_amount: sql`${orders.refunded_amount} + ${refund.amount}`,
+      updated_at: new Date(),
+    })
+    .where(eq(orders.id, refund.order_id))
+    .returning({ exchange_rate: orders.exchange_rate });
+
+  const giftCardAmount = parseFloat(refund.gift_card_amount);
+  if (giftCardAmount > 0) {
+    // Gift card balances are kept in the store currency
+    await restoreOrderGiftCards(
+      executor,
+      refund.order_id,
+      roundAmount(giftCardAmount / parseFloat(order.exchange_rate))
+    );
+  }
+
+  const summary = await getOrderRefundSummary(executor, refund.order_id);
+  if (!summary || summary.refundable > 0) {
+    return null;
+  }
+
+  return transitionOrderStatus(executor, {
+    orderId: refund.order_id,
+    from: ["paid", "partially_shipped", "shipped", "completed"],
+    to: closeAs,
+    actor,
+    source,
+    note: refund.note,
+    meta: { refund_id: refund.id },
+  });
+}
+
+/**
+ * Mark a pending refund as failed so its amount can be refunded again
+ */
+export async function failRefund(
+  executor: DbExecutor,
+  refundId: string,
+  failureMessage: string
+): Promise<void> {
+  await executor
+    .update(refunds)
+    .set({
+      status: "failed",
+      failure_message: failureMessage,
+      updated_at: new Date(),
+    })
+    .where(and(eq(refunds.id, refundId), eq(refunds.status, "pending")));
+}
+
+/**
+ * Refund part or all of an order end to end: reserve the amount, send the
+ * card part back through the payment provider, then settle it and run the
+ * status hooks if the order closes. The provider call happens between the
+ * two transactions; the pending refund row holds the amount meanwhile.
+ */
+export async function issueRefund(
+  executor: DbExecutor,
+  {
+    restock = true,
+    ...request
+  }: RefundRequest & RefundClosing & { restock?: boolean }
+): Promise<RefundOutcome> {
+  const reservation = await executor.transaction((tx) =>
+    reserveRefund(tx, request)
+  );
+
+  if (!reservation.success) {
+    return { success: false, error: reservation.error, status: 400 };
+  }
+
+  const { refund, paymentIntentId, currency } = reservation;
+  const paymentAmount = parseFloat(refund.payment_amount);
+
+  let providerRefundId: string | null = null;
+  if (paymentAmount > 0 && paymentIntentId) {
+    try {
+      const providerRefund = await getPaymentProvider().refund(
+        paymentIntentId,
+        toMinorUnits(paymentAmount, currency)
+      );
+      if (providerRefund.status === "failed") {
+        throw new Error("The payment provider declined the refund");
+      }
+      providerRefundId = providerRefund.id;
+    } catch (providerError) {
+      const message =
+        providerError instanceof Error
+          ? providerError.message
+          : "Refund failed";
+      console.error("Payment provider refund failed:", providerError);
+      await failRefund(executor, refund.id, message);
+      return {
+        success: false,
+        error: `Refund failed: ${message}`,
+        status: 502,
+      };
+    }
+  }
+
+  const { transition, backInStock } = await executor.transaction(async (tx) => {
+    const transition = await completeRefund(tx, refund.id, {
+      providerRefundId,
+      actor: request.actor,
+      source: request.source,
+      closeAs: request.closeAs,
+    });
+    const backInStock = transition
+      ? await applyOrderStatusHooks(tx, transition, { restock })
+      : [];
+    return { transition, backInStock };
+  });
+
+  return { success: true, refund, currency, transition, backInStock };
+}
+
+/**
+ * Refunds recorded against an order, oldest first, with who issued them
+ */
+export async function getOrderRefunds(executor: DbExecutor, orderId: string) {
+  const result = await executor
+    .select({
+      id: refunds.id,
+      amount: refunds.amount,
+      payment_amount: refunds.payment_amount,
+      gift_card_amount: refunds.gift_card_amount,
+      reason: refunds.reason,
+      note: refunds.note,
+      items: refunds.items,
+      status: refunds.status,
+      failure_message: refunds.failure_message,
+      created_at: refunds.created_at,
+      created_by_name: customers.name,
+    })
+    .from(refunds)
+    .leftJoin(customers, eq(customers.id, refunds.created_by))
+    .where(eq(refunds.order_id, orderId))
+    .orderBy(asc(refunds.created_at));
+
+  return result.map((refund) => ({
+    ...refund,
+    amount: parseFloat(refund.amount),
+    payment_amount: parseFloat(refund.payment_amount),
+    gift_card_amount: parseFloat(refund.gift_card_amount),
+  }));
+}
@@ -0,0 +1,56 @@
+/**
+ * Return utilities
+ * Pure helpers shared by the customer order pages, the return request API
+ * and the admin returns queue.
+ */
+
+export type ReturnStatus = "requested" | "approved" | "denied";
+
+export type ReturnReason =
+  | "damaged"
+  | "wrong_item"
+  | "not_as_described"
+  | "no_longer_needed"
+  | "other";
+
+export const RETURN_REASONS: Array<{ value: ReturnReason; label: string }> = [
+  { value: "damaged", label: "Arrived damaged" },
+  { value: "wrong_item", label: "Wrong item sent" },
+  { value: "not_as_described", label: "Not as described" },
+  { value: "no_longer_needed", label: "No longer needed" },
+  { value: "other", label: "Other" },
+];
+
+// Days after the order was placed that a return can still be requested
+export const RETURN_WINDOW_DAYS = 30;
+
+export const MAX_RETURN_PHOTOS = 5;
+
+export function getReturnReasonLabel(reason: ReturnReason): string {
+  return (
+    RETURN_REASONS.find((option) => option.value === reason)?.label ?? reason
+  );
+}
+
+/**
+ * Orders the customer can still cancel themselves: nothing has shipped yet
+ */
+export function isOrderCancellable(status: string): boolean {
+  return status === "received" || status === "paid";
+}
+
+/**
+ * Whether a return can be requested for an order in this status, placed at
+ * this time
+ */
+export function isOrderReturnable(
+  status: string,
+  createdAt: string | Date,
+  now: Date = new Date()
+): boolean {
+  if (status !== "shipped" && status !== "completed") {
+    return false;
+  }
+  const placed = new Date(createdAt).getTime();
+  return now.getTime() - placed <= RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+}
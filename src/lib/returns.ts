@@ -0,0 +1,309 @@
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { DbExecutor } from "./db";
+import {
+  auditLog,
+  customers,
+  orderItems,
+  orders,
+  returnRequests,
+} from "./db/schema";
+import { OrderStatusActor } from "./order-status";
+import { getPublicUrl } from "./r2";
+import { RefundLineItem } from "./refund-utils";
+import { isOrderReturnable, ReturnReason } from "./return-utils";
+
+// Requests that still hold their items: a denied request frees them again
+const OPEN_STATUSES = ["requested", "approved"] as const;
+
+export type ReturnRequestOutcome =
+  | { success: true; returnRequest: typeof returnRequests.$inferSelect }
+  | { success: false; error: string; status: number };
+
+/**
+ * Where uploaded return photos for an order live in R2. Requests may only
+ * reference photos under this prefix.
+ */
+export function getReturnPhotoPrefix(orderId: string): string {
+  return `returns/${orderId}/`;
+}
+
+// Names given to uploads by the return photo endpoint
+const RETURN_PHOTO_NAME = /^\d+-[\w-]+\.jpg$/;
+
+/**
+ * Record a customer's return request. The order row is locked so two
+ * requests for the same items cannot both go through; each unit can be
+ * claimed by at most one request that has not been denied.
+ */
+export async function createReturnRequest(
+  executor: DbExecutor,
+  {
+    orderId,
+    customerId,
+    email,
+    items,
+    reason,
+    details = null,
+    photos,
+  }: {
+    orderId: string;
+    customerId: string | null;
+    email: string;
+    items: RefundLineItem[];
+    reason: ReturnReason;
+    details?: string | null;
+    photos: string[];
+  }
+): Promise<ReturnRequestOutcome> {
+  const order = await executor
+    .select({ status: orders.status, created_at: orders.created_at })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .for("update");
+
+  if (order.length === 0) {
+    return { success: false, error: "Order not found", status: 404 };
+  }
+
+  if (!isOrderReturnable(order[0].status, order[0].created_at)) {
+    return {
+      success: false,
+      error: "This order can no longer be returned",
+      status: 400,
+    };
+  }
+
+  const photoBase = await getPublicUrl(getReturnPhotoPrefix(orderId));
+  if (
+    photos.some(
+      (url) =>
+        !url.startsWith(photoBase) ||
+        !RETURN_PHOTO_NAME.test(url.slice(photoBase.length))
+    )
+  ) {
+    return {
+      success: false,
+      error: "Photos must be uploaded for this order",
+      status: 400,
+    };
+  }
+
+  const lines = await executor
+    .select({ id: orderItems.id, quantity: orderItems.quantity })
+    .from(orderItems)
+    .where(eq(orderItems.order_id, orderId));
+  const claimed = await getReturnedQuantities(executor, orderId);
+
+  for (const item of items) {
+    const line = lines.find(({ id }) => id === item.order_item_id);
+    if (!line) {
+      return {
+        success: false,
+        error: "Item is not part of this order",
+        status: 400,
+      };
+    }
+    if (item.quantity > line.quantity - (claimed.get(line.id) || 0)) {
+      return {
+        success: false,
+        error: "A return has already been requested for these items",
+        status: 409,
+      };
+    }
+  }
+
+  const [returnRequest] = await executor
+    .insert(returnRequests)
+    .values({
+      order_id: orderId,
+      customer_id: customerId,
+      email,
+      reason,
+      details,
+      items,
+      photos,
+    })
+    .returning();
+
+  return { success: true, returnRequest };
+}
+
+/**
+ * Quantity of each order item claimed by a return that has not been denied
+ */
+async function getReturnedQuantities(executor: DbExecutor, orderId: string) {
+  const result = await executor
+    .select({ items: returnRequests.items })
+    .from(returnRequests)
+    .where(
+      and(
+        eq(returnRequests.order_id, orderId),
+        inArray(returnRequests.status, [...OPEN_STATUSES])
+      )
+    );
+
+  const quantities = new Map<string, number>();
+  for (const row of result) {
+    for (const item of row.items) {
+      quantities.set(
+        item.order_item_id,
+        (quantities.get(item.order_item_id) || 0) + item.quantity
+      );
+    }
+  }
+  return quantities;
+}
+
+/**
+ * Approve or deny a pending return request, recording the decision in the
+ * audit log. Returns null when the request is missing or already decided.
+ */
+export async function reviewReturnRequest(
+  executor: DbExecutor,
+  requestId: string,
+  {
+    status,
+    note = null,
+    actor,
+  }: {
+    status: "approved" | "denied";
+    note?: string | null;
+    actor: OrderStatusActor;
+  }
+) {
+  const [returnRequest] = await executor
+    .update(returnRequests)
+    .set({
+      status,
+      admin_note: note,
+      reviewed_by: actor.id,
+      reviewed_at: new Date(),
+      updated_at: new Date(),
+    })
+    .where(
+      and(
+        eq(returnRequests.id, requestId),
+        eq(returnRequests.status, "requested")
+      )
+    )
+    .returning();
+
+  if (!returnRequest) {
+    return null;
+  }
+
+  await executor.insert(auditLog).values({
+    actor_id: actor.id,
+    actor_type: actor.type,
+    action: `order.return_${status}`,
+    resource: `order:${returnRequest.order_id}`,
+    meta: { return_request_id: returnRequest.id, note },
+  });
+
+  return returnRequest;
+}
+
+/**
+ * Return requests for the given orders, newest first, for the customer
+ * order pages
+ */
+export async function getOrdersReturnRequests(
+  executor: DbExecutor,
+  orderIds: string[]
+) {
+  if (orderIds.length === 0) {
+    return [];
+  }
+
+  return executor
+    .select({
+      id: returnRequests.id,
+      order_id: returnRequests.order_id,
+      status: returnRequests.status,
+      reason: returnRequests.reason,
+      items: returnRequests.items,
+      admin_note: returnRequests.admin_note,
+      created_at: returnRequests.created_at,
+      reviewed_at: returnRequests.reviewed_at,
+    })
+    .from(returnRequests)
+    .where(inArray(returnRequests.order_id, orderIds))
+    .orderBy(desc(returnRequests.created_at));
+}
+
+/**
+ * The admin returns queue, newest first, with the order and line items
+ * each request refers to
+ */
+export async function getReturnRequestsQueue(
+  executor: DbExecutor,
+  status?: "requested" | "approved" | "denied"
+) {
+  const result = await executor
+    .select({
+      id: returnRequests.id,
+      order_id: returnRequests.order_id,
+      order_number: orders.order_number,
+      order_status: orders.status,
+      currency: orders.currency,
+      email: returnRequests.email,
+      customer_name: customers.name,
+      status: returnRequests.status,
+      reason: returnRequests.reason,
+      details: returnRequests.details,
+      items: returnRequests.items,
+      photos: returnRequests.photos,
+      admin_note: returnRequests.admin_note,
+      reviewed_at: returnRequests.reviewed_at,
+      created_at: returnRequests.created_at,
+    })
+    .from(returnRequests)
+    .innerJoin(orders, eq(orders.id, returnRequests.order_id))
+    .leftJoin(customers, eq(customers.id, returnRequests.customer_id))
+    .where(status ? eq(returnRequests.status, status) : undefined)
+    .orderBy(desc(returnRequests.created_at));
+
+  const lines = await getOrderItemTitles(
+    executor,
+    result.map((returnRequest) => returnRequest.order_id)
+  );
+
+  return result.map((returnRequest) => ({
+    ...returnRequest,
+    items: returnRequest.items.map((item) => ({
+      ...item,
+      title: lines.get(item.order_item_id)?.title || "Item",
+      unit_amount: lines.get(item.order_item_id)?.unit_amount ?? 0,
+    })),
+  }));
+}
+
+/**
+ * Title and price of every line item in the given orders, by item id
+ */
+export async function getOrderItemTitles(
+  executor: DbExecutor,
+  orderIds: string[]
+) {
+  const lines = new Map<string, { title: string; unit_amount: number }>();
+  if (orderIds.length === 0) {
+    return lines;
+  }
+
+  const result = await executor
+    .select({
+      id: orderItems.id,
+      descriptive_title: orderItems.descriptive_title,
+      unit_amount: orderItems.unit_amount,
+    })
+    .from(orderItems)
+    .where(inArray(orderItems.order_id, [...new Set(orderIds)]));
+
+  for (const line of result) {
+    lines.set(line.id, {
+      title: line.descriptive_title || "Item",
+      unit_amount: parseFloat(line.unit_amount),
+    });
+  }
+  return lines;
+}
@@ -0,0 +1,176 @@
+/**
+ * Search highlighting utilities
+ * Pure helpers shared by the product search API, the search suggestions and
+ * the storefront. Matching mirrors the database search closely enough for
+ * display: a word matches a query term when one is a prefix of the other
+ * (stemming) or their trigrams are similar (typos).
+ */
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Suggestions start after this many characters; shorter prefixes match too
+// much of the catalog to be useful
+export const MIN_SUGGESTION_QUERY_LENGTH = 2;
+
+const MAX_LOGGED_QUERY_LENGTH = 200;
+
+// Returned by /api/search/suggestions as the visitor types
+export interface SearchSuggestions {
+  products: Array<{
+    id: string;
+    slug: string;
+    title: HighlightSegment[];
+    thumbnail: string | null;
+  }>;
+  categories: Array<{
+    slug: string;
+    name: HighlightSegment[];
+    parent: string | null; // Parent category name, to tell apart namesakes
+  }>;
+  tags: Array<{
+    name: string;
+    highlights: HighlightSegment[];
+  }>;
+}
+
+// Word similarity above which a misspelled term still highlights
+const TYPO_SIMILARITY = 0.45;
+
+const MIN_TERM_LENGTH = 2;
+
+// Letters (including accented Latin) and digits
+const WORD_PATTERN = "[a-z0-9\\u00c0-\\u024f]+";
+
+/**
+ * Lowercased words of a search query, without duplicates
+ */
+export function getSearchTerms(query: string): string[] {
+  const words = query.toLowerCase().match(new RegExp(WORD_PATTERN, "g")) || [];
+  return [...new Set(words.filter((word) => word.length >= MIN_TERM_LENGTH))];
+}
+
+function getTrigrams(word: string): Set<string> {
+  // Padded the way pg_trgm pads words
+  const padded = `  ${word} `;
+  const trigrams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    trigrams.add(padded.slice(i, i + 3));
+  }
+  return trigrams;
+}
+
+/**
+ * Share of trigrams two words have in common, 0 to 1
+ */
+export function trigramSimilarity(a: string, b: string): number {
+  const left = getTrigrams(a.toLowerCase());
+  const right = getTrigrams(b.toLowerCase());
+  let shared = 0;
+  for (const trigram of left) {
+    if (right.has(trigram)) shared++;
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+function matchesTerm(word: string, terms: string[]): boolean {
+  const lower = word.toLowerCase();
+  return terms.some(
+    (term) =>
+      lower.startsWith(term) ||
+      (lower.length >= 3 && term.startsWith(lower)) ||
+      trigramSimilarity(lower, term) >= TYPO_SIMILARITY
+  );
+}
+
+/**
+ * Split text into segments, marking the words that match the query. Joining
+ * the segment texts gives back the original text.
+ */
+export function highlightSearchTerms(
+  text: string,
+  query: string
+): HighlightSegment[] {
+  const terms = getSearchTerms(query);
+  if (!text) return [];
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const segments: HighlightSegment[] = [];
+  for (const part of text.split(new RegExp(`(${WORD_PATTERN})`, "i"))) {
+    if (!part) continue;
+    const match =
+      new RegExp(`^${WORD_PATTERN}$`, "i").test(part) &&
+      matchesTerm(part, terms);
+    const last = segments[segments.length - 1];
+    if (last && last.match === match) {
+      last.text += part;
+    } else {
+      segments.push({ text: part, match });
+    }
+  }
+  return segments;
+}
+
+/**
+ * Up to maxLength characters of text around its first match, highlighted.
+ * Starts at the beginning of the text when nothing matches.
+ */
+export function getSearchSnippet(
+  text: string,
+  query: string,
+  maxLength = 160
+): HighlightSegment[] {
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (clean.length <= maxLength) {
+    return highlightSearchTerms(clean, query);
+  }
+
+  const segments = highlightSearchTerms(clean, query);
+  let firstMatch = 0;
+  let offset = 0;
+  for (const segment of segments) {
+    if (segment.match) {
+      firstMatch = offset;
+      break;
+    }
+    offset += segment.text.length;
+  }
+
+  // Show a little context before the match, starting on a word boundary
+  let start = Math.max(0, firstMatch - Math.floor(maxLength / 4));
+  if (start > 0) {
+    const space = clean.indexOf(" ", start);
+    start = space === -1 || space > firstMatch ? firstMatch : space + 1;
+  }
+  let end = Math.min(clean.length, start + maxLength);
+  if (end < clean.length) {
+    const space = clean.lastIndexOf(" ", end);
+    if (space > start) end = space;
+  }
+
+  const snippet = `${start > 0 ? "…" : ""}${clean.slice(start, end)}${
+    end < clean.length ? "…" : ""
+  }`;
+  return highlightSearchTerms(snippet, query);
+}
+
+/**
+ * Whether any word of the text matches the query
+ */
+export function hasSearchMatch(text: string, query: string): boolean {
+  return highlightSearchTerms(text, query).some((segment) => segment.match);
+}
+
+/**
+ * Query as recorded in the zero-result log: trimmed, single-spaced and
+ * lowercased, so repeats of the same search group together
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query
+    .trim()
+    .replace(/\s+/g, " ")
+    .toLowerCase()
+    .slice(0, MAX_LOGGED_QUERY_LENGTH);
+}
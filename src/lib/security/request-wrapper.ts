@@ -1,3 +1,4 @@
+import crypto from "crypto";
 import { logApiCall } from "@/lib/audit/audit-logger";
 import { NextApiRequest, NextApiResponse } from "next";
 import { AuthenticatedUser } from "./auth-validation";
@@ -5,7 +6,7 @@ import { ErrorType, sendErrorResponse } from "./error-handling";
 
 export interface RequestWrapperOptions {
   /**
-   * Endpoint type for categorization (auth, checkout, api, admin, public)
+   * Endpoint type for categorization (auth, checkout, api, admin, public, cron)
    */
   endpointType: string;
 
@@ -283,3 +284,40 @@ export function withCheckoutRequest(
     }
   );
 }
+
+/**
+ * Convenience wrapper for scheduled job endpoints
+ * The scheduler authenticates with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export function withCronRequest(
+  handler: (req: NextApiRequest, res: NextApiResponse) => Promise<void>,
+  action: string
+) {
+  return withRequest(
+    async (req, res) => {
+      const secret = process.env.CRON_SECRET;
+      const expected = Buffer.from(`Bearer ${secret}`);
+      const provided = Buffer.from(req.headers.authorization || "");
+
+      if (
+        !secret ||
+        provided.length !== expected.length ||
+        !crypto.timingSafeEqual(provided, expected)
+      ) {
+        return sendErrorResponse(
+          res,
+          "Unauthorized",
+          ErrorType.AUTHENTICATION_ERROR,
+          401
+        );
+      }
+
+      await handler(req, res);
+    },
+    {
+      endpointType: "cron",
+      action,
+      requireAuth: false,
+    }
+  );
+}
@@ -0,0 +1,202 @@
+import { and, asc, eq, inArray, isNull, lte, or, sql } from "drizzle-orm";
+import { getCarrierAdapter, hasCarrierAdapters } from "./carriers";
+import { DbExecutor } from "./db";
+import { orders, shipments, trackingEvents } from "./db/schema";
+import { transitionOrderStatus } from "./order-status";
+
+// Packages checked per job run, to stay within carrier API rate limits
+const TRACKING_BATCH_SIZE = 50;
+// How long to wait between checks of the same package
+const TRACKING_POLL_INTERVAL_HOURS = 2;
+
+const SYSTEM_ACTOR = { id: null, type: "system" as const };
+
+/**
+ * Fetch carrier tracking for undelivered shipments that are due a check,
+ * store any new events, and complete orders once the carrier reports every
+ * package delivered. One package failing to load does not stop the others;
+ * it is retried next run. Returns how many packages were checked and failed,
+ * and how many orders were completed.
+ */
+export async function pollShipmentTracking(
+  executor: DbExecutor,
+  now: Date = new Date()
+): Promise<{ checked: number; completed: number; failed: number }> {
+  if (!hasCarrierAdapters()) {
+    console.warn(
+      "Shipment tracking skipped: no carrier adapters are configured (CARRIER_ADAPTERS)"
+    );
+    return { checked: 0, completed: 0, failed: 0 };
+  }
+
+  const checkedBefore = new Date(
+    now.getTime() - TRACKING_POLL_INTERVAL_HOURS * 60 * 60 * 1000
+  );
+
+  const due = await executor
+    .select({
+      id: shipments.id,
+      order_id: shipments.order_id,
+      tracking_number: shipments.tracking_number,
+      carrier: shipments.carrier,
+      shipped_at: shipments.shipped_at,
+    })
+    .from(shipments)
+    .innerJoin(orders, eq(orders.id, shipments.order_id))
+    .where(
+      and(
+        inArray(orders.status, ["partially_shipped", "shipped"]),
+        isNull(shipments.delivered_at),
+        or(
+          isNull(shipments.tracking_checked_at),
+          lte(shipments.tracking_checked_at, checkedBefore)
+        )
+      )
+    )
+    // Never-checked packages first, then the longest unchecked
+    .orderBy(sql`${shipments.tracking_checked_at} asc nulls first`)
+    .limit(TRACKING_BATCH_SIZE);
+
+  let checked = 0;
+  let completed = 0;
+  let failed = 0;
+
+  for (const shipment of due) {
+    try {
+      // Throws for a misconfigured adapter name, which fails this package only
+      const adapter = getCarrierAdapter(shipment.carrier);
+
+      if (!adapter) {
+        // Nothing can track this carrier; don't keep picking it up
+        await executor
+          .update(shipments)
+          .set({ tracking_checked_at: now })
+          .where(eq(shipments.id, shipment.id));
+        continue;
+      }
+
+      const tracking = await adapter.getTracking(
+        shipment.tracking_number,
+        shipment.carrier,
+        { shippedAt: shipment.shipped_at }
+      );
+
+      const deliveredAt =
+        tracking.status === "delivered" ? tracking.deliveredAt ?? now : null;
+
+      const orderCompleted = await executor.transaction(async (tx) => {
+        if (tracking.events.length > 0) {
+          await tx
+            .insert(trackingEvents)
+            .values(
+              tracking.events.map((event) => ({
+                order_id: shipment.order_id,
+                shipment_id: shipment.id,
+                tracking_number: shipment.tracking_number,
+                carrier: shipment.carrier,
+                status: event.status,
+                description: event.description,
+                location: event.location,
+                occurred_at: event.occurredAt,
+                event_key: `${shipment.tracking_number}:${
+                  event.status
+                }:${event.occurredAt.toISOString()}`,
+              }))
+            )
+            .onConflictDoNothing();
+        }
+
+        await tx
+          .update(shipments)
+          .set({
+            tracking_status: tracking.status,
+            tracking_checked_at: now,
+            delivered_at: deliveredAt,
+            updated_at: now,
+          })
+          .where(eq(shipments.id, shipment.id));
+
+        if (!deliveredAt) {
+          return false;
+        }
+
+        // Items still to ship, or other packages still on the way
+        const undelivered = await tx
+          .select({ id: shipments.id })
+          .from(shipments)
+          .where(
+            and(
+              eq(shipments.order_id, shipment.order_id),
+              isNull(shipments.delivered_at)
+            )
+          )
+          .limit(1);
+        if (undelivered.length > 0) {
+          return false;
+        }
+
+        const transition = await transitionOrderStatus(tx, {
+          orderId: shipment.order_id,
+          from: ["shipped"],
+          to: "completed",
+          actor: SYSTEM_ACTOR,
+          source: "carrier_tracking",
+          note: "Delivered",
+          meta: {
+            shipment_id: shipment.id,
+            carrier: shipment.carrier,
+            adapter: adapter.name,
+          },
+        });
+        if (!transition) {
+          return false;
+        }
+
+        await tx
+          .update(orders)
+          .set({ delivered_at: deliveredAt })
+          .where(eq(orders.id, shipment.order_id));
+        return true;
+      });
+
+      checked++;
+      if (orderCompleted) completed++;
+    } catch (error) {
+      console.error(`Tracking poll failed for shipment ${shipment.id}:`, error);
+      failed++;
+      await executor
+        .update(shipments)
+        .set({ tracking_checked_at: now })
+        .where(eq(shipments.id, shipment.id));
+    }
+  }
+
+  return { checked, completed, failed };
+}
+
+/**
+ * Tracking events for the given orders, oldest first, for the order pages
+ */
+export async function getOrdersTrackingEvents(
+  executor: DbExecutor,
+  orderIds: string[]
+) {
+  if (orderIds.length === 0) {
+    return [];
+  }
+
+  return executor
+    .select({
+      id: trackingEvents.id,
+      order_id: trackingEvents.order_id,
+      shipment_id: trackingEvents.shipment_id,
+      tracking_number: trackingEvents.tracking_number,
+      status: trackingEvents.status,
+      description: trackingEvents.description,
+      location: trackingEvents.location,
+      occurred_at: trackingEvents.occurred_at,
+    })
+    .from(trackingEvents)
+    .where(inArray(trackingEvents.order_id, orderIds))
+    .orderBy(asc(trackingEvents.occurred_at));
+}
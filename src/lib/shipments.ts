@@ -0,0 +1,350 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { DbExecutor } from "./db";
+import {
+  addresses,
+  auditLog,
+  customers,
+  orderItems,
+  orders,
+  shipments,
+} from "./db/schema";
+import { sendShippingConfirmationEmail } from "./email/order-emails";
+import { OrderStatusActor, transitionOrderStatus } from "./order-status";
+import { RefundLineItem } from "./refund-utils";
+import { getOrdersTrackingEvents } from "./shipment-tracking";
+import {
+  generateTrackingUrl,
+  getUnshippedQuantities,
+  ShippingProvider,
+} from "./shipping-utils";
+
+export type ShipmentOutcome =
+  | {
+      success: true;
+      shipment: typeof shipments.$inferSelect;
+      status: "partially_shipped" | "shipped";
+    }
+  | { success: false; error: string; status: number };
+
+/**
+ * Record a package sent for an order. Without items, everything that has not
+ * shipped yet goes in it. The order row is locked so two shipments cannot
+ * both claim the same units. The order becomes partially shipped until its
+ * last item ships, then shipped; its tracking number follows the latest
+ * package.
+ */
+export async function createShipment(
+  executor: DbExecutor,
+  {
+    orderId,
+    trackingNumber,
+    carrier,
+    items,
+    note = null,
+    actor,
+    source,
+  }: {
+    orderId: string;
+    trackingNumber: string;
+    carrier: ShippingProvider;
+    items?: RefundLineItem[] | null;
+    note?: string | null;
+    actor: OrderStatusActor;
+    source: string;
+  }
+): Promise<ShipmentOutcome> {
+  const order = await executor
+    .select({ status: orders.status })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .for("update");
+
+  if (order.length === 0) {
+    return { success: false, error: "Order not found", status: 404 };
+  }
+
+  const currentStatus = order[0].status;
+  if (currentStatus !== "paid" && currentStatus !== "partially_shipped") {
+    return {
+      success: false,
+      error: `Cannot ship a ${currentStatus} order`,
+      status: 400,
+    };
+  }
+
+  const lines = await executor
+    .select({ id: orderItems.id, quantity: orderItems.quantity })
+    .from(orderItems)
+    .where(eq(orderItems.order_id, orderId));
+  const shipped = await executor
+    .select({ items: shipments.items })
+    .from(shipments)
+    .where(eq(shipments.order_id, orderId));
+  const remaining = getUnshippedQuantities(lines, shipped);
+
+  const packageItems =
+    items && items.length > 0
+      ? items
+      : Object.entries(remaining)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+
+  if (packageItems.length === 0) {
+    return {
+      success: false,
+      error: "Every item in this order has already shipped",
+      status: 400,
+    };
+  }
+
+  const left = { ...remaining };
+  for (const item of packageItems) {
+    if (!(item.order_item_id in left)) {
+      return {
+        success: false,
+        error: "Item is not part of this order",
+        status: 400,
+      };
+    }
+    if (item.quantity > left[item.order_item_id]) {
+      return {
+        success: false,
+        error: "These items have already shipped",
+        status: 409,
+      };
+    }
+    left[item.order_item_id] -= item.quantity;
+  }
+
+  const now = new Date();
+  const [shipment] = await executor
+    .insert(shipments)
+    .values({
+      order_id: orderId,
+      tracking_number: trackingNumber,
+      carrier,
+      items: packageItems,
+      shipped_at: now,
+      created_by: actor.type === "system" ? null : actor.id,
+    })
+    .returning();
+
+  await executor
+    .update(orders)
+    .set({
+      tracking_number: trackingNumber,
+      shipping_provider: carrier,
+      shipped_at: now,
+      updated_at: now,
+    })
+    .where(eq(orders.id, orderId));
+
+  const status = Object.values(left).every((quantity) => quantity === 0)
+    ? "shipped"
+    : "partially_shipped";
+
+  if (status === currentStatus) {
+    // Another package of a partially shipped order; the status stays put
+    await executor.insert(auditLog).values({
+      actor_id: actor.id,
+      actor_type: actor.type,
+      action: "order.shipment_created",
+      resource: `order:${orderId}`,
+      meta: { shipment_id: shipment.id, tracking_number: trackingNumber, note },
+    });
+  } else {
+    const transition = await transitionOrderStatus(executor, {
+      orderId,
+      from: [currentStatus],
+      to: status,
+      actor,
+      source,
+      note,
+      meta: { shipment_id: shipment.id, tracking_number: trackingNumber },
+    });
+    if (!transition) {
+      // The row is locked above, so this only happens if the state machine
+      // and the checks here disagree
+      throw new Error(`Could not move order ${orderId} to ${status}`);
+    }
+  }
+
+  return { success: true, shipment, status };
+}
+
+/**
+ * Email the customer that a package is on its way, listing only the items
+ * in it. Returns false when the order has no email or shipping address.
+ */
+export async function sendShipmentEmail(
+  executor: DbExecutor,
+  shipment: typeof shipments.$inferSelect
+): Promise<boolean> {
+  const order = await executor
+    .select({
+      id: orders.id,
+      order_number: orders.order_number,
+      is_guest_order: orders.is_guest_order,
+      guest_email: orders.guest_email,
+      subtotal: orders.subtotal,
+      tax: orders.tax,
+      shipping: orders.shipping,
+      total: orders.total,
+      customer_email: customers.email,
+      customer_name: customers.name,
+    })
+    .from(orders)
+    .leftJoin(customers, eq(customers.id, orders.customer_id))
+    .where(eq(orders.id, shipment.order_id))
+    .limit(1);
+
+  if (order.length === 0) {
+    return false;
+  }
+
+  const orderData = order[0];
+  const email = orderData.is_guest_order
+    ? orderData.guest_email
+    : orderData.customer_email;
+
+  const address = await executor
+    .select({
+      name: addresses.name,
+      line1: addresses.line1,
+      line2: addresses.line2,
+      city: addresses.city,
+      region: addresses.region,
+      postal_code: addresses.postal_code,
+      country: addresses.country,
+    })
+    .from(addresses)
+    .where(
+      and(eq(addresses.order_id, orderData.id), eq(addresses.type, "shipping"))
+    )
+    .limit(1);
+
+  if (!email || address.length === 0) {
+    return false;
+  }
+
+  const shippingAddress = address[0];
+
+  const lines = await executor
+    .select({
+      id: orderItems.id,
+      variant_id: orderItems.product_id,
+      quantity: orderItems.quantity,
+      unit_amount: orderItems.unit_amount,
+      selected_options: orderItems.selected_options,
+      descriptive_title: orderItems.descriptive_title,
+    })
+    .from(orderItems)
+    .where(eq(orderItems.order_id, orderData.id));
+  const orderShipments = await executor
+    .select({ items: shipments.items })
+    .from(shipments)
+    .where(eq(shipments.order_id, orderData.id));
+  const remaining = getUnshippedQuantities(lines, orderShipments);
+
+  const packageItems = shipment.items.flatMap((item) => {
+    const line = lines.find(({ id }) => id === item.order_item_id);
+    if (!line) return [];
+    return [
+      {
+        variant_id: line.variant_id,
+        quantity: item.quantity,
+        unit_amount: parseFloat(line.unit_amount),
+        selected_options:
+          (line.selected_options as Record<string, string>) || undefined,
+        descriptive_title: line.descriptive_title || undefined,
+      },
+    ];
+  });
+
+  const result = await sendShippingConfirmationEmail({
+    orderId: orderData.id,
+    orderNumber: orderData.order_number || undefined,
+    customerEmail: email,
+    customerName: orderData.customer_name || undefined,
+    trackingNumber: shipment.tracking_number,
+    shippingProvider: shipment.carrier,
+    trackingUrl: generateTrackingUrl(
+      shipment.tracking_number,
+      shipment.carrier
+    ),
+    orderItems: packageItems,
+    remainingItemCount: Object.values(remaining).reduce(
+      (sum, quantity) => sum + quantity,
+      0
+    ),
+    shippingAddress: {
+      name: shippingAddress.name || orderData.customer_name || "Guest Customer",
+      email,
+      line1: shippingAddress.line1 || "",
+      line2: shippingAddress.line2 || undefined,
+      city: shippingAddress.city || "",
+      region: shippingAddress.region || "",
+      postal_code: shippingAddress.postal_code || "",
+      country: shippingAddress.country || "",
+    },
+    subtotal: parseFloat(orderData.subtotal),
+    tax: parseFloat(orderData.tax),
+    shipping: parseFloat(orderData.shipping),
+    total: parseFloat(orderData.total),
+  });
+
+  return result.success;
+}
+
+/**
+ * Shipments for the given orders, oldest first, with the title of each item
+ * in the package and the carrier's tracking events
+ */
+export async function getOrdersShipments(
+  executor: DbExecutor,
+  orderIds: string[]
+) {
+  if (orderIds.length === 0) {
+    return [];
+  }
+
+  const result = await executor
+    .select({
+      id: shipments.id,
+      order_id: shipments.order_id,
+      tracking_number: shipments.tracking_number,
+      carrier: shipments.carrier,
+      items: shipments.items,
+      tracking_status: shipments.tracking_status,
+      delivered_at: shipments.delivered_at,
+      shipped_at: shipments.shipped_at,
+    })
+    .from(shipments)
+    .where(inArray(shipments.order_id, orderIds))
+    .orderBy(asc(shipments.shipped_at));
+
+  const titles = new Map<string, string>();
+  if (result.length > 0) {
+    const lines = await executor
+      .select({
+        id: orderItems.id,
+        descriptive_title: orderItems.descriptive_title,
+      })
+      .from(orderItems)
+      .where(inArray(orderItems.order_id, orderIds));
+    for (const line of lines) {
+      titles.set(line.id, line.descriptive_title || "Item");
+    }
+  }
+
+  const events = await getOrdersTrackingEvents(executor, orderIds);
+
+  return result.map((shipment) => ({
+    ...shipment,
+    items: shipment.items.map((item) => ({
+      ...item,
+      title: titles.get(item.order_item_id) || "Item",
+    })),
+    events: events.filter((event) => event.shipment_id === shipment.id),
+  }));
+}
@@ -0,0 +1,74 @@
+/**
+ * Shipping rate utilities
+ * Pure helpers shared by the checkout page, the admin shipping screens and the
+ * server-side shipping engine.
+ */
+
+export type ShippingMethod = "standard" | "expedited" | "international";
+
+export type ShippingRateType = "flat" | "weight" | "price";
+
+export interface ShippingRateTier {
+  min: number; // Grams for weight rates, subtotal for price rates
+  amount: number;
+}
+
+export interface ShippingQuote {
+  rateId: string;
+  method: ShippingMethod;
+  name: string;
+  amount: number;
+}
+
+export const SHIPPING_METHODS: Array<{ value: ShippingMethod; label: string }> =
+  [
+    { value: "standard", label: "Standard" },
+    { value: "expedited", label: "Expedited" },
+    { value: "international", label: "International" },
+  ];
+
+export const SHIPPING_RATE_TYPES: Array<{
+  value: ShippingRateType;
+  label: string;
+}> = [
+  { value: "flat", label: "Flat rate" },
+  { value: "weight", label: "By weight" },
+  { value: "price", label: "By order value" },
+];
+
+export function getShippingMethodLabel(method: ShippingMethod): string {
+  return (
+    SHIPPING_METHODS.find((option) => option.value === method)?.label || method
+  );
+}
+
+/**
+ * Price a shipment with a rate. Tiered rates use the highest tier whose
+ * minimum the shipment reaches; rates with a free_over threshold are free once
+ * the subtotal reaches it.
+ */
+export function calculateShippingAmount(
+  rate: {
+    rate_type: ShippingRateType;
+    amount: number;
+    tiers: ShippingRateTier[] | null;
+    free_over: number | null;
+  },
+  shipment: { subtotal: number; weightGrams: number }
+): number {
+  if (rate.free_over !== null && shipment.subtotal >= rate.free_over) {
+    return 0;
+  }
+
+  if (rate.rate_type === "flat") {
+    return rate.amount;
+  }
+
+  const value =
+    rate.rate_type === "weight" ? shipment.weightGrams : shipment.subtotal;
+  const tier = [...(rate.tiers || [])]
+    .sort((a, b) => b.min - a.min)
+    .find((candidate) => value >= candidate.min);
+
+  return tier ? tier.amount : rate.amount;
+}
@@ -4,6 +4,24 @@
 
 export type ShippingProvider = "usps" | "ups" | "fedex" | "other";
 
+// Carrier tracking statuses, normalized across carriers
+export type TrackingStatus =
+  | "pre_transit" // Label created, not yet with the carrier
+  | "in_transit"
+  | "out_for_delivery"
+  | "delivered"
+  | "exception" // Delayed, returned to sender, address problem...
+  | "unknown";
+
+const TRACKING_STATUS_LABELS: Record<TrackingStatus, string> = {
+  pre_transit: "Label created",
+  in_transit: "In transit",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+  exception: "Delivery problem",
+  unknown: "Tracking update",
+};
+
 export interface TrackingInfo {
   trackingNumber: string;
   provider: ShippingProvider;
@@ -200,3 +218,33 @@ export function formatTrackingNumber(
       return cleaned.replace(/(.{4})/g, "$1 ").trim();
   }
 }
+
+/**
+ * Get tracking status display label
+ */
+export function getTrackingStatusLabel(status: TrackingStatus): string {
+  return TRACKING_STATUS_LABELS[status] ?? TRACKING_STATUS_LABELS.unknown;
+}
+
+/**
+ * Quantity of each order item not in any shipment yet, by item id
+ */
+export function getUnshippedQuantities(
+  orderItems: Array<{ id: string; quantity: number }>,
+  shipments: Array<{
+    items: Array<{ order_item_id: string; quantity: number }>;
+  }>
+): Record<string, number> {
+  const remaining: Record<string, number> = {};
+  for (const item of orderItems) {
+    remaining[item.id] = item.quantity;
+  }
+  for (const shipment of shipments) {
+    for (const item of shipment.items) {
+      if (item.order_item_id in remaining) {
+        remaining[item.order_item_id] -= item.quantity;
+      }
+    }
+  }
+  return remaining;
+}
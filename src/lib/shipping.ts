@@ -0,0 +1,224 @@
+import { and, asc, eq, inArray, isNull, ne, or } from "drizzle-orm";
+import {
+  convertAmount,
+  CurrencyRate,
+  STORE_CURRENCY_RATE,
+  toStoreAmount,
+} from "./currency-utils";
+import { DbExecutor } from "./db";
+import {
+  shippingRates,
+  shippingZoneLocations,
+  shippingZones,
+} from "./db/schema";
+import {
+  calculateShippingAmount,
+  ShippingQuote,
+  ShippingRateTier,
+} from "./shipping-rate-utils";
+
+export interface ShippingAddress {
+  country?: string | null;
+  region?: string | null;
+}
+
+export interface Shipment {
+  subtotal: number; // Before discounts
+  weightGrams: number;
+}
+
+/**
+ * Find the zone that ships to an address. A zone listing the address's
+ * region wins over one covering the whole country.
+ */
+export async function findShippingZoneId(
+  executor: DbExecutor,
+  address: ShippingAddress
+): Promise<string | null> {
+  const country = address.country?.trim().toUpperCase();
+  if (!country) return null;
+
+  const region = address.region?.trim().toUpperCase() || null;
+  const locations = await executor
+    .select()
+    .from(shippingZoneLocations)
+    .where(
+      and(
+        eq(shippingZoneLocations.country, country),
+        region
+          ? or(
+              isNull(shippingZoneLocations.region),
+              eq(shippingZoneLocations.region, region)
+            )
+          : isNull(shippingZoneLocations.region)
+      )
+    );
+
+  const match =
+    locations.find((location) => region && location.region === region) ||
+    locations.find((location) => location.region === null);
+
+  return match?.zone_id || null;
+}
+
+/**
+ * List the shipping methods available for an address, priced for the
+ * shipment. Used by checkout validation and submission so the price shown for
+ * a method is the price charged. A free shipping promotion makes every method
+ * except expedited free. The shipment subtotal and the quoted amounts are in
+ * the given currency; rates are entered in the store currency.
+ */
+export async function getShippingQuotes(
+  executor: DbExecutor,
+  address: ShippingAddress,
+  shipment: Shipment,
+  options: { freeShipping?: boolean; currencyRate?: CurrencyRate } = {}
+): Promise<ShippingQuote[]> {
+  const currencyRate = options.currencyRate || STORE_CURRENCY_RATE;
+  const zoneId = await findShippingZoneId(executor, address);
+  if (!zoneId) return [];
+
+  const rates = await executor
+    .select()
+    .from(shippingRates)
+    .where(
+      and(eq(shippingRates.zone_id, zoneId), eq(shippingRates.is_active, true))
+    )
+    .orderBy(asc(shippingRates.sort_order), asc(shippingRates.created_at));
+
+  return rates.map((rate) => {
+    const amount =
+      options.freeShipping && rate.method !== "expedited"
+        ? 0
+        : calculateShippingAmount(
+            {
+              rate_type: rate.rate_type,
+              amount: parseFloat(rate.amount),
+              tiers: rate.tiers as ShippingRateTier[] | null,
+              free_over: rate.free_over ? parseFloat(rate.free_over) : null,
+            },
+            {
+              ...shipment,
+              subtotal: toStoreAmount(shipment.subtotal, currencyRate),
+            }
+          );
+
+    return {
+      rateId: rate.id,
+      method: rate.method,
+      name: rate.name,
+      amount: convertAmount(amount, currencyRate),
+    };
+  });
+}
+
+/**
+ * Price the method the customer picked. Returns null when the rate does not
+ * ship to the address (or no longer exists), so stale choices are rejected.
+ */
+export async function resolveShippingQuote(
+  executor: DbExecutor,
+  address: ShippingAddress,
+  shipment: Shipment,
+  rateId: string,
+  options: { freeShipping?: boolean; currencyRate?: CurrencyRate } = {}
+): Promise<ShippingQuote | null> {
+  const quotes = await getShippingQuotes(executor, address, shipment, options);
+  return quotes.find((quote) => quote.rateId === rateId) || null;
+}
+
+/**
+ * Total weight of a set of cart lines; products without a weight count as 0
+ */
+export function getShipmentWeight(
+  lines: Array<{ quantity: number; weightGrams: number | null }>
+): number {
+  return lines.reduce(
+    (sum, line) => sum + (line.weightGrams || 0) * line.quantity,
+    0
+  );
+}
+
+/**
+ * Locations already covered by another zone. Each country/region may only
+ * belong to one zone so an address always resolves to a single zone.
+ */
+export async function findZoneLocationConflicts(
+  executor: DbExecutor,
+  locations: Array<{ country: string; region?: string | null }>,
+  excludeZoneId?: string
+): Promise<string[]> {
+  const countries = [...new Set(locations.map((location) => location.country))];
+  if (countries.length === 0) return [];
+
+  const existing = await executor
+    .select({
+      country: shippingZoneLocations.country,
+      region: shippingZoneLocations.region,
+      zone_name: shippingZones.name,
+    })
+    .from(shippingZoneLocations)
+    .innerJoin(
+      shippingZones,
+      eq(shippingZones.id, shippingZoneLocations.zone_id)
+    )
+    .where(
+      and(
+        inArray(shippingZoneLocations.country, countries),
+        excludeZoneId
+          ? ne(shippingZoneLocations.zone_id, excludeZoneId)
+          : undefined
+      )
+    );
+
+  return locations
+    .map((location) =>
+      existing.find(
+        (row) =>
+          row.country === location.country &&
+          row.region === (location.region || null)
+      )
+    )
+    .filter((row): row is (typeof existing)[number] => !!row)
+    .map(
+      (row) =>
+        `${row.region ? `${row.country}-${row.region}` : row.country} (${
+          row.zone_name
+        })`
+    );
+}
+
+/**
+ * All zones with their locations and rates, for the admin shipping screen
+ */
+export async function listShippingZones(executor: DbExecutor) {
+  const [zones, locations, rates] = await Promise.all([
+    executor.select().from(shippingZones).orderBy(asc(shippingZones.name)),
+    executor.select().from(shippingZoneLocations),
+    executor
+      .select()
+      .from(shippingRates)
+      .orderBy(asc(shippingRates.sort_order), asc(shippingRates.created_at)),
+  ]);
+
+  return zones.map((zone) => ({
+    ...zone,
+    locations: locations
+      .filter((location) => location.zone_id === zone.id)
+      .map(({ country, region }) => ({ country, region })),
+    rates: rates
+      .filter((rate) => rate.zone_id === zone.id)
+      .map(formatShippingRateForAdmin),
+  }));
+}
+
+export function formatShippingRateForAdmin(
+  rate: typeof shippingRates.$inferSelect
+) {
+  return {
+    ...rate,
+    amount: parseFloat(rate.amount),
+    tiers: (rate.tiers as ShippingRateTier[] | null) || null,
+    free_over: rate.free_over ? parseFloat(rate.free_over) : null,
+  };
+}
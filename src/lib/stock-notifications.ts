@@ -0,0 +1,107 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { DbExecutor } from "./db";
+import { stockNotifications } from "./db/schema";
+import { sendStockNotificationEmail } from "./email";
+import { formatVariantTitle } from "./option-inventory-utils";
+
+export interface BackInStockVariant {
+  optionName: string;
+  optionValue: string;
+}
+
+export interface BackInStockTarget {
+  product: { id: string; title: string; slug: string };
+  variant?: BackInStockVariant;
+}
+
+/**
+ * Email everyone waiting on a product - or on one of its variants - that it
+ * is back in stock, marking each subscription as notified once sent.
+ * Returns the number of emails sent.
+ */
+export async function sendBackInStockNotifications(
+  executor: DbExecutor,
+  product: { id: string; title: string; slug: string },
+  variant?: BackInStockVariant
+): Promise<number> {
+  const pendingNotifications = await executor
+    .select()
+    .from(stockNotifications)
+    .where(
+      and(
+        eq(stockNotifications.product_id, product.id),
+        eq(stockNotifications.is_notified, false),
+        variant
+          ? and(
+              eq(stockNotifications.option_name, variant.optionName),
+              eq(stockNotifications.option_value, variant.optionValue)
+            )
+          : isNull(stockNotifications.option_name)
+      )
+    )
+    .limit(100); // Limit to prevent overwhelming the email service
+
+  const title = formatVariantTitle(
+    product.title,
+    variant?.optionName,
+    variant?.optionValue
+  );
+
+  const results = await Promise.all(
+    pendingNotifications.map(async (notification) => {
+      try {
+        const emailResult = await sendStockNotificationEmail(
+          notification.email,
+          title,
+          product.slug
+        );
+
+        if (emailResult.success) {
+          await executor
+            .update(stockNotifications)
+            .set({ is_notified: true, notified_at: new Date() })
+            .where(eq(stockNotifications.id, notification.id));
+        }
+
+        return emailResult;
+      } catch (error) {
+        console.error(
+          `Failed to send notification to ${notification.email}:`,
+          error
+        );
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    })
+  );
+
+  const successCount = results.filter((r) => r.success).length;
+  console.log(
+    `Sent ${successCount}/${pendingNotifications.length} stock notifications for ${title}`
+  );
+  return successCount;
+}
+
+/**
+ * Send back-in-stock notifications for several products or variants, logging
+ * failures instead of throwing so the change that restocked them still
+ * succeeds.
+ */
+export async function notifyBackInStock(
+  executor: DbExecutor,
+  targets: BackInStockTarget[]
+): Promise<void> {
+  for (const target of targets) {
+    try {
+      await sendBackInStockNotifications(
+        executor,
+        target.product,
+        target.variant
+      );
+    } catch (error) {
+      console.error("Error sending stock notifications:", error);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Tax utilities
+ * Pure helpers shared by the admin tax screens and the server-side tax engine.
+ */
+
+export type TaxCategory = "standard" | "reduced" | "exempt";
+
+export const TAX_CATEGORIES: Array<{ value: TaxCategory; label: string }> = [
+  { value: "standard", label: "Standard" },
+  { value: "reduced", label: "Reduced" },
+  { value: "exempt", label: "Exempt" },
+];
+
+/**
+ * Regions are matched case-insensitively on their code, e.g. "ca" -> "CA".
+ * Returns null for a blank region so it matches country-wide rates only.
+ */
+export function normalizeTaxRegion(region?: string | null): string | null {
+  const normalized = region?.trim().toUpperCase();
+  return normalized ? normalized : null;
+}
+
+/**
+ * Human-readable rate, e.g. 0.0825 -> "8.25%"
+ */
+export function formatTaxRate(rate: number): string {
+  return `${parseFloat((rate * 100).toFixed(3))}%`;
+}
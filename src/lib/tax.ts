@@ -0,0 +1,125 @@
+import { and, eq, isNull, or } from "drizzle-orm";
+import { DbExecutor } from "./db";
+import { taxRates } from "./db/schema";
+import { normalizeTaxRegion, TaxCategory } from "./tax-utils";
+
+export interface TaxAddress {
+  country?: string | null;
+  region?: string | null;
+}
+
+export interface TaxableLine {
+  amount: number; // Line total before discounts
+  taxCategory: TaxCategory;
+}
+
+export interface TaxBreakdownLine {
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  tax: number;
+}
+
+export interface TaxCalculation {
+  tax: number;
+  breakdown: TaxBreakdownLine[];
+}
+
+type TaxRateRow = typeof taxRates.$inferSelect;
+
+/**
+ * Pick the rate for a category at an address. A region rate beats the
+ * country-wide rate, and a category without its own rate falls back to the
+ * standard rate. Exempt goods are never taxed.
+ */
+function findRate(
+  rates: TaxRateRow[],
+  region: string | null,
+  category: TaxCategory
+): TaxRateRow | null {
+  if (category === "exempt") return null;
+
+  const categories: TaxCategory[] =
+    category === "standard" ? ["standard"] : [category, "standard"];
+
+  for (const candidate of categories) {
+    const regionRate = region
+      ? rates.find(
+          (rate) => rate.tax_category === candidate && rate.region === region
+        )
+      : undefined;
+    if (regionRate) return regionRate;
+
+    const countryRate = rates.find(
+      (rate) => rate.tax_category === candidate && rate.region === null
+    );
+    if (countryRate) return countryRate;
+  }
+
+  return null;
+}
+
+/**
+ * Calculate tax for an order. Used by checkout validation and submission so
+ * the tax shown on the checkout page is the tax charged.
+ * The discount is spread across lines in proportion to their amount before
+ * rates are applied; addresses without a configured rate are not taxed.
+ */
+export async function calculateTax(
+  executor: DbExecutor,
+  address: TaxAddress,
+  lines: TaxableLine[],
+  discount: number = 0
+): Promise<TaxCalculation> {
+  const country = address.country?.trim().toUpperCase();
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+
+  if (!country || subtotal <= 0) {
+    return { tax: 0, breakdown: [] };
+  }
+
+  const region = normalizeTaxRegion(address.region);
+  const rates = await executor
+    .select()
+    .from(taxRates)
+    .where(
+      and(
+        eq(taxRates.country, country),
+        region
+          ? or(isNull(taxRates.region), eq(taxRates.region, region))
+          : isNull(taxRates.region)
+      )
+    );
+
+  const discountRatio = Math.min(Math.max(discount, 0) / subtotal, 1);
+  const byRate = new Map<string, TaxBreakdownLine>();
+
+  for (const line of lines) {
+    const rate = findRate(rates, region, line.taxCategory);
+    if (!rate) continue;
+
+    const taxableAmount = line.amount * (1 - discountRatio);
+    const rateValue = parseFloat(rate.rate);
+    const entry = byRate.get(rate.id) || {
+      name: rate.name,
+      rate: rateValue,
+      taxableAmount: 0,
+      tax: 0,
+    };
+    entry.taxableAmount += taxableAmount;
+    entry.tax += taxableAmount * rateValue;
+    byRate.set(rate.id, entry);
+  }
+
+  // Round once per rate so the breakdown adds up to the total
+  const breakdown = Array.from(byRate.values()).map((entry) => ({
+    ...entry,
+    taxableAmount: Math.round(entry.taxableAmount * 100) / 100,
+    tax: Math.round(entry.tax * 100) / 100,
+  }));
+  const tax =
+    Math.round(breakdown.reduce((sum, entry) => sum + entry.tax, 0) * 100) /
+    100;
+
+  return { tax, breakdown };
+}
@@ -1,4 +1,8 @@
 import { z } from "zod";
+import { parseFacetParam } from "./catalog-filter-utils";
+import { STORE_CURRENCY, SUPPORTED_CURRENCIES } from "./currency-utils";
+import { SALE_DISCOUNT_TYPES } from "./pricing-utils";
+import { MAX_RETURN_PHOTOS } from "./return-utils";
 
 // Product validation schemas
 export const productSchema = z.object({
@@ -53,13 +57,364 @@ export const cartItemSchema = z.object({
   quantity: z.number().int().positive("Quantity must be positive"),
 });
 
-export const promotionSchema = z.object({
-  code: z.string().min(1, "Promotion code is required"),
-  type: z.enum(["percentage", "fixed_amount", "free_shipping"]),
-  value: z.number().positive(),
-  starts_at: z.date().optional(),
-  ends_at: z.date().optional(),
-  usage_limit: z.number().int().positive().optional(),
+// Checkout stock reservation - replaces reservationId when one is given
+export const inventoryReservationSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        product_id: z.string().uuid(),
+        quantity: z
+          .number()
+          .int()
+          .positive("Quantity must be positive")
+          .max(10, "Maximum quantity is 10"),
+      })
+    )
+    .min(1, "Cart is empty")
+    .max(100, "Too many cart items"),
+});
+
+// Sign-in cart merge - the cart built in this browser before signing in
+export const cartMergeSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        product_id: z.string().uuid(),
+        quantity: z.number().int().positive("Quantity must be positive"),
+        selected_options: z.record(z.string(), z.string()).nullish(),
+      })
+    )
+    .max(100, "Too many cart items"),
+});
+
+// Cart refresh - unit_amount is the price the shopper was last shown
+export const cartRefreshSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        product_id: z.string().uuid(),
+        quantity: z.number().int().positive("Quantity must be positive"),
+        selected_options: z.record(z.string(), z.string()).nullish(),
+        unit_amount: z.number().nonnegative().nullish(),
+      })
+    )
+    .max(100, "Too many cart items"),
+});
+
+export const promotionSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .min(1, "Promotion code is required")
+      .max(50, "Promotion code must be 50 characters or less")
+      .regex(
+        /^[A-Za-z0-9_-]+$/,
+        "Promotion code can only contain letters, numbers, dashes and underscores"
+      ),
+    type: z.enum(["percentage", "fixed_amount", "free_shipping"]),
+    value: z.number().min(0),
+    starts_at: z.null().or(z.coerce.date()).optional(),
+    ends_at: z.null().or(z.coerce.date()).optional(),
+    usage_limit: z.null().or(z.number().int().positive()).optional(),
+    is_active: z.boolean().default(true),
+  })
+  .superRefine((promotion, ctx) => {
+    if (
+      promotion.type === "percentage" &&
+      (promotion.value <= 0 || promotion.value > 100)
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["value"],
+        message: "Percentage must be between 0 and 100",
+      });
+    }
+    if (promotion.type === "fixed_amount" && promotion.value <= 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["value"],
+        message: "Discount amount must be positive",
+      });
+    }
+    if (
+      promotion.starts_at &&
+      promotion.ends_at &&
+      promotion.ends_at <= promotion.starts_at
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["ends_at"],
+        message: "End date must be after start date",
+      });
+    }
+  });
+
+export const saleScheduleSchema = z
+  .object({
+    type: z.enum(SALE_DISCOUNT_TYPES),
+    value: z.number().positive("Sale value must be positive"),
+    starts_at: z.null().or(z.coerce.date()).optional(), // Now when empty
+    ends_at: z.null().or(z.coerce.date()).optional(),
+  })
+  .superRefine((sale, ctx) => {
+    if (sale.type === "percentage" && sale.value > 100) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["value"],
+        message: "Percentage must be between 0 and 100",
+      });
+    }
+    if (sale.ends_at && sale.ends_at <= (sale.starts_at || new Date())) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["ends_at"],
+        message: "End date must be after start date",
+      });
+    }
+  });
+
+export const taxRateSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  country: z
+    .string()
+    .trim()
+    .length(2, "Country must be a 2-letter code")
+    .transform((country) => country.toUpperCase()),
+  region: z
+    .null()
+    .or(
+      z
+        .string()
+        .trim()
+        .max(10, "Region must be a state or province code")
+        .transform((region) => region.toUpperCase() || null)
+    )
+    .optional(),
+  // Exempt products are never taxed, so they have no rate
+  tax_category: z.enum(["standard", "reduced"]).default("standard"),
+  rate: z
+    .number()
+    .min(0, "Rate cannot be negative")
+    .max(1, "Rate must be a fraction, e.g. 0.0825 for 8.25%"),
+});
+
+export const exchangeRateSchema = z.object({
+  currency: z
+    .string()
+    .trim()
+    .transform((currency) => currency.toUpperCase())
+    .refine(
+      (currency) =>
+        currency !== STORE_CURRENCY &&
+        SUPPORTED_CURRENCIES.some(({ code }) => code === currency),
+      "Currency is not supported or is the store currency"
+    ),
+  rate: z.number().positive("Rate must be greater than 0"),
+  // Applied to converted product prices; see CURRENCY_ROUNDING_RULES
+  rounding: z
+    .enum(["exact", "whole", "ending_99", "nearest_10"])
+    .default("exact"),
+  is_active: z.boolean().default(true),
+});
+
+export const storeCreditSchema = z.object({
+  // In the store currency, whatever currency the order was placed in
+  amount: z
+    .number()
+    .positive("Amount must be greater than 0")
+    .multipleOf(0.01, "Amount can have at most two decimal places"),
+  note: z.string().trim().max(500).optional(),
+});
+
+// Refund - amount is in the order currency. Without an amount the selected
+// items are refunded at the price they were sold for.
+export const refundSchema = z
+  .object({
+    items: z
+      .array(
+        z.object({
+          order_item_id: z.string().uuid(),
+          quantity: z.number().int().positive("Quantity must be positive"),
+        })
+      )
+      .max(100)
+      .optional(),
+    amount: z
+      .number()
+      .positive("Amount must be greater than 0")
+      .multipleOf(0.01, "Amount can have at most two decimal places")
+      .optional(),
+    reason: z.enum([
+      "requested_by_customer",
+      "damaged",
+      "wrong_item",
+      "not_received",
+      "duplicate",
+      "other",
+    ]),
+    note: z.string().trim().max(500).optional(),
+    // Only used when the refund closes the order
+    restock: z.boolean().default(true),
+  })
+  .refine(
+    (data) => data.amount !== undefined || (data.items?.length ?? 0) > 0,
+    { message: "Choose items to refund or enter an amount", path: ["amount"] }
+  );
+
+// Customer return request. Photos are URLs returned by the return photo
+// upload endpoint; guests also send the email the order was placed with.
+export const returnRequestSchema = z.object({
+  email: z.string().trim().email("Invalid email address").optional(),
+  items: z
+    .array(
+      z.object({
+        order_item_id: z.string().uuid(),
+        quantity: z.number().int().positive("Quantity must be positive"),
+      })
+    )
+    .min(1, "Choose at least one item to return")
+    .max(100),
+  reason: z.enum([
+    "damaged",
+    "wrong_item",
+    "not_as_described",
+    "no_longer_needed",
+    "other",
+  ]),
+  details: z.string().trim().max(2000).optional(),
+  photos: z
+    .array(z.string().url())
+    .max(MAX_RETURN_PHOTOS, `At most ${MAX_RETURN_PHOTOS} photos`)
+    .default([]),
+});
+
+// Admin decision on a return request; the note is emailed to the customer
+export const returnReviewSchema = z.object({
+  status: z.enum(["approved", "denied"]),
+  note: z.string().trim().max(1000).optional(),
+});
+
+// Admin shipment - one package with its tracking number. Without items,
+// everything in the order that has not shipped yet goes in the package.
+export const shipmentSchema = z.object({
+  trackingNumber: z
+    .string()
+    .trim()
+    .min(1, "Tracking number is required")
+    .max(100),
+  items: z
+    .array(
+      z.object({
+        order_item_id: z.string().uuid(),
+        quantity: z.number().int().positive("Quantity must be positive"),
+      })
+    )
+    .max(100)
+    .optional(),
+  note: z.string().trim().max(500).optional(),
+});
+
+const shippingLocationSchema = z.object({
+  country: z
+    .string()
+    .trim()
+    .length(2, "Country must be a 2-letter code")
+    .transform((country) => country.toUpperCase()),
+  region: z
+    .null()
+    .or(
+      z
+        .string()
+        .trim()
+        .max(10, "Region must be a state or province code")
+        .transform((region) => region.toUpperCase() || null)
+    )
+    .optional(),
+});
+
+export const shippingZoneSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  locations: z
+    .array(shippingLocationSchema)
+    .min(1, "Add at least one country or region"),
+});
+
+export const shippingRateSchema = z
+  .object({
+    zone_id: z.string().uuid("Invalid shipping zone"),
+    method: z.enum(["standard", "expedited", "international"]),
+    name: z.string().trim().min(1, "Name is required").max(100),
+    rate_type: z.enum(["flat", "weight", "price"]),
+    amount: z.number().min(0, "Amount cannot be negative").default(0),
+    tiers: z
+      .null()
+      .or(
+        z.array(
+          z.object({
+            min: z.number().min(0, "Tier minimum cannot be negative"),
+            amount: z.number().min(0, "Tier amount cannot be negative"),
+          })
+        )
+      )
+      .optional(),
+    free_over: z.null().or(z.number().positive()).optional(),
+    is_active: z.boolean().default(true),
+    sort_order: z.number().int().default(0),
+  })
+  .superRefine((rate, ctx) => {
+    if (rate.rate_type !== "flat") {
+      if (!rate.tiers || rate.tiers.length === 0) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["tiers"],
+          message: "Add at least one tier",
+        });
+      } else if (!rate.tiers.some((tier) => tier.min === 0)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["tiers"],
+          message: "The first tier must start at 0",
+        });
+      }
+    }
+  });
+
+// Admin category - the slug defaults to one made from the name
+export const categorySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  slug: z
+    .string()
+    .trim()
+    .max(100)
+    .regex(
+      /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+      "Slug may only contain lowercase letters, numbers and dashes"
+    )
+    .optional(),
+  description: z
+    .string()
+    .trim()
+    .max(1000)
+    .nullable()
+    .optional()
+    .transform((description) => description || null),
+  thumbnail: z.string().url("Thumbnail must be a URL").nullable().optional(),
+  parent_id: z.string().uuid("Invalid parent category").nullable().optional(),
+});
+
+// Admin category tree arrangement after a drag-and-drop
+export const categoryPlacementsSchema = z.object({
+  placements: z
+    .array(
+      z.object({
+        id: z.string().uuid(),
+        parent_id: z.string().uuid().nullable(),
+        sort_order: z.number().int().nonnegative(),
+      })
+    )
+    .min(1)
+    .max(1000),
 });
 
 // Password validation schema
@@ -90,6 +445,11 @@ export const registerSchema = z.object({
 });
 
 // Search validation
+const facetParamSchema = z
+  .union([z.string(), z.array(z.string())])
+  .optional()
+  .transform(parseFacetParam);
+
 export const searchSchema = z.object({
   q: z.string().optional(),
   page: z.coerce.number().int().positive().default(1),
@@ -98,6 +458,12 @@ export const searchSchema = z.object({
     .enum(["relevance", "price_asc", "price_desc", "newest"])
     .default("relevance"),
   in_stock_only: z.coerce.boolean().default(false),
-  category: z.string().optional(),
-  filters: z.record(z.string(), z.any()).optional(),
+  // Current price bounds in the visitor's currency
+  min_price: z.coerce.number().nonnegative().optional(),
+  max_price: z.coerce.number().nonnegative().optional(),
+  // Facets - comma-separated, see CATALOG_FILTER_PARAMS
+  category: facetParamSchema,
+  tags: facetParamSchema,
+  options: facetParamSchema,
+  price_bands: facetParamSchema,
 });
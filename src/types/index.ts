@@ -35,6 +35,7 @@ export interface ProductOptionValue {
   price_adjustment: number;
   is_default: boolean;
   is_sold_out: boolean;
+  quantity_available: number | null;
   sort_order: number;
   created_at: Date;
 }
@@ -119,6 +120,7 @@ export interface Promotion {
   ends_at?: Date;
   usage_limit?: number;
   used: number;
+  is_active: boolean;
 }
 
 // API Response types